@@ -20,10 +20,14 @@ import { ApplicationDetailPage } from './pages/applications/ApplicationDetailPag
 import { FormsPage } from './pages/forms/FormsPage';
 import { FormBuilderPage } from './pages/forms/FormBuilderPage';
 import { FormSubmissionsPage } from './pages/forms/FormSubmissionsPage';
+import { FormFillPage } from './pages/forms/FormFillPage';
+import { PublicFormPage } from './pages/forms/PublicFormPage';
+import { PublicReceiptPage } from './pages/forms/PublicReceiptPage';
 import { ReportsPage } from './pages/reports/ReportsPage';
 import { ReportBuilderPage } from './pages/reports/ReportBuilderPage';
 import { WorkflowsPage } from './pages/workflows/WorkflowsPage';
 import { WorkflowBuilderPage } from './pages/workflows/WorkflowBuilderPage';
+import { InboxPage } from './pages/workflows/InboxPage';
 import { UsersPage } from './pages/users/UsersPage';
 import { SettingsPage } from './pages/settings/SettingsPage';
 import { ProfilePage } from './pages/profile/ProfilePage';
@@ -100,6 +104,11 @@ function App() {
         </PublicRoute>
       } />
 
+      {/* Public form links, open with or without signing in */}
+      <Route path="/f/:slug" element={<PublicFormPage />} />
+
+      <Route path="/receipts/:submissionId" element={<PublicReceiptPage />} />
+
       {/* Protected Routes */}
       <Route path="/dashboard" element={
         <ProtectedRoute>
@@ -149,6 +158,14 @@ function App() {
         </ProtectedRoute>
       } />
 
+      <Route path="/applications/:applicationId/forms/:formId/fill" element={
+        <ProtectedRoute>
+          <DashboardLayout>
+            <FormFillPage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+
       <Route path="/applications/:applicationId/forms/:formId/submissions" element={
         <ProtectedRoute>
           <DashboardLayout>
@@ -173,6 +190,14 @@ function App() {
         </ProtectedRoute>
       } />
 
+      <Route path="/applications/:applicationId/reports/builder/:reportId" element={
+        <ProtectedRoute>
+          <DashboardLayout>
+            <ReportBuilderPage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+
       <Route path="/applications/:applicationId/workflows" element={
         <ProtectedRoute>
           <DashboardLayout>
@@ -189,6 +214,22 @@ function App() {
         </ProtectedRoute>
       } />
 
+      <Route path="/applications/:applicationId/workflows/builder/:workflowId" element={
+        <ProtectedRoute>
+          <DashboardLayout>
+            <WorkflowBuilderPage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+
+      <Route path="/inbox" element={
+        <ProtectedRoute>
+          <DashboardLayout>
+            <InboxPage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+
       <Route path="/users" element={
         <ProtectedRoute>
           <DashboardLayout>
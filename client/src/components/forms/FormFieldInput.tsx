@@ -0,0 +1,409 @@
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { Minus, Plus, Upload } from 'lucide-react';
+import { getFieldStates, type ConditionalLogic } from '../../lib/conditionalLogic';
+import { computeFormulaValues } from '../../lib/formula';
+import { LAYOUT_FIELD_TYPES } from '../../lib/formLayout';
+import api, { getErrorResponse } from '../../lib/api';
+import toast from 'react-hot-toast';
+
+export interface RenderedField {
+  id: string;
+  type: string;
+  name: string;
+  label: string;
+  required?: boolean;
+  validation?: any;
+  options?: any;
+  conditionalLogic?: ConditionalLogic;
+  fields?: RenderedField[];
+  layout?: { colSpan?: number };
+}
+
+// The form a field belongs to, for lookups and file uploads
+export interface FieldContext {
+  formId: string;
+  applicationId: string;
+  // Filled in through a public link, without signing in
+  isPublic?: boolean;
+}
+
+interface FormFieldInputProps {
+  field: RenderedField;
+  value: any;
+  onChange: (value: any) => void;
+  context: FieldContext;
+  disabled?: boolean;
+  required?: boolean;
+  errors?: Record<string, string>;
+  // Error path of this field, e.g. items[0].qty inside a repeater row
+  path?: string;
+}
+
+interface LookupOption {
+  submissionId: string;
+  value: any;
+  label: string;
+}
+
+const LookupInput: React.FC<FormFieldInputProps> = ({ field, value, onChange, context, disabled, required }) => {
+  const [search, setSearch] = useState('');
+  const { data, isLoading } = useQuery<{ data: { options: LookupOption[] } }>(
+    ['lookup-options', context.formId, field.id, search],
+    () => api.get(`/forms/${context.formId}/lookup/${field.id}`, {
+      params: { search: search || undefined, limit: 20 }
+    }).then(res => res.data),
+    { keepPreviousData: true, enabled: !disabled }
+  );
+  const options = data?.data?.options || [];
+  const selectedId = typeof value === 'string' ? value : value?.submissionId;
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        className="input w-full"
+        placeholder="Search..."
+        disabled={disabled}
+      />
+      <select
+        value={selectedId || ''}
+        onChange={(e) => {
+          const option = options.find(item => item.submissionId === e.target.value);
+          onChange(option || (e.target.value ? { submissionId: e.target.value } : ''));
+        }}
+        className="select w-full"
+        disabled={disabled || isLoading}
+        required={required}
+      >
+        <option value="">Select a record</option>
+        {/* Keep the current choice selectable when it is outside the search results */}
+        {selectedId && !options.some(option => option.submissionId === selectedId) && (
+          <option value={selectedId}>{value?.label ?? selectedId}</option>
+        )}
+        {options.map(option => (
+          <option key={option.submissionId} value={option.submissionId}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+const FileInput: React.FC<FormFieldInputProps> = ({ field, value, onChange, context, disabled }) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const multiple = Boolean(field.validation?.multiple || field.validation?.maxFiles > 1);
+  const fileIds: string[] = value ? [].concat(value) : [];
+
+  const upload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsUploading(true);
+    try {
+      const body = new FormData();
+      Array.from(files).forEach(file => body.append(multiple ? 'files' : 'file', file));
+      body.append('applicationId', context.applicationId);
+      body.append('formId', context.formId);
+      body.append('fieldId', field.id);
+
+      const response = await api.post(multiple ? '/files/upload-multiple' : '/files/upload', body, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      const uploaded = response.data.data.files.map((file: any) => file.id || file._id);
+      onChange(multiple ? [...fileIds, ...uploaded] : uploaded[0]);
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || 'Failed to upload file');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block border-2 border-dashed border-gray-300 rounded-lg p-6 text-center cursor-pointer hover:border-gray-400">
+        <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+        <p className="text-sm text-gray-600">{isUploading ? 'Uploading...' : 'Click to upload'}</p>
+        <input
+          type="file"
+          className="hidden"
+          multiple={multiple}
+          accept={field.type === 'image' ? 'image/*' : undefined}
+          disabled={disabled || isUploading}
+          onChange={(e) => upload(e.target.files)}
+        />
+      </label>
+      {fileIds.length > 0 && (
+        <ul className="text-sm text-gray-600 space-y-1">
+          {fileIds.map(fileId => (
+            <li key={fileId} className="flex items-center justify-between">
+              <span className="truncate">{fileId}</span>
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => onChange(multiple ? fileIds.filter(id => id !== fileId) : '')}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  <Minus className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Input for a single field of a form being filled in. Repeater rows render
+ * their sub-fields through this component again, each row with its own
+ * conditional logic and formula scope.
+ */
+export const FormFieldInput: React.FC<FormFieldInputProps> = (props) => {
+  const { field, value, onChange, context, disabled, required, errors = {}, path = field.name } = props;
+  const choices: { label: string; value: string }[] = field.options?.choices || [];
+  const commonProps = {
+    className: 'input w-full',
+    placeholder: field.options?.placeholder || `Enter ${field.label.toLowerCase()}`,
+    disabled,
+    required,
+    value: value ?? '',
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => onChange(e.target.value)
+  };
+
+  switch (field.type) {
+    case 'text':
+    case 'password':
+    case 'email':
+    case 'tel':
+    case 'url':
+      return <input type={field.type} {...commonProps} />;
+
+    case 'textarea':
+      return <textarea {...commonProps} className="textarea w-full" rows={3} />;
+
+    case 'number':
+      return (
+        <input
+          type="number"
+          {...commonProps}
+          onChange={(e) => onChange(e.target.value === '' ? '' : Number(e.target.value))}
+        />
+      );
+
+    case 'select':
+      return (
+        <select {...commonProps} className="select w-full">
+          <option value="">Select an option</option>
+          {choices.map(choice => (
+            <option key={choice.value} value={choice.value}>{choice.label}</option>
+          ))}
+        </select>
+      );
+
+    case 'multiselect':
+      return (
+        <select
+          multiple
+          className="select w-full"
+          disabled={disabled}
+          value={Array.isArray(value) ? value : []}
+          onChange={(e) => onChange(Array.from(e.target.selectedOptions).map(option => option.value))}
+        >
+          {choices.map(choice => (
+            <option key={choice.value} value={choice.value}>{choice.label}</option>
+          ))}
+        </select>
+      );
+
+    case 'radio':
+      return (
+        <div className="space-y-2">
+          {choices.map(choice => (
+            <label key={choice.value} className="flex items-center">
+              <input
+                type="radio"
+                name={path}
+                value={choice.value}
+                checked={value === choice.value}
+                onChange={() => onChange(choice.value)}
+                disabled={disabled}
+                className="mr-2"
+              />
+              {choice.label}
+            </label>
+          ))}
+        </div>
+      );
+
+    case 'checkbox': {
+      // A checkbox without choices is a single boolean toggle
+      if (choices.length === 0) {
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            disabled={disabled}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+        );
+      }
+      const selected: string[] = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-2">
+          {choices.map(choice => (
+            <label key={choice.value} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={selected.includes(choice.value)}
+                onChange={(e) => onChange(e.target.checked
+                  ? [...selected, choice.value]
+                  : selected.filter(item => item !== choice.value))}
+                disabled={disabled}
+                className="mr-2"
+              />
+              {choice.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'date':
+      return <input type="date" {...commonProps} />;
+
+    case 'time':
+      return <input type="time" {...commonProps} />;
+
+    case 'datetime':
+      return <input type="datetime-local" {...commonProps} />;
+
+    case 'daterange':
+      return (
+        <div className="flex items-center space-x-2">
+          <input
+            type="date"
+            className="input flex-1"
+            value={value?.start || ''}
+            onChange={(e) => onChange({ ...value, start: e.target.value })}
+            disabled={disabled}
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            className="input flex-1"
+            value={value?.end || ''}
+            onChange={(e) => onChange({ ...value, end: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      );
+
+    case 'file':
+    case 'image':
+      // Uploads and lookups need an account
+      if (context.isPublic) {
+        return <p className="text-sm text-gray-500">Sign in to upload files.</p>;
+      }
+      return <FileInput {...props} />;
+
+    case 'formula':
+      return (
+        <input
+          type="text"
+          className="input w-full bg-gray-50"
+          value={value ?? ''}
+          placeholder="Calculated automatically"
+          readOnly
+        />
+      );
+
+    case 'lookup':
+      if (context.isPublic) {
+        return <p className="text-sm text-gray-500">Sign in to choose a record.</p>;
+      }
+      return <LookupInput {...props} />;
+
+    case 'repeater': {
+      const subFields = (field.fields || []).filter(sub => !LAYOUT_FIELD_TYPES.includes(sub.type));
+      const rows: Record<string, any>[] = Array.isArray(value) ? value : [];
+      const minRows = field.validation?.minRows ?? 0;
+      const maxRows = field.validation?.maxRows;
+      const updateRow = (index: number, name: string, rowValue: any) =>
+        onChange(rows.map((row, i) => i === index ? { ...row, [name]: rowValue } : row));
+
+      return (
+        <div className="space-y-3">
+          {rows.map((row, index) => {
+            const rowValues = computeFormulaValues(subFields, row);
+            const rowStates = getFieldStates(subFields, rowValues);
+            return (
+              <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-700">Row {index + 1}</span>
+                  {!disabled && rows.length > minRows && (
+                    <button
+                      type="button"
+                      onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+                {subFields
+                  .filter(sub => rowStates[sub.name]?.visible !== false)
+                  .map(sub => {
+                    const subPath = `${path}[${index}].${sub.name}`;
+                    return (
+                      <div key={sub.id} className="form-group">
+                        <label className="form-label">
+                          {sub.label}
+                          {rowStates[sub.name]?.required && <span className="text-red-500 ml-1">*</span>}
+                        </label>
+                        <FormFieldInput
+                          field={sub}
+                          value={rowValues[sub.name]}
+                          onChange={(subValue) => updateRow(index, sub.name, subValue)}
+                          context={context}
+                          disabled={disabled || rowStates[sub.name]?.disabled}
+                          required={rowStates[sub.name]?.required}
+                          errors={errors}
+                          path={subPath}
+                        />
+                        {errors[subPath] && <p className="text-sm text-red-600 mt-1">{errors[subPath]}</p>}
+                      </div>
+                    );
+                  })}
+              </div>
+            );
+          })}
+          {!disabled && (maxRows === undefined || rows.length < maxRows) && (
+            <button
+              type="button"
+              onClick={() => onChange([...rows, {}])}
+              className="btn btn-outline btn-sm"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Row
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    case 'heading':
+      return <h3 className="text-lg font-semibold text-gray-900">{field.label}</h3>;
+
+    case 'divider':
+      return <hr className="border-gray-300" />;
+
+    case 'html':
+    case 'section':
+      return field.options?.content ? <p className="text-gray-600">{field.options.content}</p> : null;
+
+    default:
+      return <input type="text" {...commonProps} />;
+  }
+};
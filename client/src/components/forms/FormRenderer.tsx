@@ -0,0 +1,382 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Save, Send } from 'lucide-react';
+import { getFieldStates } from '../../lib/conditionalLogic';
+import { computeFormulaValues } from '../../lib/formula';
+import {
+  getFormPages,
+  getPageStates,
+  getSkippedFieldNames,
+  isMultiPage,
+  type FormPage
+} from '../../lib/formPages';
+import {
+  LAYOUT_FIELD_TYPES,
+  columnSpanStyle,
+  getColumnSpan,
+  getLayoutColumns,
+  gridStyle
+} from '../../lib/formLayout';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { FormFieldInput, type FieldContext, type RenderedField } from './FormFieldInput';
+
+export interface RenderedForm {
+  formId: string;
+  applicationId: string;
+  name: string;
+  description?: string;
+  structure: {
+    fields: RenderedField[];
+    layout?: string;
+    sections?: any[];
+    multiPage?: boolean;
+  };
+  settings?: {
+    allowDrafts?: boolean;
+    submitButtonText?: string;
+    successMessage?: string;
+    redirectUrl?: string;
+  };
+}
+
+export interface SubmissionError {
+  field: string;
+  message: string;
+}
+
+interface FormRendererProps {
+  form: RenderedForm;
+  initialValues?: Record<string, any>;
+  initialPage?: string;
+  // Errors returned by the server, keyed by field path
+  errors?: SubmissionError[];
+  isSubmitting?: boolean;
+  onSubmit: (values: Record<string, any>) => void;
+  // Present when the form accepts drafts; also called on every "Next"
+  onSaveDraft?: (values: Record<string, any>, pageId: string) => Promise<void> | void;
+  isPublic?: boolean;
+}
+
+const isEmpty = (value: any) => (
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0)
+);
+
+// The top-level field a path such as items[0].qty belongs to
+const rootFieldName = (path: string) => path.split(/[.[]/)[0];
+
+// Row-level formulas first, so form-level formulas such as SUM(items.total) see them
+const computeValues = (fields: RenderedField[], values: Record<string, any>) => {
+  const withRows = { ...values };
+  fields
+    .filter(field => field.type === 'repeater' && Array.isArray(values[field.name]))
+    .forEach(field => {
+      withRows[field.name] = values[field.name].map((row: Record<string, any>) =>
+        computeFormulaValues(field.fields || [], row)
+      );
+    });
+  return computeFormulaValues(fields, withRows);
+};
+
+/**
+ * Renders a form for filling in. Multi-page forms show one page at a time
+ * with a progress indicator; "Next" only proceeds once the required fields
+ * of the page are filled, and pages whose conditions are not met are
+ * skipped. Value formats are checked by the server when a draft is saved or
+ * the form is submitted; its errors are shown on the page they belong to.
+ */
+export const FormRenderer: React.FC<FormRendererProps> = ({
+  form,
+  initialValues = {},
+  initialPage,
+  errors: serverErrors = [],
+  isSubmitting = false,
+  onSubmit,
+  onSaveDraft,
+  isPublic = false
+}) => {
+  const [values, setValues] = useState<Record<string, any>>(initialValues);
+  const [currentPageId, setCurrentPageId] = useState<string | undefined>(initialPage);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+
+  const { structure } = form;
+  const context: FieldContext = { formId: form.formId, applicationId: form.applicationId, isPublic };
+  const columns = getLayoutColumns(structure.layout);
+  const multiPage = isMultiPage(structure);
+
+  const computedValues = computeValues(structure.fields, values);
+  const fieldStates = getFieldStates(structure.fields, computedValues);
+  const pages = getFormPages(structure);
+  const pageStates = getPageStates(pages, computedValues);
+  const visiblePages = pages.filter(page => pageStates[page.id]?.visible !== false);
+  const pageIndex = Math.max(0, visiblePages.findIndex(page => page.id === currentPageId));
+  const currentPage = visiblePages[pageIndex];
+  const isLastPage = pageIndex >= visiblePages.length - 1;
+
+  // Show server errors and jump to the first page that has one
+  useEffect(() => {
+    if (serverErrors.length === 0) return;
+
+    setErrors(Object.fromEntries(serverErrors.map(error => [error.field, error.message])));
+    const names = new Set(serverErrors.map(error => rootFieldName(error.field)));
+    const page = visiblePages.find(candidate => candidate.fields.some(field => names.has(field.name)));
+    if (page) {
+      setCurrentPageId(page.id);
+    }
+  }, [serverErrors]);
+
+  const setValue = (name: string, value: any) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+    setErrors(prev => {
+      const next = { ...prev };
+      Object.keys(next)
+        .filter(path => rootFieldName(path) === name)
+        .forEach(path => delete next[path]);
+      return next;
+    });
+  };
+
+  // Required fields and repeater row minimums of the visible fields on a page
+  const validatePage = (page: FormPage<RenderedField>) => {
+    const pageErrors: Record<string, string> = {};
+
+    page.fields
+      .filter(field => !LAYOUT_FIELD_TYPES.includes(field.type) && field.type !== 'formula')
+      .filter(field => fieldStates[field.name]?.visible !== false)
+      .forEach(field => {
+        const value = values[field.name];
+        if (isEmpty(value)) {
+          if (fieldStates[field.name]?.required) {
+            pageErrors[field.name] = `${field.label} is required`;
+          }
+          return;
+        }
+
+        if (field.type !== 'repeater' || !Array.isArray(value)) return;
+
+        const minRows = field.validation?.minRows;
+        if (minRows !== undefined && value.length < minRows) {
+          pageErrors[field.name] = `${field.label} requires at least ${minRows} rows`;
+        }
+
+        const subFields = (field.fields || []).filter(sub => !LAYOUT_FIELD_TYPES.includes(sub.type));
+        value.forEach((row: Record<string, any>, index: number) => {
+          const rowStates = getFieldStates(subFields, computeFormulaValues(subFields, row));
+          subFields
+            .filter(sub => sub.type !== 'formula' && rowStates[sub.name]?.required && isEmpty(row?.[sub.name]))
+            .forEach(sub => {
+              pageErrors[`${field.name}[${index}].${sub.name}`] = `${sub.label} is required`;
+            });
+        });
+      });
+
+    setErrors(pageErrors);
+    return Object.keys(pageErrors).length === 0;
+  };
+
+  // Values of skipped pages are not sent, the server would drop them anyway
+  const getSubmittedValues = () => {
+    const skipped = new Set(getSkippedFieldNames(structure, computedValues));
+    return Object.fromEntries(Object.entries(values).filter(([name]) => !skipped.has(name)));
+  };
+
+  const saveDraft = async (pageId: string) => {
+    if (!onSaveDraft) return true;
+
+    setIsSavingDraft(true);
+    try {
+      await onSaveDraft(getSubmittedValues(), pageId);
+      return true;
+    } catch (error) {
+      return false;
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+
+  const goNext = async () => {
+    if (!currentPage || !validatePage(currentPage)) return;
+
+    const nextPage = visiblePages[pageIndex + 1];
+    if (nextPage && await saveDraft(nextPage.id)) {
+      setCurrentPageId(nextPage.id);
+      window.scrollTo({ top: 0 });
+    }
+  };
+
+  const goBack = () => {
+    const previousPage = visiblePages[pageIndex - 1];
+    if (previousPage) {
+      setErrors({});
+      setCurrentPageId(previousPage.id);
+      window.scrollTo({ top: 0 });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isLastPage) {
+      goNext();
+      return;
+    }
+
+    const invalidPage = visiblePages.find(page => !validatePage(page));
+    if (invalidPage) {
+      setCurrentPageId(invalidPage.id);
+      return;
+    }
+
+    onSubmit(getSubmittedValues());
+  };
+
+  const renderFields = (fields: RenderedField[]) => {
+    const visibleFields = fields.filter(field => fieldStates[field.name]?.visible !== false);
+    if (visibleFields.length === 0) return null;
+
+    return (
+      <div className="grid gap-6" style={gridStyle(columns)}>
+        {visibleFields.map(field => {
+          const isLayoutField = LAYOUT_FIELD_TYPES.includes(field.type);
+          return (
+            <div
+              key={field.id}
+              className="form-group"
+              style={columnSpanStyle(getColumnSpan(field, columns))}
+            >
+              {!isLayoutField && (
+                <label className="form-label">
+                  {field.label}
+                  {fieldStates[field.name]?.required && <span className="text-red-500 ml-1">*</span>}
+                </label>
+              )}
+              <FormFieldInput
+                field={field}
+                value={computedValues[field.name]}
+                onChange={(value) => setValue(field.name, value)}
+                context={context}
+                disabled={fieldStates[field.name]?.disabled || isSubmitting}
+                required={fieldStates[field.name]?.required}
+                errors={errors}
+              />
+              {errors[field.name] && <p className="text-sm text-red-600 mt-1">{errors[field.name]}</p>}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Single-page forms still group fields under their section titles
+  const renderSinglePage = () => {
+    const byId = new Map(structure.fields.map(field => [field.id, field]));
+    const sectioned = new Set<string>();
+    const sections = (structure.sections || []).map(section => {
+      const fields: RenderedField[] = [];
+      (section.fieldIds || []).forEach((id: string) => {
+        const field = byId.get(id);
+        if (field && !sectioned.has(id)) {
+          sectioned.add(id);
+          fields.push(field);
+        }
+      });
+      return { section, fields };
+    });
+
+    return (
+      <div className="space-y-8">
+        {renderFields(structure.fields.filter(field => !sectioned.has(field.id)))}
+        {sections.map(({ section, fields }) => (
+          <div key={section.id} className="space-y-4">
+            <div className="border-b border-gray-200 pb-2">
+              <h2 className="text-lg font-semibold text-gray-900">{section.title}</h2>
+              {section.description && <p className="text-sm text-gray-600">{section.description}</p>}
+            </div>
+            {renderFields(fields)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const busy = isSubmitting || isSavingDraft;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+      {multiPage && (
+        <div>
+          <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+            <span>Step {pageIndex + 1} of {visiblePages.length}</span>
+            {currentPage?.title && <span className="font-medium text-gray-900">{currentPage.title}</span>}
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all"
+              style={{ width: `${((pageIndex + 1) / visiblePages.length) * 100}%` }}
+            />
+          </div>
+          <ol className="flex flex-wrap gap-2 mt-3">
+            {visiblePages.map((page, index) => (
+              <li
+                key={page.id}
+                className={`text-xs px-2 py-1 rounded-full ${
+                  index === pageIndex
+                    ? 'bg-blue-100 text-blue-700'
+                    : index < pageIndex
+                      ? 'bg-green-100 text-green-700'
+                      : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {page.title || `Step ${index + 1}`}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {multiPage && currentPage ? (
+        <div className="space-y-4">
+          {currentPage.description && <p className="text-gray-600">{currentPage.description}</p>}
+          {renderFields(currentPage.fields)}
+        </div>
+      ) : (
+        renderSinglePage()
+      )}
+
+      <div className="flex items-center justify-between pt-4">
+        <div>
+          {multiPage && pageIndex > 0 && (
+            <button type="button" onClick={goBack} disabled={busy} className="btn btn-outline">
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Back
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-3">
+          {onSaveDraft && (
+            <button
+              type="button"
+              onClick={() => saveDraft(currentPage?.id || '')}
+              disabled={busy}
+              className="btn btn-outline"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save Draft
+            </button>
+          )}
+          <button type="submit" disabled={busy} className="btn btn-primary">
+            {busy ? (
+              <LoadingSpinner size="sm" className="mr-2" />
+            ) : isLastPage ? (
+              <Send className="h-4 w-4 mr-2" />
+            ) : null}
+            {isLastPage ? form.settings?.submitButtonText || 'Submit' : 'Next'}
+            {!isLastPage && !busy && <ChevronRight className="h-4 w-4 ml-1" />}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
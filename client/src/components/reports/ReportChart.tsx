@@ -0,0 +1,163 @@
+import React from 'react';
+import { useQuery } from 'react-query';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  AreaChart,
+  Area,
+  PieChart,
+  Pie,
+  Cell,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend
+} from 'recharts';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import {
+  ReportChart as ReportChartSettings,
+  ReportChartData,
+  REPORT_CHART_COLORS,
+  buildReportChartData
+} from '../../lib/reportCharts';
+import api from '../../lib/api';
+
+const colorOf = (index: number) => REPORT_CHART_COLORS[index % REPORT_CHART_COLORS.length];
+
+const formatValue = (value: unknown) => (typeof value === 'number'
+  ? value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+  : '-');
+
+interface ReportChartProps {
+  chart: ReportChartData;
+  height?: number;
+}
+
+/**
+ * Draws what buildReportChartData makes of a report, as the server does for
+ * emailed reports.
+ */
+export const ReportChart: React.FC<ReportChartProps> = ({ chart, height = 300 }) => {
+  if (chart.type === 'kpi') {
+    return (
+      <div className="text-center py-6">
+        {chart.title && <p className="text-sm font-medium text-gray-700 mb-2">{chart.title}</p>}
+        <p className="text-4xl font-bold text-gray-900">{formatValue(chart.value)}</p>
+        <p className="text-sm text-gray-500 mt-1">{chart.label}</p>
+      </div>
+    );
+  }
+
+  // recharts wants a record per category with a value per series
+  const rows = chart.categories.map((name, index) => ({
+    name,
+    ...Object.fromEntries(chart.series.map((series, seriesIndex) => [`s${seriesIndex}`, series.values[index]]))
+  }));
+  const legend = chart.series.length > 1;
+
+  const renderChart = () => {
+    switch (chart.type) {
+      case 'pie':
+        return (
+          <PieChart>
+            <Pie
+              data={chart.categories.map((name, index) => ({ name, value: chart.series[0]?.values[index] ?? 0 }))}
+              dataKey="value"
+              nameKey="name"
+              outerRadius="80%"
+            >
+              {chart.categories.map((name, index) => (
+                <Cell key={name} fill={colorOf(index)} />
+              ))}
+            </Pie>
+            <Tooltip formatter={formatValue} />
+            <Legend />
+          </PieChart>
+        );
+      case 'line':
+        return (
+          <LineChart data={rows}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis />
+            <Tooltip formatter={formatValue} />
+            {legend && <Legend />}
+            {chart.series.map((series, index) => (
+              <Line key={index} dataKey={`s${index}`} name={series.name} stroke={colorOf(index)} strokeWidth={2} />
+            ))}
+          </LineChart>
+        );
+      case 'area':
+        return (
+          <AreaChart data={rows}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis />
+            <Tooltip formatter={formatValue} />
+            {legend && <Legend />}
+            {chart.series.map((series, index) => (
+              <Area key={index} dataKey={`s${index}`} name={series.name} stroke={colorOf(index)} fill={colorOf(index)} fillOpacity={0.3} />
+            ))}
+          </AreaChart>
+        );
+      default:
+        return (
+          <BarChart data={rows}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis />
+            <Tooltip formatter={formatValue} />
+            {legend && <Legend />}
+            {chart.series.map((series, index) => (
+              <Bar key={index} dataKey={`s${index}`} name={series.name} fill={colorOf(index)} />
+            ))}
+          </BarChart>
+        );
+    }
+  };
+
+  return (
+    <div>
+      {chart.title && <p className="text-sm font-medium text-gray-700 mb-2">{chart.title}</p>}
+      <ResponsiveContainer width="100%" height={height}>
+        {renderChart()}
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+interface ReportChartWidgetProps {
+  reportId: string;
+  chart: Partial<ReportChartSettings>;
+  height?: number;
+}
+
+/**
+ * A saved report's chart, loading the report's summaries itself. Only one
+ * row is asked for; groups, pivots and aggregations cover every row.
+ */
+export const ReportChartWidget: React.FC<ReportChartWidgetProps> = ({ reportId, chart, height = 160 }) => {
+  const { data, isLoading, error } = useQuery<{ data: { reportData: any } }>(
+    ['report-chart', reportId],
+    () => api.post(`/reports/${reportId}/generate`, { limit: 1 }).then(res => res.data)
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  const chartData = error ? null : buildReportChartData(chart, data?.data?.reportData);
+  if (!chartData) {
+    return <p className="text-xs text-gray-500 py-2">Chart unavailable</p>;
+  }
+
+  return <ReportChart chart={chartData} height={height} />;
+};
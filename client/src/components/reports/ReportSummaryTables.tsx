@@ -0,0 +1,139 @@
+import React from 'react';
+import { ReportAggregationOperation, REPORT_AGGREGATION_LABELS } from '../../lib/reportFilters';
+
+export interface ReportGroup {
+  keys: Record<string, string | null>;
+  count: number;
+  aggregations: Record<string, number | null>;
+}
+
+export interface ReportPivot {
+  rowFields: string[];
+  columnField: string;
+  measure: { field: string; operation: ReportAggregationOperation };
+  columns: (string | null)[];
+  rows: { keys: (string | null)[]; values: (number | null)[]; total: number | null }[];
+  columnTotals: (number | null)[];
+  total: number | null;
+}
+
+interface ReportAggregationColumn {
+  field: string;
+  operation: ReportAggregationOperation;
+}
+
+const formatKey = (key: string | null) => key ?? '(empty)';
+
+const formatMeasure = (value: number | null) => (value === null
+  ? '-'
+  : value.toLocaleString(undefined, { maximumFractionDigits: 2 }));
+
+interface ReportGroupsTableProps {
+  groupBy: string[];
+  groups: ReportGroup[];
+  aggregations: ReportAggregationColumn[];
+  labelOf: (field: string) => string;
+}
+
+/**
+ * One row per group of a grouped report, with the group's size and
+ * aggregations. Outer group keys are only shown where they change.
+ */
+export const ReportGroupsTable: React.FC<ReportGroupsTableProps> = ({
+  groupBy,
+  groups,
+  aggregations,
+  labelOf
+}) => (
+  <table className="table">
+    <thead className="table-header">
+      <tr>
+        {groupBy.map(field => (
+          <th key={field} className="table-cell">{labelOf(field)}</th>
+        ))}
+        <th className="table-cell text-right">Rows</th>
+        {aggregations.map(({ field, operation }) => (
+          <th key={`${field}_${operation}`} className="table-cell text-right">
+            {REPORT_AGGREGATION_LABELS[operation]} of {labelOf(field)}
+          </th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {groups.map((group, index) => {
+        const previous = groups[index - 1];
+        return (
+          <tr key={index} className="table-row">
+            {groupBy.map((field, level) => {
+              const repeated = previous && groupBy.slice(0, level + 1).every(outer => previous.keys[outer] === group.keys[outer]);
+              return (
+                <td key={field} className="table-cell">
+                  {repeated ? '' : formatKey(group.keys[field])}
+                </td>
+              );
+            })}
+            <td className="table-cell text-right">{group.count}</td>
+            {aggregations.map(({ field, operation }) => (
+              <td key={`${field}_${operation}`} className="table-cell text-right">
+                {formatMeasure(group.aggregations[`${field}_${operation}`])}
+              </td>
+            ))}
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
+
+interface ReportPivotTableProps {
+  pivot: ReportPivot;
+  labelOf: (field: string) => string;
+}
+
+/**
+ * A pivoted report: the row fields down the side, a column per value of the
+ * column field and the measure in each cell, with row and column totals.
+ */
+export const ReportPivotTable: React.FC<ReportPivotTableProps> = ({ pivot, labelOf }) => (
+  <table className="table">
+    <thead className="table-header">
+      <tr>
+        <th colSpan={pivot.rowFields.length} className="table-cell">
+          {REPORT_AGGREGATION_LABELS[pivot.measure.operation]} of {labelOf(pivot.measure.field)}
+        </th>
+        <th colSpan={pivot.columns.length + 1} className="table-cell text-center">
+          {labelOf(pivot.columnField)}
+        </th>
+      </tr>
+      <tr>
+        {pivot.rowFields.map(field => (
+          <th key={field} className="table-cell">{labelOf(field)}</th>
+        ))}
+        {pivot.columns.map((column, index) => (
+          <th key={index} className="table-cell text-right">{formatKey(column)}</th>
+        ))}
+        <th className="table-cell text-right">Total</th>
+      </tr>
+    </thead>
+    <tbody>
+      {pivot.rows.map((row, index) => (
+        <tr key={index} className="table-row">
+          {row.keys.map((key, level) => (
+            <td key={level} className="table-cell">{formatKey(key)}</td>
+          ))}
+          {row.values.map((value, column) => (
+            <td key={column} className="table-cell text-right">{formatMeasure(value)}</td>
+          ))}
+          <td className="table-cell text-right font-medium">{formatMeasure(row.total)}</td>
+        </tr>
+      ))}
+      <tr className="table-row font-medium">
+        <td colSpan={pivot.rowFields.length} className="table-cell">Total</td>
+        {pivot.columnTotals.map((value, column) => (
+          <td key={column} className="table-cell text-right">{formatMeasure(value)}</td>
+        ))}
+        <td className="table-cell text-right">{formatMeasure(pivot.total)}</td>
+      </tr>
+    </tbody>
+  </table>
+);
@@ -0,0 +1,320 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import { X, Send } from 'lucide-react';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { formatDate } from '../../lib/utils';
+import api, { getErrorResponse } from '../../lib/api';
+import toast from 'react-hot-toast';
+
+export interface ReportSchedule {
+  enabled: boolean;
+  frequency: 'daily' | 'weekly' | 'monthly' | 'cron';
+  cron?: string;
+  time?: string;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  timezone?: string;
+  format?: 'csv' | 'xlsx';
+  recipients: string[];
+}
+
+interface ReportRun {
+  runId: string;
+  trigger: 'schedule' | 'manual';
+  status: 'success' | 'failed';
+  format: string;
+  recipients: string[];
+  failedRecipients: string[];
+  total?: number;
+  error?: string;
+  startedAt: string;
+}
+
+interface ScheduleReportModalProps {
+  reportId: string;
+  reportName: string;
+  schedule?: Partial<ReportSchedule>;
+  onClose: () => void;
+}
+
+const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+const timezones: string[] = (Intl as any).supportedValuesOf?.('timeZone') || [];
+
+/**
+ * Dialog for a report's email delivery schedule, with its next run and the
+ * history of past deliveries.
+ */
+export const ScheduleReportModal: React.FC<ScheduleReportModalProps> = ({
+  reportId,
+  reportName,
+  schedule,
+  onClose
+}) => {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ReportSchedule>({
+    enabled: schedule?.enabled ?? true,
+    frequency: schedule?.frequency || 'daily',
+    cron: schedule?.cron || '',
+    time: schedule?.time || '08:00',
+    dayOfWeek: schedule?.dayOfWeek ?? 1,
+    dayOfMonth: schedule?.dayOfMonth ?? 1,
+    timezone: schedule?.timezone || browserTimezone,
+    format: schedule?.format || 'csv',
+    recipients: schedule?.recipients || []
+  });
+  const [recipientText, setRecipientText] = useState((schedule?.recipients || []).join(', '));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const { data: runsData, isLoading: runsLoading } = useQuery<{ data: { runs: ReportRun[]; nextRunAt: string | null } }>(
+    ['report-runs', reportId],
+    () => api.get(`/reports/${reportId}/runs`, { params: { limit: 10 } }).then(res => res.data)
+  );
+
+  const runs = runsData?.data?.runs || [];
+  const nextRunAt = runsData?.data?.nextRunAt;
+
+  const update = (changes: Partial<ReportSchedule>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const recipients = () => recipientText.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean);
+
+  const refresh = () => {
+    queryClient.invalidateQueries(['report-runs', reportId]);
+    queryClient.invalidateQueries('reports');
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await api.post(`/reports/${reportId}/schedule`, {
+        schedule: { ...form, recipients: recipients() }
+      });
+      toast.success(response.data.message);
+      refresh();
+    } catch (error) {
+      const response = getErrorResponse(error);
+      setErrors(response?.data?.errors || []);
+      toast.error(response?.data?.message || 'Failed to save schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const sendNow = async () => {
+    setIsSending(true);
+    try {
+      const response = await api.post(`/reports/${reportId}/deliver`);
+      if (response.data.success) {
+        toast.success(response.data.message);
+      } else {
+        toast.error(response.data.message);
+      }
+      refresh();
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || 'Failed to deliver report');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Schedule: {reportName}</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={save} className="space-y-4">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+            />
+            <span className="text-sm font-medium text-gray-700">Email this report on a schedule</span>
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="form-group">
+              <label className="form-label">Frequency</label>
+              <select
+                value={form.frequency}
+                onChange={(e) => update({ frequency: e.target.value as ReportSchedule['frequency'] })}
+                className="select w-full"
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+                <option value="cron">Custom (cron)</option>
+              </select>
+            </div>
+
+            {form.frequency === 'cron' ? (
+              <div className="form-group">
+                <label className="form-label">Cron Expression</label>
+                <input
+                  type="text"
+                  value={form.cron}
+                  onChange={(e) => update({ cron: e.target.value })}
+                  className="input w-full font-mono"
+                  placeholder="0 8 * * 1-5"
+                />
+                <p className="form-help">minute hour day-of-month month day-of-week</p>
+              </div>
+            ) : (
+              <div className="form-group">
+                <label className="form-label">Time</label>
+                <input
+                  type="time"
+                  value={form.time}
+                  onChange={(e) => update({ time: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+            )}
+
+            {form.frequency === 'weekly' && (
+              <div className="form-group">
+                <label className="form-label">Day of Week</label>
+                <select
+                  value={form.dayOfWeek}
+                  onChange={(e) => update({ dayOfWeek: parseInt(e.target.value) })}
+                  className="select w-full"
+                >
+                  {DAYS_OF_WEEK.map((day, index) => (
+                    <option key={day} value={index}>{day}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {form.frequency === 'monthly' && (
+              <div className="form-group">
+                <label className="form-label">Day of Month</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={28}
+                  value={form.dayOfMonth}
+                  onChange={(e) => update({ dayOfMonth: parseInt(e.target.value) })}
+                  className="input w-full"
+                />
+              </div>
+            )}
+
+            <div className="form-group">
+              <label className="form-label">Timezone</label>
+              <input
+                type="text"
+                list="report-schedule-timezones"
+                value={form.timezone}
+                onChange={(e) => update({ timezone: e.target.value })}
+                className="input w-full"
+              />
+              <datalist id="report-schedule-timezones">
+                {timezones.map(timezone => (
+                  <option key={timezone} value={timezone} />
+                ))}
+              </datalist>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Attachment</label>
+              <select
+                value={form.format}
+                onChange={(e) => update({ format: e.target.value as ReportSchedule['format'] })}
+                className="select w-full"
+              >
+                <option value="csv">CSV</option>
+                <option value="xlsx">Excel (XLSX)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label">Recipients</label>
+            <textarea
+              value={recipientText}
+              onChange={(e) => setRecipientText(e.target.value)}
+              className="textarea w-full"
+              rows={2}
+              placeholder="alice@example.com, bob@example.com"
+            />
+            <p className="form-help">Separate email addresses with commas or new lines</p>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600 list-disc list-inside">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {nextRunAt ? `Next delivery ${new Date(nextRunAt).toLocaleString()}` : 'No delivery scheduled'}
+            </p>
+            <div className="flex space-x-2">
+              <button type="button" onClick={sendNow} disabled={isSending} className="btn btn-outline">
+                {isSending ? <LoadingSpinner size="sm" className="mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+                Send Now
+              </button>
+              <button type="submit" disabled={isSaving} className="btn btn-primary">
+                {isSaving ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+                Save Schedule
+              </button>
+            </div>
+          </div>
+        </form>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Delivery History</h4>
+          {runsLoading ? (
+            <LoadingSpinner size="sm" />
+          ) : runs.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2">When</th>
+                  <th className="py-2">Trigger</th>
+                  <th className="py-2">Records</th>
+                  <th className="py-2">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr key={run.runId} className="border-b border-gray-100 align-top">
+                    <td className="py-2">{formatDate(run.startedAt, 'relative')}</td>
+                    <td className="py-2 capitalize">{run.trigger}</td>
+                    <td className="py-2">{run.total ?? '-'}</td>
+                    <td className="py-2">
+                      <span className={run.status === 'success' ? 'badge badge-success' : 'badge badge-danger'}>
+                        {run.status === 'success' ? 'Delivered' : 'Failed'}
+                      </span>
+                      {run.failedRecipients?.length > 0 && run.status === 'success' && (
+                        <p className="text-xs text-yellow-700 mt-1">
+                          Not delivered to {run.failedRecipients.join(', ')}
+                        </p>
+                      )}
+                      {run.error && <p className="text-xs text-red-600 mt-1">{run.error}</p>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500">This report has not been delivered yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import { useForm } from 'react-hook-form';
+import { Plus, Trash2, ArrowRight } from 'lucide-react';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { useAuthStore } from '../../stores/authStore';
+import { formatDate } from '../../lib/utils';
+import api, { getErrorResponse } from '../../lib/api';
+import toast from 'react-hot-toast';
+
+interface DelegationUser {
+  _id?: string;
+  id?: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface Delegation {
+  delegationId: string;
+  // Populated on MongoDB; ids with delegatorDetails / delegateDetails on MySQL
+  delegator: DelegationUser | string;
+  delegate: DelegationUser | string;
+  delegatorDetails?: DelegationUser;
+  delegateDetails?: DelegationUser;
+  applicationId: string | null;
+  startDate: string;
+  endDate: string;
+  reason?: string;
+  isActive: boolean;
+}
+
+interface DelegationFormData {
+  delegateEmail: string;
+  applicationId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+const partyOf = (party: DelegationUser | string, details?: DelegationUser) => (
+  typeof party === 'object' ? party : details
+);
+
+const partyId = (party: DelegationUser | string) => (
+  typeof party === 'object' ? party._id || party.id : party
+);
+
+/**
+ * Out-of-office settings: hand workflow authority to another user for a
+ * period, and see who has handed theirs to you.
+ */
+export const DelegationSettings: React.FC = () => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading } = useQuery<{ data: { delegations: Delegation[] } }>(
+    ['delegations'],
+    () => api.get('/delegations').then(res => res.data)
+  );
+
+  const { data: applicationsData } = useQuery<{ data: { applications: { id: string; name: string }[] } }>(
+    ['delegation-applications'],
+    () => api.get('/applications', { params: { limit: 100 } }).then(res => res.data),
+    { enabled: showForm }
+  );
+
+  const form = useForm<DelegationFormData>({
+    defaultValues: { delegateEmail: '', applicationId: '', startDate: '', endDate: '', reason: '' }
+  });
+
+  const delegations = data?.data?.delegations || [];
+  const applications = applicationsData?.data?.applications || [];
+  const applicationName = (applicationId: string | null) => (
+    applicationId
+      ? applications.find(application => application.id === applicationId)?.name || applicationId
+      : 'All applications'
+  );
+
+  const onSubmit = async (values: DelegationFormData) => {
+    setIsSaving(true);
+    try {
+      await api.post('/delegations', {
+        ...values,
+        startDate: new Date(values.startDate).toISOString(),
+        endDate: new Date(values.endDate).toISOString()
+      });
+      toast.success('Delegation created');
+      form.reset();
+      setShowForm(false);
+      queryClient.invalidateQueries('delegations');
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || 'Failed to create delegation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const revoke = async (delegationId: string) => {
+    try {
+      await api.delete(`/delegations/${delegationId}`);
+      toast.success('Delegation revoked');
+      queryClient.invalidateQueries('delegations');
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || 'Failed to revoke delegation');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Out of Office</h3>
+          <p className="text-sm text-gray-600">
+            Let someone else approve workflow stages for you while you are away.
+          </p>
+        </div>
+        {!showForm && (
+          <button onClick={() => setShowForm(true)} className="btn btn-primary btn-sm">
+            <Plus className="h-4 w-4 mr-2" />
+            Delegate
+          </button>
+        )}
+      </div>
+      <div className="card-body space-y-6">
+        {showForm && (
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 bg-gray-50 rounded-lg p-4">
+            <div className="form-group">
+              <label className="form-label">Delegate Email</label>
+              <input
+                type="email"
+                {...form.register('delegateEmail', { required: 'Delegate email is required' })}
+                className="input w-full"
+                placeholder="colleague@example.com"
+              />
+              {form.formState.errors.delegateEmail && (
+                <p className="text-sm text-red-600">{form.formState.errors.delegateEmail.message}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="form-group">
+                <label className="form-label">From</label>
+                <input
+                  type="datetime-local"
+                  {...form.register('startDate', { required: true })}
+                  className="input w-full"
+                />
+              </div>
+              <div className="form-group">
+                <label className="form-label">Until</label>
+                <input
+                  type="datetime-local"
+                  {...form.register('endDate', { required: true })}
+                  className="input w-full"
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label className="form-label">Application</label>
+              <select {...form.register('applicationId')} className="select w-full">
+                <option value="">All applications</option>
+                {applications.map(application => (
+                  <option key={application.id} value={application.id}>{application.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label">Reason (Optional)</label>
+              <input type="text" {...form.register('reason')} className="input w-full" />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button type="button" onClick={() => setShowForm(false)} className="btn btn-outline">
+                Cancel
+              </button>
+              <button type="submit" disabled={isSaving} className="btn btn-primary">
+                {isSaving ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+                Save Delegation
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : delegations.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {delegations.map(delegation => {
+              const delegator = partyOf(delegation.delegator, delegation.delegatorDetails);
+              const delegate = partyOf(delegation.delegate, delegation.delegateDetails);
+              const isMine = partyId(delegation.delegator) === user?.id;
+              const isCurrent = delegation.isActive && new Date(delegation.endDate) >= new Date();
+
+              return (
+                <li key={delegation.delegationId} className="py-3 flex items-center justify-between">
+                  <div>
+                    <p className="flex items-center text-sm font-medium text-gray-900">
+                      {delegator ? `${delegator.firstName} ${delegator.lastName}` : 'Unknown user'}
+                      <ArrowRight className="h-4 w-4 mx-2 text-gray-400" />
+                      {delegate ? `${delegate.firstName} ${delegate.lastName}` : 'Unknown user'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(delegation.startDate, 'short')} - {formatDate(delegation.endDate, 'short')}
+                      {' · '}{applicationName(delegation.applicationId)}
+                      {delegation.reason && ` · ${delegation.reason}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className={`badge ${isCurrent ? 'badge-success' : 'badge-secondary'}`}>
+                      {!delegation.isActive ? 'Revoked' : isCurrent ? 'Active' : 'Ended'}
+                    </span>
+                    {isMine && isCurrent && (
+                      <button
+                        onClick={() => revoke(delegation.delegationId)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Revoke"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No delegations yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
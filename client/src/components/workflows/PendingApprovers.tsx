@@ -0,0 +1,68 @@
+import React from 'react';
+import { CheckCircle, Clock, XCircle } from 'lucide-react';
+
+export interface ApprovalVote {
+  user: string;
+  name: string;
+  vote: 'approve' | 'reject';
+  timestamp: string;
+  comments?: string;
+  // Delegate who voted for the approver
+  castBy?: string | null;
+}
+
+// workflowState.approval of a submission at a parallel approval stage
+export interface ApprovalState {
+  stage: string;
+  approvers: { id: string; name: string }[];
+  required: number;
+  votes: ApprovalVote[];
+}
+
+interface PendingApproversProps {
+  approval?: ApprovalState | null;
+  compact?: boolean;
+}
+
+/**
+ * Progress of a parallel approval stage: how many approvals it still needs
+ * and who has and has not voted.
+ */
+export const PendingApprovers: React.FC<PendingApproversProps> = ({ approval, compact = false }) => {
+  if (!approval) return null;
+
+  const approvals = approval.votes.filter(vote => vote.vote === 'approve').length;
+  const voteOf = (approverId: string) => approval.votes.find(vote => vote.user === approverId);
+  const pending = approval.approvers.filter(approver => !voteOf(approver.id));
+
+  if (compact) {
+    return (
+      <p className="text-xs text-gray-500">
+        {approvals} of {approval.required} approvals
+        {pending.length > 0 && ` · waiting on ${pending.map(approver => approver.name).join(', ')}`}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-700">
+        {approvals} of {approval.required} approvals
+      </p>
+      <ul className="space-y-1">
+        {approval.approvers.map(approver => {
+          const vote = voteOf(approver.id);
+          return (
+            <li key={approver.id} className="flex items-center text-sm text-gray-600">
+              {vote?.vote === 'approve' && <CheckCircle className="h-4 w-4 mr-2 text-green-500" />}
+              {vote?.vote === 'reject' && <XCircle className="h-4 w-4 mr-2 text-red-500" />}
+              {!vote && <Clock className="h-4 w-4 mr-2 text-gray-400" />}
+              <span>{approver.name}</span>
+              {vote?.castBy && <span className="ml-1 text-xs text-gray-400">(by delegate)</span>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
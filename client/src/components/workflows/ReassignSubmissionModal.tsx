@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import type { ApprovalState } from './PendingApprovers';
+import api, { getErrorResponse } from '../../lib/api';
+import toast from 'react-hot-toast';
+
+interface ReassignSubmissionModalProps {
+  submissionId: string;
+  currentStage: string;
+  approval?: ApprovalState | null;
+  onClose: () => void;
+  onReassigned: () => void;
+}
+
+/**
+ * Admin dialog handing the current stage of a submission to another user.
+ * At a parallel approval stage the new user replaces an approver who has
+ * not voted yet.
+ */
+export const ReassignSubmissionModal: React.FC<ReassignSubmissionModalProps> = ({
+  submissionId,
+  currentStage,
+  approval,
+  onClose,
+  onReassigned
+}) => {
+  const pendingApprovers = (approval?.approvers || []).filter(approver =>
+    !approval?.votes.some(vote => vote.user === approver.id)
+  );
+  const [email, setEmail] = useState('');
+  const [fromUserId, setFromUserId] = useState(pendingApprovers[0]?.id || '');
+  const [comments, setComments] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await api.post(`/workflows/submissions/${submissionId}/reassign`, {
+        email,
+        fromUserId: approval ? fromUserId : undefined,
+        comments
+      });
+      toast.success('Submission reassigned');
+      onReassigned();
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || 'Failed to reassign submission');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <form onSubmit={submit} className="relative bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Reassign Submission</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600">
+          Stage <span className="font-medium">{currentStage}</span> of submission{' '}
+          <span className="font-mono">{submissionId}</span>
+        </p>
+
+        {approval && (
+          <div className="form-group">
+            <label className="form-label">Replace Approver</label>
+            <select
+              value={fromUserId}
+              onChange={(e) => setFromUserId(e.target.value)}
+              className="select w-full"
+              required
+            >
+              {pendingApprovers.map(approver => (
+                <option key={approver.id} value={approver.id}>{approver.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="form-group">
+          <label className="form-label">New Assignee Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="input w-full"
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Comments (Optional)</label>
+          <textarea
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            className="textarea w-full"
+            rows={2}
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button type="button" onClick={onClose} className="btn btn-outline">
+            Cancel
+          </button>
+          <button type="submit" disabled={isSaving || (Boolean(approval) && !fromUserId)} className="btn btn-primary">
+            {isSaving ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+            Reassign
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import api, { getErrorResponse } from '../../lib/api';
+import toast from 'react-hot-toast';
+
+interface RequestChangesModalProps {
+  workflowId: string;
+  submissionId: string;
+  currentStage: string;
+  // Earlier stages of the submission it can be sent back to instead of its submitter
+  returnStages: { id: string; name: string }[];
+  onClose: () => void;
+  onSent: () => void;
+}
+
+/**
+ * Dialog sending a submission back for changes, to its submitter or to an
+ * earlier stage. The workflow resumes at the current stage afterwards.
+ */
+export const RequestChangesModal: React.FC<RequestChangesModalProps> = ({
+  workflowId,
+  submissionId,
+  currentStage,
+  returnStages,
+  onClose,
+  onSent
+}) => {
+  const [returnTo, setReturnTo] = useState('');
+  const [comments, setComments] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await api.post(`/workflows/${workflowId}/execute`, {
+        submissionId,
+        action: 'request_changes',
+        comments,
+        returnTo: returnTo || undefined
+      });
+      toast.success('Submission sent back for changes');
+      onSent();
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || 'Failed to request changes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <form onSubmit={submit} className="relative bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Request Changes</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600">
+          Submission <span className="font-mono">{submissionId}</span> comes back to{' '}
+          <span className="font-medium">{currentStage}</span> once the changes are made.
+        </p>
+
+        <div className="form-group">
+          <label className="form-label">Send Back To</label>
+          <select
+            value={returnTo}
+            onChange={(e) => setReturnTo(e.target.value)}
+            className="select w-full"
+          >
+            <option value="">The submitter</option>
+            {returnStages.map(stage => (
+              <option key={stage.id} value={stage.id}>Stage: {stage.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">What Needs to Change</label>
+          <textarea
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            className="textarea w-full"
+            rows={4}
+            required
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button type="button" onClick={onClose} className="btn btn-outline">
+            Cancel
+          </button>
+          <button type="submit" disabled={isSaving || !comments.trim()} className="btn btn-primary">
+            {isSaving ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+            Send Back
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,346 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Trash2, Users, CheckCircle, LayoutGrid } from 'lucide-react';
+import type { WorkflowTransition } from '../../lib/workflowConditions';
+
+export interface CanvasStage {
+  id: string;
+  name: string;
+  actions: string[];
+  roles?: string[];
+  role?: string;
+}
+
+export interface StagePosition {
+  x: number;
+  y: number;
+}
+
+export type StageLayout = Record<string, StagePosition>;
+
+interface WorkflowCanvasProps {
+  stages: CanvasStage[];
+  transitions: WorkflowTransition[];
+  layout: StageLayout;
+  selectedStageId: string | null;
+  selectedTransition: number | null;
+  onSelectStage: (stageId: string) => void;
+  onSelectTransition: (index: number) => void;
+  onMoveStage: (stageId: string, position: StagePosition) => void;
+  onConnect: (from: string, to: string) => void;
+  onRemoveStage: (stageId: string) => void;
+  onAutoLayout: () => void;
+}
+
+export const NODE_WIDTH = 192;
+const NODE_HEIGHT = 96;
+const GAP_X = 96;
+const GAP_Y = 48;
+const PADDING = 32;
+
+// Position for a new stage, right of every placed one
+export const nextFreePosition = (layout: StageLayout): StagePosition => {
+  const positions = Object.values(layout);
+  return positions.length > 0
+    ? { x: Math.max(...positions.map(position => position.x)) + NODE_WIDTH + GAP_X, y: PADDING }
+    : { x: PADDING, y: PADDING };
+};
+
+/**
+ * Layered layout: each stage goes in the column of its distance from the
+ * entry stage, in stage order within the column. Stages that cannot be
+ * reached go in a last column.
+ */
+export const autoLayout = (stages: CanvasStage[], transitions: WorkflowTransition[]): StageLayout => {
+  const depth = new Map<string, number>();
+  if (stages.length > 0) {
+    depth.set(stages[0].id, 0);
+    const queue = [stages[0].id];
+    while (queue.length > 0) {
+      const from = queue.shift()!;
+      transitions
+        .filter(transition => transition.from === from && !depth.has(transition.to))
+        .forEach(transition => {
+          depth.set(transition.to, depth.get(from)! + 1);
+          queue.push(transition.to);
+        });
+    }
+  }
+
+  const lastColumn = Math.max(-1, ...depth.values()) + 1;
+  const rows = new Map<number, number>();
+
+  return stages.reduce<StageLayout>((layout, stage) => {
+    const column = depth.get(stage.id) ?? lastColumn;
+    const row = rows.get(column) ?? 0;
+    rows.set(column, row + 1);
+    layout[stage.id] = {
+      x: PADDING + column * (NODE_WIDTH + GAP_X),
+      y: PADDING + row * (NODE_HEIGHT + GAP_Y)
+    };
+    return layout;
+  }, {});
+};
+
+const transitionLabel = (transition: WorkflowTransition) => {
+  const parts = [transition.action || 'any action'];
+  const conditions = transition.condition && 'conditions' in transition.condition
+    ? transition.condition.conditions.length
+    : 0;
+  if (transition.isDefault) {
+    parts.push('else');
+  } else if (conditions > 0) {
+    parts.push(`if ${conditions} condition${conditions === 1 ? '' : 's'}`);
+  }
+  return parts.join(' · ');
+};
+
+// Path of an edge and the point its label sits at; parallel edges fan out by offset
+const edgeGeometry = (from: StagePosition, to: StagePosition, isSelf: boolean, offset: number) => {
+  if (isSelf) {
+    const x = from.x + NODE_WIDTH / 2;
+    const lift = 40 + offset * 16;
+    return {
+      path: `M ${x - 24} ${from.y} C ${x - 48} ${from.y - lift}, ${x + 48} ${from.y - lift}, ${x + 24} ${from.y}`,
+      label: { x, y: from.y - lift * 0.75 }
+    };
+  }
+
+  const start = { x: from.x + NODE_WIDTH, y: from.y + NODE_HEIGHT / 2 };
+  const end = { x: to.x, y: to.y + NODE_HEIGHT / 2 };
+
+  // Backward edges run under the stages instead of through them
+  if (end.x <= start.x) {
+    const bottom = Math.max(from.y, to.y) + NODE_HEIGHT + 32 + offset * 24;
+    return {
+      path: `M ${start.x} ${start.y} C ${start.x + 64} ${bottom}, ${end.x - 64} ${bottom}, ${end.x} ${end.y}`,
+      label: { x: (start.x + end.x) / 2, y: bottom - 8 }
+    };
+  }
+
+  const bend = offset * 28;
+  const midX = (start.x + end.x) / 2;
+  return {
+    path: `M ${start.x} ${start.y} C ${midX} ${start.y + bend}, ${midX} ${end.y + bend}, ${end.x} ${end.y}`,
+    label: { x: midX, y: (start.y + end.y) / 2 + bend * 0.75 }
+  };
+};
+
+/**
+ * Stage graph of a workflow: stages are nodes that can be dragged around,
+ * transitions are labeled edges. Dragging from a stage's handle onto another
+ * stage draws a new transition.
+ */
+export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
+  stages,
+  transitions,
+  layout,
+  selectedStageId,
+  selectedTransition,
+  onSelectStage,
+  onSelectTransition,
+  onMoveStage,
+  onConnect,
+  onRemoveStage,
+  onAutoLayout
+}) => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<{ stageId: string; dx: number; dy: number } | null>(null);
+  const [connecting, setConnecting] = useState<{ from: string; pointer: StagePosition } | null>(null);
+
+  const pointerPosition = (e: MouseEvent | React.MouseEvent): StagePosition => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  useEffect(() => {
+    if (!dragging && !connecting) return;
+
+    const onMove = (e: MouseEvent) => {
+      const pointer = pointerPosition(e);
+      if (dragging) {
+        onMoveStage(dragging.stageId, {
+          x: Math.max(0, Math.round(pointer.x - dragging.dx)),
+          y: Math.max(0, Math.round(pointer.y - dragging.dy))
+        });
+      } else {
+        setConnecting(prev => prev ? { ...prev, pointer } : null);
+      }
+    };
+    const onUp = () => {
+      setDragging(null);
+      setConnecting(null);
+    };
+
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+    return () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+  }, [dragging, connecting, onMoveStage]);
+
+  const positionOf = (stageId: string) => layout[stageId] || { x: PADDING, y: PADDING };
+  const positions = stages.map(stage => positionOf(stage.id));
+  const width = Math.max(640, ...positions.map(position => position.x + NODE_WIDTH + PADDING * 2));
+  const height = Math.max(320, ...positions.map(position => position.y + NODE_HEIGHT + PADDING * 3));
+
+  const edges = transitions
+    .map((transition, index) => ({ transition, index }))
+    .filter(({ transition }) => layout[transition.from] && layout[transition.to])
+    .map(({ transition, index }, _, all) => {
+      const parallel = all.filter(edge =>
+        edge.transition.from === transition.from && edge.transition.to === transition.to
+      );
+      const offset = parallel.findIndex(edge => edge.index === index) - (parallel.length - 1) / 2;
+      return {
+        index,
+        transition,
+        ...edgeGeometry(
+          positionOf(transition.from),
+          positionOf(transition.to),
+          transition.from === transition.to,
+          offset
+        )
+      };
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Drag stages to arrange them. Drag from a stage&apos;s handle to another stage to add a transition.
+        </p>
+        <button onClick={onAutoLayout} className="btn btn-outline btn-sm">
+          <LayoutGrid className="h-4 w-4 mr-2" />
+          Auto Layout
+        </button>
+      </div>
+
+      <div className="overflow-auto border border-gray-200 rounded-lg bg-gray-50">
+        <div
+          ref={canvasRef}
+          className={`relative ${dragging ? 'cursor-grabbing select-none' : connecting ? 'cursor-crosshair select-none' : ''}`}
+          style={{ width, height }}
+        >
+          <svg className="absolute inset-0" width={width} height={height}>
+            <defs>
+              <marker id="workflow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+              </marker>
+              <marker id="workflow-arrow-active" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#2563eb" />
+              </marker>
+            </defs>
+
+            {edges.map(edge => {
+              const isSelected = edge.index === selectedTransition;
+              return (
+                <g key={edge.index} className="cursor-pointer" onClick={() => onSelectTransition(edge.index)}>
+                  {/* Wide invisible stroke so the edge is easy to click */}
+                  <path d={edge.path} fill="none" stroke="transparent" strokeWidth={12} />
+                  <path
+                    d={edge.path}
+                    fill="none"
+                    stroke={isSelected ? '#2563eb' : '#9ca3af'}
+                    strokeWidth={isSelected ? 2.5 : 1.5}
+                    strokeDasharray={edge.transition.isDefault ? '6 4' : undefined}
+                    markerEnd={`url(#${isSelected ? 'workflow-arrow-active' : 'workflow-arrow'})`}
+                  />
+                </g>
+              );
+            })}
+
+            {connecting && (
+              <line
+                x1={positionOf(connecting.from).x + NODE_WIDTH}
+                y1={positionOf(connecting.from).y + NODE_HEIGHT / 2}
+                x2={connecting.pointer.x}
+                y2={connecting.pointer.y}
+                stroke="#2563eb"
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+              />
+            )}
+          </svg>
+
+          {edges.map(edge => (
+            <button
+              key={edge.index}
+              onClick={() => onSelectTransition(edge.index)}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 whitespace-nowrap rounded-full border px-2 py-0.5 text-xs ${
+                edge.index === selectedTransition
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 bg-white text-gray-600 hover:border-gray-400'
+              }`}
+              style={{ left: edge.label.x, top: edge.label.y }}
+            >
+              {transitionLabel(edge.transition)}
+            </button>
+          ))}
+
+          {stages.map(stage => {
+            const position = positionOf(stage.id);
+            const roles = stage.roles?.length ? stage.roles : stage.role ? [stage.role] : [];
+
+            // Only the shadow animates, so a dragged node keeps up with the pointer
+            return (
+              <div
+                key={stage.id}
+                onMouseDown={(e) => {
+                  if (e.button !== 0) return;
+                  const pointer = pointerPosition(e);
+                  onSelectStage(stage.id);
+                  setDragging({ stageId: stage.id, dx: pointer.x - position.x, dy: pointer.y - position.y });
+                }}
+                onMouseUp={() => {
+                  if (connecting && connecting.from !== stage.id) {
+                    onConnect(connecting.from, stage.id);
+                  }
+                }}
+                className={`workflow-node absolute cursor-grab ${
+                  selectedStageId === stage.id ? 'workflow-node-active' : ''
+                } ${connecting && connecting.from !== stage.id ? 'ring-2 ring-blue-200' : ''}`}
+                style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT, transitionProperty: 'box-shadow' }}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-semibold text-gray-900 truncate">
+                    {stage.name}
+                    {stages[0]?.id === stage.id && <span className="ml-2 text-xs font-normal text-gray-500">entry</span>}
+                  </h4>
+                  <button
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => onRemoveStage(stage.id)}
+                    className="text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="space-y-1 text-xs text-gray-600">
+                  <div className="flex items-center">
+                    <Users className="h-3 w-3 mr-2" />
+                    <span className="truncate">{roles.join(', ') || 'No role assigned'}</span>
+                  </div>
+                  <div className="flex items-center">
+                    <CheckCircle className="h-3 w-3 mr-2" />
+                    <span>{stage.actions.length} actions</span>
+                  </div>
+                </div>
+
+                {/* Connection handle */}
+                <span
+                  onMouseDown={(e) => {
+                    e.stopPropagation();
+                    if (e.button !== 0) return;
+                    setConnecting({ from: stage.id, pointer: pointerPosition(e) });
+                  }}
+                  className="absolute -right-2 top-1/2 -translate-y-1/2 h-4 w-4 rounded-full border-2 border-white bg-blue-500 cursor-crosshair"
+                  title="Drag to another stage to add a transition"
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Play, ArrowDown, AlertTriangle, XCircle, SkipForward } from 'lucide-react';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import type { WorkflowAnalysis, WorkflowSimulation, SimulationOutcome } from '../../lib/workflowAnalysis';
+import api, { getErrorResponse } from '../../lib/api';
+import toast from 'react-hot-toast';
+
+interface WorkflowSimulatorProps {
+  definition: {
+    formId?: string;
+    stages: { id: string; name: string; actions: string[] }[];
+    transitions: any[];
+    settings: Record<string, any>;
+  };
+  roles: { value: string; label: string }[];
+}
+
+const OUTCOMES: Record<SimulationOutcome, { label: string; badge: string }> = {
+  approved: { label: 'Approved', badge: 'badge-success' },
+  rejected: { label: 'Rejected', badge: 'badge-danger' },
+  returned: { label: 'Sent back to the submitter', badge: 'badge-warning' },
+  waiting: { label: 'Waiting at stage', badge: 'badge-warning' },
+  stuck: { label: 'Stuck: stage has no actions', badge: 'badge-danger' },
+  loop: { label: 'Loops forever', badge: 'badge-danger' }
+};
+
+/**
+ * Static analysis of the workflow being built, and a dry run of sample
+ * submission data through it.
+ */
+export const WorkflowSimulator: React.FC<WorkflowSimulatorProps> = ({ definition, roles }) => {
+  const [sampleData, setSampleData] = useState('{\n  \n}');
+  const [submitterRole, setSubmitterRole] = useState('');
+  const [stageActions, setStageActions] = useState<Record<string, string>>({});
+  const [analysis, setAnalysis] = useState<WorkflowAnalysis | null>(null);
+  const [simulation, setSimulation] = useState<WorkflowSimulation | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const stageName = (stageId: string | null) => (
+    definition.stages.find(stage => stage.id === stageId)?.name || stageId
+  );
+
+  const runSimulation = async () => {
+    let data: Record<string, any>;
+    try {
+      data = sampleData.trim() ? JSON.parse(sampleData) : {};
+    } catch (error) {
+      toast.error('Sample data must be valid JSON');
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      const response = await api.post('/workflows/simulate', {
+        formId: definition.formId || undefined,
+        stages: definition.stages,
+        transitions: definition.transitions,
+        settings: definition.settings,
+        data,
+        submitter: submitterRole ? { role: submitterRole } : undefined,
+        actions: stageActions
+      });
+      setAnalysis(response.data.data.analysis);
+      setSimulation(response.data.data.simulation);
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || 'Failed to simulate workflow');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Check &amp; Simulate</h3>
+        <p className="text-sm text-gray-600">
+          Find problems in the workflow and see the path a submission would take.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="form-group">
+          <label className="form-label">Sample Submission Data (JSON)</label>
+          <textarea
+            value={sampleData}
+            onChange={(e) => setSampleData(e.target.value)}
+            className="textarea w-full font-mono text-sm"
+            rows={8}
+          />
+          <p className="form-help">Field names and values, e.g. {'{ "amount": 1200 }'}</p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="form-group">
+            <label className="form-label">Submitted By</label>
+            <select
+              value={submitterRole}
+              onChange={(e) => setSubmitterRole(e.target.value)}
+              className="select w-full"
+            >
+              <option value="">Me</option>
+              {roles.map(role => (
+                <option key={role.value} value={role.value}>A user with role {role.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {definition.stages.map(stage => stage.actions.length > 1 && (
+            <div key={stage.id} className="form-group">
+              <label className="form-label">Action at {stage.name}</label>
+              <select
+                value={stageActions[stage.id] || ''}
+                onChange={(e) => setStageActions(prev => ({ ...prev, [stage.id]: e.target.value }))}
+                className="select w-full"
+              >
+                <option value="">Default (approve)</option>
+                {stage.actions.map(action => (
+                  <option key={action} value={action}>{action}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button onClick={runSimulation} disabled={isRunning} className="btn btn-primary">
+        {isRunning ? <LoadingSpinner size="sm" className="mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+        Run Simulation
+      </button>
+
+      {analysis && (
+        <div className="space-y-2">
+          {analysis.errors.map(error => (
+            <div key={error} className="flex items-start text-sm text-red-700 bg-red-50 rounded p-2">
+              <XCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          ))}
+          {analysis.warnings.map(warning => (
+            <div key={warning} className="flex items-start text-sm text-yellow-800 bg-yellow-50 rounded p-2">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              {warning}
+            </div>
+          ))}
+          {analysis.errors.length === 0 && analysis.warnings.length === 0 && (
+            <p className="text-sm text-green-700">No problems found.</p>
+          )}
+        </div>
+      )}
+
+      {simulation && (
+        <div className="space-y-3">
+          <h4 className="font-semibold text-gray-900">Path</h4>
+          <ol className="space-y-1">
+            {simulation.steps.map((step, index) => (
+              <li key={`${step.stage}-${index}`}>
+                <div className="flex items-center text-sm">
+                  <span className="font-medium text-gray-900">{step.name || step.stage}</span>
+                  {step.skipped ? (
+                    <span className="ml-2 flex items-center text-gray-500">
+                      <SkipForward className="h-3 w-3 mr-1" />
+                      skipped, conditions not met
+                    </span>
+                  ) : step.action && (
+                    <span className="ml-2 badge badge-secondary text-xs">{step.action}</span>
+                  )}
+                  {step.isDefault && <span className="ml-2 text-xs text-gray-500">(default transition)</span>}
+                </div>
+                {step.to && <ArrowDown className="h-4 w-4 text-gray-400 my-1" />}
+              </li>
+            ))}
+          </ol>
+          <p className="text-sm">
+            <span className={`badge ${OUTCOMES[simulation.outcome].badge}`}>
+              {OUTCOMES[simulation.outcome].label}
+            </span>
+            {simulation.endStage && (
+              <span className="ml-2 text-gray-600">at {stageName(simulation.endStage)}</span>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
+import { useQuery } from 'react-query';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { 
   Building2, 
   LayoutDashboard, 
+  Inbox,
   FileText, 
   BarChart3, 
   GitBranch, 
@@ -17,6 +19,7 @@ import {
 } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
 import { cn } from '../lib/utils';
+import api from '../lib/api';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -24,6 +27,7 @@ interface DashboardLayoutProps {
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
+  { name: 'Inbox', href: '/inbox', icon: Inbox },
   { name: 'Applications', href: '/applications', icon: Building2 },
   { name: 'Forms', href: '/forms', icon: FileText },
   { name: 'Reports', href: '/reports', icon: BarChart3 },
@@ -43,6 +47,14 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
     navigate('/login');
   };
 
+  // Number of submissions waiting on the user, shown next to the Inbox link
+  const { data: tasksData } = useQuery<{ data: { pagination: { total: number } } }>(
+    ['workflow-tasks', 'count'],
+    () => api.get('/workflows/tasks', { params: { limit: 1 } }).then(res => res.data),
+    { refetchInterval: 60000 }
+  );
+  const taskCount = tasksData?.data?.pagination?.total || 0;
+
   const filteredNavigation = navigation.filter(item => 
     !item.adminOnly || (item.adminOnly && ['super_admin', 'admin'].includes(user?.role || ''))
   );
@@ -83,6 +95,9 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
                 >
                   <item.icon className="h-5 w-5 mr-3" />
                   {item.name}
+                  {item.href === '/inbox' && taskCount > 0 && (
+                    <span className="ml-auto badge badge-danger">{taskCount}</span>
+                  )}
                 </Link>
               );
             })}
@@ -113,6 +128,9 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
                 >
                   <item.icon className="h-5 w-5 mr-3" />
                   {item.name}
+                  {item.href === '/inbox' && taskCount > 0 && (
+                    <span className="ml-auto badge badge-danger">{taskCount}</span>
+                  )}
                 </Link>
               );
             })}
@@ -146,10 +164,12 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
             </div>
 
             <div className="flex items-center space-x-4">
-              <button className="text-gray-400 hover:text-gray-600 relative">
+              <Link to="/inbox" className="text-gray-400 hover:text-gray-600 relative">
                 <Bell className="h-6 w-6" />
-                <span className="absolute -top-1 -right-1 h-3 w-3 bg-red-500 rounded-full"></span>
-              </button>
+                {taskCount > 0 && (
+                  <span className="absolute -top-1 -right-1 h-3 w-3 bg-red-500 rounded-full"></span>
+                )}
+              </Link>
 
               <div className="relative group">
                 <button className="flex items-center space-x-2 text-sm text-gray-700 hover:text-gray-900">
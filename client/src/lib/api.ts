@@ -61,4 +61,16 @@ api.interceptors.response.use(
   }
 );
 
+// Body the API sends with a refused request: { success: false, message, errors?, data? }
+export interface ApiErrorBody {
+  message?: string;
+  errors?: any[];
+  data?: any;
+}
+
+// Response to a request the API refused, or undefined when it never answered
+export const getErrorResponse = (error: unknown) => (
+  axios.isAxiosError<ApiErrorBody>(error) ? error.response : undefined
+);
+
 export default api;
\ No newline at end of file
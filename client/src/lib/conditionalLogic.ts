@@ -0,0 +1,22 @@
+// Modules in shared/ run on the server too; the client re-exports each from a
+// lib module of the same name so pages import them from lib and labels like
+// the ones below live beside them
+import type { ConditionOperator } from '../../../shared/conditionalLogic.js';
+
+export * from '../../../shared/conditionalLogic.js';
+
+// How the condition editors describe each operator
+export const CONDITION_OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  gt: 'is greater than',
+  gte: 'is at least',
+  lt: 'is less than',
+  lte: 'is at most',
+  in: 'is one of',
+  not_in: 'is not one of',
+  empty: 'is empty',
+  not_empty: 'is not empty'
+};
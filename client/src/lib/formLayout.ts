@@ -0,0 +1,31 @@
+// Column layout shared by the form builder preview and the form renderer
+import type { CSSProperties } from 'react';
+
+export type FormLayout = 'single-column' | '2-column' | '3-column' | 'grid';
+
+// Field types that only affect presentation and never carry a value
+export const LAYOUT_FIELD_TYPES = ['heading', 'divider', 'section', 'html'];
+
+export const LAYOUT_COLUMNS: Record<FormLayout, number> = {
+  'single-column': 1,
+  '2-column': 2,
+  '3-column': 3,
+  grid: 12
+};
+
+export const getLayoutColumns = (layout?: string) => LAYOUT_COLUMNS[layout as FormLayout] || 1;
+
+// Full-width elements span every column unless told otherwise; in the
+// 12-column grid ordinary fields do too, since a single column is too narrow
+export const getColumnSpan = (field: { type: string; layout?: { colSpan?: number } }, columns: number) => {
+  const fullWidth = LAYOUT_FIELD_TYPES.includes(field.type) || field.type === 'repeater' || columns === 12;
+  return Math.min(columns, Math.max(1, Number(field.layout?.colSpan) || (fullWidth ? columns : 1)));
+};
+
+export const gridStyle = (columns: number): CSSProperties => ({
+  gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`
+});
+
+export const columnSpanStyle = (span: number): CSSProperties => ({
+  gridColumn: `span ${span} / span ${span}`
+});
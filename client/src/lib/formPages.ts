@@ -0,0 +1 @@
+export * from '../../../shared/formPages.js';
@@ -0,0 +1 @@
+export * from '../../../shared/reportCharts.js';
@@ -0,0 +1 @@
+export * from '../../../shared/reportFilters.js';
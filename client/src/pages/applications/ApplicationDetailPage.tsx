@@ -15,6 +15,7 @@ import {
   Activity
 } from 'lucide-react';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { PendingApprovers } from '../../components/workflows/PendingApprovers';
 import { formatDate } from '../../lib/utils';
 import api from '../../lib/api';
 
@@ -292,8 +293,11 @@ export const ApplicationDetailPage: React.FC = () => {
                     <div>
                       <p className="font-medium text-gray-900">Form Submission</p>
                       <p className="text-sm text-gray-500">
-                        Submitted by {submission.submittedBy?.firstName} {submission.submittedBy?.lastName}
+                        Submitted by {submission.submittedBy
+                          ? `${submission.submittedBy.firstName} ${submission.submittedBy.lastName}`
+                          : 'Guest'}
                       </p>
+                      <PendingApprovers approval={submission.workflowState?.approval} compact />
                     </div>
                   </div>
                   <div className="text-right">
@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from 'react-query';
+import { DragDropContext, Draggable, DropResult } from 'react-beautiful-dnd';
 import { 
   Save, 
   Eye, 
@@ -19,9 +21,35 @@ import {
   Heading1,
   Minus,
   Layout,
-  Code
+  Code,
+  AlertTriangle,
+  ChevronUp,
+  ChevronDown,
+  GripVertical
 } from 'lucide-react';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { StrictModeDroppable } from '../../components/ui/StrictModeDroppable';
+import {
+  CONDITION_ACTIONS,
+  CONDITION_OPERATORS,
+  CONDITION_OPERATOR_LABELS,
+  UNARY_OPERATORS,
+  getFieldStates,
+  getFieldRules,
+  type Condition,
+  type ConditionalLogic,
+  type ConditionalRule,
+  type ConditionOperator
+} from '../../lib/conditionalLogic';
+import { computeFormulaValues, validateFormulas } from '../../lib/formula';
+import {
+  columnSpanStyle,
+  getColumnSpan,
+  getLayoutColumns,
+  gridStyle,
+  type FormLayout
+} from '../../lib/formLayout';
+import api, { getErrorResponse } from '../../lib/api';
 import toast from 'react-hot-toast';
 
 interface FormField {
@@ -33,15 +61,72 @@ interface FormField {
   validation?: any;
   options?: any;
   permissions?: any;
-  conditionalLogic?: any;
+  conditionalLogic?: ConditionalLogic;
+  fields?: FormField[];
+  layout?: { colSpan?: number };
+}
+
+interface PreviewBinding {
+  value: any;
+  onChange: (value: any) => void;
+  disabled?: boolean;
+  required?: boolean;
+}
+
+interface LookupConfig {
+  sourceFormId?: string;
+  displayField?: string;
+  valueField?: string;
+  filter?: Record<string, string>;
+}
+
+interface SourceForm {
+  formId: string;
+  name: string;
+  structure?: { fields?: FormField[] };
+}
+
+interface FormSection {
+  id: string;
+  title: string;
+  description?: string;
+  fieldIds: string[];
+  // Decides whether the section is shown as a page of a multi-page form
+  conditionalLogic?: ConditionalLogic;
 }
 
 interface FormStructure {
   fields: FormField[];
-  layout: 'single-column' | '2-column' | '3-column' | 'grid';
-  sections: any[];
+  layout: FormLayout;
+  sections: FormSection[];
+  multiPage?: boolean;
+}
+
+interface FieldGroup {
+  droppableId: string;
+  section: FormSection | null;
+  fields: FormField[];
+}
+
+type FormStatus = 'draft' | 'active' | 'inactive' | 'archived';
+
+interface SavedForm {
+  id?: string;
+  _id?: string;
+  name: string;
+  description?: string;
+  applicationId: string;
+  status: FormStatus;
+  slug?: string | null;
+  structure?: Partial<FormStructure>;
+  updatedAt: string;
 }
 
+const AUTOSAVE_DELAY = 2000;
+
+const PALETTE_DROPPABLE = 'palette';
+const UNSECTIONED_DROPPABLE = 'section:none';
+
 const fieldTypes = [
   { type: 'text', label: 'Text Input', icon: Type, category: 'Basic' },
   { type: 'textarea', label: 'Textarea', icon: Type, category: 'Basic' },
@@ -76,6 +161,86 @@ const fieldTypes = [
   { type: 'html', label: 'HTML', icon: Code, category: 'Layout' }
 ];
 
+const layoutFieldTypes = ['heading', 'divider', 'section', 'html'];
+
+const choiceFieldTypes = ['select', 'radio', 'checkbox'];
+
+const createField = (fieldType: string): FormField => ({
+  id: `field_${Date.now()}`,
+  type: fieldType,
+  name: `${fieldType}_${Date.now()}`,
+  label: `${fieldType.charAt(0).toUpperCase() + fieldType.slice(1)} Field`,
+  required: false,
+  validation: {},
+  options: choiceFieldTypes.includes(fieldType) ?
+    { choices: [{ label: 'Option 1', value: 'option1' }] } : {},
+  permissions: {},
+  conditionalLogic: {},
+  ...(fieldType === 'repeater' ? { fields: [] } : {})
+});
+
+// Fields outside any section come first, then each section in order. The
+// flat field list is always stored in this order so renderers that ignore
+// sections still show fields where the builder placed them.
+const groupFields = (structure: FormStructure): FieldGroup[] => {
+  const byId = new Map(structure.fields.map(field => [field.id, field]));
+  const placed = new Set<string>();
+  const sectionGroups = structure.sections.map(section => ({
+    droppableId: `section:${section.id}`,
+    section,
+    fields: section.fieldIds.reduce<FormField[]>((fields, id) => {
+      const field = byId.get(id);
+      if (field && !placed.has(id)) {
+        placed.add(id);
+        fields.push(field);
+      }
+      return fields;
+    }, [])
+  }));
+
+  return [
+    {
+      droppableId: UNSECTIONED_DROPPABLE,
+      section: null,
+      fields: structure.fields.filter(field => !placed.has(field.id))
+    },
+    ...sectionGroups
+  ];
+};
+
+const fromGroups = (structure: FormStructure, groups: FieldGroup[]): FormStructure => ({
+  ...structure,
+  fields: groups.flatMap(group => group.fields),
+  sections: structure.sections.map(section => ({
+    ...section,
+    fieldIds: groups.find(group => group.section?.id === section.id)?.fields.map(field => field.id) || []
+  }))
+});
+
+// Move a field (or insert a new one) into a group; without an index it goes last
+const placeField = (structure: FormStructure, field: FormField, droppableId: string, index?: number) => {
+  const groups = groupFields(structure).map(group => ({
+    ...group,
+    fields: group.fields.filter(existing => existing.id !== field.id)
+  }));
+  const target = groups.find(group => group.droppableId === droppableId) || groups[groups.length - 1];
+  target.fields.splice(index ?? target.fields.length, 0, field);
+  return fromGroups(structure, groups);
+};
+
+// Row-level formulas first, so form-level formulas such as SUM(items.total) see them
+const computePreviewValues = (fields: FormField[], values: Record<string, any>) => {
+  const withRows = { ...values };
+  fields
+    .filter(field => field.type === 'repeater' && Array.isArray(values[field.name]))
+    .forEach(field => {
+      withRows[field.name] = values[field.name].map((row: Record<string, any>) =>
+        computeFormulaValues(field.fields || [], row)
+      );
+    });
+  return computeFormulaValues(fields, withRows);
+};
+
 export const FormBuilderPage: React.FC = () => {
   const { applicationId, formId } = useParams<{ applicationId?: string; formId?: string }>();
   const navigate = useNavigate();
@@ -87,7 +252,8 @@ export const FormBuilderPage: React.FC = () => {
     name: 'Untitled Form',
     description: '',
     applicationId: applicationId || '',
-    status: 'draft' as const
+    status: 'draft' as FormStatus,
+    slug: ''
   });
 
   const [formStructure, setFormStructure] = useState<FormStructure>({
@@ -97,29 +263,161 @@ export const FormBuilderPage: React.FC = () => {
   });
 
   const [selectedField, setSelectedField] = useState<FormField | null>(null);
+  const [previewValues, setPreviewValues] = useState<Record<string, any>>({});
 
-  const categories = [...new Set(fieldTypes.map(field => field.category))];
+  // Persistence state: the id and updatedAt of the stored form, and a snapshot
+  // of what was last saved so unsaved changes can be detected
+  const [savedFormId, setSavedFormId] = useState<string | undefined>();
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+  const [conflict, setConflict] = useState<SavedForm | null>(null);
+  const snapshot = JSON.stringify({ formData, formStructure });
+  const [savedSnapshot, setSavedSnapshot] = useState(snapshot);
+  const isDirty = snapshot !== savedSnapshot;
+  const isSavingRef = useRef(false);
+  // An autosave that failed is not retried until the form changes again
+  const [failedSnapshot, setFailedSnapshot] = useState<string | null>(null);
+  // What the server requires of a form; autosave waits until it holds
+  const isSavable = formData.name.trim() !== '' && Boolean(formData.applicationId);
 
-  const addField = (fieldType: string) => {
-    const newField: FormField = {
-      id: `field_${Date.now()}`,
-      type: fieldType,
-      name: `${fieldType}_${Date.now()}`,
-      label: `${fieldType.charAt(0).toUpperCase() + fieldType.slice(1)} Field`,
-      required: false,
-      validation: {},
-      options: fieldType === 'select' || fieldType === 'radio' || fieldType === 'checkbox' ? 
-        { choices: [{ label: 'Option 1', value: 'option1' }] } : {},
-      permissions: {},
-      conditionalLogic: {}
+  const applySavedForm = (form: SavedForm) => {
+    const nextFormData = {
+      name: form.name,
+      description: form.description || '',
+      applicationId: form.applicationId,
+      status: form.status,
+      slug: form.slug || ''
     };
+    const nextStructure: FormStructure = {
+      fields: form.structure?.fields || [],
+      layout: form.structure?.layout || 'single-column',
+      sections: form.structure?.sections || [],
+      multiPage: Boolean(form.structure?.multiPage)
+    };
+
+    setFormData(nextFormData);
+    setFormStructure(nextStructure);
+    setSavedSnapshot(JSON.stringify({ formData: nextFormData, formStructure: nextStructure }));
+    setSavedFormId(form.id || form._id);
+    setUpdatedAt(form.updatedAt);
+    setSelectedField(null);
+  };
+
+  const { isLoading: isFormLoading } = useQuery<{ data: { form: SavedForm } }>(
+    ['form', formId],
+    () => api.get(`/forms/${formId}`).then(res => res.data),
+    {
+      // Skip the fetch when the id in the route is the form this page just created
+      enabled: Boolean(formId) && formId !== savedFormId,
+      refetchOnWindowFocus: false,
+      onSuccess: (response) => applySavedForm(response.data.form),
+      onError: () => {
+        toast.error('Failed to load form');
+      }
+    }
+  );
 
+  const { data: sourceFormsData } = useQuery<{ data: { forms: SourceForm[] } }>(
+    ['forms', applicationId, 'lookup-sources'],
+    () => api.get('/forms', { params: { applicationId, limit: 100 } }).then(res => res.data),
+    { enabled: Boolean(applicationId) }
+  );
+  const sourceForms = sourceFormsData?.data?.forms || [];
+
+  const computedValues = computePreviewValues(formStructure.fields, previewValues);
+  const fieldStates = getFieldStates(formStructure.fields, computedValues);
+
+  const categories = [...new Set(fieldTypes.map(field => field.category))];
+  const fieldGroups = groupFields(formStructure);
+  const columns = getLayoutColumns(formStructure.layout);
+
+  // Clicked palette items go to the end of the form, i.e. into the last section
+  const addField = (fieldType: string, droppableId?: string, index?: number) => {
+    const newField = createField(fieldType);
+    const target = droppableId || fieldGroups[fieldGroups.length - 1].droppableId;
+
+    setFormStructure(prev => placeField(prev, newField, target, index));
+    setSelectedField(newField);
+  };
+
+  const handleDragEnd = ({ source, destination, draggableId }: DropResult) => {
+    if (!destination || destination.droppableId === PALETTE_DROPPABLE) {
+      return;
+    }
+
+    if (source.droppableId === PALETTE_DROPPABLE) {
+      addField(draggableId.replace(`${PALETTE_DROPPABLE}:`, ''), destination.droppableId, destination.index);
+      return;
+    }
+
+    setFormStructure(prev => {
+      const field = prev.fields.find(existing => existing.id === draggableId);
+      return field ? placeField(prev, field, destination.droppableId, destination.index) : prev;
+    });
+  };
+
+  const moveFieldToSection = (fieldId: string, droppableId: string) => {
+    setFormStructure(prev => {
+      const field = prev.fields.find(existing => existing.id === fieldId);
+      return field ? placeField(prev, field, droppableId) : prev;
+    });
+  };
+
+  const addSection = () => {
     setFormStructure(prev => ({
       ...prev,
-      fields: [...prev.fields, newField]
+      sections: [
+        ...prev.sections,
+        { id: `section_${Date.now()}`, title: `Section ${prev.sections.length + 1}`, fieldIds: [] }
+      ]
     }));
+  };
 
-    setSelectedField(newField);
+  const updateSection = (sectionId: string, updates: Partial<FormSection>) => {
+    setFormStructure(prev => ({
+      ...prev,
+      sections: prev.sections.map(section =>
+        section.id === sectionId ? { ...section, ...updates } : section
+      )
+    }));
+  };
+
+  const moveSection = (sectionId: string, offset: number) => {
+    setFormStructure(prev => {
+      const index = prev.sections.findIndex(section => section.id === sectionId);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.sections.length) {
+        return prev;
+      }
+
+      const sections = [...prev.sections];
+      [sections[index], sections[target]] = [sections[target], sections[index]];
+      const next = { ...prev, sections };
+      return fromGroups(next, groupFields(next));
+    });
+  };
+
+  // The builder edits a single "show this page when" condition; richer
+  // page rules can still be stored and are evaluated the same way
+  const getPageCondition = (section: FormSection): Partial<Condition> => {
+    const condition = section.conditionalLogic?.rules?.[0]?.when?.conditions?.[0];
+    return condition && 'field' in condition ? condition : {};
+  };
+
+  const setPageCondition = (section: FormSection, updates: Partial<Condition>) => {
+    const condition = { operator: 'equals' as ConditionOperator, ...getPageCondition(section), ...updates };
+    updateSection(section.id, {
+      conditionalLogic: condition.field
+        ? { rules: [{ action: 'show', when: { match: 'all', conditions: [condition as Condition] } }] }
+        : {}
+    });
+  };
+
+  // The section's fields are kept and move to the top of the form
+  const removeSection = (sectionId: string) => {
+    setFormStructure(prev => {
+      const next = { ...prev, sections: prev.sections.filter(section => section.id !== sectionId) };
+      return fromGroups(next, groupFields(next));
+    });
   };
 
   const updateField = (fieldId: string, updates: Partial<FormField>) => {
@@ -138,7 +436,11 @@ export const FormBuilderPage: React.FC = () => {
   const removeField = (fieldId: string) => {
     setFormStructure(prev => ({
       ...prev,
-      fields: prev.fields.filter(field => field.id !== fieldId)
+      fields: prev.fields.filter(field => field.id !== fieldId),
+      sections: prev.sections.map(section => ({
+        ...section,
+        fieldIds: section.fieldIds.filter(id => id !== fieldId)
+      }))
     }));
 
     if (selectedField?.id === fieldId) {
@@ -146,23 +448,174 @@ export const FormBuilderPage: React.FC = () => {
     }
   };
 
-  const saveForm = async () => {
+  const updateRules = (field: FormField, rules: ConditionalRule[]) => {
+    updateField(field.id, {
+      conditionalLogic: { ...field.conditionalLogic, rules }
+    });
+  };
+
+  const updateSubField = (field: FormField, index: number, updates: Partial<FormField>) => {
+    updateField(field.id, {
+      fields: (field.fields || []).map((sub, i) => i === index ? { ...sub, ...updates } : sub)
+    });
+  };
+
+  const updateLookup = (field: FormField, changes: Partial<LookupConfig>) => {
+    updateField(field.id, {
+      options: { ...field.options, lookup: { ...field.options?.lookup, ...changes } }
+    });
+  };
+
+  const getSourceFields = (lookup?: LookupConfig) => (
+    sourceForms
+      .find(form => form.formId === lookup?.sourceFormId)
+      ?.structure?.fields?.filter(field => !layoutFieldTypes.includes(field.type)) || []
+  );
+
+  const addRule = (field: FormField) => {
+    const newRule: ConditionalRule = {
+      action: 'show',
+      when: { match: 'all', conditions: [] }
+    };
+    updateRules(field, [...getFieldRules(field), newRule]);
+  };
+
+  const updateRule = (field: FormField, ruleIndex: number, updates: Partial<ConditionalRule>) => {
+    updateRules(field, getFieldRules(field).map((rule, i) =>
+      i === ruleIndex ? { ...rule, ...updates } : rule
+    ));
+  };
+
+  const updateCondition = (field: FormField, ruleIndex: number, conditionIndex: number, updates: Partial<Condition>) => {
+    const rule = getFieldRules(field)[ruleIndex];
+    updateRule(field, ruleIndex, {
+      when: {
+        ...rule.when,
+        conditions: rule.when.conditions.map((condition, i) =>
+          i === conditionIndex ? { ...condition, ...updates } : condition
+        )
+      }
+    });
+  };
+
+  const persistForm = async (autosave: boolean, baseUpdatedAt = updatedAt) => {
+    if (isSavingRef.current) return;
+    isSavingRef.current = true;
     setIsLoading(true);
+
+    const savingSnapshot = snapshot;
+    const payload = {
+      name: formData.name,
+      description: formData.description,
+      applicationId: formData.applicationId,
+      status: formData.status,
+      slug: formData.slug,
+      structure: formStructure
+    };
+
     try {
-      // API call to save form
-      toast.success('Form saved successfully');
+      if (savedFormId) {
+        const response = await api.put(`/forms/${savedFormId}`, { ...payload, updatedAt: baseUpdatedAt });
+        setUpdatedAt(response.data.data.form.updatedAt);
+      } else {
+        const response = await api.post('/forms', payload);
+        const form: SavedForm = response.data.data.form;
+        const id = form.id || form._id;
+        setSavedFormId(id);
+        setUpdatedAt(form.updatedAt);
+        navigate(`/applications/${formData.applicationId}/forms/builder/${id}`, { replace: true });
+      }
+
+      setSavedSnapshot(savingSnapshot);
+      if (!autosave) {
+        toast.success('Form saved successfully');
+      }
+    } catch (error) {
+      const response = getErrorResponse(error);
+      if (response?.status === 409) {
+        setConflict(response.data.data.form);
+        toast.error('This form was changed by someone else');
+      } else if (autosave) {
+        setFailedSnapshot(savingSnapshot);
+      } else {
+        toast.error(response?.data?.message || 'Failed to save form');
+      }
+    } finally {
+      isSavingRef.current = false;
+      setIsLoading(false);
+    }
+  };
+
+  const saveForm = () => persistForm(false);
+
+  const publishForm = async () => {
+    if (!savedFormId) return;
+    setIsLoading(true);
+    try {
+      const response = await api.post(`/forms/${savedFormId}/publish`);
+      applySavedForm(response.data.data.form);
+      toast.success(`Published revision ${response.data.data.revision.revision}`);
     } catch (error) {
-      toast.error('Failed to save form');
+      toast.error(getErrorResponse(error)?.data?.message || 'Failed to publish form');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const renderFieldPreview = (field: FormField) => {
+  // Debounced autosave while the form is still a draft. Changes made during a
+  // save are picked up once it finishes, as isLoading goes back to false.
+  useEffect(() => {
+    if (!isDirty || !isSavable || isLoading || snapshot === failedSnapshot ||
+        formData.status !== 'draft' || conflict || (formId && !savedFormId)) {
+      return;
+    }
+    const timer = setTimeout(() => persistForm(true), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [snapshot, isDirty, isSavable, isLoading, failedSnapshot, formData.status, conflict, formId, savedFormId]);
+
+  // Warn before leaving with unsaved changes. BrowserRouter has no navigation
+  // blocker, so in-app link clicks are confirmed here as well.
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    const handleLinkClick = (event: MouseEvent) => {
+      const anchor = (event.target as HTMLElement).closest('a');
+      if (anchor && anchor.origin === window.location.origin && anchor.target !== '_blank' &&
+          !window.confirm('You have unsaved changes. Leave this page?')) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    document.addEventListener('click', handleLinkClick, true);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      document.removeEventListener('click', handleLinkClick, true);
+    };
+  }, [isDirty]);
+
+  const renderFieldPreview = (field: FormField, binding?: PreviewBinding) => {
     const commonProps = {
       className: "input w-full",
       placeholder: field.label,
-      required: field.required
+      required: binding ? binding.required : field.required,
+      disabled: binding?.disabled,
+      ...(binding ? {
+        value: binding.value ?? '',
+        onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+          binding.onChange(e.target.value)
+      } : {})
+    };
+
+    const toggleChoice = (value: string, checked: boolean) => {
+      if (!binding) return;
+      const current: string[] = Array.isArray(binding.value) ? binding.value : [];
+      binding.onChange(checked ? [...current, value] : current.filter(v => v !== value));
     };
 
     switch (field.type) {
@@ -194,7 +647,17 @@ export const FormBuilderPage: React.FC = () => {
           <div className="space-y-2">
             {field.options?.choices?.map((choice: any, index: number) => (
               <label key={index} className="flex items-center">
-                <input type="radio" name={field.name} value={choice.value} className="mr-2" />
+                <input
+                  type="radio"
+                  name={field.name}
+                  value={choice.value}
+                  disabled={binding?.disabled}
+                  {...(binding ? {
+                    checked: binding.value === choice.value,
+                    onChange: () => binding.onChange(choice.value)
+                  } : {})}
+                  className="mr-2"
+                />
                 {choice.label}
               </label>
             ))}
@@ -206,7 +669,16 @@ export const FormBuilderPage: React.FC = () => {
           <div className="space-y-2">
             {field.options?.choices?.map((choice: any, index: number) => (
               <label key={index} className="flex items-center">
-                <input type="checkbox" value={choice.value} className="mr-2" />
+                <input
+                  type="checkbox"
+                  value={choice.value}
+                  disabled={binding?.disabled}
+                  {...(binding ? {
+                    checked: Array.isArray(binding.value) && binding.value.includes(choice.value),
+                    onChange: (e: React.ChangeEvent<HTMLInputElement>) => toggleChoice(choice.value, e.target.checked)
+                  } : {})}
+                  className="mr-2"
+                />
                 {choice.label}
               </label>
             ))}
@@ -231,6 +703,88 @@ export const FormBuilderPage: React.FC = () => {
           </div>
         );
       
+      case 'formula':
+        return (
+          <input
+            type="text"
+            className="input w-full bg-gray-50"
+            value={binding ? binding.value ?? '' : field.options?.expression || ''}
+            placeholder="Calculated automatically"
+            readOnly
+          />
+        );
+
+      case 'repeater': {
+        const subFields = (field.fields || []).filter(sub => !layoutFieldTypes.includes(sub.type));
+        const rows: Record<string, any>[] = binding && Array.isArray(binding.value) ? binding.value : [];
+        const minRows = field.validation?.minRows ?? 0;
+        const maxRows = field.validation?.maxRows;
+        const updateRow = (index: number, name: string, value: any) =>
+          binding?.onChange(rows.map((row, i) => i === index ? { ...row, [name]: value } : row));
+
+        return (
+          <div className="space-y-3">
+            {(binding ? rows : [{}]).map((row, index) => {
+              const rowStates = getFieldStates(subFields, row);
+              return (
+                <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-700">Row {index + 1}</span>
+                    {binding && !binding.disabled && rows.length > minRows && (
+                      <button
+                        type="button"
+                        onClick={() => binding.onChange(rows.filter((_, i) => i !== index))}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        <Minus className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                  {subFields
+                    .filter(sub => rowStates[sub.name]?.visible !== false)
+                    .map(sub => (
+                      <div key={sub.id} className="form-group">
+                        <label className="form-label">
+                          {sub.label}
+                          {rowStates[sub.name]?.required && <span className="text-red-500 ml-1">*</span>}
+                        </label>
+                        {renderFieldPreview(sub, binding ? {
+                          value: row[sub.name],
+                          onChange: (value) => updateRow(index, sub.name, value),
+                          disabled: binding.disabled || rowStates[sub.name]?.disabled,
+                          required: rowStates[sub.name]?.required
+                        } : undefined)}
+                      </div>
+                    ))}
+                  {subFields.length === 0 && (
+                    <p className="text-sm text-gray-500">Add sub-fields in the properties panel</p>
+                  )}
+                </div>
+              );
+            })}
+            {binding && !binding.disabled && (maxRows === undefined || rows.length < maxRows) && (
+              <button
+                type="button"
+                onClick={() => binding.onChange([...rows, {}])}
+                className="btn btn-outline btn-sm"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Row
+              </button>
+            )}
+          </div>
+        );
+      }
+
+      case 'lookup': {
+        const source = sourceForms.find(form => form.formId === field.options?.lookup?.sourceFormId);
+        return (
+          <select {...commonProps} className="select w-full">
+            <option value="">{source ? `Search ${source.name}` : 'Select a record'}</option>
+          </select>
+        );
+      }
+
       case 'heading':
         return <h3 className="text-lg font-semibold text-gray-900">{field.label}</h3>;
       
@@ -242,8 +796,46 @@ export const FormBuilderPage: React.FC = () => {
     }
   };
 
+  if (isFormLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen flex flex-col bg-gray-50">
+      {conflict && (
+        <div className="bg-yellow-50 border-b border-yellow-200 px-6 py-3 flex items-center justify-between">
+          <div className="flex items-center text-sm text-yellow-800">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            This form was changed by someone else since you opened it.
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => {
+                applySavedForm(conflict);
+                setConflict(null);
+              }}
+              className="btn btn-outline btn-sm"
+            >
+              Load Their Version
+            </button>
+            <button
+              onClick={() => {
+                const theirUpdatedAt = conflict.updatedAt;
+                setConflict(null);
+                persistForm(false, theirUpdatedAt);
+              }}
+              className="btn btn-primary btn-sm"
+            >
+              Overwrite
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="bg-white border-b border-gray-200 px-6 py-4">
         <div className="flex items-center justify-between">
@@ -255,6 +847,9 @@ export const FormBuilderPage: React.FC = () => {
               className="text-xl font-semibold bg-transparent border-none focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-2 py-1"
             />
             <span className="badge badge-secondary">{formData.status}</span>
+            <span className="text-sm text-gray-500">
+              {isLoading ? 'Saving...' : isDirty ? 'Unsaved changes' : savedFormId ? 'All changes saved' : ''}
+            </span>
           </div>
           
           <div className="flex items-center space-x-3">
@@ -293,6 +888,16 @@ export const FormBuilderPage: React.FC = () => {
               </button>
             </div>
             
+            {savedFormId && (
+              <button
+                onClick={publishForm}
+                disabled={isLoading || isDirty}
+                className="btn btn-outline"
+              >
+                Publish
+              </button>
+            )}
+
             <button
               onClick={saveForm}
               disabled={isLoading}
@@ -311,7 +916,7 @@ export const FormBuilderPage: React.FC = () => {
 
       <div className="flex-1 flex overflow-hidden">
         {activeTab === 'build' && (
-          <>
+          <DragDropContext onDragEnd={handleDragEnd}>
             {/* Field Palette */}
             <div className="w-80 bg-white border-r border-gray-200 overflow-y-auto">
               <div className="p-4">
@@ -334,71 +939,268 @@ export const FormBuilderPage: React.FC = () => {
                   ))}
                 </div>
 
-                {/* Field Types */}
-                <div className="space-y-2">
-                  {fieldTypes
-                    .filter(field => field.category === selectedCategory)
-                    .map(field => {
-                      const Icon = field.icon;
-                      return (
-                        <button
-                          key={field.type}
-                          onClick={() => addField(field.type)}
-                          className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg border border-gray-200 transition-colors"
-                        >
-                          <Icon className="h-5 w-5 text-gray-600" />
-                          <span className="text-sm font-medium text-gray-900">{field.label}</span>
-                        </button>
-                      );
-                    })}
-                </div>
+                {/* Field Types: click to append, or drag onto the canvas */}
+                <StrictModeDroppable droppableId={PALETTE_DROPPABLE} isDropDisabled>
+                  {(provided) => (
+                    <div ref={provided.innerRef} {...provided.droppableProps} className="space-y-2">
+                      {fieldTypes
+                        .filter(field => field.category === selectedCategory)
+                        .map((field, index) => {
+                          const Icon = field.icon;
+                          const item = (
+                            <>
+                              <Icon className="h-5 w-5 text-gray-600" />
+                              <span className="text-sm font-medium text-gray-900">{field.label}</span>
+                            </>
+                          );
+                          return (
+                            <Draggable
+                              key={field.type}
+                              draggableId={`${PALETTE_DROPPABLE}:${field.type}`}
+                              index={index}
+                            >
+                              {(dragProvided, snapshot) => (
+                                <>
+                                  <button
+                                    ref={dragProvided.innerRef}
+                                    {...dragProvided.draggableProps}
+                                    {...dragProvided.dragHandleProps}
+                                    onClick={() => addField(field.type)}
+                                    className={`w-full flex items-center space-x-3 p-3 text-left rounded-lg border transition-colors ${
+                                      snapshot.isDragging
+                                        ? 'bg-white border-blue-500 shadow-lg'
+                                        : 'hover:bg-gray-50 border-gray-200'
+                                    }`}
+                                  >
+                                    {item}
+                                  </button>
+                                  {/* Keep the palette intact while its item is being dragged */}
+                                  {snapshot.isDragging && (
+                                    <div className="w-full flex items-center space-x-3 p-3 rounded-lg border border-gray-200">
+                                      {item}
+                                    </div>
+                                  )}
+                                </>
+                              )}
+                            </Draggable>
+                          );
+                        })}
+                      <div className="hidden">{provided.placeholder}</div>
+                    </div>
+                  )}
+                </StrictModeDroppable>
               </div>
             </div>
 
             {/* Form Canvas */}
             <div className="flex-1 overflow-y-auto p-6">
               <div className="max-w-2xl mx-auto">
-                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 min-h-96">
-                  {formStructure.fields.length === 0 ? (
-                    <div className="text-center py-12">
-                      <Plus className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                      <h3 className="text-lg font-semibold text-gray-900 mb-2">Start Building Your Form</h3>
-                      <p className="text-gray-600">
-                        Drag and drop fields from the left panel to build your form.
-                      </p>
-                    </div>
-                  ) : (
-                    <div className="space-y-6">
-                      {formStructure.fields.map((field, index) => (
-                        <div
-                          key={field.id}
-                          onClick={() => setSelectedField(field)}
-                          className={`p-4 rounded-lg border-2 transition-colors cursor-pointer ${
-                            selectedField?.id === field.id
-                              ? 'border-blue-500 bg-blue-50'
-                              : 'border-gray-200 hover:border-gray-300'
-                          }`}
-                        >
-                          <div className="flex items-center justify-between mb-2">
-                            <label className="block text-sm font-medium text-gray-700">
-                              {field.label}
-                              {field.required && <span className="text-red-500 ml-1">*</span>}
-                            </label>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                removeField(field.id);
-                              }}
-                              className="text-gray-400 hover:text-red-500"
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 min-h-96 space-y-6">
+                  {fieldGroups.map(group => {
+                    const { section } = group;
+                    const sectionIndex = section ? formStructure.sections.indexOf(section) : -1;
+
+                    // Without sections the top-level group is the whole canvas and
+                    // only needs rendering once something can be dropped into it
+                    if (!section && group.fields.length === 0 && formStructure.sections.length > 0) {
+                      return (
+                        <StrictModeDroppable key={group.droppableId} droppableId={group.droppableId}>
+                          {(provided, snapshot) => (
+                            <div
+                              ref={provided.innerRef}
+                              {...provided.droppableProps}
+                              className={`rounded-lg border-2 border-dashed ${
+                                snapshot.isDraggingOver ? 'border-blue-400 p-4' : 'border-transparent'
+                              }`}
                             >
-                              <Minus className="h-4 w-4" />
-                            </button>
+                              {provided.placeholder}
+                            </div>
+                          )}
+                        </StrictModeDroppable>
+                      );
+                    }
+
+                    return (
+                      <div
+                        key={group.droppableId}
+                        className={section ? 'border border-gray-200 rounded-lg p-4' : ''}
+                      >
+                        {section && (
+                          <div className="flex items-start justify-between mb-4">
+                            <div className="flex-1 space-y-1">
+                              <input
+                                type="text"
+                                value={section.title}
+                                onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                                className="w-full text-lg font-semibold text-gray-900 bg-transparent border-none focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-1"
+                                placeholder="Section title"
+                              />
+                              <input
+                                type="text"
+                                value={section.description || ''}
+                                onChange={(e) => updateSection(section.id, { description: e.target.value })}
+                                className="w-full text-sm text-gray-600 bg-transparent border-none focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-1"
+                                placeholder="Description (optional)"
+                              />
+                              {formStructure.multiPage && (() => {
+                                const condition = getPageCondition(section);
+                                const earlierFields = fieldGroups
+                                  .slice(0, sectionIndex + 1)
+                                  .flatMap(earlier => earlier.fields)
+                                  .filter(field => !layoutFieldTypes.includes(field.type));
+                                return (
+                                  <div className="flex items-center space-x-2 pt-1 text-sm">
+                                    <span className="text-gray-600 whitespace-nowrap">Show page when</span>
+                                    <select
+                                      value={condition.field || ''}
+                                      onChange={(e) => setPageCondition(section, { field: e.target.value })}
+                                      className="select text-sm"
+                                    >
+                                      <option value="">Always</option>
+                                      {earlierFields.map(field => (
+                                        <option key={field.id} value={field.name}>{field.label}</option>
+                                      ))}
+                                    </select>
+                                    {condition.field && (
+                                      <>
+                                        <select
+                                          value={condition.operator || 'equals'}
+                                          onChange={(e) => setPageCondition(section, { operator: e.target.value as ConditionOperator })}
+                                          className="select text-sm"
+                                        >
+                                          {CONDITION_OPERATORS.map(operator => (
+                                            <option key={operator} value={operator}>{CONDITION_OPERATOR_LABELS[operator]}</option>
+                                          ))}
+                                        </select>
+                                        {!UNARY_OPERATORS.includes(condition.operator as ConditionOperator) && (
+                                          <input
+                                            type="text"
+                                            value={condition.value ?? ''}
+                                            onChange={(e) => setPageCondition(section, { value: e.target.value })}
+                                            className="input text-sm"
+                                            placeholder="Value"
+                                          />
+                                        )}
+                                      </>
+                                    )}
+                                  </div>
+                                );
+                              })()}
+                            </div>
+                            <div className="flex items-center space-x-1 ml-2">
+                              <button
+                                onClick={() => moveSection(section.id, -1)}
+                                disabled={sectionIndex === 0}
+                                className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                                title="Move section up"
+                              >
+                                <ChevronUp className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => moveSection(section.id, 1)}
+                                disabled={sectionIndex === formStructure.sections.length - 1}
+                                className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                                title="Move section down"
+                              >
+                                <ChevronDown className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => removeSection(section.id)}
+                                className="text-gray-400 hover:text-red-500"
+                                title="Remove section (its fields are kept)"
+                              >
+                                <Minus className="h-4 w-4" />
+                              </button>
+                            </div>
                           </div>
-                          {renderFieldPreview(field)}
-                        </div>
-                      ))}
-                    </div>
-                  )}
+                        )}
+
+                        <StrictModeDroppable droppableId={group.droppableId}>
+                          {(provided, snapshot) => (
+                            <div
+                              ref={provided.innerRef}
+                              {...provided.droppableProps}
+                              className={`space-y-4 rounded-lg transition-colors ${
+                                snapshot.isDraggingOver ? 'bg-blue-50' : ''
+                              }`}
+                            >
+                              {group.fields.length === 0 && !snapshot.isDraggingOver && (
+                                section ? (
+                                  <div className="text-center py-6 border-2 border-dashed border-gray-200 rounded-lg text-sm text-gray-500">
+                                    Drop fields here
+                                  </div>
+                                ) : (
+                                  <div className="text-center py-12">
+                                    <Plus className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Start Building Your Form</h3>
+                                    <p className="text-gray-600">
+                                      Drag and drop fields from the left panel to build your form.
+                                    </p>
+                                  </div>
+                                )
+                              )}
+
+                              {group.fields.map((field, index) => (
+                                <Draggable key={field.id} draggableId={field.id} index={index}>
+                                  {(dragProvided, dragSnapshot) => (
+                                    <div
+                                      ref={dragProvided.innerRef}
+                                      {...dragProvided.draggableProps}
+                                      onClick={() => setSelectedField(field)}
+                                      className={`p-4 rounded-lg border-2 transition-colors cursor-pointer bg-white ${
+                                        selectedField?.id === field.id
+                                          ? 'border-blue-500 bg-blue-50'
+                                          : 'border-gray-200 hover:border-gray-300'
+                                      } ${dragSnapshot.isDragging ? 'shadow-lg' : ''}`}
+                                    >
+                                      <div className="flex items-center justify-between mb-2">
+                                        <div className="flex items-center">
+                                          <span
+                                            {...dragProvided.dragHandleProps}
+                                            className="text-gray-400 hover:text-gray-600 mr-2 cursor-grab"
+                                            title="Drag to reorder"
+                                          >
+                                            <GripVertical className="h-4 w-4" />
+                                          </span>
+                                          <label className="block text-sm font-medium text-gray-700">
+                                            {field.label}
+                                            {field.required && <span className="text-red-500 ml-1">*</span>}
+                                          </label>
+                                        </div>
+                                        <div className="flex items-center space-x-2">
+                                          {columns > 1 && (
+                                            <span className="text-xs text-gray-500">
+                                              {getColumnSpan(field, columns)}/{columns} cols
+                                            </span>
+                                          )}
+                                          <button
+                                            onClick={(e) => {
+                                              e.stopPropagation();
+                                              removeField(field.id);
+                                            }}
+                                            className="text-gray-400 hover:text-red-500"
+                                          >
+                                            <Minus className="h-4 w-4" />
+                                          </button>
+                                        </div>
+                                      </div>
+                                      {renderFieldPreview(field)}
+                                    </div>
+                                  )}
+                                </Draggable>
+                              ))}
+                              {provided.placeholder}
+                            </div>
+                          )}
+                        </StrictModeDroppable>
+                      </div>
+                    );
+                  })}
+
+                  <button onClick={addSection} className="btn btn-outline btn-sm w-full">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Section
+                  </button>
                 </div>
               </div>
             </div>
@@ -441,6 +1243,48 @@ export const FormBuilderPage: React.FC = () => {
                         <label className="text-sm text-gray-700">Required field</label>
                       </div>
 
+                      {formStructure.sections.length > 0 && (
+                        <div className="form-group">
+                          <label className="form-label">Section</label>
+                          <select
+                            value={fieldGroups.find(group => group.fields.some(field => field.id === selectedField.id))?.droppableId || UNSECTIONED_DROPPABLE}
+                            onChange={(e) => moveFieldToSection(selectedField.id, e.target.value)}
+                            className="select w-full"
+                          >
+                            <option value={UNSECTIONED_DROPPABLE}>No section</option>
+                            {fieldGroups
+                              .filter(group => group.section)
+                              .map(group => (
+                                <option key={group.droppableId} value={group.droppableId}>
+                                  {group.section?.title || 'Untitled section'}
+                                </option>
+                              ))}
+                          </select>
+                        </div>
+                      )}
+
+                      {columns > 1 && (
+                        <div className="form-group">
+                          <label className="form-label">Column Span</label>
+                          <input
+                            type="number"
+                            min={1}
+                            max={columns}
+                            value={getColumnSpan(selectedField, columns)}
+                            onChange={(e) => updateField(selectedField.id, {
+                              layout: {
+                                ...selectedField.layout,
+                                colSpan: Math.min(columns, Math.max(1, parseInt(e.target.value, 10) || 1))
+                              }
+                            })}
+                            className="input w-full"
+                          />
+                          <p className="text-xs text-gray-500 mt-1">
+                            Out of {columns} columns in the {formStructure.layout} layout
+                          </p>
+                        </div>
+                      )}
+
                       {(selectedField.type === 'select' || selectedField.type === 'radio' || selectedField.type === 'checkbox') && (
                         <div className="form-group">
                           <label className="form-label">Options</label>
@@ -488,6 +1332,358 @@ export const FormBuilderPage: React.FC = () => {
                           </div>
                         </div>
                       )}
+
+                      {selectedField.type === 'formula' && (
+                        <div className="form-group">
+                          <label className="form-label">Expression</label>
+                          <textarea
+                            value={selectedField.options?.expression || ''}
+                            onChange={(e) => updateField(selectedField.id, {
+                              options: { ...selectedField.options, expression: e.target.value }
+                            })}
+                            className="textarea w-full font-mono text-sm"
+                            rows={3}
+                            placeholder="price * quantity"
+                          />
+                          {validateFormulas(formStructure.fields)
+                            .filter(error => error.startsWith(`${selectedField.name}:`))
+                            .map((error, index) => (
+                              <p key={index} className="text-xs text-red-600 mt-1">{error}</p>
+                            ))}
+                          <p className="text-xs text-gray-500 mt-1">
+                            Reference fields by name, e.g. IF(total &gt; 100, total * 0.9, total) or SUM(items.amount)
+                          </p>
+                          <label className="form-label mt-3">Decimal Places</label>
+                          <input
+                            type="number"
+                            min={0}
+                            value={selectedField.options?.decimals ?? ''}
+                            onChange={(e) => updateField(selectedField.id, {
+                              options: {
+                                ...selectedField.options,
+                                decimals: e.target.value === '' ? undefined : Number(e.target.value)
+                              }
+                            })}
+                            className="input w-full"
+                          />
+                        </div>
+                      )}
+
+                      {selectedField.type === 'repeater' && (
+                        <div className="form-group space-y-2">
+                          <label className="form-label">Rows</label>
+                          <div className="flex items-center space-x-2">
+                            {(['minRows', 'maxRows'] as const).map(rule => (
+                              <input
+                                key={rule}
+                                type="number"
+                                min={0}
+                                value={selectedField.validation?.[rule] ?? ''}
+                                onChange={(e) => updateField(selectedField.id, {
+                                  validation: {
+                                    ...selectedField.validation,
+                                    [rule]: e.target.value === '' ? undefined : Number(e.target.value)
+                                  }
+                                })}
+                                className="input flex-1"
+                                placeholder={rule === 'minRows' ? 'Min rows' : 'Max rows'}
+                              />
+                            ))}
+                          </div>
+
+                          <label className="form-label">Sub-fields</label>
+                          {(selectedField.fields || []).map((sub, index) => (
+                            <div key={sub.id} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                              <div className="flex items-center space-x-2">
+                                <input
+                                  type="text"
+                                  value={sub.label}
+                                  onChange={(e) => updateSubField(selectedField, index, { label: e.target.value })}
+                                  className="input flex-1"
+                                  placeholder="Label"
+                                />
+                                <button
+                                  onClick={() => updateField(selectedField.id, {
+                                    fields: (selectedField.fields || []).filter((_, i) => i !== index)
+                                  })}
+                                  className="text-red-500 hover:text-red-700"
+                                >
+                                  <Minus className="h-4 w-4" />
+                                </button>
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <input
+                                  type="text"
+                                  value={sub.name}
+                                  onChange={(e) => updateSubField(selectedField, index, { name: e.target.value })}
+                                  className="input flex-1"
+                                  placeholder="Name"
+                                />
+                                <span className="badge badge-secondary">{sub.type}</span>
+                                <label className="flex items-center text-sm text-gray-700">
+                                  <input
+                                    type="checkbox"
+                                    checked={sub.required}
+                                    onChange={(e) => updateSubField(selectedField, index, { required: e.target.checked })}
+                                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-1"
+                                  />
+                                  Required
+                                </label>
+                              </div>
+                              {choiceFieldTypes.includes(sub.type) && (
+                                <input
+                                  type="text"
+                                  defaultValue={(sub.options?.choices || []).map((choice: any) => choice.label).join(', ')}
+                                  onBlur={(e) => updateSubField(selectedField, index, {
+                                    options: {
+                                      ...sub.options,
+                                      choices: e.target.value.split(',').map(label => label.trim()).filter(Boolean)
+                                        .map(label => ({ label, value: label.toLowerCase().replace(/\s+/g, '_') }))
+                                    }
+                                  })}
+                                  className="input w-full"
+                                  placeholder="Options, comma separated"
+                                />
+                              )}
+                              {sub.type === 'formula' && (
+                                <input
+                                  type="text"
+                                  value={sub.options?.expression || ''}
+                                  onChange={(e) => updateSubField(selectedField, index, {
+                                    options: { ...sub.options, expression: e.target.value }
+                                  })}
+                                  className="input w-full font-mono text-sm"
+                                  placeholder="quantity * price"
+                                />
+                              )}
+                            </div>
+                          ))}
+                          <select
+                            value=""
+                            onChange={(e) => e.target.value && updateField(selectedField.id, {
+                              fields: [...(selectedField.fields || []), createField(e.target.value)]
+                            })}
+                            className="select w-full"
+                          >
+                            <option value="">Add sub-field...</option>
+                            {fieldTypes
+                              .filter(type => !layoutFieldTypes.includes(type.type) && type.type !== 'repeater')
+                              .map(type => (
+                                <option key={type.type} value={type.type}>{type.label}</option>
+                              ))}
+                          </select>
+                          {validateFormulas(selectedField.fields || []).map((error, index) => (
+                            <p key={index} className="text-xs text-red-600">{error}</p>
+                          ))}
+                        </div>
+                      )}
+
+                      {selectedField.type === 'lookup' && (
+                        <div className="form-group space-y-2">
+                          <label className="form-label">Lookup Source</label>
+                          <select
+                            value={selectedField.options?.lookup?.sourceFormId || ''}
+                            onChange={(e) => updateLookup(selectedField, {
+                              sourceFormId: e.target.value,
+                              displayField: '',
+                              valueField: '',
+                              filter: {}
+                            })}
+                            className="select w-full"
+                          >
+                            <option value="">Select a form</option>
+                            {sourceForms
+                              .filter(form => form.formId !== formId)
+                              .map(form => (
+                                <option key={form.formId} value={form.formId}>{form.name}</option>
+                              ))}
+                          </select>
+
+                          <label className="form-label">Display Field</label>
+                          <select
+                            value={selectedField.options?.lookup?.displayField || ''}
+                            onChange={(e) => updateLookup(selectedField, { displayField: e.target.value })}
+                            className="select w-full"
+                          >
+                            <option value="">Select a field</option>
+                            {getSourceFields(selectedField.options?.lookup).map(field => (
+                              <option key={field.id} value={field.name}>{field.label}</option>
+                            ))}
+                          </select>
+
+                          <label className="form-label">Value Field</label>
+                          <select
+                            value={selectedField.options?.lookup?.valueField || ''}
+                            onChange={(e) => updateLookup(selectedField, { valueField: e.target.value })}
+                            className="select w-full"
+                          >
+                            <option value="">Submission ID</option>
+                            {getSourceFields(selectedField.options?.lookup).map(field => (
+                              <option key={field.id} value={field.name}>{field.label}</option>
+                            ))}
+                          </select>
+
+                          <label className="form-label">Filter</label>
+                          {Object.entries((selectedField.options?.lookup?.filter || {}) as Record<string, string>)
+                            .map(([name, value]) => (
+                              <div key={name} className="flex items-center space-x-2">
+                                <span className="text-sm text-gray-700 flex-1 truncate">{name}</span>
+                                <input
+                                  type="text"
+                                  value={value}
+                                  onChange={(e) => updateLookup(selectedField, {
+                                    filter: { ...selectedField.options?.lookup?.filter, [name]: e.target.value }
+                                  })}
+                                  className="input flex-1"
+                                  placeholder="Equals"
+                                />
+                                <button
+                                  onClick={() => {
+                                    const { [name]: _removed, ...filter } = selectedField.options?.lookup?.filter || {};
+                                    updateLookup(selectedField, { filter });
+                                  }}
+                                  className="text-red-500 hover:text-red-700"
+                                >
+                                  <Minus className="h-4 w-4" />
+                                </button>
+                              </div>
+                            ))}
+                          <select
+                            value=""
+                            onChange={(e) => e.target.value && updateLookup(selectedField, {
+                              filter: { ...selectedField.options?.lookup?.filter, [e.target.value]: '' }
+                            })}
+                            className="select w-full"
+                          >
+                            <option value="">Add filter on field...</option>
+                            {getSourceFields(selectedField.options?.lookup)
+                              .filter(field => !(field.name in (selectedField.options?.lookup?.filter || {})))
+                              .map(field => (
+                                <option key={field.id} value={field.name}>{field.label}</option>
+                              ))}
+                          </select>
+                        </div>
+                      )}
+
+                      {!layoutFieldTypes.includes(selectedField.type) && (
+                        <div className="form-group">
+                          <label className="form-label">Conditional Logic</label>
+                          <div className="space-y-3">
+                            {getFieldRules(selectedField).map((rule, ruleIndex) => (
+                              <div key={ruleIndex} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                                <div className="flex items-center space-x-2">
+                                  <select
+                                    value={rule.action}
+                                    onChange={(e) => updateRule(selectedField, ruleIndex, { action: e.target.value as ConditionalRule['action'] })}
+                                    className="select flex-1 text-sm"
+                                  >
+                                    {CONDITION_ACTIONS.map(action => (
+                                      <option key={action} value={action}>
+                                        {action.charAt(0).toUpperCase() + action.slice(1)}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <span className="text-sm text-gray-600">when</span>
+                                  <select
+                                    value={rule.when.match || 'all'}
+                                    onChange={(e) => updateRule(selectedField, ruleIndex, {
+                                      when: { ...rule.when, match: e.target.value as 'all' | 'any' }
+                                    })}
+                                    className="select flex-1 text-sm"
+                                  >
+                                    <option value="all">all match</option>
+                                    <option value="any">any match</option>
+                                  </select>
+                                  <button
+                                    onClick={() => updateRules(selectedField, getFieldRules(selectedField).filter((_, i) => i !== ruleIndex))}
+                                    className="text-red-500 hover:text-red-700"
+                                  >
+                                    <Minus className="h-4 w-4" />
+                                  </button>
+                                </div>
+
+                                {rule.when.conditions.map((item, conditionIndex) => {
+                                  if ('conditions' in item) {
+                                    return (
+                                      <p key={conditionIndex} className="text-xs text-gray-500">
+                                        Nested group ({item.conditions.length} conditions)
+                                      </p>
+                                    );
+                                  }
+
+                                  return (
+                                    <div key={conditionIndex} className="space-y-1 border-t border-gray-100 pt-2">
+                                      <div className="flex items-center space-x-2">
+                                        <select
+                                          value={item.field}
+                                          onChange={(e) => updateCondition(selectedField, ruleIndex, conditionIndex, { field: e.target.value })}
+                                          className="select flex-1 text-sm"
+                                        >
+                                          <option value="">Select field</option>
+                                          {formStructure.fields
+                                            .filter(f => f.id !== selectedField.id && !layoutFieldTypes.includes(f.type))
+                                            .map(f => (
+                                              <option key={f.id} value={f.name}>{f.label}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                          onClick={() => updateRule(selectedField, ruleIndex, {
+                                            when: {
+                                              ...rule.when,
+                                              conditions: rule.when.conditions.filter((_, i) => i !== conditionIndex)
+                                            }
+                                          })}
+                                          className="text-red-500 hover:text-red-700"
+                                        >
+                                          <Minus className="h-4 w-4" />
+                                        </button>
+                                      </div>
+                                      <select
+                                        value={item.operator}
+                                        onChange={(e) => updateCondition(selectedField, ruleIndex, conditionIndex, { operator: e.target.value as ConditionOperator })}
+                                        className="select w-full text-sm"
+                                      >
+                                        {CONDITION_OPERATORS.map(operator => (
+                                          <option key={operator} value={operator}>{CONDITION_OPERATOR_LABELS[operator]}</option>
+                                        ))}
+                                      </select>
+                                      {!UNARY_OPERATORS.includes(item.operator) && (
+                                        <input
+                                          type="text"
+                                          value={item.value ?? ''}
+                                          onChange={(e) => updateCondition(selectedField, ruleIndex, conditionIndex, { value: e.target.value })}
+                                          className="input w-full text-sm"
+                                          placeholder={['in', 'not_in'].includes(item.operator) ? 'Comma-separated values' : 'Value'}
+                                        />
+                                      )}
+                                    </div>
+                                  );
+                                })}
+
+                                <button
+                                  onClick={() => updateRule(selectedField, ruleIndex, {
+                                    when: {
+                                      ...rule.when,
+                                      conditions: [...rule.when.conditions, { field: '', operator: 'equals', value: '' }]
+                                    }
+                                  })}
+                                  className="btn btn-outline btn-sm w-full"
+                                >
+                                  <Plus className="h-4 w-4 mr-1" />
+                                  Add Condition
+                                </button>
+                              </div>
+                            ))}
+                            <button
+                              onClick={() => addRule(selectedField)}
+                              className="btn btn-outline btn-sm w-full"
+                            >
+                              <Plus className="h-4 w-4 mr-1" />
+                              Add Rule
+                            </button>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </>
                 ) : (
@@ -501,12 +1697,12 @@ export const FormBuilderPage: React.FC = () => {
                 )}
               </div>
             </div>
-          </>
+          </DragDropContext>
         )}
 
         {activeTab === 'preview' && (
           <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
-            <div className="max-w-2xl mx-auto">
+            <div className={`${columns > 1 ? 'max-w-4xl' : 'max-w-2xl'} mx-auto`}>
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
                 <div className="mb-6">
                   <h1 className="text-2xl font-bold text-gray-900 mb-2">{formData.name}</h1>
@@ -516,15 +1712,51 @@ export const FormBuilderPage: React.FC = () => {
                 </div>
 
                 <form className="space-y-6">
-                  {formStructure.fields.map((field) => (
-                    <div key={field.id} className="form-group">
-                      <label className="form-label">
-                        {field.label}
-                        {field.required && <span className="text-red-500 ml-1">*</span>}
-                      </label>
-                      {renderFieldPreview(field)}
-                    </div>
-                  ))}
+                  {fieldGroups.map(group => {
+                    const visibleFields = group.fields.filter(field => fieldStates[field.name]?.visible !== false);
+                    if (visibleFields.length === 0) {
+                      return null;
+                    }
+
+                    return (
+                      <div key={group.droppableId} className={group.section ? 'space-y-4' : ''}>
+                        {group.section && (
+                          <div className="border-b border-gray-200 pb-2">
+                            <h2 className="text-lg font-semibold text-gray-900">{group.section.title}</h2>
+                            {group.section.description && (
+                              <p className="text-sm text-gray-600">{group.section.description}</p>
+                            )}
+                          </div>
+                        )}
+                        <div
+                          className="grid gap-6"
+                          style={gridStyle(columns)}
+                        >
+                          {visibleFields.map(field => {
+                            const span = getColumnSpan(field, columns);
+                            return (
+                              <div
+                                key={field.id}
+                                className="form-group"
+                                style={columnSpanStyle(span)}
+                              >
+                                <label className="form-label">
+                                  {field.label}
+                                  {fieldStates[field.name]?.required && <span className="text-red-500 ml-1">*</span>}
+                                </label>
+                                {renderFieldPreview(field, {
+                                  value: computedValues[field.name],
+                                  onChange: (value) => setPreviewValues(prev => ({ ...prev, [field.name]: value })),
+                                  disabled: fieldStates[field.name]?.disabled,
+                                  required: fieldStates[field.name]?.required
+                                })}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    );
+                  })}
 
                   <div className="pt-4">
                     <button type="submit" className="btn btn-primary">
@@ -578,6 +1810,26 @@ export const FormBuilderPage: React.FC = () => {
                     </select>
                   </div>
 
+                  <div className="form-group">
+                    <label className="form-label">Public Link</label>
+                    <input
+                      type="text"
+                      value={formData.slug}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        slug: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '-')
+                      }))}
+                      className="input w-full"
+                      placeholder="e.g. contact-us"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formData.slug
+                        ? `${window.location.origin}/f/${formData.slug}`
+                        : 'Optional; without one the form is linked by its form ID.'}
+                      {' '}Guests can only open it while the form is active and the application allows guest access.
+                    </p>
+                  </div>
+
                   <div className="form-group">
                     <label className="form-label">Layout</label>
                     <select
@@ -591,6 +1843,21 @@ export const FormBuilderPage: React.FC = () => {
                       <option value="grid">Grid Layout</option>
                     </select>
                   </div>
+
+                  <div>
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(formStructure.multiPage)}
+                        onChange={(e) => setFormStructure(prev => ({ ...prev, multiPage: e.target.checked }))}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                      />
+                      <label className="text-sm text-gray-700">Multi-page wizard</label>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Each section becomes a page with next/back navigation. Fields outside any section form the first page.
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, RotateCcw } from 'lucide-react';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import {
+  FormRenderer,
+  type RenderedForm,
+  type SubmissionError
+} from '../../components/forms/FormRenderer';
+import api, { getErrorResponse } from '../../lib/api';
+import toast from 'react-hot-toast';
+
+interface DraftSubmission {
+  submissionId: string;
+  data: Record<string, any>;
+  metadata?: { currentPage?: string };
+}
+
+// A submission a reviewer sent back to the user for changes
+interface RevisedSubmission {
+  submissionId: string;
+  status: string;
+  data: Record<string, any>;
+  workflowState?: {
+    revisions?: { round: number; comments: string; requestedAt: string }[];
+  };
+}
+
+export const FormFillPage: React.FC = () => {
+  const { applicationId, formId } = useParams<{ applicationId: string; formId: string }>();
+  const [searchParams] = useSearchParams();
+  const revisionId = searchParams.get('submission');
+  const [draftId, setDraftId] = useState<string | undefined>();
+  const [errors, setErrors] = useState<SubmissionError[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  const { data: formData, isLoading, error } = useQuery<{ data: { form: RenderedForm } }>(
+    ['form-view', formId],
+    () => api.get(`/forms/${formId}/view`).then(res => res.data),
+    { refetchOnWindowFocus: false }
+  );
+  const form = formData?.data?.form;
+  const allowDrafts = form?.settings?.allowDrafts !== false;
+
+  // Resume the user's latest draft of this form, if there is one
+  const { data: draftData, isLoading: isDraftLoading } = useQuery<{ data: { submissions: DraftSubmission[] } }>(
+    ['form-draft', form?.formId],
+    () => api.get(`/forms/${form?.formId}/submissions`, {
+      params: { status: 'draft', mine: true, limit: 1 }
+    }).then(res => res.data),
+    {
+      enabled: Boolean(form) && allowDrafts && !revisionId,
+      refetchOnWindowFocus: false,
+      onSuccess: (response) => setDraftId(id => id || response.data.submissions[0]?.submissionId)
+    }
+  );
+  const draft = draftData?.data?.submissions?.[0];
+
+  const { data: revisionData, isLoading: isRevisionLoading } = useQuery<{ data: { submission: RevisedSubmission } }>(
+    ['form-revision', revisionId],
+    () => api.get(`/forms/submissions/${revisionId}`).then(res => res.data),
+    { enabled: Boolean(revisionId), refetchOnWindowFocus: false }
+  );
+  const revision = revisionData?.data?.submission;
+  const revisionRounds = revision?.workflowState?.revisions || [];
+  const changeRequest = revisionRounds[revisionRounds.length - 1];
+
+  const handleError = (error: unknown, fallback: string) => {
+    const response = getErrorResponse(error);
+    const responseErrors: SubmissionError[] | undefined = response?.data?.errors;
+    if (responseErrors?.length) {
+      setErrors(responseErrors);
+    }
+    toast.error(response?.data?.message || fallback);
+  };
+
+  // Saves the draft; throws so the renderer stays on the page when it fails
+  const saveDraft = async (values: Record<string, any>, pageId: string) => {
+    if (!form) return;
+
+    try {
+      if (revision) {
+        await api.put(`/forms/submissions/${revision.submissionId}`, { data: values });
+      } else if (draftId) {
+        await api.put(`/forms/submissions/${draftId}`, {
+          data: values,
+          status: 'draft',
+          currentPage: pageId
+        });
+      } else {
+        const response = await api.post('/forms/submit', {
+          formId: form.formId,
+          applicationId: form.applicationId,
+          data: values,
+          status: 'draft',
+          currentPage: pageId
+        });
+        setDraftId(response.data.data.submission.submissionId);
+      }
+      setErrors([]);
+      toast.success(revision ? 'Changes saved' : 'Draft saved');
+    } catch (error) {
+      handleError(error, 'Failed to save draft');
+      throw error;
+    }
+  };
+
+  const submit = async (values: Record<string, any>) => {
+    if (!form) return;
+
+    setIsSubmitting(true);
+    try {
+      // Resubmitting a revised submission resumes its workflow
+      const submissionId = revision?.submissionId || draftId;
+      if (submissionId) {
+        await api.put(`/forms/submissions/${submissionId}`, { data: values, status: 'submitted' });
+      } else {
+        await api.post('/forms/submit', {
+          formId: form.formId,
+          applicationId: form.applicationId,
+          data: values
+        });
+      }
+
+      if (form.settings?.redirectUrl) {
+        window.location.assign(form.settings.redirectUrl);
+        return;
+      }
+      setIsSubmitted(true);
+    } catch (error) {
+      handleError(error, 'Failed to submit form');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading || isDraftLoading || isRevisionLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !form) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Form not found or not accepting submissions</p>
+      </div>
+    );
+  }
+
+  if (revisionId && revision?.status !== 'changes_requested' && !isSubmitted) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">This submission is not waiting for changes</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center space-x-4">
+        <Link to={`/applications/${applicationId}/forms`} className="text-gray-400 hover:text-gray-600">
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{form.name}</h1>
+          {form.description && <p className="text-gray-600">{form.description}</p>}
+        </div>
+      </div>
+
+      {changeRequest && !isSubmitted && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="flex items-center font-medium text-yellow-900">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Changes requested (revision {changeRequest.round})
+          </p>
+          <p className="mt-1 text-sm text-yellow-800 whitespace-pre-line">{changeRequest.comments}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+        {isSubmitted ? (
+          <div className="text-center py-8">
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            <p className="text-lg text-gray-900">
+              {form.settings?.successMessage || 'Thank you, your response has been submitted.'}
+            </p>
+          </div>
+        ) : (
+          <FormRenderer
+            key={revision?.submissionId || draft?.submissionId || 'new'}
+            form={form}
+            initialValues={revision?.data || draft?.data}
+            initialPage={revision ? undefined : draft?.metadata?.currentPage}
+            errors={errors}
+            isSubmitting={isSubmitting}
+            onSubmit={submit}
+            onSaveDraft={allowDrafts || revision ? saveDraft : undefined}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useQuery } from 'react-query';
+import { useQuery, useQueryClient } from 'react-query';
 import { useParams, Link } from 'react-router-dom';
 import { 
   ArrowLeft,
@@ -12,9 +12,14 @@ import {
   Calendar,
   User,
   FileText,
-  MoreVertical
+  MoreVertical,
+  UserCheck,
+  RotateCcw
 } from 'lucide-react';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { PendingApprovers, type ApprovalState } from '../../components/workflows/PendingApprovers';
+import { ReassignSubmissionModal } from '../../components/workflows/ReassignSubmissionModal';
+import { useAuthStore } from '../../stores/authStore';
 import { formatDate } from '../../lib/utils';
 import api from '../../lib/api';
 
@@ -22,16 +27,21 @@ interface FormSubmission {
   id: string;
   submissionId: string;
   data: Record<string, any>;
-  status: 'draft' | 'submitted' | 'in_review' | 'approved' | 'rejected';
+  status: 'draft' | 'submitted' | 'in_review' | 'changes_requested' | 'approved' | 'rejected';
+  // Empty for submissions made through a public link
   submittedBy: {
     firstName: string;
     lastName: string;
     email: string;
-  };
+  } | null;
   createdAt: string;
   workflowState?: {
     currentStage: string;
     history: any[];
+    approval?: ApprovalState | null;
+    assignedTo?: { stage: string; id: string; name: string } | null;
+    // Send-back rounds, oldest first
+    revisions?: { round: number; stage: string; comments: string; resubmittedAt: string | null }[];
   };
 }
 
@@ -40,6 +50,10 @@ export const FormSubmissionsPage: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [reassigning, setReassigning] = useState<FormSubmission | null>(null);
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const isAdmin = ['super_admin', 'admin'].includes(user?.role || '');
 
   const { data, isLoading, error } = useQuery<{ data: { submissions: FormSubmission[]; pagination: any } }>(
     ['form-submissions', formId, currentPage, searchTerm, statusFilter],
@@ -49,7 +63,7 @@ export const FormSubmissionsPage: React.FC = () => {
         limit: 10,
         status: statusFilter || undefined
       }
-    }),
+    }).then(res => res.data),
     {
       keepPreviousData: true
     }
@@ -63,6 +77,7 @@ export const FormSubmissionsPage: React.FC = () => {
       draft: 'badge badge-secondary',
       submitted: 'badge badge-primary',
       in_review: 'badge badge-warning',
+      changes_requested: 'badge badge-warning',
       approved: 'badge badge-success',
       rejected: 'badge badge-danger'
     };
@@ -182,6 +197,7 @@ export const FormSubmissionsPage: React.FC = () => {
                 <option value="draft">Draft</option>
                 <option value="submitted">Submitted</option>
                 <option value="in_review">In Review</option>
+                <option value="changes_requested">Changes Requested</option>
                 <option value="approved">Approved</option>
                 <option value="rejected">Rejected</option>
               </select>
@@ -204,6 +220,7 @@ export const FormSubmissionsPage: React.FC = () => {
                   <th className="table-cell">Submission ID</th>
                   <th className="table-cell">Submitted By</th>
                   <th className="table-cell">Status</th>
+                  <th className="table-cell">Workflow Stage</th>
                   <th className="table-cell">Submitted Date</th>
                   <th className="table-cell">Actions</th>
                 </tr>
@@ -220,15 +237,31 @@ export const FormSubmissionsPage: React.FC = () => {
                     <td className="table-cell">
                       <div>
                         <p className="font-medium text-gray-900">
-                          {submission.submittedBy.firstName} {submission.submittedBy.lastName}
+                          {submission.submittedBy
+                            ? `${submission.submittedBy.firstName} ${submission.submittedBy.lastName}`
+                            : 'Guest'}
                         </p>
-                        <p className="text-sm text-gray-500">{submission.submittedBy.email}</p>
+                        <p className="text-sm text-gray-500">{submission.submittedBy?.email}</p>
                       </div>
                     </td>
                     <td className="table-cell">
                       <span className={getStatusBadge(submission.status)}>
                         {submission.status.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
                       </span>
+                      {(submission.workflowState?.revisions?.length || 0) > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Revision {submission.workflowState!.revisions!.length}
+                        </p>
+                      )}
+                    </td>
+                    <td className="table-cell">
+                      <p className="text-sm text-gray-900">{submission.workflowState?.currentStage || '-'}</p>
+                      <PendingApprovers approval={submission.workflowState?.approval} compact />
+                      {submission.workflowState?.assignedTo?.stage === submission.workflowState?.currentStage && (
+                        <p className="text-xs text-gray-500">
+                          Assigned to {submission.workflowState?.assignedTo?.name}
+                        </p>
+                      )}
                     </td>
                     <td className="table-cell">
                       <div className="flex items-center text-sm text-gray-500">
@@ -257,6 +290,25 @@ export const FormSubmissionsPage: React.FC = () => {
                               <Edit className="h-4 w-4 mr-2" />
                               Edit
                             </Link>
+                            {submission.status === 'changes_requested' && submission.submittedBy?.email === user?.email && (
+                              <Link
+                                to={`/applications/${applicationId}/forms/${formId}/fill?submission=${submission.submissionId}`}
+                                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                              >
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                                Revise
+                              </Link>
+                            )}
+                            {isAdmin && submission.workflowState?.currentStage &&
+                              ['submitted', 'in_review'].includes(submission.status) && (
+                              <button
+                                onClick={() => setReassigning(submission)}
+                                className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                              >
+                                <UserCheck className="h-4 w-4 mr-2" />
+                                Reassign
+                              </button>
+                            )}
                             <button className="flex items-center w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50">
                               <Trash2 className="h-4 w-4 mr-2" />
                               Delete
@@ -311,6 +363,19 @@ export const FormSubmissionsPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {reassigning?.workflowState && (
+        <ReassignSubmissionModal
+          submissionId={reassigning.submissionId}
+          currentStage={reassigning.workflowState.currentStage}
+          approval={reassigning.workflowState.approval}
+          onClose={() => setReassigning(null)}
+          onReassigned={() => {
+            setReassigning(null);
+            queryClient.invalidateQueries('form-submissions');
+          }}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
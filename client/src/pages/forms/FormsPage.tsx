@@ -173,14 +173,14 @@ export const FormsPage: React.FC = () => {
                     <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
                       <div className="py-1">
                         <Link
-                          to={`/forms/${form.id}`}
+                          to={`/applications/${applicationId}/forms/${form.id}/fill`}
                           className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
                         >
                           <Eye className="h-4 w-4 mr-2" />
                           View Form
                         </Link>
                         <Link
-                          to={`/forms/${form.id}/edit`}
+                          to={`/applications/${applicationId}/forms/builder/${form.id}`}
                           className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
                         >
                           <Edit className="h-4 w-4 mr-2" />
@@ -229,7 +229,7 @@ export const FormsPage: React.FC = () => {
 
                 <div className="mt-4 pt-4 border-t border-gray-200 flex space-x-2">
                   <Link
-                    to={`/forms/${form.id}/edit`}
+                    to={`/applications/${applicationId}/forms/builder/${form.id}`}
                     className="btn btn-outline btn-sm flex-1"
                   >
                     Edit Form
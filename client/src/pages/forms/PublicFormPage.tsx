@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { useParams, Link } from 'react-router-dom';
+import { CheckCircle } from 'lucide-react';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import {
+  FormRenderer,
+  type RenderedForm,
+  type SubmissionError
+} from '../../components/forms/FormRenderer';
+import api, { getErrorResponse } from '../../lib/api';
+import toast from 'react-hot-toast';
+
+interface SubmittedReceipt {
+  submissionId?: string;
+  receiptToken?: string;
+  successMessage?: string | null;
+}
+
+/**
+ * A form opened through its public link. Guests cannot save drafts, so the
+ * form is sent in one go; they get a receipt link to check on it later.
+ */
+export const PublicFormPage: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [website, setWebsite] = useState('');
+  const [errors, setErrors] = useState<SubmissionError[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [receipt, setReceipt] = useState<SubmittedReceipt | null>(null);
+
+  const { data, isLoading, error } = useQuery<{ data: { form: RenderedForm; token: string } }>(
+    ['public-form', slug],
+    () => api.get(`/public/forms/${slug}`).then(res => res.data),
+    { refetchOnWindowFocus: false, retry: false }
+  );
+  const form = data?.data?.form;
+
+  const submit = async (values: Record<string, any>) => {
+    if (!form || !data) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await api.post(`/public/forms/${form.formId}/submit`, {
+        data: values,
+        token: data.data.token,
+        website
+      });
+      const result = response.data.data;
+
+      if (result.redirectUrl) {
+        window.location.assign(result.redirectUrl);
+        return;
+      }
+      setReceipt(result);
+    } catch (error) {
+      const response = getErrorResponse(error);
+      const responseErrors: SubmissionError[] | undefined = response?.data?.errors;
+      if (responseErrors?.length) {
+        setErrors(responseErrors);
+      }
+      toast.error(response?.data?.message || 'Failed to submit form');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {error || !form ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">Form not found or not accepting submissions</p>
+          </div>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{form.name}</h1>
+              {form.description && <p className="text-gray-600">{form.description}</p>}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+              {receipt ? (
+                <div className="text-center py-8 space-y-4">
+                  <CheckCircle className="h-12 w-12 text-green-500 mx-auto" />
+                  <p className="text-lg text-gray-900">
+                    {receipt.successMessage || 'Thank you, your response has been submitted.'}
+                  </p>
+                  {receipt.submissionId && receipt.receiptToken && (
+                    <p className="text-sm text-gray-600">
+                      Reference: <span className="font-mono">{receipt.submissionId}</span>
+                      <br />
+                      <Link
+                        to={`/receipts/${receipt.submissionId}?token=${receipt.receiptToken}`}
+                        className="text-blue-600 hover:text-blue-500"
+                      >
+                        Keep this link to check the status of your submission
+                      </Link>
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <>
+                  {/* Honeypot: hidden from people, filled in by bots */}
+                  <input
+                    type="text"
+                    name="website"
+                    value={website}
+                    onChange={(e) => setWebsite(e.target.value)}
+                    className="absolute -left-[9999px] h-0 w-0 opacity-0"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    aria-hidden="true"
+                  />
+                  <FormRenderer
+                    form={form}
+                    errors={errors}
+                    isSubmitting={isSubmitting}
+                    onSubmit={submit}
+                    isPublic
+                  />
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { useQuery } from 'react-query';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import api from '../../lib/api';
+
+interface SubmissionReceipt {
+  submissionId: string;
+  formName: string | null;
+  status: string;
+  currentStage: string | null;
+  submittedAt: string;
+}
+
+// Status of a public submission, opened from the link shown after submitting
+export const PublicReceiptPage: React.FC = () => {
+  const { submissionId } = useParams<{ submissionId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const { data, isLoading, error } = useQuery<{ data: { receipt: SubmissionReceipt } }>(
+    ['public-receipt', submissionId, token],
+    () => api.get(`/public/submissions/${submissionId}/receipt`, {
+      params: { token }
+    }).then(res => res.data),
+    { enabled: Boolean(token), refetchOnWindowFocus: false, retry: false }
+  );
+  const receipt = data?.data?.receipt;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-lg mx-auto bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+        {error || !receipt ? (
+          <p className="text-center text-red-600">Submission not found</p>
+        ) : (
+          <div className="space-y-4">
+            <h1 className="text-xl font-bold text-gray-900">{receipt.formName || 'Submission'}</h1>
+            <dl className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Reference</dt>
+                <dd className="font-mono text-gray-900">{receipt.submissionId}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Submitted</dt>
+                <dd className="text-gray-900">{new Date(receipt.submittedAt).toLocaleString()}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Status</dt>
+                <dd><span className="badge badge-secondary">{receipt.status.replace('_', ' ')}</span></dd>
+              </div>
+              {receipt.currentStage && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Stage</dt>
+                  <dd className="text-gray-900">{receipt.currentStage}</dd>
+                </div>
+              )}
+            </dl>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -10,9 +10,11 @@ import {
   EyeOff,
   Shield,
   Calendar,
-  MapPin
+  MapPin,
+  Plane
 } from 'lucide-react';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { DelegationSettings } from '../../components/workflows/DelegationSettings';
 import { useAuthStore } from '../../stores/authStore';
 import { formatDate } from '../../lib/utils';
 import toast from 'react-hot-toast';
@@ -192,6 +194,17 @@ export const ProfilePage: React.FC = () => {
               <Shield className="h-5 w-5 mr-3" />
               Permissions
             </button>
+            <button
+              onClick={() => setActiveTab('delegation')}
+              className={`w-full flex items-center px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                activeTab === 'delegation'
+                  ? 'bg-blue-50 text-blue-700'
+                  : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+              }`}
+            >
+              <Plane className="h-5 w-5 mr-3" />
+              Out of Office
+            </button>
           </nav>
         </div>
 
@@ -448,6 +461,8 @@ export const ProfilePage: React.FC = () => {
               </div>
             </div>
           )}
+
+          {activeTab === 'delegation' && <DelegationSettings />}
         </div>
       </div>
     </div>
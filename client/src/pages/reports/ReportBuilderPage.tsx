@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useQuery } from 'react-query';
 import { useParams, useNavigate } from 'react-router-dom';
 import { 
   Save, 
@@ -12,33 +13,121 @@ import {
   BarChart3,
   PieChart,
   LineChart,
-  Table
+  Table,
+  ArrowUp,
+  ArrowDown
 } from 'lucide-react';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { ReportChart } from '../../components/reports/ReportChart';
+import {
+  ReportGroup,
+  ReportPivot,
+  ReportGroupsTable,
+  ReportPivotTable
+} from '../../components/reports/ReportSummaryTables';
+import { LAYOUT_FIELD_TYPES } from '../../lib/formLayout';
+import {
+  ReportAggregationOperation,
+  ReportFieldType,
+  ReportFilter,
+  ReportGrouping,
+  ReportPivot as ReportPivotConfig,
+  ReportSortKey,
+  REPORT_AGGREGATIONS,
+  REPORT_AGGREGATION_LABELS,
+  REPORT_FILTER_OPERATOR_LABELS,
+  NUMERIC_AGGREGATIONS,
+  VALUELESS_OPERATORS,
+  getFilterOperators,
+  filterBetweenValues,
+  isCompleteFilter,
+  normalizeGrouping,
+  normalizeSorting
+} from '../../lib/reportFilters';
+import {
+  ReportChart as ReportChartSettings,
+  ReportChartType,
+  ReportChartSource,
+  REPORT_CHART_TYPES,
+  REPORT_CHART_TYPE_LABELS,
+  buildReportChartData
+} from '../../lib/reportCharts';
+import api, { getErrorResponse } from '../../lib/api';
 import toast from 'react-hot-toast';
 
 interface ReportColumn {
   field: string;
   label: string;
-  type: 'text' | 'number' | 'date' | 'boolean';
+  type: ReportFieldType;
   width?: number;
   sortable?: boolean;
   filterable?: boolean;
 }
 
-interface ReportFilter {
+interface ReportAggregation {
   field: string;
-  operator: 'equals' | 'contains' | 'greater_than' | 'less_than' | 'between';
-  value: any;
+  operation: ReportAggregationOperation;
   label: string;
 }
 
-interface ReportAggregation {
+interface GeneratedReportData {
+  data: Record<string, any>[];
+  total: number;
+  aggregations?: Record<string, number | null>;
+  groupBy?: string[];
+  groups?: ReportGroup[];
+  pivot?: ReportPivot;
+}
+
+interface ReportField {
   field: string;
-  operation: 'sum' | 'avg' | 'count' | 'min' | 'max';
   label: string;
+  type: ReportFieldType;
+}
+
+interface FormField {
+  name: string;
+  label?: string;
+  type: string;
+  fields?: FormField[];
+}
+
+interface SourceForm {
+  formId: string;
+  name: string;
+  structure?: { fields?: FormField[] };
+}
+
+interface SavedReport {
+  id?: string;
+  _id?: string;
+  name: string;
+  description?: string;
+  applicationId: string;
+  sourceForm?: string;
+  type: 'custom' | 'automated';
+  configuration?: Record<string, any>;
 }
 
+// Submission columns every report can use beside the form's fields
+const SUBMISSION_FIELDS: ReportField[] = [
+  { field: '_status', label: 'Submission Status', type: 'text' },
+  { field: '_createdAt', label: 'Submitted At', type: 'date' }
+];
+
+const reportFieldType = (type: string): ReportFieldType => {
+  if (type === 'number' || type === 'formula') return 'number';
+  if (type === 'date' || type === 'datetime') return 'date';
+  return 'text';
+};
+
+// Report fields of a form; repeater sub-fields are dotted, e.g. items.amount
+const formReportFields = (fields: FormField[] = [], prefix = ''): ReportField[] => fields
+  .filter(field => !LAYOUT_FIELD_TYPES.includes(field.type))
+  .flatMap(field => (field.type === 'repeater'
+    ? formReportFields(field.fields, `${prefix}${field.name}.`)
+    : [{ field: `${prefix}${field.name}`, label: `${prefix}${field.label || field.name}`, type: reportFieldType(field.type) }]));
+
 export const ReportBuilderPage: React.FC = () => {
   const { applicationId, reportId } = useParams<{ applicationId?: string; reportId?: string }>();
   const navigate = useNavigate();
@@ -50,27 +139,91 @@ export const ReportBuilderPage: React.FC = () => {
     description: '',
     applicationId: applicationId || '',
     sourceForm: '',
-    type: 'custom' as const
+    type: 'custom' as 'custom' | 'automated'
   });
 
   const [reportConfig, setReportConfig] = useState({
     columns: [] as ReportColumn[],
     filters: [] as ReportFilter[],
-    sorting: { field: '', direction: 'asc' as 'asc' | 'desc' },
-    grouping: { field: '', enabled: false },
-    aggregations: [] as ReportAggregation[]
+    // Sort keys in priority order
+    sorting: [] as ReportSortKey[],
+    // Group-by fields, outermost first
+    grouping: { enabled: false, fields: [] } as ReportGrouping,
+    aggregations: [] as ReportAggregation[],
+    pivot: { enabled: false, rows: [], column: '', measure: { field: '', operation: 'count' } } as ReportPivotConfig,
+    chart: { enabled: false, type: 'bar', title: '', source: 'groups', measure: 'count' } as ReportChartSettings,
+    repeater: { field: '', mode: 'flatten' as 'flatten' | 'explode' }
   });
 
-  const [availableFields] = useState([
-    { field: 'full_name', label: 'Full Name', type: 'text' },
-    { field: 'email', label: 'Email', type: 'text' },
-    { field: 'age', label: 'Age', type: 'number' },
-    { field: 'gender', label: 'Gender', type: 'text' },
-    { field: 'created_at', label: 'Created Date', type: 'date' },
-    { field: 'status', label: 'Status', type: 'text' }
-  ]);
+  const [savedReportId, setSavedReportId] = useState<string>();
 
-  const addColumn = (field: any) => {
+  const applySavedReport = (report: SavedReport) => {
+    const configuration = report.configuration || {};
+    setReportData({
+      name: report.name,
+      description: report.description || '',
+      applicationId: report.applicationId,
+      sourceForm: report.sourceForm || '',
+      type: report.type || 'custom'
+    });
+    setReportConfig(prev => ({
+      columns: configuration.columns || [],
+      filters: configuration.filters || [],
+      // Reports saved before multi-key sorting hold a single { field, direction }
+      sorting: normalizeSorting(configuration.sorting),
+      // Reports saved before multi-level grouping hold a single { field }
+      grouping: {
+        enabled: configuration.grouping?.enabled ?? normalizeGrouping(configuration.grouping).length > 0,
+        fields: normalizeGrouping(configuration.grouping)
+      },
+      aggregations: configuration.aggregations || [],
+      pivot: { ...prev.pivot, ...configuration.pivot },
+      chart: { ...prev.chart, ...configuration.chart },
+      repeater: { ...prev.repeater, ...configuration.repeater }
+    }));
+    setSavedReportId(report.id || report._id);
+  };
+
+  const { isLoading: isReportLoading } = useQuery<{ data: { report: SavedReport } }>(
+    ['report', reportId],
+    () => api.get(`/reports/${reportId}`).then(res => res.data),
+    {
+      // Skip the fetch when the id in the route is the report this page just created
+      enabled: Boolean(reportId) && reportId !== savedReportId,
+      refetchOnWindowFocus: false,
+      onSuccess: (response) => applySavedReport(response.data.report),
+      onError: () => {
+        toast.error('Failed to load report');
+      }
+    }
+  );
+
+  const { data: formsData } = useQuery<{ data: { forms: SourceForm[] } }>(
+    ['forms', reportData.applicationId, 'report-sources'],
+    () => api.get('/forms', { params: { applicationId: reportData.applicationId, limit: 100 } }).then(res => res.data),
+    { enabled: Boolean(reportData.applicationId) }
+  );
+
+  const forms = formsData?.data?.forms || [];
+  const sourceForm = forms.find(form => form.formId === reportData.sourceForm);
+  const availableFields: ReportField[] = [
+    ...formReportFields(sourceForm?.structure?.fields),
+    ...SUBMISSION_FIELDS
+  ];
+  const fieldType = (field: string) => availableFields.find(item => item.field === field)?.type;
+  const fieldLabel = (field: string) => availableFields.find(item => item.field === field)?.label || field;
+
+  const { data: previewData, isLoading: isPreviewLoading } = useQuery<{ data: { reportData: GeneratedReportData } }>(
+    ['report-preview', savedReportId],
+    () => api.post(`/reports/${savedReportId}/generate`, { limit: 20 }).then(res => res.data),
+    { enabled: activeTab === 'preview' && Boolean(savedReportId) }
+  );
+
+  const preview = previewData?.data?.reportData;
+  // Drawn from the unsaved chart settings, so changes show without saving
+  const chartData = buildReportChartData(reportConfig.chart, preview);
+
+  const addColumn = (field: ReportField) => {
     const newColumn: ReportColumn = {
       field: field.field,
       label: field.label,
@@ -115,6 +268,14 @@ export const ReportBuilderPage: React.FC = () => {
     }));
   };
 
+  // A new field brings its type; operators the type does not offer fall back to equals
+  const changeFilterField = (index: number, field: string) => {
+    const type = fieldType(field);
+    const filter = reportConfig.filters[index];
+    const operator = getFilterOperators(type).includes(filter.operator) ? filter.operator : 'equals';
+    updateFilter(index, { field, type, operator, label: fieldLabel(field) });
+  };
+
   const removeFilter = (index: number) => {
     setReportConfig(prev => ({
       ...prev,
@@ -122,6 +283,36 @@ export const ReportBuilderPage: React.FC = () => {
     }));
   };
 
+  const addSortKey = () => {
+    setReportConfig(prev => ({
+      ...prev,
+      sorting: [...prev.sorting, { field: '', direction: 'asc' }]
+    }));
+  };
+
+  const updateSortKey = (index: number, updates: Partial<ReportSortKey>) => {
+    setReportConfig(prev => ({
+      ...prev,
+      sorting: prev.sorting.map((key, i) => (i === index ? { ...key, ...updates } : key))
+    }));
+  };
+
+  const moveSortKey = (index: number, offset: number) => {
+    setReportConfig(prev => {
+      const sorting = [...prev.sorting];
+      const [key] = sorting.splice(index, 1);
+      sorting.splice(index + offset, 0, key);
+      return { ...prev, sorting };
+    });
+  };
+
+  const removeSortKey = (index: number) => {
+    setReportConfig(prev => ({
+      ...prev,
+      sorting: prev.sorting.filter((_, i) => i !== index)
+    }));
+  };
+
   const addAggregation = () => {
     const newAggregation: ReportAggregation = {
       field: '',
@@ -151,27 +342,137 @@ export const ReportBuilderPage: React.FC = () => {
     }));
   };
 
+  // Numeric aggregations offer number fields only; count and distinct take any
+  const aggregationFields = (operation: ReportAggregationOperation) => (NUMERIC_AGGREGATIONS.includes(operation)
+    ? availableFields.filter(field => field.type === 'number')
+    : availableFields);
+
+  const setGroupingFields = (fields: string[]) => {
+    setReportConfig(prev => ({
+      ...prev,
+      grouping: { ...prev.grouping, fields }
+    }));
+  };
+
+  const updatePivot = (updates: Partial<ReportPivotConfig>) => {
+    setReportConfig(prev => ({
+      ...prev,
+      pivot: { ...prev.pivot, ...updates }
+    }));
+  };
+
+  const updateChart = (updates: Partial<ReportChartSettings>) => {
+    setReportConfig(prev => ({
+      ...prev,
+      chart: { ...prev.chart, ...updates }
+    }));
+  };
+
+  // Charts plot the row count or one of the report's aggregations
+  const chartMeasures = [
+    { key: 'count', label: 'Number of rows' },
+    ...reportConfig.aggregations
+      .filter(aggregation => aggregation.field)
+      .map(({ field, operation }) => ({
+        key: `${field}_${operation}`,
+        label: `${REPORT_AGGREGATION_LABELS[operation]} of ${fieldLabel(field)}`
+      }))
+  ];
+
   const saveReport = async () => {
     setIsLoading(true);
+    const payload = {
+      ...reportData,
+      configuration: {
+        ...reportConfig,
+        sorting: reportConfig.sorting.filter(key => key.field),
+        grouping: { ...reportConfig.grouping, fields: reportConfig.grouping.fields.filter(Boolean) },
+        pivot: { ...reportConfig.pivot, rows: reportConfig.pivot.rows.filter(Boolean) }
+      }
+    };
+
     try {
-      // API call to save report
+      if (savedReportId) {
+        await api.put(`/reports/${savedReportId}`, payload);
+      } else {
+        const response = await api.post('/reports', payload);
+        const report: SavedReport = response.data.data.report;
+        const id = report.id || report._id;
+        setSavedReportId(id);
+        navigate(`/applications/${reportData.applicationId}/reports/builder/${id}`, { replace: true });
+      }
       toast.success('Report saved successfully');
     } catch (error) {
-      toast.error('Failed to save report');
+      const response = getErrorResponse(error);
+      const [firstError] = response?.data?.errors || [];
+      toast.error(firstError?.message || response?.data?.message || 'Failed to save report');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const generatePreview = () => {
-    // Mock data for preview
-    return [
-      { full_name: 'John Doe', email: 'john@example.com', age: 30, gender: 'Male', created_at: '2024-01-15', status: 'Active' },
-      { full_name: 'Jane Smith', email: 'jane@example.com', age: 25, gender: 'Female', created_at: '2024-01-16', status: 'Active' },
-      { full_name: 'Bob Johnson', email: 'bob@example.com', age: 35, gender: 'Male', created_at: '2024-01-17', status: 'Inactive' }
-    ];
+  const renderFilterValue = (filter: ReportFilter, index: number) => {
+    if (VALUELESS_OPERATORS.includes(filter.operator)) {
+      return null;
+    }
+
+    const inputType = filter.type === 'number' ? 'number' : filter.type === 'date' ? 'date' : 'text';
+
+    if (filter.operator === 'between') {
+      const [min, max] = filterBetweenValues(filter.value);
+      return (
+        <div className="flex space-x-2">
+          <input
+            type={inputType}
+            value={min ?? ''}
+            onChange={(e) => updateFilter(index, { value: [e.target.value, max ?? ''] })}
+            placeholder="From"
+            className="input w-full text-sm"
+          />
+          <input
+            type={inputType}
+            value={max ?? ''}
+            onChange={(e) => updateFilter(index, { value: [min ?? '', e.target.value] })}
+            placeholder="To"
+            className="input w-full text-sm"
+          />
+        </div>
+      );
+    }
+
+    if (filter.type === 'boolean') {
+      return (
+        <select
+          value={String(filter.value ?? '')}
+          onChange={(e) => updateFilter(index, { value: e.target.value })}
+          className="select w-full text-sm"
+        >
+          <option value="">Select value</option>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type={filter.operator === 'in' ? 'text' : inputType}
+        value={Array.isArray(filter.value) ? filter.value.join(', ') : filter.value ?? ''}
+        onChange={(e) => updateFilter(index, { value: e.target.value })}
+        placeholder={filter.operator === 'in' ? 'Values, separated by commas' : 'Filter value'}
+        className="input w-full text-sm"
+      />
+    );
   };
 
+  if (isReportLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen flex flex-col bg-gray-50">
       {/* Header */}
@@ -292,7 +593,7 @@ export const ReportBuilderPage: React.FC = () => {
                         <div className="space-y-2">
                           <select
                             value={filter.field}
-                            onChange={(e) => updateFilter(index, { field: e.target.value })}
+                            onChange={(e) => changeFilterField(index, e.target.value)}
                             className="select w-full text-sm"
                           >
                             <option value="">Select field</option>
@@ -302,22 +603,17 @@ export const ReportBuilderPage: React.FC = () => {
                           </select>
                           <select
                             value={filter.operator}
-                            onChange={(e) => updateFilter(index, { operator: e.target.value as any })}
+                            onChange={(e) => updateFilter(index, { operator: e.target.value as ReportFilter['operator'] })}
                             className="select w-full text-sm"
                           >
-                            <option value="equals">Equals</option>
-                            <option value="contains">Contains</option>
-                            <option value="greater_than">Greater than</option>
-                            <option value="less_than">Less than</option>
-                            <option value="between">Between</option>
+                            {getFilterOperators(filter.type).map(operator => (
+                              <option key={operator} value={operator}>{REPORT_FILTER_OPERATOR_LABELS[operator]}</option>
+                            ))}
                           </select>
-                          <input
-                            type="text"
-                            value={filter.value}
-                            onChange={(e) => updateFilter(index, { value: e.target.value })}
-                            placeholder="Filter value"
-                            className="input w-full text-sm"
-                          />
+                          {renderFilterValue(filter, index)}
+                          {filter.field && !isCompleteFilter(filter) && (
+                            <p className="text-xs text-yellow-700">Incomplete filters are not applied</p>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -355,20 +651,18 @@ export const ReportBuilderPage: React.FC = () => {
                             className="select w-full text-sm"
                           >
                             <option value="">Select field</option>
-                            {availableFields.filter(f => f.type === 'number').map(field => (
+                            {aggregationFields(agg.operation).map(field => (
                               <option key={field.field} value={field.field}>{field.label}</option>
                             ))}
                           </select>
                           <select
                             value={agg.operation}
-                            onChange={(e) => updateAggregation(index, { operation: e.target.value as any })}
+                            onChange={(e) => updateAggregation(index, { operation: e.target.value as ReportAggregationOperation })}
                             className="select w-full text-sm"
                           >
-                            <option value="sum">Sum</option>
-                            <option value="avg">Average</option>
-                            <option value="count">Count</option>
-                            <option value="min">Minimum</option>
-                            <option value="max">Maximum</option>
+                            {REPORT_AGGREGATIONS.map(operation => (
+                              <option key={operation} value={operation}>{REPORT_AGGREGATION_LABELS[operation]}</option>
+                            ))}
                           </select>
                         </div>
                       </div>
@@ -414,33 +708,62 @@ export const ReportBuilderPage: React.FC = () => {
 
                   {/* Sorting */}
                   <div className="mb-6">
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">Sorting</h3>
-                    <div className="flex items-center space-x-4">
-                      <select
-                        value={reportConfig.sorting.field}
-                        onChange={(e) => setReportConfig(prev => ({
-                          ...prev,
-                          sorting: { ...prev.sorting, field: e.target.value }
-                        }))}
-                        className="select flex-1"
-                      >
-                        <option value="">No sorting</option>
-                        {reportConfig.columns.map(column => (
-                          <option key={column.field} value={column.field}>{column.label}</option>
-                        ))}
-                      </select>
-                      <select
-                        value={reportConfig.sorting.direction}
-                        onChange={(e) => setReportConfig(prev => ({
-                          ...prev,
-                          sorting: { ...prev.sorting, direction: e.target.value as 'asc' | 'desc' }
-                        }))}
-                        className="select w-32"
-                      >
-                        <option value="asc">Ascending</option>
-                        <option value="desc">Descending</option>
-                      </select>
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-medium text-gray-900">Sorting</h3>
+                      <button onClick={addSortKey} className="btn btn-outline btn-sm">
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Sort Key
+                      </button>
                     </div>
+                    {reportConfig.sorting.length > 0 ? (
+                      <div className="space-y-2">
+                        {reportConfig.sorting.map((key, index) => (
+                          <div key={index} className="flex items-center space-x-2">
+                            <span className="text-sm text-gray-500 w-16">{index === 0 ? 'Sort by' : 'then by'}</span>
+                            <select
+                              value={key.field}
+                              onChange={(e) => updateSortKey(index, { field: e.target.value })}
+                              className="select flex-1"
+                            >
+                              <option value="">Select field</option>
+                              {availableFields.map(field => (
+                                <option key={field.field} value={field.field}>{field.label}</option>
+                              ))}
+                            </select>
+                            <select
+                              value={key.direction}
+                              onChange={(e) => updateSortKey(index, { direction: e.target.value as 'asc' | 'desc' })}
+                              className="select w-32"
+                            >
+                              <option value="asc">Ascending</option>
+                              <option value="desc">Descending</option>
+                            </select>
+                            <button
+                              onClick={() => moveSortKey(index, -1)}
+                              disabled={index === 0}
+                              className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => moveSortKey(index, 1)}
+                              disabled={index === reportConfig.sorting.length - 1}
+                              className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => removeSortKey(index)}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">Newest submissions first.</p>
+                    )}
                   </div>
 
                   {/* Grouping */}
@@ -457,22 +780,226 @@ export const ReportBuilderPage: React.FC = () => {
                         className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                       />
                       <label className="text-sm text-gray-700">Enable grouping</label>
-                      {reportConfig.grouping.enabled && (
-                        <select
-                          value={reportConfig.grouping.field}
-                          onChange={(e) => setReportConfig(prev => ({
-                            ...prev,
-                            grouping: { ...prev.grouping, field: e.target.value }
-                          }))}
-                          className="select flex-1"
+                    </div>
+                    {reportConfig.grouping.enabled && (
+                      <div className="space-y-2 mt-4">
+                        {reportConfig.grouping.fields.map((groupField, index) => (
+                          <div key={index} className="flex items-center space-x-2">
+                            <span className="text-sm text-gray-500 w-16">{index === 0 ? 'Group by' : 'then by'}</span>
+                            <select
+                              value={groupField}
+                              onChange={(e) => setGroupingFields(reportConfig.grouping.fields.map((field, i) => (i === index ? e.target.value : field)))}
+                              className="select flex-1"
+                            >
+                              <option value="">Select field to group by</option>
+                              {availableFields.map(field => (
+                                <option key={field.field} value={field.field}>{field.label}</option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() => setGroupingFields(reportConfig.grouping.fields.filter((_, i) => i !== index))}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => setGroupingFields([...reportConfig.grouping.fields, ''])}
+                          className="btn btn-outline btn-sm"
                         >
-                          <option value="">Select field to group by</option>
-                          {reportConfig.columns.map(column => (
-                            <option key={column.field} value={column.field}>{column.label}</option>
-                          ))}
-                        </select>
-                      )}
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add Group Level
+                        </button>
+                        {reportConfig.aggregations.length > 0 && (
+                          <p className="text-sm text-gray-500">Aggregations are calculated for every group.</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Pivot */}
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">Pivot Table</h3>
+                    <div className="flex items-center space-x-4">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(reportConfig.pivot.enabled)}
+                        onChange={(e) => updatePivot({ enabled: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <label className="text-sm text-gray-700">Summarize as a pivot table</label>
+                    </div>
+                    {reportConfig.pivot.enabled && (
+                      <div className="grid grid-cols-3 gap-4 mt-4">
+                        <div className="form-group">
+                          <label className="form-label">Rows</label>
+                          <div className="space-y-2">
+                            {reportConfig.pivot.rows.map((rowField, index) => (
+                              <div key={index} className="flex items-center space-x-2">
+                                <select
+                                  value={rowField}
+                                  onChange={(e) => updatePivot({ rows: reportConfig.pivot.rows.map((field, i) => (i === index ? e.target.value : field)) })}
+                                  className="select flex-1 text-sm"
+                                >
+                                  <option value="">Select field</option>
+                                  {availableFields.map(field => (
+                                    <option key={field.field} value={field.field}>{field.label}</option>
+                                  ))}
+                                </select>
+                                <button
+                                  onClick={() => updatePivot({ rows: reportConfig.pivot.rows.filter((_, i) => i !== index) })}
+                                  className="text-red-500 hover:text-red-700"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              </div>
+                            ))}
+                            <button
+                              onClick={() => updatePivot({ rows: [...reportConfig.pivot.rows, ''] })}
+                              className="btn btn-outline btn-sm"
+                            >
+                              <Plus className="h-4 w-4 mr-1" />
+                              Add Row Field
+                            </button>
+                          </div>
+                        </div>
+                        <div className="form-group">
+                          <label className="form-label">Columns</label>
+                          <select
+                            value={reportConfig.pivot.column}
+                            onChange={(e) => updatePivot({ column: e.target.value })}
+                            className="select w-full text-sm"
+                          >
+                            <option value="">Select field</option>
+                            {availableFields.map(field => (
+                              <option key={field.field} value={field.field}>{field.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="form-group">
+                          <label className="form-label">Measure</label>
+                          <div className="space-y-2">
+                            <select
+                              value={reportConfig.pivot.measure.operation}
+                              onChange={(e) => updatePivot({ measure: { ...reportConfig.pivot.measure, operation: e.target.value as ReportAggregationOperation } })}
+                              className="select w-full text-sm"
+                            >
+                              {REPORT_AGGREGATIONS.map(operation => (
+                                <option key={operation} value={operation}>{REPORT_AGGREGATION_LABELS[operation]}</option>
+                              ))}
+                            </select>
+                            <select
+                              value={reportConfig.pivot.measure.field}
+                              onChange={(e) => updatePivot({ measure: { ...reportConfig.pivot.measure, field: e.target.value } })}
+                              className="select w-full text-sm"
+                            >
+                              <option value="">Select field</option>
+                              {aggregationFields(reportConfig.pivot.measure.operation).map(field => (
+                                <option key={field.field} value={field.field}>{field.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Chart */}
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">Chart</h3>
+                    <div className="flex items-center space-x-4">
+                      <input
+                        type="checkbox"
+                        checked={reportConfig.chart.enabled}
+                        onChange={(e) => updateChart({ enabled: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <label className="text-sm text-gray-700">Show a chart with this report</label>
+                    </div>
+                    {reportConfig.chart.enabled && (
+                      <div className="grid grid-cols-2 gap-4 mt-4">
+                        <div className="form-group">
+                          <label className="form-label">Chart Type</label>
+                          <select
+                            value={reportConfig.chart.type}
+                            onChange={(e) => updateChart({ type: e.target.value as ReportChartType })}
+                            className="select w-full text-sm"
+                          >
+                            {REPORT_CHART_TYPES.map(type => (
+                              <option key={type} value={type}>{REPORT_CHART_TYPE_LABELS[type]}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="form-group">
+                          <label className="form-label">Title</label>
+                          <input
+                            type="text"
+                            value={reportConfig.chart.title || ''}
+                            onChange={(e) => updateChart({ title: e.target.value })}
+                            className="input w-full text-sm"
+                          />
+                        </div>
+                        {reportConfig.chart.type !== 'kpi' && (
+                          <div className="form-group">
+                            <label className="form-label">Plot</label>
+                            <select
+                              value={reportConfig.chart.source}
+                              onChange={(e) => updateChart({ source: e.target.value as ReportChartSource })}
+                              className="select w-full text-sm"
+                            >
+                              <option value="groups">Groups</option>
+                              <option value="pivot">Pivot table</option>
+                            </select>
+                          </div>
+                        )}
+                        {(reportConfig.chart.type === 'kpi' || reportConfig.chart.source !== 'pivot') && (
+                          <div className="form-group">
+                            <label className="form-label">Measure</label>
+                            <select
+                              value={reportConfig.chart.measure}
+                              onChange={(e) => updateChart({ measure: e.target.value })}
+                              className="select w-full text-sm"
+                            >
+                              {chartMeasures.map(measure => (
+                                <option key={measure.key} value={measure.key}>{measure.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Repeater Rows */}
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">Repeater Rows</h3>
+                    <div className="flex items-center space-x-4">
+                      <input
+                        type="text"
+                        value={reportConfig.repeater.field}
+                        onChange={(e) => setReportConfig(prev => ({
+                          ...prev,
+                          repeater: { ...prev.repeater, field: e.target.value }
+                        }))}
+                        className="input flex-1"
+                        placeholder="Repeater field name"
+                      />
+                      <select
+                        value={reportConfig.repeater.mode}
+                        onChange={(e) => setReportConfig(prev => ({
+                          ...prev,
+                          repeater: { ...prev.repeater, mode: e.target.value as 'flatten' | 'explode' }
+                        }))}
+                        className="select w-56"
+                      >
+                        <option value="flatten">Flatten into one line</option>
+                        <option value="explode">One line per row</option>
+                      </select>
                     </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      Columns such as items.amount read the matching sub-field of each row.
+                    </p>
                   </div>
                 </div>
               </div>
@@ -486,8 +1013,32 @@ export const ReportBuilderPage: React.FC = () => {
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
                 <h2 className="text-xl font-semibold text-gray-900 mb-6">{reportData.name}</h2>
                 
-                {reportConfig.columns.length > 0 ? (
-                  <div className="overflow-x-auto">
+                {!savedReportId ? (
+                  <div className="text-center py-12">
+                    <BarChart3 className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Save to Preview</h3>
+                    <p className="text-gray-600">
+                      The preview shows the first rows of the saved report.
+                    </p>
+                  </div>
+                ) : isPreviewLoading ? (
+                  <div className="flex justify-center py-12">
+                    <LoadingSpinner size="lg" />
+                  </div>
+                ) : reportConfig.columns.length > 0 ? (
+                  <div className="overflow-x-auto space-y-6">
+                    {chartData && <ReportChart chart={chartData} />}
+                    {preview?.pivot && (
+                      <ReportPivotTable pivot={preview.pivot} labelOf={fieldLabel} />
+                    )}
+                    {preview?.groups && (
+                      <ReportGroupsTable
+                        groupBy={preview.groupBy || []}
+                        groups={preview.groups}
+                        aggregations={reportConfig.aggregations.filter(aggregation => aggregation.field)}
+                        labelOf={fieldLabel}
+                      />
+                    )}
                     <table className="table">
                       <thead className="table-header">
                         <tr>
@@ -495,28 +1046,31 @@ export const ReportBuilderPage: React.FC = () => {
                             <th key={column.field} className="table-cell">
                               <div className="flex items-center space-x-1">
                                 <span>{column.label}</span>
-                                {reportConfig.sorting.field === column.field && (
-                                  reportConfig.sorting.direction === 'asc' ? 
-                                    <SortAsc className="h-4 w-4" /> : 
-                                    <SortDesc className="h-4 w-4" />
-                                )}
+                                {reportConfig.sorting.filter(key => key.field === column.field).map(key => (
+                                  key.direction === 'asc' ?
+                                    <SortAsc key="sort" className="h-4 w-4" /> :
+                                    <SortDesc key="sort" className="h-4 w-4" />
+                                ))}
                               </div>
                             </th>
                           ))}
                         </tr>
                       </thead>
                       <tbody>
-                        {generatePreview().map((row, index) => (
+                        {(preview?.data || []).map((row, index) => (
                           <tr key={index} className="table-row">
                             {reportConfig.columns.map((column) => (
                               <td key={column.field} className="table-cell">
-                                {row[column.field as keyof typeof row]}
+                                {typeof row[column.field] === 'object' ? JSON.stringify(row[column.field]) : String(row[column.field] ?? '')}
                               </td>
                             ))}
                           </tr>
                         ))}
                       </tbody>
                     </table>
+                    <p className="text-sm text-gray-500 mt-4">
+                      {preview?.total ?? 0} rows in total
+                    </p>
                   </div>
                 ) : (
                   <div className="text-center py-12">
@@ -580,9 +1134,9 @@ export const ReportBuilderPage: React.FC = () => {
                       className="select w-full"
                     >
                       <option value="">Select a form</option>
-                      <option value="customer_form">Customer Registration Form</option>
-                      <option value="feedback_form">Feedback Form</option>
-                      <option value="survey_form">Survey Form</option>
+                      {forms.map(form => (
+                        <option key={form.formId} value={form.formId}>{form.name}</option>
+                      ))}
                     </select>
                   </div>
                 </div>
@@ -15,9 +15,13 @@ import {
   User,
   ArrowLeft,
   Download,
-  Play
+  Play,
+  Clock
 } from 'lucide-react';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { ScheduleReportModal, ReportSchedule } from '../../components/reports/ScheduleReportModal';
+import { ReportChartWidget } from '../../components/reports/ReportChart';
+import { ReportChart } from '../../lib/reportCharts';
 import { formatDate } from '../../lib/utils';
 import api from '../../lib/api';
 
@@ -26,6 +30,7 @@ interface Report {
   reportId: string;
   name: string;
   description: string;
+  applicationId: string;
   type: 'custom' | 'automated';
   sourceForm: string;
   createdAt: string;
@@ -34,10 +39,9 @@ interface Report {
     lastName: string;
     email: string;
   };
-  schedule?: {
-    enabled: boolean;
-    frequency: string;
-    recipients: string[];
+  schedule?: Partial<ReportSchedule>;
+  configuration?: {
+    chart?: Partial<ReportChart>;
   };
 }
 
@@ -46,6 +50,7 @@ export const ReportsPage: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [schedulingReport, setSchedulingReport] = useState<Report | null>(null);
 
   const { data, isLoading, error } = useQuery<{ data: { reports: Report[]; pagination: any } }>(
     ['reports', applicationId, currentPage, searchTerm, typeFilter],
@@ -57,7 +62,7 @@ export const ReportsPage: React.FC = () => {
         search: searchTerm || undefined,
         type: typeFilter || undefined
       }
-    }),
+    }).then(res => res.data),
     {
       keepPreviousData: true
     }
@@ -198,8 +203,15 @@ export const ReportsPage: React.FC = () => {
                           <Play className="h-4 w-4 mr-2" />
                           Generate Now
                         </button>
+                        <button
+                          onClick={() => setSchedulingReport(report)}
+                          className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          <Clock className="h-4 w-4 mr-2" />
+                          Schedule Delivery
+                        </button>
                         <Link
-                          to={`/reports/${report.id}/edit`}
+                          to={`/applications/${report.applicationId}/reports/builder/${report.id}`}
                           className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
                         >
                           <Edit className="h-4 w-4 mr-2" />
@@ -226,12 +238,20 @@ export const ReportsPage: React.FC = () => {
                   {report.description || 'No description provided'}
                 </p>
 
+                {report.configuration?.chart?.enabled && (
+                  <div className="mb-4">
+                    <ReportChartWidget reportId={report.id} chart={report.configuration.chart} />
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between mb-4">
                   <span className={getTypeBadge(report.type)}>
                     {report.type.charAt(0).toUpperCase() + report.type.slice(1)}
                   </span>
                   {report.schedule?.enabled && (
-                    <span className="badge badge-success">Scheduled</span>
+                    <button onClick={() => setSchedulingReport(report)} className="badge badge-success">
+                      Scheduled
+                    </button>
                   )}
                 </div>
 
@@ -312,6 +332,15 @@ export const ReportsPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {schedulingReport && (
+        <ScheduleReportModal
+          reportId={schedulingReport.id}
+          reportName={schedulingReport.name}
+          schedule={schedulingReport.schedule}
+          onClose={() => setSchedulingReport(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,430 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import { Link } from 'react-router-dom';
+import {
+  Inbox,
+  CheckCircle,
+  XCircle,
+  Calendar,
+  Clock,
+  FileText,
+  RotateCcw
+} from 'lucide-react';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { PendingApprovers, type ApprovalState } from '../../components/workflows/PendingApprovers';
+import { RequestChangesModal } from '../../components/workflows/RequestChangesModal';
+import { formatDate } from '../../lib/utils';
+import api, { getErrorResponse } from '../../lib/api';
+import toast from 'react-hot-toast';
+
+interface WorkflowTask {
+  submissionId: string;
+  applicationId: string;
+  formId: string;
+  formName: string | null;
+  workflow: {
+    id: string;
+    workflowId: string;
+    name: string;
+  };
+  stage: {
+    id: string;
+    name: string;
+    actions: string[];
+  };
+  status: string;
+  submittedBy: {
+    firstName: string;
+    lastName: string;
+    email: string;
+  } | null;
+  submittedAt: string;
+  waitingSince: string;
+  deadline: string | null;
+  // Set when the task is there through someone's delegation
+  onBehalfOf: { id: string; name: string } | null;
+  assignedTo: { stage: string; id: string; name: string } | null;
+  approval: ApprovalState | null;
+  // Earlier stages changes can be sent back to, and how many times they have been
+  returnStages: { id: string; name: string }[];
+  revisionRound: number;
+}
+
+interface BulkResult {
+  submissionId: string;
+  success: boolean;
+  message?: string;
+}
+
+// Waiting times offered in the age filter, in hours
+const AGE_FILTERS = [
+  { label: 'Any age', value: '' },
+  { label: 'Waiting over 1 day', value: '24' },
+  { label: 'Waiting over 3 days', value: '72' },
+  { label: 'Waiting over 1 week', value: '168' }
+];
+
+/**
+ * Submissions waiting on the current user at a workflow stage, with bulk
+ * approve and reject.
+ */
+export const InboxPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [applicationId, setApplicationId] = useState('');
+  const [formId, setFormId] = useState('');
+  const [minAge, setMinAge] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comments, setComments] = useState('');
+  const [isActing, setIsActing] = useState(false);
+  const [sendingBack, setSendingBack] = useState<WorkflowTask | null>(null);
+
+  const { data, isLoading, error } = useQuery<{ data: { tasks: WorkflowTask[]; pagination: any } }>(
+    ['workflow-tasks', applicationId, formId, minAge, currentPage],
+    () => api.get('/workflows/tasks', {
+      params: {
+        applicationId: applicationId || undefined,
+        formId: formId || undefined,
+        minAge: minAge || undefined,
+        page: currentPage,
+        limit: 20
+      }
+    }).then(res => res.data),
+    {
+      keepPreviousData: true
+    }
+  );
+
+  const { data: applicationsData } = useQuery<{ data: { applications: { id: string; name: string }[] } }>(
+    ['inbox-applications'],
+    () => api.get('/applications', { params: { limit: 100 } }).then(res => res.data)
+  );
+
+  const { data: formsData } = useQuery<{ data: { forms: { formId: string; name: string }[] } }>(
+    ['inbox-forms', applicationId],
+    () => api.get('/forms', { params: { applicationId, limit: 100 } }).then(res => res.data),
+    { enabled: Boolean(applicationId) }
+  );
+
+  const tasks = data?.data?.tasks || [];
+  const pagination = data?.data?.pagination;
+  const applications = applicationsData?.data?.applications || [];
+  const forms = formsData?.data?.forms || [];
+
+  const toggleSelected = (submissionId: string) => {
+    setSelected(prev => prev.includes(submissionId)
+      ? prev.filter(id => id !== submissionId)
+      : [...prev, submissionId]);
+  };
+
+  const allSelected = tasks.length > 0 && tasks.every(task => selected.includes(task.submissionId));
+
+  const toggleAll = () => {
+    setSelected(allSelected ? [] : tasks.map(task => task.submissionId));
+  };
+
+  const runBulkAction = async (action: 'approve' | 'reject') => {
+    if (selected.length === 0) return;
+
+    setIsActing(true);
+    try {
+      const response = await api.post('/workflows/tasks/bulk', {
+        submissionIds: selected,
+        action,
+        comments
+      });
+      const results: BulkResult[] = response.data.data.results;
+      const failed = results.filter(result => !result.success);
+
+      if (failed.length > 0) {
+        toast.error(`${failed.length} submission${failed.length > 1 ? 's' : ''} could not be updated: ${failed[0].message}`);
+      } else {
+        toast.success(response.data.message);
+      }
+      setSelected(failed.map(result => result.submissionId));
+      setComments('');
+      queryClient.invalidateQueries('workflow-tasks');
+    } catch (error) {
+      toast.error(getErrorResponse(error)?.data?.message || 'Failed to update submissions');
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-600">Failed to load your tasks. Please try again.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Inbox</h1>
+        <p className="mt-2 text-gray-600">
+          Submissions waiting on you at a workflow stage.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="card">
+        <div className="card-body">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="sm:w-64">
+              <select
+                value={applicationId}
+                onChange={(e) => {
+                  setApplicationId(e.target.value);
+                  setFormId('');
+                  setCurrentPage(1);
+                }}
+                className="select w-full"
+              >
+                <option value="">All Applications</option>
+                {applications.map(application => (
+                  <option key={application.id} value={application.id}>
+                    {application.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:w-64">
+              <select
+                value={formId}
+                onChange={(e) => {
+                  setFormId(e.target.value);
+                  setCurrentPage(1);
+                }}
+                className="select w-full"
+                disabled={!applicationId}
+              >
+                <option value="">All Forms</option>
+                {forms.map(form => (
+                  <option key={form.formId} value={form.formId}>{form.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:w-48">
+              <select
+                value={minAge}
+                onChange={(e) => {
+                  setMinAge(e.target.value);
+                  setCurrentPage(1);
+                }}
+                className="select w-full"
+              >
+                {AGE_FILTERS.map(filter => (
+                  <option key={filter.value} value={filter.value}>{filter.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Bulk actions */}
+      {selected.length > 0 && (
+        <div className="card">
+          <div className="card-body flex flex-col sm:flex-row sm:items-center gap-4">
+            <span className="text-sm text-gray-700">{selected.length} selected</span>
+            <input
+              type="text"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Comments (optional)"
+              className="input flex-1"
+            />
+            <button
+              onClick={() => runBulkAction('approve')}
+              disabled={isActing}
+              className="btn btn-primary"
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Approve
+            </button>
+            <button
+              onClick={() => runBulkAction('reject')}
+              disabled={isActing}
+              className="btn btn-outline text-red-600"
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Tasks Table */}
+      {tasks.length > 0 ? (
+        <div className="card">
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead className="table-header">
+                <tr>
+                  <th className="table-cell">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={toggleAll}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                  </th>
+                  <th className="table-cell">Submission</th>
+                  <th className="table-cell">Submitted By</th>
+                  <th className="table-cell">Stage</th>
+                  <th className="table-cell">Waiting Since</th>
+                  <th className="table-cell">Due</th>
+                  <th className="table-cell"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {tasks.map((task) => (
+                  <tr key={task.submissionId} className="table-row">
+                    <td className="table-cell">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(task.submissionId)}
+                        onChange={() => toggleSelected(task.submissionId)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="table-cell">
+                      <div className="flex items-center space-x-2">
+                        <FileText className="h-4 w-4 text-gray-400" />
+                        <div>
+                          <Link
+                            to={`/applications/${task.applicationId}/forms/${task.formId}/submissions`}
+                            className="font-medium text-gray-900 hover:text-blue-600"
+                          >
+                            {task.formName || task.formId}
+                          </Link>
+                          <p className="font-mono text-xs text-gray-500">{task.submissionId}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="table-cell">
+                      <p className="text-sm text-gray-900">
+                        {task.submittedBy
+                          ? `${task.submittedBy.firstName} ${task.submittedBy.lastName}`
+                          : 'Guest'}
+                      </p>
+                    </td>
+                    <td className="table-cell">
+                      <p className="text-sm text-gray-900">{task.stage.name}</p>
+                      <p className="text-xs text-gray-500">{task.workflow.name}</p>
+                      {task.onBehalfOf && (
+                        <span className="badge badge-secondary text-xs">On behalf of {task.onBehalfOf.name}</span>
+                      )}
+                      {task.assignedTo && !task.onBehalfOf && (
+                        <span className="badge badge-primary text-xs">Assigned to you</span>
+                      )}
+                      {task.revisionRound > 0 && (
+                        <span className="badge badge-warning text-xs">Revision {task.revisionRound}</span>
+                      )}
+                      <PendingApprovers approval={task.approval} compact />
+                    </td>
+                    <td className="table-cell">
+                      <div className="flex items-center text-sm text-gray-500">
+                        <Calendar className="h-4 w-4 mr-1" />
+                        {formatDate(task.waitingSince, 'relative')}
+                      </div>
+                    </td>
+                    <td className="table-cell">
+                      {task.deadline ? (
+                        <div className={`flex items-center text-sm ${new Date(task.deadline) < new Date() ? 'text-red-600' : 'text-gray-500'}`}>
+                          <Clock className="h-4 w-4 mr-1" />
+                          {formatDate(task.deadline, 'short')}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-400">-</span>
+                      )}
+                    </td>
+                    <td className="table-cell">
+                      {task.stage.actions.includes('request_changes') && (
+                        <button
+                          onClick={() => setSendingBack(task)}
+                          className="btn btn-outline btn-sm"
+                          title="Send back for changes"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Request Changes
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className="card">
+          <div className="card-body text-center py-12">
+            <Inbox className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Nothing waiting on you</h3>
+            <p className="text-gray-600">
+              {applicationId || minAge
+                ? 'No tasks match your current filters.'
+                : 'Submissions that need your approval will show up here.'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {sendingBack && (
+        <RequestChangesModal
+          workflowId={sendingBack.workflow.id}
+          submissionId={sendingBack.submissionId}
+          currentStage={sendingBack.stage.name}
+          returnStages={sendingBack.returnStages}
+          onClose={() => setSendingBack(null)}
+          onSent={() => {
+            setSendingBack(null);
+            setSelected(prev => prev.filter(id => id !== sendingBack.submissionId));
+            queryClient.invalidateQueries('workflow-tasks');
+          }}
+        />
+      )}
+
+      {/* Pagination */}
+      {pagination && pagination.pages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-700">
+            Showing {((currentPage - 1) * pagination.limit) + 1} to{' '}
+            {Math.min(currentPage * pagination.limit, pagination.total)} of{' '}
+            {pagination.total} results
+          </p>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+              disabled={currentPage === 1}
+              className="btn btn-outline btn-sm"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setCurrentPage(Math.min(pagination.pages, currentPage + 1))}
+              disabled={currentPage === pagination.pages}
+              className="btn btn-outline btn-sm"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,38 +1,92 @@
 import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from 'react-query';
 import { 
   Save, 
   Eye, 
   Settings, 
   Plus,
+  Minus,
   Trash2,
   ArrowRight,
   Users,
   Clock,
-  CheckCircle,
   XCircle,
   GitBranch
 } from 'lucide-react';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { WorkflowSimulator } from '../../components/workflows/WorkflowSimulator';
+import {
+  WorkflowCanvas,
+  autoLayout,
+  nextFreePosition,
+  type StageLayout,
+  type StagePosition
+} from '../../components/workflows/WorkflowCanvas';
+import {
+  CONDITION_OPERATORS,
+  CONDITION_OPERATOR_LABELS,
+  UNARY_OPERATORS,
+  type Condition,
+  type ConditionGroup,
+  type ConditionOperator
+} from '../../lib/conditionalLogic';
+import { CONTEXT_FIELDS, METADATA_PREFIX } from '../../lib/workflowConditions';
+import api, { getErrorResponse } from '../../lib/api';
 import toast from 'react-hot-toast';
 
 interface WorkflowStage {
   id: string;
   name: string;
   role: string;
+  // Any of these roles, or a higher one
+  roles?: string[];
   users: string[];
   actions: string[];
   conditions?: any;
   notifications?: any;
+  // Parallel approval: every approver, any one, or a number of them must approve
+  approval?: {
+    mode: 'single' | 'all' | 'any' | 'count';
+    count?: number;
+    rejection?: 'any' | 'quorum';
+  };
 }
 
 interface WorkflowTransition {
   from: string;
   to: string;
-  condition?: any;
-  action: string;
+  condition?: ConditionGroup;
+  // Any action of the stage when unset
+  action?: string;
+  // The else branch, taken when no other transition for the action matches
+  isDefault?: boolean;
 }
 
+interface SavedWorkflow {
+  id?: string;
+  _id?: string;
+  name: string;
+  description?: string;
+  applicationId: string;
+  formId?: string;
+  stages: WorkflowStage[];
+  transitions?: WorkflowTransition[];
+  settings?: Record<string, any>;
+  metadata?: { layout?: StageLayout };
+}
+
+interface TargetForm {
+  id: string;
+  formId: string;
+  name: string;
+  structure?: { fields?: { name: string; label: string; type: string }[] };
+}
+
+const stageRoles = (stage: WorkflowStage) => (
+  stage.roles?.length ? stage.roles : stage.role ? [stage.role] : []
+);
+
 export const WorkflowBuilderPage: React.FC = () => {
   const { applicationId, workflowId } = useParams<{ applicationId?: string; workflowId?: string }>();
   const navigate = useNavigate();
@@ -52,11 +106,74 @@ export const WorkflowBuilderPage: React.FC = () => {
     settings: {
       autoProgress: false,
       enableEscalation: false,
-      escalationTime: 24
+      escalationTime: 24,
+      reminderTime: 0,
+      escalationAction: 'notify',
+      escalationRole: '',
+      escalationUsers: [] as string[]
+    },
+    // Canvas positions of the stages
+    metadata: {
+      layout: {} as StageLayout
     }
   });
 
+  const [savedWorkflowId, setSavedWorkflowId] = useState<string>();
   const [selectedStage, setSelectedStage] = useState<WorkflowStage | null>(null);
+  const [selectedTransition, setSelectedTransition] = useState<number | null>(null);
+
+  const applySavedWorkflow = (workflow: SavedWorkflow) => {
+    const stages = workflow.stages || [];
+    const transitions = workflow.transitions || [];
+    const layout = workflow.metadata?.layout || {};
+
+    setWorkflowData({
+      name: workflow.name,
+      description: workflow.description || '',
+      applicationId: workflow.applicationId,
+      formId: workflow.formId || ''
+    });
+    setWorkflowConfig(prev => ({
+      stages,
+      transitions,
+      settings: { ...prev.settings, ...workflow.settings },
+      // Workflows saved before the canvas have no positions yet
+      metadata: {
+        layout: { ...autoLayout(stages, transitions), ...layout }
+      }
+    }));
+    setSavedWorkflowId(workflow.id || workflow._id);
+    setSelectedStage(null);
+    setSelectedTransition(null);
+  };
+
+  const { isLoading: isWorkflowLoading } = useQuery<{ data: { workflow: SavedWorkflow } }>(
+    ['workflow', workflowId],
+    () => api.get(`/workflows/${workflowId}`).then(res => res.data),
+    {
+      // Skip the fetch when the id in the route is the workflow this page just created
+      enabled: Boolean(workflowId) && workflowId !== savedWorkflowId,
+      refetchOnWindowFocus: false,
+      onSuccess: (response) => applySavedWorkflow(response.data.workflow),
+      onError: () => {
+        toast.error('Failed to load workflow');
+      }
+    }
+  );
+
+  const { data: formsData } = useQuery<{ data: { forms: TargetForm[] } }>(
+    ['forms', workflowData.applicationId, 'workflow-targets'],
+    () => api.get('/forms', { params: { applicationId: workflowData.applicationId, limit: 100 } }).then(res => res.data),
+    { enabled: Boolean(workflowData.applicationId) }
+  );
+
+  const forms = formsData?.data?.forms || [];
+  const targetForm = forms.find(form => form.formId === workflowData.formId);
+  // Fields transition conditions can test: the target form's fields, then the submission context
+  const conditionFields = [
+    ...(targetForm?.structure?.fields || []).map(field => ({ value: field.name, label: field.label || field.name })),
+    ...CONTEXT_FIELDS.map(field => ({ value: field, label: field }))
+  ];
 
   const availableRoles = [
     { value: 'admin', label: 'Administrator' },
@@ -70,6 +187,7 @@ export const WorkflowBuilderPage: React.FC = () => {
     { value: 'approve', label: 'Approve' },
     { value: 'reject', label: 'Reject' },
     { value: 'review', label: 'Review' },
+    { value: 'request_changes', label: 'Request Changes' },
     { value: 'finalize', label: 'Finalize' }
   ];
 
@@ -78,6 +196,7 @@ export const WorkflowBuilderPage: React.FC = () => {
       id: `stage_${Date.now()}`,
       name: `Stage ${workflowConfig.stages.length + 1}`,
       role: '',
+      roles: [],
       users: [],
       actions: [],
       conditions: {},
@@ -86,10 +205,15 @@ export const WorkflowBuilderPage: React.FC = () => {
 
     setWorkflowConfig(prev => ({
       ...prev,
-      stages: [...prev.stages, newStage]
+      stages: [...prev.stages, newStage],
+      metadata: {
+        ...prev.metadata,
+        layout: { ...prev.metadata.layout, [newStage.id]: nextFreePosition(prev.metadata.layout) }
+      }
     }));
 
     setSelectedStage(newStage);
+    setSelectedTransition(null);
   };
 
   const updateStage = (stageId: string, updates: Partial<WorkflowStage>) => {
@@ -106,96 +230,154 @@ export const WorkflowBuilderPage: React.FC = () => {
   };
 
   const removeStage = (stageId: string) => {
-    setWorkflowConfig(prev => ({
-      ...prev,
-      stages: prev.stages.filter(stage => stage.id !== stageId),
-      transitions: prev.transitions.filter(t => t.from !== stageId && t.to !== stageId)
-    }));
+    setWorkflowConfig(prev => {
+      const { [stageId]: _removed, ...layout } = prev.metadata.layout;
+      return {
+        ...prev,
+        stages: prev.stages.filter(stage => stage.id !== stageId),
+        transitions: prev.transitions.filter(t => t.from !== stageId && t.to !== stageId),
+        metadata: { ...prev.metadata, layout }
+      };
+    });
 
     if (selectedStage?.id === stageId) {
       setSelectedStage(null);
     }
+    // Transition indexes shift when the stage's transitions go
+    setSelectedTransition(null);
+  };
+
+  const selectStage = (stageId: string) => {
+    setSelectedStage(workflowConfig.stages.find(stage => stage.id === stageId) || null);
+    setSelectedTransition(null);
+  };
+
+  const selectTransition = (index: number) => {
+    setSelectedTransition(index);
+    setSelectedStage(null);
+  };
+
+  const moveStage = (stageId: string, position: StagePosition) => {
+    setWorkflowConfig(prev => ({
+      ...prev,
+      metadata: {
+        ...prev.metadata,
+        layout: { ...prev.metadata.layout, [stageId]: position }
+      }
+    }));
+  };
+
+  const arrangeStages = () => {
+    setWorkflowConfig(prev => ({
+      ...prev,
+      metadata: { ...prev.metadata, layout: autoLayout(prev.stages, prev.transitions) }
+    }));
   };
 
-  const addTransition = (fromStage: string, toStage: string, action: string) => {
+  const addTransition = (fromStage: string, toStage: string) => {
+    const actions = workflowConfig.stages.find(stage => stage.id === fromStage)?.actions || [];
     const newTransition: WorkflowTransition = {
       from: fromStage,
       to: toStage,
-      action
+      action: actions.includes('approve') ? 'approve' : actions[0]
     };
 
     setWorkflowConfig(prev => ({
       ...prev,
       transitions: [...prev.transitions, newTransition]
     }));
+    selectTransition(workflowConfig.transitions.length);
+  };
+
+  const updateTransition = (index: number, updates: Partial<WorkflowTransition>) => {
+    setWorkflowConfig(prev => ({
+      ...prev,
+      transitions: prev.transitions.map((transition, i) =>
+        i === index ? { ...transition, ...updates } : transition
+      )
+    }));
+  };
+
+  const removeTransition = (index: number) => {
+    setWorkflowConfig(prev => ({
+      ...prev,
+      transitions: prev.transitions.filter((_, i) => i !== index)
+    }));
+    setSelectedTransition(null);
+  };
+
+  const updateTransitionCondition = (index: number, conditionIndex: number, updates: Partial<Condition>) => {
+    const condition = workflowConfig.transitions[index].condition!;
+    updateTransition(index, {
+      condition: {
+        ...condition,
+        conditions: condition.conditions.map((item, i) =>
+          i === conditionIndex ? { ...item, ...updates } : item
+        )
+      }
+    });
   };
 
   const saveWorkflow = async () => {
     setIsLoading(true);
+    const payload = {
+      name: workflowData.name,
+      description: workflowData.description,
+      applicationId: workflowData.applicationId,
+      formId: workflowData.formId,
+      stages: workflowConfig.stages,
+      transitions: workflowConfig.transitions,
+      settings: workflowConfig.settings,
+      metadata: workflowConfig.metadata
+    };
+
     try {
-      // API call to save workflow
+      if (savedWorkflowId) {
+        await api.put(`/workflows/${savedWorkflowId}`, payload);
+      } else {
+        const response = await api.post('/workflows', payload);
+        const workflow: SavedWorkflow = response.data.data.workflow;
+        const id = workflow.id || workflow._id;
+        setSavedWorkflowId(id);
+        navigate(`/applications/${workflowData.applicationId}/workflows/builder/${id}`, { replace: true });
+      }
       toast.success('Workflow saved successfully');
     } catch (error) {
-      toast.error('Failed to save workflow');
+      // Definition errors are messages, request validation errors are { field, message }
+      const response = getErrorResponse(error);
+      const [firstError] = response?.data?.errors || [];
+      const message = typeof firstError === 'string' ? firstError : firstError?.message;
+      toast.error(message || response?.data?.message || 'Failed to save workflow');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const activeTransition = selectedTransition !== null ? workflowConfig.transitions[selectedTransition] : undefined;
+  const stageName = (stageId: string) => (
+    workflowConfig.stages.find(stage => stage.id === stageId)?.name || stageId
+  );
+
   const renderWorkflowDiagram = () => {
     return (
-      <div className="space-y-8">
-        {workflowConfig.stages.map((stage, index) => (
-          <div key={stage.id} className="flex items-center">
-            {/* Stage */}
-            <div
-              onClick={() => setSelectedStage(stage)}
-              className={`workflow-node min-w-48 ${
-                selectedStage?.id === stage.id ? 'workflow-node-active' : ''
-              }`}
-            >
-              <div className="flex items-center justify-between mb-2">
-                <h4 className="font-semibold text-gray-900">{stage.name}</h4>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    removeStage(stage.id);
-                  }}
-                  className="text-gray-400 hover:text-red-500"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </button>
-              </div>
-              <div className="space-y-2 text-sm text-gray-600">
-                <div className="flex items-center">
-                  <Users className="h-4 w-4 mr-2" />
-                  <span>{stage.role || 'No role assigned'}</span>
-                </div>
-                <div className="flex items-center">
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                  <span>{stage.actions.length} actions</span>
-                </div>
-              </div>
-            </div>
+      <div className="space-y-4">
+        <WorkflowCanvas
+          stages={workflowConfig.stages}
+          transitions={workflowConfig.transitions}
+          layout={workflowConfig.metadata.layout}
+          selectedStageId={selectedStage?.id || null}
+          selectedTransition={selectedTransition}
+          onSelectStage={selectStage}
+          onSelectTransition={selectTransition}
+          onMoveStage={moveStage}
+          onConnect={addTransition}
+          onRemoveStage={removeStage}
+          onAutoLayout={arrangeStages}
+        />
 
-            {/* Arrow to next stage */}
-            {index < workflowConfig.stages.length - 1 && (
-              <div className="flex items-center mx-4">
-                <ArrowRight className="h-6 w-6 text-gray-400" />
-              </div>
-            )}
-          </div>
-        ))}
-
-        {/* Add Stage Button */}
-        <button
-          onClick={addStage}
-          className="workflow-node border-dashed border-2 border-gray-300 hover:border-blue-400 hover:bg-blue-50 transition-colors flex items-center justify-center min-h-24"
-        >
-          <div className="text-center">
-            <Plus className="h-8 w-8 text-gray-400 mx-auto mb-2" />
-            <span className="text-sm text-gray-600">Add Stage</span>
-          </div>
+        <button onClick={addStage} className="btn btn-outline">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Stage
         </button>
       </div>
     );
@@ -273,9 +455,13 @@ export const WorkflowBuilderPage: React.FC = () => {
           <>
             {/* Workflow Canvas */}
             <div className="flex-1 overflow-y-auto p-6">
-              <div className="max-w-4xl mx-auto">
+              <div className="max-w-6xl mx-auto">
                 <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 min-h-96">
-                  {workflowConfig.stages.length === 0 ? (
+                  {isWorkflowLoading ? (
+                    <div className="flex justify-center py-12">
+                      <LoadingSpinner />
+                    </div>
+                  ) : workflowConfig.stages.length === 0 ? (
                     <div className="text-center py-12">
                       <GitBranch className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                       <h3 className="text-lg font-semibold text-gray-900 mb-2">Start Building Your Workflow</h3>
@@ -297,7 +483,7 @@ export const WorkflowBuilderPage: React.FC = () => {
               </div>
             </div>
 
-            {/* Stage Properties Panel */}
+            {/* Stage / Transition Properties Panel */}
             <div className="w-80 bg-white border-l border-gray-200 overflow-y-auto">
               <div className="p-4">
                 {selectedStage ? (
@@ -316,17 +502,29 @@ export const WorkflowBuilderPage: React.FC = () => {
                       </div>
 
                       <div className="form-group">
-                        <label className="form-label">Assigned Role</label>
-                        <select
-                          value={selectedStage.role}
-                          onChange={(e) => updateStage(selectedStage.id, { role: e.target.value })}
-                          className="select w-full"
-                        >
-                          <option value="">Select a role</option>
+                        <label className="form-label">Assigned Roles</label>
+                        <div className="space-y-2">
                           {availableRoles.map(role => (
-                            <option key={role.value} value={role.value}>{role.label}</option>
+                            <label key={role.value} className="flex items-center">
+                              <input
+                                type="checkbox"
+                                checked={stageRoles(selectedStage).includes(role.value)}
+                                onChange={(e) => {
+                                  const current = stageRoles(selectedStage);
+                                  const roles = e.target.checked
+                                    ? [...current, role.value]
+                                    : current.filter(r => r !== role.value);
+                                  updateStage(selectedStage.id, { roles, role: roles[0] || '' });
+                                }}
+                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                              />
+                              {role.label}
+                            </label>
                           ))}
-                        </select>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Users with any of these roles, or a higher one, can act at this stage
+                        </p>
                       </div>
 
                       <div className="form-group">
@@ -351,6 +549,66 @@ export const WorkflowBuilderPage: React.FC = () => {
                         </div>
                       </div>
 
+                      <div className="form-group">
+                        <label className="form-label">Approval</label>
+                        <select
+                          value={selectedStage.approval?.mode || 'single'}
+                          onChange={(e) => {
+                            const mode = e.target.value as NonNullable<WorkflowStage['approval']>['mode'];
+                            updateStage(selectedStage.id, {
+                              approval: mode === 'single'
+                                ? undefined
+                                : { rejection: 'any', ...selectedStage.approval, mode }
+                            });
+                          }}
+                          className="select w-full"
+                        >
+                          <option value="single">First approver decides</option>
+                          <option value="all">All approvers must approve</option>
+                          <option value="any">Any one approver</option>
+                          <option value="count">A number of approvers</option>
+                        </select>
+                        <p className="form-help">
+                          With parallel approval, every assigned user votes on the submission
+                        </p>
+                      </div>
+
+                      {selectedStage.approval && selectedStage.approval.mode !== 'single' && (
+                        <>
+                          {selectedStage.approval.mode === 'count' && (
+                            <div className="form-group">
+                              <label className="form-label">Approvals Required</label>
+                              <input
+                                type="number"
+                                min={1}
+                                value={selectedStage.approval.count || 1}
+                                onChange={(e) => updateStage(selectedStage.id, {
+                                  approval: { ...selectedStage.approval!, count: parseInt(e.target.value) || 1 }
+                                })}
+                                className="input w-full"
+                              />
+                            </div>
+                          )}
+
+                          <div className="form-group">
+                            <label className="form-label">Rejection</label>
+                            <select
+                              value={selectedStage.approval.rejection || 'any'}
+                              onChange={(e) => updateStage(selectedStage.id, {
+                                approval: {
+                                  ...selectedStage.approval!,
+                                  rejection: e.target.value as 'any' | 'quorum'
+                                }
+                              })}
+                              className="select w-full"
+                            >
+                              <option value="any">One rejection rejects</option>
+                              <option value="quorum">Reject once approval can no longer be reached</option>
+                            </select>
+                          </div>
+                        </>
+                      )}
+
                       <div className="form-group">
                         <label className="form-label">Specific Users (Optional)</label>
                         <textarea
@@ -369,12 +627,162 @@ export const WorkflowBuilderPage: React.FC = () => {
                       </div>
                     </div>
                   </>
+                ) : activeTransition && selectedTransition !== null ? (
+                  <>
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-gray-900">Transition</h3>
+                      <button
+                        onClick={() => removeTransition(selectedTransition)}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Delete transition"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+
+                    <div className="space-y-4">
+                      <p className="flex items-center text-sm font-medium text-gray-900">
+                        {stageName(activeTransition.from)}
+                        <ArrowRight className="h-4 w-4 mx-2 text-gray-400" />
+                        {stageName(activeTransition.to)}
+                      </p>
+
+                      <div className="form-group">
+                        <label className="form-label">On Action</label>
+                        <select
+                          value={activeTransition.action || ''}
+                          onChange={(e) => updateTransition(selectedTransition, { action: e.target.value || undefined })}
+                          className="select w-full"
+                        >
+                          <option value="">Any action</option>
+                          {(workflowConfig.stages.find(stage => stage.id === activeTransition.from)?.actions || []).map(action => (
+                            <option key={action} value={action}>{action}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <label className="flex items-center text-sm">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(activeTransition.isDefault)}
+                          onChange={(e) => updateTransition(selectedTransition, {
+                            isDefault: e.target.checked || undefined,
+                            condition: e.target.checked ? undefined : activeTransition.condition
+                          })}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                        />
+                        Else branch: taken when no other transition matches
+                      </label>
+
+                      {!activeTransition.isDefault && (
+                        <div className="form-group">
+                          <label className="form-label">Conditions</label>
+                          {activeTransition.condition?.conditions.length ? (
+                            <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+                              <select
+                                value={activeTransition.condition.match || 'all'}
+                                onChange={(e) => updateTransition(selectedTransition, {
+                                  condition: { ...activeTransition.condition!, match: e.target.value as 'all' | 'any' }
+                                })}
+                                className="select w-full text-sm"
+                              >
+                                <option value="all">Taken when all match</option>
+                                <option value="any">Taken when any match</option>
+                              </select>
+
+                              {activeTransition.condition.conditions.map((item, conditionIndex) => {
+                                if ('conditions' in item) {
+                                  return (
+                                    <p key={conditionIndex} className="text-xs text-gray-500">
+                                      Nested group ({item.conditions.length} conditions)
+                                    </p>
+                                  );
+                                }
+
+                                return (
+                                  <div key={conditionIndex} className="space-y-1 border-t border-gray-100 pt-2">
+                                    <div className="flex items-center space-x-2">
+                                      <input
+                                        type="text"
+                                        list="workflow-condition-fields"
+                                        value={item.field}
+                                        onChange={(e) => updateTransitionCondition(selectedTransition, conditionIndex, { field: e.target.value })}
+                                        className="input flex-1 text-sm"
+                                        placeholder={`Field or ${METADATA_PREFIX}key`}
+                                      />
+                                      <button
+                                        onClick={() => {
+                                          const conditions = activeTransition.condition!.conditions.filter((_, i) => i !== conditionIndex);
+                                          updateTransition(selectedTransition, {
+                                            condition: conditions.length > 0
+                                              ? { ...activeTransition.condition!, conditions }
+                                              : undefined
+                                          });
+                                        }}
+                                        className="text-red-500 hover:text-red-700"
+                                      >
+                                        <Minus className="h-4 w-4" />
+                                      </button>
+                                    </div>
+                                    <select
+                                      value={item.operator}
+                                      onChange={(e) => updateTransitionCondition(selectedTransition, conditionIndex, { operator: e.target.value as ConditionOperator })}
+                                      className="select w-full text-sm"
+                                    >
+                                      {CONDITION_OPERATORS.map(operator => (
+                                        <option key={operator} value={operator}>{CONDITION_OPERATOR_LABELS[operator]}</option>
+                                      ))}
+                                    </select>
+                                    {!UNARY_OPERATORS.includes(item.operator) && (
+                                      <input
+                                        type="text"
+                                        value={item.value ?? ''}
+                                        onChange={(e) => updateTransitionCondition(selectedTransition, conditionIndex, { value: e.target.value })}
+                                        className="input w-full text-sm"
+                                        placeholder={['in', 'not_in'].includes(item.operator) ? 'Comma-separated values' : 'Value'}
+                                      />
+                                    )}
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-gray-500 mb-2">Always taken for its action.</p>
+                          )}
+
+                          <button
+                            onClick={() => updateTransition(selectedTransition, {
+                              condition: {
+                                match: activeTransition.condition?.match || 'all',
+                                conditions: [
+                                  ...(activeTransition.condition?.conditions || []),
+                                  { field: '', operator: 'equals', value: '' }
+                                ]
+                              }
+                            })}
+                            className="btn btn-outline btn-sm w-full mt-2"
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add Condition
+                          </button>
+                          <datalist id="workflow-condition-fields">
+                            {conditionFields.map(field => (
+                              <option key={field.value} value={field.value}>{field.label}</option>
+                            ))}
+                          </datalist>
+                          <p className="form-help">
+                            Transitions for the same action are tried in the order they were added
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  </>
                 ) : (
                   <div className="text-center py-12">
                     <Settings className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <h3 className="text-lg font-semibold text-gray-900 mb-2">No Stage Selected</h3>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Nothing Selected</h3>
                     <p className="text-gray-600">
-                      Click on a stage in the workflow to edit its properties.
+                      Click on a stage or a transition in the workflow to edit its properties.
                     </p>
                   </div>
                 )}
@@ -403,7 +811,7 @@ export const WorkflowBuilderPage: React.FC = () => {
                             <div className="space-y-2 text-sm">
                               <div className="flex items-center text-gray-600">
                                 <Users className="h-4 w-4 mr-2" />
-                                <span>{stage.role || 'No role'}</span>
+                                <span>{stageRoles(stage).join(', ') || 'No role'}</span>
                               </div>
                               
                               <div className="flex flex-wrap gap-1">
@@ -467,6 +875,15 @@ export const WorkflowBuilderPage: React.FC = () => {
                   </div>
                 )}
               </div>
+
+              {workflowConfig.stages.length > 0 && (
+                <div className="mt-6">
+                  <WorkflowSimulator
+                    definition={{ ...workflowConfig, formId: workflowData.formId }}
+                    roles={availableRoles}
+                  />
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -507,9 +924,9 @@ export const WorkflowBuilderPage: React.FC = () => {
                       className="select w-full"
                     >
                       <option value="">Select a form</option>
-                      <option value="customer_form">Customer Registration Form</option>
-                      <option value="feedback_form">Feedback Form</option>
-                      <option value="survey_form">Survey Form</option>
+                      {forms.map(form => (
+                        <option key={form.id} value={form.formId}>{form.name}</option>
+                      ))}
                     </select>
                   </div>
 
@@ -565,6 +982,80 @@ export const WorkflowBuilderPage: React.FC = () => {
                         <p className="form-help">Time to wait before escalating (1-168 hours)</p>
                       </div>
                     )}
+
+                    {workflowConfig.settings.enableEscalation && (
+                      <>
+                        <div className="form-group">
+                          <label className="form-label">Reminder (hours before deadline)</label>
+                          <input
+                            type="number"
+                            value={workflowConfig.settings.reminderTime}
+                            onChange={(e) => setWorkflowConfig(prev => ({
+                              ...prev,
+                              settings: { ...prev.settings, reminderTime: parseInt(e.target.value) || 0 }
+                            }))}
+                            className="input w-full"
+                            min="0"
+                            max="168"
+                          />
+                          <p className="form-help">Remind the stage assignees this long before the deadline (0 for no reminder)</p>
+                        </div>
+
+                        <div className="form-group">
+                          <label className="form-label">When Overdue</label>
+                          <select
+                            value={workflowConfig.settings.escalationAction}
+                            onChange={(e) => setWorkflowConfig(prev => ({
+                              ...prev,
+                              settings: { ...prev.settings, escalationAction: e.target.value }
+                            }))}
+                            className="select w-full"
+                          >
+                            <option value="notify">Escalate to a role or users</option>
+                            {availableActions
+                              .filter(action => action.value !== 'request_changes')
+                              .map(action => (
+                                <option key={action.value} value={action.value}>{action.label} automatically</option>
+                              ))}
+                          </select>
+                          <p className="form-help">Automatic actions only apply at stages that offer them</p>
+                        </div>
+
+                        <div className="form-group">
+                          <label className="form-label">Escalation Role</label>
+                          <select
+                            value={workflowConfig.settings.escalationRole}
+                            onChange={(e) => setWorkflowConfig(prev => ({
+                              ...prev,
+                              settings: { ...prev.settings, escalationRole: e.target.value }
+                            }))}
+                            className="select w-full"
+                          >
+                            <option value="">No role</option>
+                            {availableRoles.map(role => (
+                              <option key={role.value} value={role.value}>{role.label}</option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <div className="form-group">
+                          <label className="form-label">Escalation Users (Optional)</label>
+                          <textarea
+                            value={workflowConfig.settings.escalationUsers.join(', ')}
+                            onChange={(e) => setWorkflowConfig(prev => ({
+                              ...prev,
+                              settings: {
+                                ...prev.settings,
+                                escalationUsers: e.target.value.split(',').map(u => u.trim()).filter(u => u)
+                              }
+                            }))}
+                            className="textarea w-full"
+                            rows={2}
+                            placeholder="Enter user IDs separated by commas"
+                          />
+                        </div>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -24,6 +24,7 @@ import api from '../../lib/api';
 interface Workflow {
   id: string;
   workflowId: string;
+  applicationId: string;
   name: string;
   description: string;
   formId: string;
@@ -168,7 +169,7 @@ export const WorkflowsPage: React.FC = () => {
                           View Workflow
                         </Link>
                         <Link
-                          to={`/workflows/${workflow.id}/edit`}
+                          to={`/applications/${workflow.applicationId}/workflows/builder/${workflow.id}`}
                           className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
                         >
                           <Edit className="h-4 w-4 mr-2" />
@@ -241,7 +242,7 @@ export const WorkflowsPage: React.FC = () => {
 
                 <div className="mt-4 pt-4 border-t border-gray-200 flex space-x-2">
                   <Link
-                    to={`/workflows/${workflow.id}/edit`}
+                    to={`/applications/${workflow.applicationId}/workflows/builder/${workflow.id}`}
                     className="btn btn-outline btn-sm flex-1"
                   >
                     Edit
@@ -12,6 +12,10 @@ export default defineConfig({
   },
   server: {
     port: 5173,
+    fs: {
+      // Evaluators shared with the server live in the repository-level shared/ folder
+      allow: ['..'],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:3001',
@@ -0,0 +1,138 @@
+import { jest } from '@jest/globals';
+
+const formService = {
+  createForm: jest.fn(),
+  getForms: jest.fn(),
+  getFormById: jest.fn(),
+  getFormByFormId: jest.fn(),
+  getFormBySlug: jest.fn(),
+  updateForm: jest.fn(),
+  deleteForm: jest.fn(),
+  duplicateForm: jest.fn(),
+  submitForm: jest.fn(),
+  getFormSubmissions: jest.fn(),
+  getFormSubmissionById: jest.fn(),
+  updateFormSubmission: jest.fn(),
+  deleteFormSubmission: jest.fn(),
+  searchLookupOptions: jest.fn(),
+  publishForm: jest.fn(),
+  getFormRevisions: jest.fn(),
+  getFormRevision: jest.fn(),
+  getSubmissionView: jest.fn(),
+  rollbackFormToRevision: jest.fn()
+};
+
+jest.unstable_mockModule('../../services/formService.js', () => formService);
+
+const { getFormSubmissionHandler, updateFormSubmissionHandler } = await import('../formController.js');
+
+const SUBMITTER_ID = '64b000000000000000000001';
+
+// Mongo documents come back with submittedBy populated
+const populatedSubmitter = () => ({
+  _id: { toString: () => SUBMITTER_ID },
+  firstName: 'Sam',
+  email: 'sam@example.com',
+  toString: () => `{ _id: ${SUBMITTER_ID}, firstName: 'Sam' }`
+});
+
+const request = (user, body = {}) => ({
+  params: { submissionId: 'sub-1' },
+  body,
+  user: { email: 'user@example.com', ...user }
+});
+
+// asyncHandler does not return its promise: the handler is done once it
+// responds, or fails once it passes an error on
+const run = (handler, req) => new Promise((resolve, reject) => {
+  const res = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => {
+    resolve(res);
+    return res;
+  });
+  handler(req, res, reject);
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  formService.updateFormSubmission.mockImplementation(async (id, update) => ({ submissionId: id, ...update }));
+});
+
+describe('getFormSubmissionHandler', () => {
+  it('lets the submitter load their own draft to resume it', async () => {
+    const draft = { submissionId: 'sub-1', status: 'draft', submittedBy: populatedSubmitter() };
+    formService.getFormSubmissionById.mockResolvedValue(draft);
+
+    const res = await run(getFormSubmissionHandler, request({ _id: SUBMITTER_ID, role: 'user' }));
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith({ success: true, data: { submission: draft } });
+  });
+
+  it('hides submissions from other users', async () => {
+    formService.getFormSubmissionById.mockResolvedValue({ submissionId: 'sub-1', submittedBy: populatedSubmitter() });
+
+    const res = await run(getFormSubmissionHandler, request({ id: '64b000000000000000000002', role: 'user' }));
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
+
+describe('updateFormSubmissionHandler', () => {
+  it('lets the submitter save their own draft and its page', async () => {
+    formService.getFormSubmissionById.mockResolvedValue({
+      submissionId: 'sub-1',
+      status: 'draft',
+      submittedBy: populatedSubmitter(),
+      metadata: { source: 'web' }
+    });
+
+    const res = await run(updateFormSubmissionHandler, request(
+      { _id: SUBMITTER_ID, role: 'user' },
+      { data: { amount: 5 }, status: 'draft', currentPage: 2 }
+    ));
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(formService.updateFormSubmission).toHaveBeenCalledWith('sub-1', {
+      data: { amount: 5 },
+      status: 'draft',
+      metadata: { source: 'web', currentPage: 2 }
+    });
+  });
+
+  it('lets the submitter resubmit a submission sent back for changes', async () => {
+    formService.getFormSubmissionById.mockResolvedValue({
+      submissionId: 'sub-1',
+      status: 'changes_requested',
+      submittedBy: populatedSubmitter()
+    });
+
+    const res = await run(updateFormSubmissionHandler, request(
+      { _id: SUBMITTER_ID, role: 'user' },
+      { data: { amount: 5 }, status: 'submitted' }
+    ));
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(formService.updateFormSubmission).toHaveBeenCalledWith('sub-1', { data: { amount: 5 }, status: 'submitted' });
+  });
+
+  it('keeps a returned submission from anyone but its submitter', async () => {
+    formService.getFormSubmissionById.mockResolvedValue({
+      submissionId: 'sub-1',
+      status: 'changes_requested',
+      submittedBy: populatedSubmitter()
+    });
+
+    const res = await run(updateFormSubmissionHandler, request(
+      { id: '64b000000000000000000002', role: 'manager' },
+      { status: 'submitted' }
+    ));
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'This submission is with its submitter for changes'
+    }));
+    expect(formService.updateFormSubmission).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { jest } from '@jest/globals';
+
+const reportService = {
+  createReport: jest.fn(),
+  getReports: jest.fn(),
+  getReportById: jest.fn(),
+  updateReport: jest.fn(),
+  deleteReport: jest.fn(),
+  generateReportData: jest.fn(),
+  exportReportData: jest.fn(),
+  deliverScheduledReport: jest.fn(),
+  getReportRuns: jest.fn()
+};
+const jobs = { syncReportSchedule: jest.fn(), removeReportSchedule: jest.fn() };
+
+jest.unstable_mockModule('../../services/reportService.js', () => reportService);
+jest.unstable_mockModule('../../jobs/index.js', () => jobs);
+
+const {
+  createReportHandler,
+  updateReportHandler,
+  scheduleReportHandler
+} = await import('../reportController.js');
+
+const USER_ID = 'u1';
+const schedule = { enabled: true, frequency: 'daily', time: '08:00', recipients: ['a@example.com'], format: 'csv' };
+const saved = { _id: 'r1', name: 'Weekly', createdBy: USER_ID };
+
+const request = (body, params = {}) => ({
+  params,
+  body,
+  user: { _id: USER_ID, role: 'user', email: 'user@example.com' }
+});
+
+// asyncHandler does not return its promise: the handler is done once it
+// responds, or fails once it passes an error on
+const run = (handler, req) => new Promise((resolve, reject) => {
+  const res = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => {
+    resolve(res);
+    return res;
+  });
+  handler(req, res, reject);
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  // As when Agenda is down, or jobs are off on MySQL without a MongoDB URI
+  jobs.syncReportSchedule.mockRejectedValue(new Error('Agenda is not connected'));
+  reportService.createReport.mockResolvedValue(saved);
+  reportService.getReportById.mockResolvedValue(saved);
+  reportService.updateReport.mockImplementation(async (id, update) => ({ ...saved, ...update }));
+});
+
+describe('report schedule syncing', () => {
+  it('still reports a created report as created when scheduling fails', async () => {
+    const res = await run(createReportHandler, request({ name: 'Weekly', sourceForm: 'form-1', schedule }));
+
+    expect(reportService.createReport).toHaveBeenCalledTimes(1);
+    expect(jobs.syncReportSchedule).toHaveBeenCalledWith(saved);
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: { report: saved } }));
+  });
+
+  it('still reports updates and new schedules as saved when scheduling fails', async () => {
+    const updated = await run(updateReportHandler, request({ schedule }, { id: 'r1' }));
+    expect(updated.status).not.toHaveBeenCalled();
+    expect(updated.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+
+    const scheduled = await run(scheduleReportHandler, request({ schedule }, { id: 'r1' }));
+    expect(scheduled.status).not.toHaveBeenCalled();
+    expect(scheduled.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+
+    expect(jobs.syncReportSchedule).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  createDelegation,
+  getDelegations,
+  getDelegationById,
+  revokeDelegation
+} from '../services/delegationService.js';
+import { getUserByEmail } from '../services/userService.js';
+import { logger } from '../utils/logger.js';
+import { asyncHandler } from '../middleware/errorMiddleware.js';
+
+const isAdmin = (user) => ['super_admin', 'admin'].includes(user.role);
+
+// Delegate workflow authority to another user for a period
+export const createDelegationHandler = asyncHandler(async (req, res) => {
+  const { delegateEmail, delegatorId, applicationId, startDate, endDate, reason } = req.body;
+  const userId = (req.user.id || req.user._id).toString();
+
+  // Admins may set up a delegation for someone who is already away
+  const delegator = delegatorId && isAdmin(req.user) ? delegatorId.toString() : userId;
+
+  const delegate = await getUserByEmail(delegateEmail);
+  if (!delegate || !delegate.isActive) {
+    return res.status(400).json({
+      success: false,
+      message: 'No active user with that email'
+    });
+  }
+
+  if ((delegate.id || delegate._id).toString() === delegator) {
+    return res.status(400).json({
+      success: false,
+      message: 'Authority cannot be delegated to the same user'
+    });
+  }
+
+  if (new Date(endDate) <= new Date(startDate)) {
+    return res.status(400).json({
+      success: false,
+      message: 'End date must be after the start date'
+    });
+  }
+
+  const delegation = await createDelegation({
+    delegator,
+    delegate: delegate.id || delegate._id,
+    applicationId,
+    startDate: new Date(startDate),
+    endDate: new Date(endDate),
+    reason,
+    createdBy: userId
+  });
+
+  logger.info(`Delegation created from ${delegator} to ${delegateEmail} by ${req.user.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Delegation created successfully',
+    data: { delegation }
+  });
+});
+
+// Get the delegations the user has given or received
+export const getDelegationsHandler = asyncHandler(async (req, res) => {
+  const { userId, active } = req.query;
+  const currentUserId = req.user.id || req.user._id;
+
+  // Admins may look at another user's delegations
+  const subject = userId && isAdmin(req.user) ? userId : currentUserId;
+
+  const delegations = await getDelegations(subject, { activeOnly: active === 'true' });
+
+  res.json({
+    success: true,
+    data: { delegations }
+  });
+});
+
+// Revoke a delegation
+export const revokeDelegationHandler = asyncHandler(async (req, res) => {
+  const { delegationId } = req.params;
+  const userId = (req.user.id || req.user._id).toString();
+
+  const delegation = await getDelegationById(delegationId);
+
+  if (!delegation) {
+    return res.status(404).json({
+      success: false,
+      message: 'Delegation not found'
+    });
+  }
+
+  if (delegation.delegator.toString() !== userId && !isAdmin(req.user)) {
+    return res.status(403).json({
+      success: false,
+      message: 'Only the delegator or an admin can revoke a delegation'
+    });
+  }
+
+  await revokeDelegation(delegationId);
+
+  logger.info(`Delegation revoked: ${delegationId} by ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Delegation revoked successfully'
+  });
+});
+
+export {
+  createDelegationHandler as createDelegation,
+  getDelegationsHandler as getDelegations,
+  revokeDelegationHandler as revokeDelegation
+};
@@ -2,6 +2,8 @@ import {
   createForm,
   getForms,
   getFormById,
+  getFormByFormId,
+  getFormBySlug,
   updateForm,
   deleteForm,
   duplicateForm,
@@ -9,20 +11,55 @@ import {
   getFormSubmissions,
   getFormSubmissionById,
   updateFormSubmission,
-  deleteFormSubmission
+  deleteFormSubmission,
+  searchLookupOptions,
+  publishForm,
+  getFormRevisions,
+  getFormRevision,
+  getSubmissionView,
+  rollbackFormToRevision
 } from '../services/formService.js';
+import { validateConditionalLogic } from '../../shared/conditionalLogic.js';
+import { validateFormulas } from '../../shared/formula.js';
+import { validatePageLogic } from '../../shared/formPages.js';
+import { buildSubmissionTable, toCsv } from '../utils/submissionRows.js';
+import { diffFormSnapshots } from '../utils/formDiff.js';
 import { logger } from '../utils/logger.js';
 import { asyncHandler } from '../middleware/errorMiddleware.js';
 
+// createdBy is populated on Mongo documents and a plain id on MySQL rows
+const isFormOwner = (form, userId) => (
+  (form.createdBy?._id || form.createdBy)?.toString() === userId.toString()
+);
+
+// Likewise submittedBy, which is empty for guest submissions
+const isSubmissionOwner = (submission, userId) => (
+  (submission.submittedBy?._id || submission.submittedBy)?.toString() === userId.toString()
+);
+
+// Public link slugs are unique; the form's own formId is also reserved for it
+const isSlugTaken = async (slug, formId = null) => {
+  const existing = await getFormBySlug(slug);
+  return Boolean(existing) && existing.formId !== formId;
+};
+
 // Create new form
 export const createFormHandler = asyncHandler(async (req, res) => {
-  const { name, description, applicationId, structure, settings } = req.body;
+  const { name, description, applicationId, structure, settings, slug } = req.body;
   const userId = req.user.id || req.user._id;
 
+  if (slug && await isSlugTaken(slug)) {
+    return res.status(409).json({
+      success: false,
+      message: 'Form link is already in use'
+    });
+  }
+
   const formData = {
     name,
     description,
     applicationId,
+    slug: slug || undefined,
     createdBy: userId,
     status: 'draft',
     structure: structure || {
@@ -103,8 +140,7 @@ export const getFormHandler = asyncHandler(async (req, res) => {
   }
 
   // Check permission to view
-  if (userRole !== 'super_admin' && 
-      (form.createdBy?.toString() !== userId.toString())) {
+  if (userRole !== 'super_admin' && !isFormOwner(form, userId)) {
     return res.status(403).json({
       success: false,
       message: 'Access denied'
@@ -117,10 +153,37 @@ export const getFormHandler = asyncHandler(async (req, res) => {
   });
 });
 
+// Get the form to fill in; forms that are not active are only open to their owner
+export const getFormViewHandler = asyncHandler(async (req, res) => {
+  const form = await getFormById(req.params.id);
+
+  if (!form) {
+    return res.status(404).json({
+      success: false,
+      message: 'Form not found'
+    });
+  }
+
+  if (form.status !== 'active' && req.user.role !== 'super_admin' && 
+      !isFormOwner(form, req.user.id || req.user._id)) {
+    return res.status(403).json({
+      success: false,
+      message: 'Form is not accepting submissions'
+    });
+  }
+
+  const view = await getSubmissionView(form);
+
+  res.json({
+    success: true,
+    data: { form: view }
+  });
+});
+
 // Update form
 export const updateFormHandler = asyncHandler(async (req, res) => {
   const { id } = req.params;
-  const { name, description, status, structure, settings } = req.body;
+  const { name, description, status, structure, settings, slug, updatedAt } = req.body;
   const userId = req.user.id || req.user._id;
   const userRole = req.user.role;
 
@@ -134,20 +197,37 @@ export const updateFormHandler = asyncHandler(async (req, res) => {
   }
 
   // Check permission to update
-  if (userRole !== 'super_admin' && 
-      (form.createdBy?.toString() !== userId.toString())) {
+  if (userRole !== 'super_admin' && !isFormOwner(form, userId)) {
     return res.status(403).json({
       success: false,
       message: 'Access denied'
     });
   }
 
+  // Reject stale writes: clients send the updatedAt of the version they edited
+  if (updatedAt && new Date(updatedAt).getTime() !== new Date(form.updatedAt).getTime()) {
+    return res.status(409).json({
+      success: false,
+      message: 'Form has been modified since it was loaded',
+      data: { form }
+    });
+  }
+
+  if (slug && await isSlugTaken(slug, form.formId)) {
+    return res.status(409).json({
+      success: false,
+      message: 'Form link is already in use'
+    });
+  }
+
   const updateData = {};
   if (name) updateData.name = name;
   if (description) updateData.description = description;
   if (status) updateData.status = status;
   if (structure) updateData.structure = structure;
   if (settings) updateData.settings = { ...form.settings, ...settings };
+  // An empty slug removes the public link
+  if (slug !== undefined) updateData.slug = slug || null;
 
   const updatedForm = await updateForm(id, updateData);
 
@@ -212,24 +292,27 @@ export const duplicateFormHandler = asyncHandler(async (req, res) => {
 
 // Submit form data
 export const submitFormHandler = asyncHandler(async (req, res) => {
-  const { formId, applicationId, data } = req.body;
+  const { formId, applicationId, data, status, currentPage } = req.body;
   const userId = req.user.id || req.user._id;
+  const isDraft = status === 'draft';
 
   const submissionData = {
     formId,
     applicationId,
     data,
     submittedBy: userId,
-    status: 'submitted'
+    status: isDraft ? 'draft' : 'submitted',
+    // The wizard page to resume a draft on
+    ...(currentPage ? { metadata: { currentPage } } : {})
   };
 
   const submission = await submitForm(submissionData);
 
-  logger.info(`Form submitted: ${formId} by user ${req.user.email}`);
+  logger.info(`Form ${isDraft ? 'draft saved' : 'submitted'}: ${formId} by user ${req.user.email}`);
 
   res.status(201).json({
     success: true,
-    message: 'Form submitted successfully',
+    message: isDraft ? 'Draft saved successfully' : 'Form submitted successfully',
     data: { submission }
   });
 });
@@ -237,7 +320,7 @@ export const submitFormHandler = asyncHandler(async (req, res) => {
 // Get form submissions
 export const getFormSubmissionsHandler = asyncHandler(async (req, res) => {
   const { formId } = req.params;
-  const { page = 1, limit = 10, status } = req.query;
+  const { page = 1, limit = 10, status, mine } = req.query;
   const userId = req.user.id || req.user._id;
   const userRole = req.user.role;
 
@@ -247,8 +330,8 @@ export const getFormSubmissionsHandler = asyncHandler(async (req, res) => {
     filters.status = status;
   }
 
-  // If not admin, only show user's submissions
-  if (!['super_admin', 'admin', 'manager'].includes(userRole)) {
+  // If not admin, only show user's submissions; mine=true narrows admins the same way
+  if (mine === 'true' || !['super_admin', 'admin', 'manager'].includes(userRole)) {
     filters.submittedBy = userId;
   }
 
@@ -281,8 +364,7 @@ export const getFormSubmissionHandler = asyncHandler(async (req, res) => {
   }
 
   // Check permission to view
-  if (!['super_admin', 'admin', 'manager'].includes(userRole) && 
-      (submission.submittedBy?.toString() !== userId.toString())) {
+  if (!['super_admin', 'admin', 'manager'].includes(userRole) && !isSubmissionOwner(submission, userId)) {
     return res.status(403).json({
       success: false,
       message: 'Access denied'
@@ -298,9 +380,10 @@ export const getFormSubmissionHandler = asyncHandler(async (req, res) => {
 // Update form submission
 export const updateFormSubmissionHandler = asyncHandler(async (req, res) => {
   const { submissionId } = req.params;
-  const { data, status } = req.body;
+  const { data, status, currentPage } = req.body;
   const userId = req.user.id || req.user._id;
   const userRole = req.user.role;
+  const isManager = ['super_admin', 'admin', 'manager'].includes(userRole);
 
   const submission = await getFormSubmissionById(submissionId);
 
@@ -311,18 +394,52 @@ export const updateFormSubmissionHandler = asyncHandler(async (req, res) => {
     });
   }
 
+  const isSubmitter = isSubmissionOwner(submission, userId);
+
   // Check permission to update
-  if (!['super_admin', 'admin', 'manager'].includes(userRole) && 
-      (submission.submittedBy?.toString() !== userId.toString())) {
+  if (!isManager && !isSubmitter) {
     return res.status(403).json({
       success: false,
       message: 'Access denied'
     });
   }
 
+  // A submission sent back for changes is unlocked for its submitter only, to edit and resubmit
+  if (submission.status === 'changes_requested') {
+    if (!isSubmitter) {
+      return res.status(403).json({
+        success: false,
+        message: 'This submission is with its submitter for changes'
+      });
+    }
+    if (status && !['changes_requested', 'submitted'].includes(status)) {
+      return res.status(403).json({
+        success: false,
+        message: 'A submission sent back for changes can only be resubmitted'
+      });
+    }
+  } else if (!isManager) {
+    // Submitters may only save or submit their own drafts; review statuses belong to managers
+    if (status && (submission.status !== 'draft' || !['draft', 'submitted'].includes(status))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only drafts can be saved or submitted'
+      });
+    }
+    if (data && submission.status !== 'draft') {
+      return res.status(403).json({
+        success: false,
+        message: 'Submitted data can only be changed when changes are requested'
+      });
+    }
+  }
+
   const updateData = {};
   if (data) updateData.data = data;
   if (status) updateData.status = status;
+  if (currentPage !== undefined) {
+    updateData.metadata = { ...(submission.metadata || {}), currentPage };
+  }
 
   const updatedSubmission = await updateFormSubmission(submissionId, updateData);
 
@@ -371,7 +488,16 @@ export const deleteFormSubmissionHandler = asyncHandler(async (req, res) => {
 // Export form data
 export const exportFormDataHandler = asyncHandler(async (req, res) => {
   const { formId } = req.params;
-  const { format = 'csv' } = req.query;
+  const { format = 'csv', repeaterMode = 'flatten', repeater } = req.query;
+
+  const form = await getFormByFormId(formId);
+
+  if (!form) {
+    return res.status(404).json({
+      success: false,
+      message: 'Form not found'
+    });
+  }
 
   const result = await getFormSubmissions(formId, {}, { page: 1, limit: 10000 });
   const submissions = result.submissions;
@@ -390,21 +516,257 @@ export const exportFormDataHandler = asyncHandler(async (req, res) => {
     });
   }
 
-  const csvHeaders = Object.keys(submissions[0].data || {});
-  const csvRows = submissions.map(submission => 
-    csvHeaders.map(header => submission.data[header] || '').join(',')
-  );
-
-  const csvContent = [
-    csvHeaders.join(','),
-    ...csvRows
-  ].join('\n');
+  const { headers, rows } = buildSubmissionTable(form.structure, submissions, {
+    mode: repeaterMode,
+    repeater
+  });
+  const csvContent = toCsv(headers, rows);
 
   res.setHeader('Content-Type', 'text/csv');
   res.setHeader('Content-Disposition', `attachment; filename="form_${formId}_data.csv"`);
   res.send(csvContent);
 });
 
+// Load a form the current user may manage, or send the error response
+const loadManagedForm = async (req, res) => {
+  const userId = req.user.id || req.user._id;
+  const form = await getFormById(req.params.id);
+
+  if (!form) {
+    res.status(404).json({
+      success: false,
+      message: 'Form not found'
+    });
+    return null;
+  }
+
+  if (req.user.role !== 'super_admin' && !isFormOwner(form, userId)) {
+    res.status(403).json({
+      success: false,
+      message: 'Access denied'
+    });
+    return null;
+  }
+
+  return form;
+};
+
+// Publish form as a new immutable revision
+export const publishFormHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { notes } = req.body;
+  const userId = req.user.id || req.user._id;
+
+  const form = await loadManagedForm(req, res);
+  if (!form) return;
+
+  const result = await publishForm(id, userId, notes);
+
+  logger.info(`Form published: ${id} revision ${result.revision.revision} by user ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Form published successfully',
+    data: result
+  });
+});
+
+// Get revision history of a form
+export const getFormRevisionsHandler = asyncHandler(async (req, res) => {
+  const form = await loadManagedForm(req, res);
+  if (!form) return;
+
+  const revisions = await getFormRevisions(form.formId);
+
+  res.json({
+    success: true,
+    data: {
+      revisions,
+      publishedRevision: form.publishedRevision || null
+    }
+  });
+});
+
+// Get a single revision of a form
+export const getFormRevisionHandler = asyncHandler(async (req, res) => {
+  const { revision } = req.params;
+
+  const form = await loadManagedForm(req, res);
+  if (!form) return;
+
+  const formRevision = await getFormRevision(form.formId, parseInt(revision));
+
+  if (!formRevision) {
+    return res.status(404).json({
+      success: false,
+      message: 'Revision not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: { revision: formRevision }
+  });
+});
+
+// Diff two revisions; 'draft' stands for the current working copy of the form
+export const diffFormRevisionsHandler = asyncHandler(async (req, res) => {
+  const form = await loadManagedForm(req, res);
+  if (!form) return;
+
+  const { from = form.publishedRevision, to = 'draft' } = req.query;
+
+  const loadSnapshot = async (revision) => (
+    revision === 'draft' ? form : getFormRevision(form.formId, parseInt(revision))
+  );
+
+  const [fromSnapshot, toSnapshot] = await Promise.all([loadSnapshot(from), loadSnapshot(to)]);
+
+  if (!fromSnapshot || !toSnapshot) {
+    return res.status(404).json({
+      success: false,
+      message: 'Revision not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      from,
+      to,
+      diff: diffFormSnapshots(fromSnapshot, toSnapshot)
+    }
+  });
+});
+
+// Roll the draft of a form back to a published revision
+export const rollbackFormHandler = asyncHandler(async (req, res) => {
+  const { id, revision } = req.params;
+
+  const form = await loadManagedForm(req, res);
+  if (!form) return;
+
+  const updatedForm = await rollbackFormToRevision(id, parseInt(revision));
+
+  logger.info(`Form rolled back: ${id} to revision ${revision} by user ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: `Draft restored from revision ${revision}`,
+    data: { form: updatedForm }
+  });
+});
+
+// Search options for a lookup field
+export const getLookupOptionsHandler = asyncHandler(async (req, res) => {
+  const { formId, fieldId } = req.params;
+  const { search, page = 1, limit = 20 } = req.query;
+
+  const form = await getFormByFormId(formId);
+
+  if (!form) {
+    return res.status(404).json({
+      success: false,
+      message: 'Form not found'
+    });
+  }
+
+  // Options are for whoever may fill the form in, as with its submission view
+  if (form.status !== 'active' && req.user.role !== 'super_admin' && 
+      !isFormOwner(form, req.user.id || req.user._id)) {
+    return res.status(403).json({
+      success: false,
+      message: 'Form is not accepting submissions'
+    });
+  }
+
+  const result = await searchLookupOptions(form, fieldId, {
+    search,
+    page: parseInt(page),
+    limit: parseInt(limit)
+  });
+
+  res.json({
+    success: true,
+    data: result
+  });
+});
+
+// Collect structure errors for a list of fields; repeater sub-fields are
+// checked the same way, scoped to the row they belong to
+function validateStructureFields(fields, prefix = '') {
+  const errors = [];
+
+  fields.forEach((field, index) => {
+    if (!field.id || !field.type || !field.name) {
+      errors.push(`${prefix}Field at index ${index} is missing required properties (id, type, name)`);
+    }
+  });
+
+  errors.push(...validateConditionalLogic(fields).map(error => `${prefix}${error}`));
+  errors.push(...validateFormulas(fields).map(error => `${prefix}${error}`));
+
+  fields.forEach(field => {
+    if (field.type === 'lookup') {
+      const lookup = field.options?.lookup;
+      if (!lookup?.sourceFormId || !lookup.displayField) {
+        errors.push(`${prefix}${field.name}: lookup requires a source form and display field`);
+      }
+    }
+
+    if (field.type === 'repeater') {
+      const { minRows, maxRows } = field.validation || {};
+      if (!Array.isArray(field.fields) || field.fields.length === 0) {
+        errors.push(`${prefix}${field.name}: repeater requires at least one sub-field`);
+      } else {
+        errors.push(...validateStructureFields(field.fields, `${prefix}${field.name}.`));
+      }
+      if (minRows !== undefined && maxRows !== undefined && minRows > maxRows) {
+        errors.push(`${prefix}${field.name}: minRows cannot exceed maxRows`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+// Sections group top-level fields by id; a field may belong to one section only
+function validateStructureSections(structure) {
+  const errors = [];
+  const fieldIds = new Set(structure.fields.map(field => field.id));
+  const sectionIds = new Set();
+  const placed = new Set();
+
+  (structure.sections || []).forEach((section, index) => {
+    if (!section?.id) {
+      errors.push(`Section at index ${index} is missing an id`);
+      return;
+    }
+    if (sectionIds.has(section.id)) {
+      errors.push(`Section ${section.id}: duplicate section id`);
+    }
+    sectionIds.add(section.id);
+
+    (section.fieldIds || []).forEach(fieldId => {
+      if (!fieldIds.has(fieldId)) {
+        errors.push(`Section ${section.id}: unknown field "${fieldId}"`);
+      } else if (placed.has(fieldId)) {
+        errors.push(`Section ${section.id}: field "${fieldId}" already belongs to another section`);
+      }
+      placed.add(fieldId);
+    });
+  });
+
+  structure.fields.forEach(field => {
+    const colSpan = field.layout?.colSpan;
+    if (colSpan !== undefined && (!Number.isInteger(colSpan) || colSpan < 1 || colSpan > 12)) {
+      errors.push(`${field.name}: column span must be a whole number between 1 and 12`);
+    }
+  });
+
+  return errors;
+}
+
 // Validate form structure
 export const validateFormStructureHandler = asyncHandler(async (req, res) => {
   const { structure } = req.body;
@@ -417,13 +779,11 @@ export const validateFormStructureHandler = asyncHandler(async (req, res) => {
     });
   }
 
-  // Validate each field
-  const errors = [];
-  structure.fields.forEach((field, index) => {
-    if (!field.id || !field.type || !field.name) {
-      errors.push(`Field at index ${index} is missing required properties (id, type, name)`);
-    }
-  });
+  const errors = [
+    ...validateStructureFields(structure.fields),
+    ...validateStructureSections(structure),
+    ...validatePageLogic(structure)
+  ];
 
   if (errors.length > 0) {
     return res.status(400).json({
@@ -443,6 +803,7 @@ export {
   createFormHandler as createForm,
   getFormsHandler as getForms,
   getFormHandler as getForm,
+  getFormViewHandler as getFormView,
   updateFormHandler as updateForm,
   deleteFormHandler as deleteForm,
   duplicateFormHandler as duplicateForm,
@@ -452,5 +813,11 @@ export {
   updateFormSubmissionHandler as updateFormSubmission,
   deleteFormSubmissionHandler as deleteFormSubmission,
   exportFormDataHandler as exportFormData,
+  getLookupOptionsHandler as getLookupOptions,
+  publishFormHandler as publishForm,
+  getFormRevisionsHandler as getFormRevisions,
+  getFormRevisionHandler as getFormRevision,
+  diffFormRevisionsHandler as diffFormRevisions,
+  rollbackFormHandler as rollbackForm,
   validateFormStructureHandler as validateFormStructure
 };
\ No newline at end of file
@@ -0,0 +1,153 @@
+import jwt from 'jsonwebtoken';
+import {
+  getFormBySlug,
+  getFormByFormId,
+  getSubmissionView,
+  submitForm,
+  issueReceiptToken,
+  getSubmissionReceipt
+} from '../services/formService.js';
+import { getApplicationByReference } from '../services/applicationService.js';
+import { logger } from '../utils/logger.js';
+import { asyncHandler } from '../middleware/errorMiddleware.js';
+
+// Submissions sent sooner than this after the form was loaded are treated as bots
+const MIN_FILL_SECONDS = parseInt(process.env.PUBLIC_FORM_MIN_FILL_SECONDS) || 3;
+
+// Only active forms of active applications that allow guest access are public
+const isPubliclyAvailable = async (form) => {
+  if (!form || form.status !== 'active') {
+    return false;
+  }
+
+  const application = await getApplicationByReference(form.applicationId);
+  return Boolean(application && application.status === 'active' && application.settings?.allowGuestAccess);
+};
+
+// Get a public form by its link
+export const getPublicFormHandler = asyncHandler(async (req, res) => {
+  const form = await getFormBySlug(req.params.slug);
+
+  if (!await isPubliclyAvailable(form)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Form not found'
+    });
+  }
+
+  const view = await getSubmissionView(form);
+
+  // The token records when the form was loaded, for the time trap on submit
+  const token = jwt.sign(
+    { formId: form.formId, type: 'public-form' },
+    process.env.JWT_SECRET,
+    { expiresIn: '1d' }
+  );
+
+  res.json({
+    success: true,
+    data: { form: view, token }
+  });
+});
+
+// Submit a public form without signing in
+export const submitPublicFormHandler = asyncHandler(async (req, res) => {
+  const { formId } = req.params;
+  const { data, token, website } = req.body;
+
+  let decoded;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET);
+  } catch (error) {
+    decoded = null;
+  }
+
+  if (!decoded || decoded.type !== 'public-form' || decoded.formId !== formId) {
+    return res.status(400).json({
+      success: false,
+      message: 'Form session expired, please reload the form'
+    });
+  }
+
+  const form = await getFormByFormId(formId);
+
+  if (!await isPubliclyAvailable(form)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Form not found'
+    });
+  }
+
+  const settings = form.settings || {};
+
+  // The honeypot field is hidden from people; answer bots as if it worked
+  if (website) {
+    logger.warn(`Public submission to form ${formId} rejected by honeypot from ${req.ip}`);
+    return res.status(201).json({
+      success: true,
+      message: 'Form submitted successfully',
+      data: {
+        successMessage: settings.successMessage || null,
+        redirectUrl: settings.redirectUrl || null
+      }
+    });
+  }
+
+  if (Date.now() / 1000 - decoded.iat < MIN_FILL_SECONDS) {
+    logger.warn(`Public submission to form ${formId} rejected by time trap from ${req.ip}`);
+    return res.status(400).json({
+      success: false,
+      message: 'Form was submitted too quickly, please try again'
+    });
+  }
+
+  const receipt = issueReceiptToken();
+
+  const submission = await submitForm({
+    formId: form.formId,
+    applicationId: form.applicationId,
+    data,
+    submittedBy: null,
+    status: 'submitted',
+    metadata: {
+      source: 'public',
+      receiptTokenHash: receipt.hash
+    }
+  });
+
+  logger.info(`Public form submitted: ${formId} from ${req.ip}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Form submitted successfully',
+    data: {
+      submissionId: submission.submissionId,
+      receiptToken: receipt.token,
+      successMessage: settings.successMessage || null,
+      redirectUrl: settings.redirectUrl || null
+    }
+  });
+});
+
+// Look up the status of a public submission with its receipt token
+export const getSubmissionReceiptHandler = asyncHandler(async (req, res) => {
+  const receipt = await getSubmissionReceipt(req.params.submissionId, req.query.token);
+
+  if (!receipt) {
+    return res.status(404).json({
+      success: false,
+      message: 'Submission not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: { receipt }
+  });
+});
+
+export {
+  getPublicFormHandler as getPublicForm,
+  submitPublicFormHandler as submitPublicForm,
+  getSubmissionReceiptHandler as getSubmissionReceipt
+};
@@ -4,16 +4,52 @@ import {
   getReportById,
   updateReport,
   deleteReport,
-  generateReportData
+  generateReportData,
+  exportReportData,
+  deliverScheduledReport,
+  getReportRuns
 } from '../services/reportService.js';
+import { normalizeReportSchedule, validateReportSchedule, getNextRunAt } from '../utils/reportSchedule.js';
+import { renderReportChartSvg, renderReportChartPng } from '../utils/reportChart.js';
+import { buildReportChartData } from '../../shared/reportCharts.js';
+import { syncReportSchedule, removeReportSchedule } from '../jobs/index.js';
 import { logger } from '../utils/logger.js';
 import { asyncHandler } from '../middleware/errorMiddleware.js';
 
+const sendScheduleErrors = (res, errors) => res.status(400).json({
+  success: false,
+  message: 'Report schedule is invalid',
+  errors
+});
+
+// Schedule a saved report's deliveries. The report is saved either way, so a
+// schedule the job runner cannot take is logged rather than failing the request.
+const syncSchedule = async (report) => {
+  try {
+    await syncReportSchedule(report);
+  } catch (error) {
+    logger.error(`Error scheduling report ${report.id || report._id}:`, error);
+  }
+};
+
+// Only the report's creator and super admins may see or change it
+const canManageReport = (req, report) => {
+  const userId = req.user.id || req.user._id;
+  return req.user.role === 'super_admin' || report.createdBy?._id?.toString() === userId.toString() ||
+    report.createdBy?.toString() === userId.toString();
+};
+
 // Create new report
 export const createReportHandler = asyncHandler(async (req, res) => {
-  const { name, description, applicationId, sourceForm, type, configuration, schedule } = req.body;
+  const { name, description, applicationId, sourceForm, type, configuration } = req.body;
   const userId = req.user.id || req.user._id;
 
+  const schedule = req.body.schedule ? normalizeReportSchedule(req.body.schedule) : undefined;
+  const scheduleErrors = schedule ? validateReportSchedule(schedule) : [];
+  if (scheduleErrors.length > 0) {
+    return sendScheduleErrors(res, scheduleErrors);
+  }
+
   const reportData = {
     name,
     description,
@@ -26,6 +62,7 @@ export const createReportHandler = asyncHandler(async (req, res) => {
   };
 
   const report = await createReport(reportData);
+  await syncSchedule(report);
 
   logger.info(`Report created: ${name} by user ${req.user.email}`);
 
@@ -107,7 +144,7 @@ export const getReportHandler = asyncHandler(async (req, res) => {
 // Update report
 export const updateReportHandler = asyncHandler(async (req, res) => {
   const { id } = req.params;
-  const { name, description, configuration, schedule } = req.body;
+  const { name, description, configuration } = req.body;
   const userId = req.user.id || req.user._id;
   const userRole = req.user.role;
 
@@ -133,9 +170,18 @@ export const updateReportHandler = asyncHandler(async (req, res) => {
   if (name) updateData.name = name;
   if (description) updateData.description = description;
   if (configuration) updateData.configuration = configuration;
-  if (schedule) updateData.schedule = schedule;
+  if (req.body.schedule) {
+    updateData.schedule = normalizeReportSchedule(req.body.schedule);
+    const scheduleErrors = validateReportSchedule(updateData.schedule);
+    if (scheduleErrors.length > 0) {
+      return sendScheduleErrors(res, scheduleErrors);
+    }
+  }
 
   const updatedReport = await updateReport(id, updateData);
+  if (updateData.schedule) {
+    await syncSchedule(updatedReport);
+  }
 
   logger.info(`Report updated: ${id} by user ${req.user.email}`);
 
@@ -170,6 +216,7 @@ export const deleteReportHandler = asyncHandler(async (req, res) => {
     });
   }
 
+  await removeReportSchedule(id);
   await deleteReport(id);
 
   logger.info(`Report deleted: ${id} by user ${req.user.email}`);
@@ -183,7 +230,7 @@ export const deleteReportHandler = asyncHandler(async (req, res) => {
 // Generate report
 export const generateReportHandler = asyncHandler(async (req, res) => {
   const { id } = req.params;
-  const { filters } = req.body;
+  const { filters, page = 1, limit = 50 } = req.body;
 
   const report = await getReportById(id);
 
@@ -194,7 +241,10 @@ export const generateReportHandler = asyncHandler(async (req, res) => {
     });
   }
 
-  const reportData = await generateReportData(report, filters);
+  const reportData = await generateReportData(report, filters, {
+    page: parseInt(page),
+    limit: parseInt(limit)
+  });
 
   res.json({
     success: true,
@@ -205,7 +255,7 @@ export const generateReportHandler = asyncHandler(async (req, res) => {
 // Get report data
 export const getReportDataHandler = asyncHandler(async (req, res) => {
   const { id } = req.params;
-  const { format = 'json', filters } = req.query;
+  const { format = 'json', filters, page = 1, limit = 50 } = req.query;
 
   const report = await getReportById(id);
 
@@ -216,25 +266,68 @@ export const getReportDataHandler = asyncHandler(async (req, res) => {
     });
   }
 
-  const reportData = await generateReportData(report, filters ? JSON.parse(filters) : {});
+  const parsedFilters = filters ? JSON.parse(filters) : {};
 
-  if (format === 'csv') {
-    const csvContent = convertToCSV(reportData);
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', `attachment; filename="report_${id}.csv"`);
-    return res.send(csvContent);
+  // Downloads hold every row; JSON is paged
+  if (format === 'csv' || format === 'excel') {
+    const reportData = await generateReportData(report, parsedFilters);
+    const file = exportReportData(report, reportData, format === 'excel' ? 'xlsx' : 'csv');
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return res.send(file.content);
   }
 
+  const reportData = await generateReportData(report, parsedFilters, {
+    page: parseInt(page),
+    limit: parseInt(limit)
+  });
+
   res.json({
     success: true,
     data: { reportData }
   });
 });
 
+// Render a report's chart as SVG or PNG
+export const getReportChartHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { format = 'svg', filters, width = 640, height = 360 } = req.query;
+
+  const report = await getReportById(id);
+
+  if (!report) {
+    return res.status(404).json({
+      success: false,
+      message: 'Report not found'
+    });
+  }
+
+  // Charts draw groups, pivots and aggregations, which cover every row
+  // whatever the page, so a single row is loaded
+  const reportData = await generateReportData(report, filters ? JSON.parse(filters) : {}, { page: 1, limit: 1 });
+  const chart = buildReportChartData(report.configuration?.chart, reportData);
+
+  if (!chart) {
+    return res.status(404).json({
+      success: false,
+      message: 'Report has no chart to render'
+    });
+  }
+
+  const size = { width: parseInt(width), height: parseInt(height) };
+  if (format === 'png') {
+    res.setHeader('Content-Type', 'image/png');
+    return res.send(await renderReportChartPng(chart, size));
+  }
+
+  res.setHeader('Content-Type', 'image/svg+xml');
+  res.send(renderReportChartSvg(chart, size));
+});
+
 // Schedule report
 export const scheduleReportHandler = asyncHandler(async (req, res) => {
   const { id } = req.params;
-  const { schedule } = req.body;
+  const schedule = normalizeReportSchedule(req.body.schedule);
 
   const report = await getReportById(id);
 
@@ -245,33 +338,99 @@ export const scheduleReportHandler = asyncHandler(async (req, res) => {
     });
   }
 
+  if (!canManageReport(req, report)) {
+    return res.status(403).json({
+      success: false,
+      message: 'Access denied'
+    });
+  }
+
+  const scheduleErrors = validateReportSchedule(schedule);
+  if (scheduleErrors.length > 0) {
+    return sendScheduleErrors(res, scheduleErrors);
+  }
+
   const updatedReport = await updateReport(id, { schedule });
+  await syncSchedule(updatedReport);
 
   logger.info(`Report scheduled: ${id} by user ${req.user.email}`);
 
   res.json({
     success: true,
-    message: 'Report scheduled successfully',
-    data: { report: updatedReport }
+    message: schedule.enabled ? 'Report scheduled successfully' : 'Report schedule disabled',
+    data: { report: updatedReport, nextRunAt: getNextRunAt(schedule) }
   });
 });
 
-// Helper function to convert data to CSV
-function convertToCSV(data) {
-  if (!data || data.length === 0) {
-    return '';
+// Get report delivery history
+export const getReportRunsHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { page = 1, limit = 20 } = req.query;
+
+  const report = await getReportById(id);
+
+  if (!report) {
+    return res.status(404).json({
+      success: false,
+      message: 'Report not found'
+    });
+  }
+
+  if (!canManageReport(req, report)) {
+    return res.status(403).json({
+      success: false,
+      message: 'Access denied'
+    });
+  }
+
+  const result = await getReportRuns(id, { page: parseInt(page), limit: parseInt(limit) });
+
+  res.json({
+    success: true,
+    data: {
+      ...result,
+      nextRunAt: getNextRunAt(normalizeReportSchedule(report.schedule || {}))
+    }
+  });
+});
+
+// Deliver a report to its schedule's recipients now
+export const deliverReportHandler = asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  const report = await getReportById(id);
+
+  if (!report) {
+    return res.status(404).json({
+      success: false,
+      message: 'Report not found'
+    });
   }
 
-  const headers = Object.keys(data[0]);
-  const csvRows = data.map(row => 
-    headers.map(header => {
-      const value = row[header];
-      return typeof value === 'string' && value.includes(',') ? `"${value}"` : value;
-    }).join(',')
-  );
+  if (!canManageReport(req, report)) {
+    return res.status(403).json({
+      success: false,
+      message: 'Access denied'
+    });
+  }
+
+  const run = await deliverScheduledReport(id, { trigger: 'manual' });
 
-  return [headers.join(','), ...csvRows].join('\n');
-}
+  if (!run) {
+    return res.status(400).json({
+      success: false,
+      message: 'Report has no recipients to deliver to'
+    });
+  }
+
+  logger.info(`Report delivered manually: ${id} by user ${req.user.email}`);
+
+  res.json({
+    success: run.status === 'success',
+    message: run.status === 'success' ? 'Report delivered' : `Report delivery failed: ${run.error}`,
+    data: { run }
+  });
+});
 
 export {
   createReportHandler as createReport,
@@ -281,5 +440,8 @@ export {
   deleteReportHandler as deleteReport,
   generateReportHandler as generateReport,
   getReportDataHandler as getReportData,
-  scheduleReportHandler as scheduleReport
+  getReportChartHandler as getReportChart,
+  scheduleReportHandler as scheduleReport,
+  getReportRunsHandler as getReportRuns,
+  deliverReportHandler as deliverReport
 };
\ No newline at end of file
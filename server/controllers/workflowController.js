@@ -4,16 +4,74 @@ import {
   getWorkflowById,
   updateWorkflow,
   deleteWorkflow,
-  executeWorkflowAction
+  executeWorkflowAction,
+  executeBulkWorkflowAction,
+  getWorkflowTasks,
+  reassignSubmission
 } from '../services/workflowService.js';
+import { getUserByEmail } from '../services/userService.js';
+import { getFormByFormId } from '../services/formService.js';
+import { analyzeWorkflow, simulateWorkflow } from '../../shared/workflowAnalysis.js';
 import { logger } from '../utils/logger.js';
 import { asyncHandler } from '../middleware/errorMiddleware.js';
 
+const APPROVAL_MODES = ['all', 'any', 'count'];
+const REJECTION_POLICIES = ['any', 'quorum'];
+
+// Parallel approval settings of each stage
+function validateStageApprovals(stages = []) {
+  const errors = [];
+
+  stages.forEach(stage => {
+    const approval = stage.approval;
+    if (!approval || !approval.mode || approval.mode === 'single') return;
+
+    const label = `Stage "${stage.name || stage.id}"`;
+    if (!APPROVAL_MODES.includes(approval.mode)) {
+      errors.push(`${label}: invalid approval mode "${approval.mode}"`);
+    }
+    if (approval.mode === 'count' && !(Number.isInteger(Number(approval.count)) && Number(approval.count) >= 1)) {
+      errors.push(`${label}: approval count must be a whole number of at least 1`);
+    }
+    if (approval.rejection && !REJECTION_POLICIES.includes(approval.rejection)) {
+      errors.push(`${label}: invalid rejection policy "${approval.rejection}"`);
+    }
+    if (!(stage.actions || []).includes('approve')) {
+      errors.push(`${label}: a parallel approval stage must offer the approve action`);
+    }
+  });
+
+  return errors;
+}
+
+// Check stage settings, and analyze the stage graph and conditions against the fields of the workflow's form
+const checkWorkflowDefinition = async (workflow) => {
+  const form = workflow.formId ? await getFormByFormId(workflow.formId) : null;
+  const fieldNames = form ? (form.structure?.fields || []).map(field => field.name) : null;
+  const analysis = analyzeWorkflow(workflow, fieldNames);
+
+  return {
+    errors: [...validateStageApprovals(workflow.stages), ...analysis.errors],
+    warnings: analysis.warnings
+  };
+};
+
+const sendDefinitionErrors = (res, errors) => res.status(400).json({
+  success: false,
+  message: 'Workflow validation failed',
+  errors
+});
+
 // Create new workflow
 export const createWorkflowHandler = asyncHandler(async (req, res) => {
-  const { name, description, applicationId, formId, stages, transitions, settings } = req.body;
+  const { name, description, applicationId, formId, stages, transitions, settings, metadata } = req.body;
   const userId = req.user.id || req.user._id;
 
+  const { errors: definitionErrors } = await checkWorkflowDefinition({ formId, stages, transitions });
+  if (definitionErrors.length > 0) {
+    return sendDefinitionErrors(res, definitionErrors);
+  }
+
   const workflowData = {
     name,
     description,
@@ -25,8 +83,11 @@ export const createWorkflowHandler = asyncHandler(async (req, res) => {
       autoProgress: false,
       enableEscalation: false,
       escalationTime: 24,
+      reminderTime: 0,
+      escalationAction: 'notify',
       ...settings
     },
+    metadata: metadata || {},
     createdBy: userId
   };
 
@@ -112,7 +173,7 @@ export const getWorkflowHandler = asyncHandler(async (req, res) => {
 // Update workflow
 export const updateWorkflowHandler = asyncHandler(async (req, res) => {
   const { id } = req.params;
-  const { name, description, stages, transitions, settings } = req.body;
+  const { name, description, stages, transitions, settings, metadata, isActive } = req.body;
   const userId = req.user.id || req.user._id;
   const userRole = req.user.role;
 
@@ -134,12 +195,25 @@ export const updateWorkflowHandler = asyncHandler(async (req, res) => {
     });
   }
 
+  if (stages || transitions) {
+    const { errors: definitionErrors } = await checkWorkflowDefinition({
+      formId: workflow.formId,
+      stages: stages || workflow.stages,
+      transitions: transitions || workflow.transitions
+    });
+    if (definitionErrors.length > 0) {
+      return sendDefinitionErrors(res, definitionErrors);
+    }
+  }
+
   const updateData = {};
   if (name) updateData.name = name;
   if (description) updateData.description = description;
   if (stages) updateData.stages = stages;
   if (transitions) updateData.transitions = transitions;
   if (settings) updateData.settings = { ...workflow.settings, ...settings };
+  if (metadata) updateData.metadata = { ...workflow.metadata, ...metadata };
+  if (isActive !== undefined) updateData.isActive = isActive;
 
   const updatedWorkflow = await updateWorkflow(id, updateData);
 
@@ -186,10 +260,52 @@ export const deleteWorkflowHandler = asyncHandler(async (req, res) => {
   });
 });
 
+// Analyze a workflow definition without saving it
+export const validateWorkflowDefinitionHandler = asyncHandler(async (req, res) => {
+  const { formId, stages, transitions } = req.body;
+
+  const { errors, warnings } = await checkWorkflowDefinition({ formId, stages, transitions });
+
+  res.json({
+    success: true,
+    data: {
+      valid: errors.length === 0,
+      errors,
+      warnings
+    }
+  });
+});
+
+// Dry run sample submission data through a workflow definition
+export const simulateWorkflowHandler = asyncHandler(async (req, res) => {
+  const { formId, stages, transitions, settings, data, metadata, submitter, actions } = req.body;
+  const workflow = { formId, stages, transitions, settings };
+
+  const { errors, warnings } = await checkWorkflowDefinition(workflow);
+
+  // The sample is submitted as the current user unless a submitter is given
+  const simulation = simulateWorkflow(workflow, {
+    data: data || {},
+    metadata: metadata || {},
+    submitter: {
+      id: submitter?.id ?? (req.user.id || req.user._id).toString(),
+      role: submitter?.role ?? req.user.role
+    }
+  }, actions || {});
+
+  res.json({
+    success: true,
+    data: {
+      simulation,
+      analysis: { valid: errors.length === 0, errors, warnings }
+    }
+  });
+});
+
 // Execute workflow action
 export const executeWorkflowHandler = asyncHandler(async (req, res) => {
   const { id } = req.params;
-  const { submissionId, action, comments } = req.body;
+  const { submissionId, action, comments, returnTo } = req.body;
   const userId = req.user.id || req.user._id;
 
   const workflow = await getWorkflowById(id);
@@ -201,7 +317,7 @@ export const executeWorkflowHandler = asyncHandler(async (req, res) => {
     });
   }
 
-  const result = await executeWorkflowAction(workflow, submissionId, action, userId, comments);
+  const result = await executeWorkflowAction(workflow, submissionId, action, userId, comments, { returnTo });
 
   logger.info(`Workflow action executed: ${action} on ${submissionId} by user ${req.user.email}`);
 
@@ -212,6 +328,83 @@ export const executeWorkflowHandler = asyncHandler(async (req, res) => {
   });
 });
 
+// Get the submissions waiting on the current user
+export const getWorkflowTasksHandler = asyncHandler(async (req, res) => {
+  const { page = 1, limit = 20, applicationId, formId, minAge, maxAge } = req.query;
+  const userId = req.user.id || req.user._id;
+
+  const filters = {};
+
+  if (applicationId) {
+    filters.applicationId = applicationId;
+  }
+
+  if (formId) {
+    filters.formId = formId;
+  }
+
+  if (minAge !== undefined) {
+    filters.minAge = parseFloat(minAge);
+  }
+
+  if (maxAge !== undefined) {
+    filters.maxAge = parseFloat(maxAge);
+  }
+
+  const result = await getWorkflowTasks(userId, filters, {
+    page: parseInt(page),
+    limit: parseInt(limit)
+  });
+
+  res.json({
+    success: true,
+    data: result
+  });
+});
+
+// Approve or reject several submissions at once
+export const bulkWorkflowActionHandler = asyncHandler(async (req, res) => {
+  const { submissionIds, action, comments } = req.body;
+  const userId = req.user.id || req.user._id;
+
+  const results = await executeBulkWorkflowAction(submissionIds, action, userId, comments);
+  const succeeded = results.filter(result => result.success).length;
+
+  logger.info(`Bulk workflow action ${action} on ${succeeded}/${results.length} submissions by user ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: `${succeeded} of ${results.length} submissions updated`,
+    data: { results }
+  });
+});
+
+// Reassign the current stage of an in-flight submission to another user
+export const reassignSubmissionHandler = asyncHandler(async (req, res) => {
+  const { submissionId } = req.params;
+  const { email, fromUserId, comments } = req.body;
+  const adminId = req.user.id || req.user._id;
+
+  const assignee = await getUserByEmail(email);
+
+  if (!assignee) {
+    return res.status(400).json({
+      success: false,
+      message: 'No user with that email'
+    });
+  }
+
+  const result = await reassignSubmission(submissionId, assignee.id || assignee._id, adminId, { fromUserId, comments });
+
+  logger.info(`Submission ${submissionId} reassigned to ${email} by ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Submission reassigned successfully',
+    data: result
+  });
+});
+
 // Get workflow history
 export const getWorkflowHistoryHandler = asyncHandler(async (req, res) => {
   const { id } = req.params;
@@ -251,6 +444,11 @@ export {
   getWorkflowHandler as getWorkflow,
   updateWorkflowHandler as updateWorkflow,
   deleteWorkflowHandler as deleteWorkflow,
+  validateWorkflowDefinitionHandler as validateWorkflowDefinition,
+  simulateWorkflowHandler as simulateWorkflow,
   executeWorkflowHandler as executeWorkflow,
+  getWorkflowTasksHandler as getWorkflowTasks,
+  bulkWorkflowActionHandler as bulkWorkflowAction,
+  reassignSubmissionHandler as reassignSubmission,
   getWorkflowHistoryHandler as getWorkflowHistory
 };
\ No newline at end of file
@@ -14,6 +14,7 @@ import { fileURLToPath } from 'url';
 import { connectDatabases } from './config/database.js';
 import { errorHandler, notFound } from './middleware/errorMiddleware.js';
 import { logger } from './utils/logger.js';
+import { startJobs, stopJobs } from './jobs/index.js';
 
 // Import routes
 import authRoutes from './routes/authRoutes.js';
@@ -24,6 +25,8 @@ import workflowRoutes from './routes/workflowRoutes.js';
 import permissionRoutes from './routes/permissionRoutes.js';
 import fileRoutes from './routes/fileRoutes.js';
 import dashboardRoutes from './routes/dashboardRoutes.js';
+import publicRoutes from './routes/publicRoutes.js';
+import delegationRoutes from './routes/delegationRoutes.js';
 
 // Load environment variables
 dotenv.config();
@@ -86,6 +89,8 @@ app.use('/api/workflows', workflowRoutes);
 app.use('/api/permissions', permissionRoutes);
 app.use('/api/files', fileRoutes);
 app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/public', publicRoutes);
+app.use('/api/delegations', delegationRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -134,9 +139,13 @@ async function startServer() {
       logger.info(`Database type: ${process.env.DB_TYPE}`);
     });
 
+    // Jobs start in the background; the API does not wait on their MongoDB
+    startJobs();
+
     // Graceful shutdown
-    process.on('SIGTERM', () => {
+    process.on('SIGTERM', async () => {
       logger.info('SIGTERM received. Shutting down gracefully...');
+      await stopJobs();
       server.close(() => {
         process.exit(0);
       });
@@ -0,0 +1,87 @@
+import { Agenda } from 'agenda';
+import { defineWorkflowEscalationJob, WORKFLOW_ESCALATION_JOB } from './workflowEscalation.js';
+import { defineReportDeliveryJob, scheduleReportDelivery, cancelReportDelivery } from './reportDelivery.js';
+import { getScheduledReports } from '../services/reportService.js';
+import { logger } from '../utils/logger.js';
+
+// Background jobs run on Agenda, which keeps its queue in MongoDB whatever
+// DB_TYPE the application data uses
+let agenda = null;
+
+// Open Agenda's MongoDB connection; rejects instead of waiting forever when
+// MongoDB cannot be reached, as agenda.start() would
+const connectAgenda = (address) => new Promise((resolve, reject) => {
+  const instance = new Agenda({
+    db: { address, collection: 'agendaJobs' },
+    processEvery: process.env.JOBS_PROCESS_EVERY || '1 minute'
+  }, (error) => (error ? reject(error) : resolve(instance)));
+});
+
+// Start the job scheduler; the server keeps running if it cannot start.
+// With DB_TYPE=mysql there is no MongoDB unless one is configured for the
+// jobs, so they stay off until AGENDA_MONGODB_URI or MONGODB_URI is set.
+export async function startJobs() {
+  const address = process.env.AGENDA_MONGODB_URI || process.env.MONGODB_URI;
+
+  if (process.env.JOBS_ENABLED === 'false') {
+    logger.info('Background jobs are disabled');
+    return null;
+  }
+  if (!address && process.env.DB_TYPE === 'mysql') {
+    logger.info('Background jobs are disabled: set AGENDA_MONGODB_URI to run them with DB_TYPE=mysql');
+    return null;
+  }
+
+  try {
+    const instance = await connectAgenda(address || 'mongodb://localhost:27017/nocode_system');
+
+    instance.on('error', (error) => {
+      logger.error('Background job scheduler error:', error);
+    });
+    instance.on('fail', (error, job) => {
+      logger.error(`Job ${job.attrs.name} failed:`, error);
+    });
+
+    defineWorkflowEscalationJob(instance);
+    defineReportDeliveryJob(instance);
+
+    await instance.start();
+    await instance.every(process.env.WORKFLOW_ESCALATION_INTERVAL || '15 minutes', WORKFLOW_ESCALATION_JOB);
+    agenda = instance;
+
+    // Pick up schedules saved while jobs were not running
+    const reports = await getScheduledReports();
+    await Promise.all(reports.map(report => scheduleReportDelivery(agenda, report)));
+
+    logger.info('Background jobs started');
+    return agenda;
+  } catch (error) {
+    logger.error('Failed to start background jobs:', error);
+    agenda = null;
+    return null;
+  }
+}
+
+// Stop the scheduler, releasing the jobs this process has locked
+export async function stopJobs() {
+  if (agenda) {
+    await agenda.stop();
+    agenda = null;
+    logger.info('Background jobs stopped');
+  }
+}
+
+// Register, replace or drop a report's delivery job after its schedule
+// changes; a no-op when background jobs are not running
+export async function syncReportSchedule(report) {
+  if (!agenda) {
+    return null;
+  }
+  return await scheduleReportDelivery(agenda, report);
+}
+
+export async function removeReportSchedule(reportId) {
+  if (agenda) {
+    await cancelReportDelivery(agenda, reportId);
+  }
+}
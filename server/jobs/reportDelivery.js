@@ -0,0 +1,42 @@
+import { deliverScheduledReport } from '../services/reportService.js';
+import { normalizeReportSchedule, scheduleToCron, validateReportSchedule } from '../utils/reportSchedule.js';
+import { logger } from '../utils/logger.js';
+
+export const REPORT_DELIVERY_JOB = 'report-delivery';
+
+// Emails one report to its schedule's recipients; each report has its own
+// repeating job carrying its id
+export function defineReportDeliveryJob(agenda) {
+  agenda.define(REPORT_DELIVERY_JOB, { concurrency: 2 }, async (job) => {
+    const { reportId } = job.attrs.data;
+    const run = await deliverScheduledReport(reportId);
+
+    if (run?.status === 'failed') {
+      logger.warn(`Report delivery failed for report ${reportId}: ${run.error}`);
+    } else if (run) {
+      logger.info(`Report ${reportId} delivered to ${run.recipients.length - run.failedRecipients.length} recipient(s)`);
+    }
+  });
+}
+
+// Remove a report's delivery job
+export async function cancelReportDelivery(agenda, reportId) {
+  await agenda.cancel({ name: REPORT_DELIVERY_JOB, 'data.reportId': String(reportId) });
+}
+
+// Replace a report's delivery job with one following its current schedule;
+// disabled or invalid schedules leave the report without a job
+export async function scheduleReportDelivery(agenda, report) {
+  const reportId = String(report.id || report._id);
+  await cancelReportDelivery(agenda, reportId);
+
+  const schedule = normalizeReportSchedule(report.schedule || {});
+  if (!schedule.enabled || validateReportSchedule(schedule).length > 0) {
+    return null;
+  }
+
+  const job = agenda.create(REPORT_DELIVERY_JOB, { reportId });
+  job.repeatEvery(scheduleToCron(schedule), { timezone: schedule.timezone, skipImmediate: true });
+  await job.save();
+  return job.attrs.nextRunAt;
+}
@@ -0,0 +1,15 @@
+import { processWorkflowEscalations } from '../services/workflowService.js';
+import { logger } from '../utils/logger.js';
+
+export const WORKFLOW_ESCALATION_JOB = 'workflow-escalation';
+
+// Reminds, escalates or auto-actions submissions past their stage deadlines
+export function defineWorkflowEscalationJob(agenda) {
+  agenda.define(WORKFLOW_ESCALATION_JOB, { concurrency: 1 }, async () => {
+    const counts = await processWorkflowEscalations();
+
+    if (counts.reminded || counts.escalated || counts.auto_action) {
+      logger.info(`Workflow escalation: ${counts.reminded} reminded, ${counts.escalated} escalated, ${counts.auto_action} actioned automatically`);
+    }
+  });
+}
@@ -20,6 +20,25 @@ export const errorHandler = (err, req, res, next) => {
     });
   }
 
+  // Submission data failed validation against its form structure
+  if (err.name === 'SubmissionValidationError') {
+    return res.status(400).json({
+      success: false,
+      message: err.message,
+      errors: err.errors
+    });
+  }
+
+  // A workflow stage requirement the acting user does not meet
+  if (err.name === 'WorkflowPermissionError') {
+    return res.status(403).json({
+      success: false,
+      message: err.message,
+      requirement: err.requirement,
+      details: err.details
+    });
+  }
+
   // Mongoose duplicate key error
   if (err.code === 11000) {
     const field = Object.keys(err.keyPattern)[0];
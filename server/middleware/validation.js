@@ -78,7 +78,7 @@ export const validateWorkflowStages = (stages) => {
       throw new Error('Each stage must have id and name properties');
     }
 
-    if (!stage.role && !stage.users) {
+    if (!stage.role && !stage.roles?.length && !stage.users) {
       throw new Error('Each stage must have either role or users assigned');
     }
   }
@@ -124,21 +124,31 @@ const formSchema = new Schema({
   structure: {
     fields: [{
       id: String,
-      type: String,
+      // Nested declaration so Mongoose doesn't read the subdocument as a String
+      type: { type: String },
       name: String,
       label: String,
       required: Boolean,
       validation: Schema.Types.Mixed,
       options: Schema.Types.Mixed,
       permissions: Schema.Types.Mixed,
-      conditionalLogic: Schema.Types.Mixed
+      conditionalLogic: Schema.Types.Mixed,
+      // Sub-field definitions of a repeater
+      fields: [Schema.Types.Mixed],
+      // Placement within the form layout, e.g. { colSpan: 6 }
+      layout: Schema.Types.Mixed
     }],
     layout: {
       type: String,
       enum: ['single-column', '2-column', '3-column', 'grid'],
       default: 'single-column'
     },
-    sections: [Schema.Types.Mixed]
+    sections: [Schema.Types.Mixed],
+    // Render each section as a separate wizard page
+    multiPage: {
+      type: Boolean,
+      default: false
+    }
   },
   settings: {
     allowDrafts: {
@@ -156,6 +166,15 @@ const formSchema = new Schema({
     successMessage: String,
     redirectUrl: String
   },
+  publishedRevision: Number,
+  // Public link /f/:slug, used when the application allows guest access
+  slug: {
+    type: String,
+    index: {
+      unique: true,
+      partialFilterExpression: { slug: { $type: 'string' } }
+    }
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -174,17 +193,31 @@ const formSubmissionSchema = new Schema({
     unique: true
   },
   data: Schema.Types.Mixed,
+  formRevision: Number,
   submittedBy: {
     type: Schema.Types.ObjectId,
     ref: 'User'
   },
   status: {
     type: String,
-    enum: ['draft', 'submitted', 'in_review', 'approved', 'rejected'],
+    // changes_requested: sent back to the submitter, who may edit and resubmit it
+    enum: ['draft', 'submitted', 'in_review', 'changes_requested', 'approved', 'rejected'],
     default: 'submitted'
   },
   workflowState: {
+    workflowId: String,
     currentStage: String,
+    // SLA tracking for the current stage
+    stageEnteredAt: Date,
+    reminderSentAt: Date,
+    escalatedAt: Date,
+    // Votes at the current stage when it is a parallel approval stage
+    approval: Schema.Types.Mixed,
+    // User an admin reassigned the current stage to: { stage, id, name }
+    assignedTo: Schema.Types.Mixed,
+    // Send-back rounds, oldest first:
+    // { round, stage, returnTo, requestedBy, onBehalfOf, requestedAt, comments, resubmittedAt }
+    revisions: [Schema.Types.Mixed],
     history: [{
       stage: String,
       action: String,
@@ -192,6 +225,11 @@ const formSubmissionSchema = new Schema({
         type: Schema.Types.ObjectId,
         ref: 'User'
       },
+      // Delegator the user acted for, when acting under a delegation
+      onBehalfOf: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+      },
       timestamp: Date,
       comments: String
     }]
@@ -201,6 +239,49 @@ const formSubmissionSchema = new Schema({
   timestamps: true
 });
 
+// Form Revision Schema - snapshot of a form taken when it is published
+const formRevisionSchema = new Schema({
+  revisionId: {
+    type: String,
+    unique: true
+  },
+  formId: {
+    type: String,
+    required: true
+  },
+  applicationId: String,
+  revision: {
+    type: Number,
+    required: true
+  },
+  version: String,
+  name: String,
+  description: String,
+  structure: Schema.Types.Mixed,
+  settings: Schema.Types.Mixed,
+  notes: String,
+  publishedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+formRevisionSchema.index({ formId: 1, revision: 1 }, { unique: true });
+
+// Published revisions are immutable
+const rejectRevisionUpdate = function (next) {
+  next(new Error('Form revisions cannot be modified'));
+};
+formRevisionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], rejectRevisionUpdate);
+formRevisionSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return rejectRevisionUpdate(next);
+  }
+  next();
+});
+
 // Report Schema
 const reportSchema = new Schema({
   reportId: String,
@@ -218,11 +299,21 @@ const reportSchema = new Schema({
     filters: [Schema.Types.Mixed],
     sorting: Schema.Types.Mixed,
     grouping: Schema.Types.Mixed,
-    aggregations: [Schema.Types.Mixed]
+    aggregations: [Schema.Types.Mixed],
+    pivot: Schema.Types.Mixed,
+    chart: Schema.Types.Mixed,
+    repeater: Schema.Types.Mixed
   },
   schedule: {
     enabled: Boolean,
+    // daily | weekly | monthly | cron
     frequency: String,
+    cron: String,
+    time: String,
+    dayOfWeek: Number,
+    dayOfMonth: Number,
+    timezone: String,
+    format: String,
     recipients: [String]
   },
   createdBy: {
@@ -233,6 +324,39 @@ const reportSchema = new Schema({
   timestamps: true
 });
 
+// Report Run Schema - one execution of a scheduled report delivery
+const reportRunSchema = new Schema({
+  runId: {
+    type: String,
+    unique: true
+  },
+  report: {
+    type: Schema.Types.ObjectId,
+    ref: 'Report'
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    default: 'schedule'
+  },
+  status: {
+    type: String,
+    enum: ['success', 'failed'],
+    required: true
+  },
+  format: String,
+  recipients: [String],
+  failedRecipients: [String],
+  total: Number,
+  error: String,
+  startedAt: Date,
+  finishedAt: Date
+}, {
+  timestamps: true
+});
+
+reportRunSchema.index({ report: 1, startedAt: -1 });
+
 // Workflow Schema
 const workflowSchema = new Schema({
   workflowId: String,
@@ -244,8 +368,12 @@ const workflowSchema = new Schema({
     id: String,
     name: String,
     role: String,
+    // Any of these roles, or a higher one; takes precedence over role
+    roles: [String],
     users: [String],
     actions: [String],
+    // Parallel approval: { mode: 'all' | 'any' | 'count', count?, rejection: 'any' | 'quorum' }
+    approval: Schema.Types.Mixed,
     conditions: Schema.Types.Mixed,
     notifications: Schema.Types.Mixed
   }],
@@ -253,12 +381,27 @@ const workflowSchema = new Schema({
     from: String,
     to: String,
     condition: Schema.Types.Mixed,
-    action: String
+    action: String,
+    // The else branch, taken when no other transition for the action matches
+    isDefault: Boolean
   }],
   settings: {
     autoProgress: Boolean,
     enableEscalation: Boolean,
-    escalationTime: Number
+    escalationTime: Number,
+    // Hours before the deadline to remind the stage assignees; 0 for none
+    reminderTime: Number,
+    // 'notify' the escalation role/users, or a stage action to take automatically
+    escalationAction: String,
+    escalationRole: String,
+    escalationUsers: [String]
+  },
+  // Builder state, e.g. { layout: { [stageId]: { x, y } } } for the stage canvas
+  metadata: Schema.Types.Mixed,
+  // Inactive workflows are not started for new submissions
+  isActive: {
+    type: Boolean,
+    default: true
   },
   createdBy: {
     type: Schema.Types.ObjectId,
@@ -289,6 +432,39 @@ const permissionSchema = new Schema({
   timestamps: true
 });
 
+// Delegation Schema - a user's workflow authority handed to another user for a period
+const delegationSchema = new Schema({
+  delegationId: {
+    type: String,
+    unique: true
+  },
+  delegator: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  delegate: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Empty for every application
+  applicationId: String,
+  startDate: Date,
+  endDate: Date,
+  reason: String,
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+delegationSchema.index({ delegate: 1, isActive: 1, endDate: 1 });
+
 // File Schema
 const fileSchema = new Schema({
   filename: String,
@@ -313,7 +489,10 @@ export const User = model('User', userSchema);
 export const Application = model('Application', applicationSchema);
 export const Form = model('Form', formSchema);
 export const FormSubmission = model('FormSubmission', formSubmissionSchema);
+export const FormRevision = model('FormRevision', formRevisionSchema);
 export const Report = model('Report', reportSchema);
+export const ReportRun = model('ReportRun', reportRunSchema);
 export const Workflow = model('Workflow', workflowSchema);
 export const Permission = model('Permission', permissionSchema);
+export const Delegation = model('Delegation', delegationSchema);
 export const File = model('File', fileSchema);
\ No newline at end of file
@@ -139,6 +139,13 @@ const Form = sequelizeConnection?.define('Form', {
   settings: {
     type: DataTypes.JSON
   },
+  publishedRevision: {
+    type: DataTypes.INTEGER
+  },
+  slug: {
+    type: DataTypes.STRING,
+    unique: true
+  },
   createdBy: {
     type: DataTypes.UUID,
     allowNull: false,
@@ -179,6 +186,9 @@ const FormSubmission = sequelizeConnection?.define('FormSubmission', {
   data: {
     type: DataTypes.JSON
   },
+  formRevision: {
+    type: DataTypes.INTEGER
+  },
   submittedBy: {
     type: DataTypes.UUID,
     references: {
@@ -187,7 +197,7 @@ const FormSubmission = sequelizeConnection?.define('FormSubmission', {
     }
   },
   status: {
-    type: DataTypes.ENUM('draft', 'submitted', 'in_review', 'approved', 'rejected'),
+    type: DataTypes.ENUM('draft', 'submitted', 'in_review', 'changes_requested', 'approved', 'rejected'),
     defaultValue: 'submitted'
   },
   workflowState: {
@@ -206,6 +216,71 @@ const FormSubmission = sequelizeConnection?.define('FormSubmission', {
   ]
 });
 
+// Form Revision Model - snapshot of a form taken when it is published
+const FormRevision = sequelizeConnection?.define('FormRevision', {
+  id: {
+    type: DataTypes.UUID,
+    primaryKey: true,
+    defaultValue: DataTypes.UUIDV4
+  },
+  revisionId: {
+    type: DataTypes.STRING,
+    unique: true,
+    allowNull: false
+  },
+  formId: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  applicationId: {
+    type: DataTypes.STRING
+  },
+  revision: {
+    type: DataTypes.INTEGER,
+    allowNull: false
+  },
+  version: {
+    type: DataTypes.STRING
+  },
+  name: {
+    type: DataTypes.STRING
+  },
+  description: {
+    type: DataTypes.TEXT
+  },
+  structure: {
+    type: DataTypes.JSON
+  },
+  settings: {
+    type: DataTypes.JSON
+  },
+  notes: {
+    type: DataTypes.TEXT
+  },
+  publishedBy: {
+    type: DataTypes.UUID,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  }
+}, {
+  tableName: 'form_revisions',
+  timestamps: true,
+  indexes: [
+    { fields: ['formId', 'revision'], unique: true }
+  ],
+  // Published revisions are immutable
+  hooks: {
+    beforeUpdate: () => {
+      throw new Error('Form revisions cannot be modified');
+    },
+    beforeBulkUpdate: () => {
+      throw new Error('Form revisions cannot be modified');
+    }
+  }
+});
+
 // Report Model
 const Report = sequelizeConnection?.define('Report', {
   id: {
@@ -256,6 +331,63 @@ const Report = sequelizeConnection?.define('Report', {
   ]
 });
 
+// Report Run Model - one execution of a scheduled report delivery
+const ReportRun = sequelizeConnection?.define('ReportRun', {
+  id: {
+    type: DataTypes.UUID,
+    primaryKey: true,
+    defaultValue: DataTypes.UUIDV4
+  },
+  runId: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    unique: true
+  },
+  report: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: Report,
+      key: 'id'
+    }
+  },
+  trigger: {
+    type: DataTypes.ENUM('schedule', 'manual'),
+    defaultValue: 'schedule'
+  },
+  status: {
+    type: DataTypes.ENUM('success', 'failed'),
+    allowNull: false
+  },
+  format: {
+    type: DataTypes.STRING
+  },
+  recipients: {
+    type: DataTypes.JSON
+  },
+  failedRecipients: {
+    type: DataTypes.JSON
+  },
+  total: {
+    type: DataTypes.INTEGER
+  },
+  error: {
+    type: DataTypes.TEXT
+  },
+  startedAt: {
+    type: DataTypes.DATE
+  },
+  finishedAt: {
+    type: DataTypes.DATE
+  }
+}, {
+  tableName: 'report_runs',
+  timestamps: true,
+  indexes: [
+    { fields: ['report', 'startedAt'] }
+  ]
+});
+
 // Workflow Model
 const Workflow = sequelizeConnection?.define('Workflow', {
   id: {
@@ -290,6 +422,13 @@ const Workflow = sequelizeConnection?.define('Workflow', {
   settings: {
     type: DataTypes.JSON
   },
+  metadata: {
+    type: DataTypes.JSON
+  },
+  isActive: {
+    type: DataTypes.BOOLEAN,
+    defaultValue: true
+  },
   createdBy: {
     type: DataTypes.UUID,
     references: {
@@ -347,6 +486,69 @@ const Permission = sequelizeConnection?.define('Permission', {
   ]
 });
 
+// Delegation Model - a user's workflow authority handed to another user for a period
+const Delegation = sequelizeConnection?.define('Delegation', {
+  id: {
+    type: DataTypes.UUID,
+    primaryKey: true,
+    defaultValue: DataTypes.UUIDV4
+  },
+  delegationId: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    unique: true
+  },
+  delegator: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  delegate: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  },
+  // Empty for every application
+  applicationId: {
+    type: DataTypes.STRING
+  },
+  startDate: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  endDate: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  reason: {
+    type: DataTypes.STRING
+  },
+  isActive: {
+    type: DataTypes.BOOLEAN,
+    defaultValue: true
+  },
+  createdBy: {
+    type: DataTypes.UUID,
+    references: {
+      model: User,
+      key: 'id'
+    }
+  }
+}, {
+  tableName: 'delegations',
+  timestamps: true,
+  indexes: [
+    { fields: ['delegate', 'isActive', 'endDate'] },
+    { fields: ['delegator'] }
+  ]
+});
+
 // File Model
 const FileModel = sequelizeConnection?.define('File', {
   id: {
@@ -415,11 +617,17 @@ if (sequelizeConnection) {
   Form.belongsTo(User, { foreignKey: 'createdBy', as: 'creator' });
   Form.hasMany(FormSubmission, { foreignKey: 'formId', sourceKey: 'formId', as: 'submissions' });
 
+  Form.hasMany(FormRevision, { foreignKey: 'formId', sourceKey: 'formId', as: 'revisions' });
+
   // FormSubmission associations
   FormSubmission.belongsTo(User, { foreignKey: 'submittedBy', as: 'submitter' });
 
+  // FormRevision associations
+  FormRevision.belongsTo(User, { foreignKey: 'publishedBy', as: 'publisher' });
+
   // Report associations
   Report.belongsTo(User, { foreignKey: 'createdBy', as: 'creator' });
+  Report.hasMany(ReportRun, { foreignKey: 'report', as: 'runs', onDelete: 'CASCADE' });
 
   // Workflow associations
   Workflow.belongsTo(User, { foreignKey: 'createdBy', as: 'creator' });
@@ -427,6 +635,10 @@ if (sequelizeConnection) {
   // Permission associations
   Permission.belongsTo(User, { foreignKey: 'user', as: 'userDetails' });
 
+  // Delegation associations
+  Delegation.belongsTo(User, { foreignKey: 'delegator', as: 'delegatorDetails' });
+  Delegation.belongsTo(User, { foreignKey: 'delegate', as: 'delegateDetails' });
+
   // File associations
   FileModel.belongsTo(User, { foreignKey: 'uploadedBy', as: 'uploader' });
 }
@@ -436,8 +648,11 @@ export {
   Application,
   Form,
   FormSubmission,
+  FormRevision,
   Report,
+  ReportRun,
   Workflow,
   Permission,
+  Delegation,
   FileModel as File
 };
\ No newline at end of file
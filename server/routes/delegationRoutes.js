@@ -0,0 +1,45 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import {
+  createDelegation,
+  getDelegations,
+  revokeDelegation
+} from '../controllers/delegationController.js';
+import { authenticate } from '../middleware/auth.js';
+import { validate } from '../middleware/validation.js';
+
+const router = express.Router();
+
+// Validation rules
+const createDelegationValidation = [
+  body('delegateEmail').isEmail().withMessage('Delegate email is required'),
+  body('startDate').isISO8601().withMessage('Start date must be a valid date'),
+  body('endDate').isISO8601().withMessage('End date must be a valid date'),
+  body('applicationId').optional({ checkFalsy: true }).isString(),
+  body('delegatorId').optional().isString(),
+  body('reason').optional().trim().isLength({ max: 500 })
+];
+
+// Delegation routes
+router.post('/', 
+  authenticate, 
+  createDelegationValidation, 
+  validate, 
+  createDelegation
+);
+
+router.get('/', 
+  authenticate, 
+  query('active').optional().isIn(['true', 'false']), 
+  validate, 
+  getDelegations
+);
+
+router.delete('/:delegationId', 
+  authenticate, 
+  param('delegationId').exists(), 
+  validate, 
+  revokeDelegation
+);
+
+export default router;
@@ -4,6 +4,7 @@ import {
   createForm,
   getForms,
   getForm,
+  getFormView,
   updateForm,
   deleteForm,
   duplicateForm,
@@ -13,6 +14,12 @@ import {
   updateFormSubmission,
   deleteFormSubmission,
   exportFormData,
+  getLookupOptions,
+  publishForm,
+  getFormRevisions,
+  getFormRevision,
+  diffFormRevisions,
+  rollbackForm,
   validateFormStructure
 } from '../controllers/formController.js';
 import { authenticate, authorize } from '../middleware/auth.js';
@@ -25,13 +32,17 @@ const createFormValidation = [
   body('name').trim().isLength({ min: 1 }).withMessage('Form name is required'),
   body('applicationId').exists().withMessage('Application ID is required'),
   body('description').optional().trim(),
-  body('structure').optional().isObject()
+  body('structure').optional().isObject(),
+  body('slug').optional({ checkFalsy: true }).matches(/^[a-z0-9-]+$/)
+    .withMessage('Form link may only contain lowercase letters, numbers and dashes')
 ];
 
 const submitFormValidation = [
   body('formId').exists().withMessage('Form ID is required'),
   body('applicationId').exists().withMessage('Application ID is required'),
-  body('data').isObject().withMessage('Form data is required')
+  body('data').isObject().withMessage('Form data is required'),
+  body('status').optional().isIn(['draft', 'submitted']),
+  body('currentPage').optional().isString()
 ];
 
 // Form management routes
@@ -52,10 +63,20 @@ router.get('/:id',
   getForm
 );
 
+router.get('/:id/view', 
+  authenticate, 
+  param('id').exists(), 
+  validate, 
+  getFormView
+);
+
 router.put('/:id', 
   authenticate, 
   authorize('super_admin', 'admin', 'manager'), 
   param('id').exists(), 
+  body('updatedAt').optional().isISO8601(), 
+  body('slug').optional({ nullable: true, checkFalsy: true }).matches(/^[a-z0-9-]+$/)
+    .withMessage('Form link may only contain lowercase letters, numbers and dashes'), 
   validate, 
   updateForm
 );
@@ -76,6 +97,49 @@ router.post('/:id/duplicate',
   duplicateForm
 );
 
+// Form revision routes
+router.post('/:id/publish', 
+  authenticate, 
+  authorize('super_admin', 'admin', 'manager'), 
+  param('id').exists(), 
+  body('notes').optional().trim(), 
+  validate, 
+  publishForm
+);
+
+router.get('/:id/revisions', 
+  authenticate, 
+  param('id').exists(), 
+  validate, 
+  getFormRevisions
+);
+
+router.get('/:id/revisions/diff', 
+  authenticate, 
+  param('id').exists(), 
+  query('from').optional().matches(/^(\d+|draft)$/), 
+  query('to').optional().matches(/^(\d+|draft)$/), 
+  validate, 
+  diffFormRevisions
+);
+
+router.get('/:id/revisions/:revision', 
+  authenticate, 
+  param('id').exists(), 
+  param('revision').isInt({ min: 1 }), 
+  validate, 
+  getFormRevision
+);
+
+router.post('/:id/revisions/:revision/rollback', 
+  authenticate, 
+  authorize('super_admin', 'admin', 'manager'), 
+  param('id').exists(), 
+  param('revision').isInt({ min: 1 }), 
+  validate, 
+  rollbackForm
+);
+
 router.post('/validate-structure', 
   authenticate, 
   body('structure').isObject(), 
@@ -94,10 +158,22 @@ router.post('/submit',
 router.get('/:formId/submissions', 
   authenticate, 
   param('formId').exists(), 
+  query('mine').optional().isIn(['true', 'false']), 
   validate, 
   getFormSubmissions
 );
 
+router.get('/:formId/lookup/:fieldId', 
+  authenticate, 
+  param('formId').exists(), 
+  param('fieldId').exists(), 
+  query('search').optional().trim(), 
+  query('page').optional().isInt({ min: 1 }), 
+  query('limit').optional().isInt({ min: 1, max: 100 }), 
+  validate, 
+  getLookupOptions
+);
+
 router.get('/submissions/:submissionId', 
   authenticate, 
   param('submissionId').exists(), 
@@ -108,6 +184,8 @@ router.get('/submissions/:submissionId',
 router.put('/submissions/:submissionId', 
   authenticate, 
   param('submissionId').exists(), 
+  body('data').optional().isObject(), 
+  body('currentPage').optional().isString(), 
   validate, 
   updateFormSubmission
 );
@@ -125,6 +203,7 @@ router.get('/:formId/export',
   authorize('super_admin', 'admin', 'manager'), 
   param('formId').exists(), 
   query('format').optional().isIn(['csv', 'excel', 'json']), 
+  query('repeaterMode').optional().isIn(['flatten', 'explode']), 
   validate, 
   exportFormData
 );
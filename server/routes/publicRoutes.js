@@ -0,0 +1,50 @@
+import express from 'express';
+import rateLimit from 'express-rate-limit';
+import { body, param, query } from 'express-validator';
+import {
+  getPublicForm,
+  submitPublicForm,
+  getSubmissionReceipt
+} from '../controllers/publicController.js';
+import { validate } from '../middleware/validation.js';
+
+const router = express.Router();
+
+// Submissions are limited per form and client, on top of the global limit
+const submitLimiter = rateLimit({
+  windowMs: parseInt(process.env.PUBLIC_SUBMIT_WINDOW_MS) || 15 * 60 * 1000,
+  max: parseInt(process.env.PUBLIC_SUBMIT_MAX) || 10,
+  keyGenerator: (req) => `${req.params.formId}:${req.ip}`,
+  message: {
+    success: false,
+    message: 'Too many submissions for this form, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Validation rules
+const submitPublicFormValidation = [
+  param('formId').trim().notEmpty().withMessage('Form ID is required'),
+  body('data').isObject().withMessage('Submission data must be an object'),
+  body('token').isString().withMessage('Form token is required'),
+  body('website').optional()
+];
+
+// Routes (no authentication)
+router.get('/forms/:slug', getPublicForm);
+
+router.post('/forms/:formId/submit', 
+  submitLimiter, 
+  submitPublicFormValidation, 
+  validate, 
+  submitPublicForm
+);
+
+router.get('/submissions/:submissionId/receipt', 
+  query('token').isString().withMessage('Receipt token is required'), 
+  validate, 
+  getSubmissionReceipt
+);
+
+export default router;
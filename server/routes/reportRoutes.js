@@ -8,7 +8,10 @@ import {
   deleteReport,
   generateReport,
   scheduleReport,
-  getReportData
+  getReportRuns,
+  deliverReport,
+  getReportData,
+  getReportChart
 } from '../controllers/reportController.js';
 import { authenticate, authorize } from '../middleware/auth.js';
 import { validate } from '../middleware/validation.js';
@@ -67,6 +70,9 @@ router.delete('/:id',
 router.post('/:id/generate', 
   authenticate, 
   param('id').exists(), 
+  body('page').optional().isInt({ min: 1 }), 
+  body('limit').optional().isInt({ min: 1, max: 1000 }), 
+  body('filters').optional().isObject(), 
   validate, 
   generateReport
 );
@@ -75,10 +81,24 @@ router.get('/:id/data',
   authenticate, 
   param('id').exists(), 
   query('format').optional().isIn(['json', 'csv', 'excel']), 
+  query('page').optional().isInt({ min: 1 }), 
+  query('limit').optional().isInt({ min: 1, max: 1000 }), 
+  query('filters').optional().isJSON(), 
   validate, 
   getReportData
 );
 
+router.get('/:id/chart', 
+  authenticate, 
+  param('id').exists(), 
+  query('format').optional().isIn(['svg', 'png']), 
+  query('width').optional().isInt({ min: 200, max: 2000 }), 
+  query('height').optional().isInt({ min: 150, max: 2000 }), 
+  query('filters').optional().isJSON(), 
+  validate, 
+  getReportChart
+);
+
 router.post('/:id/schedule', 
   authenticate, 
   authorize('super_admin', 'admin', 'manager'), 
@@ -88,4 +108,21 @@ router.post('/:id/schedule',
   scheduleReport
 );
 
+router.get('/:id/runs', 
+  authenticate, 
+  param('id').exists(), 
+  query('page').optional().isInt({ min: 1 }), 
+  query('limit').optional().isInt({ min: 1, max: 100 }), 
+  validate, 
+  getReportRuns
+);
+
+router.post('/:id/deliver', 
+  authenticate, 
+  authorize('super_admin', 'admin', 'manager'), 
+  param('id').exists(), 
+  validate, 
+  deliverReport
+);
+
 export default router;
\ No newline at end of file
@@ -1,12 +1,17 @@
 import express from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import {
   createWorkflow,
   getWorkflows,
   getWorkflow,
   updateWorkflow,
   deleteWorkflow,
+  validateWorkflowDefinition,
+  simulateWorkflow,
   executeWorkflow,
+  getWorkflowTasks,
+  bulkWorkflowAction,
+  reassignSubmission,
   getWorkflowHistory
 } from '../controllers/workflowController.js';
 import { authenticate, authorize } from '../middleware/auth.js';
@@ -19,13 +24,18 @@ const createWorkflowValidation = [
   body('name').trim().isLength({ min: 1 }).withMessage('Workflow name is required'),
   body('applicationId').exists().withMessage('Application ID is required'),
   body('formId').exists().withMessage('Form ID is required'),
-  body('stages').isArray().withMessage('Stages must be an array')
+  body('stages').isArray().withMessage('Stages must be an array'),
+  body('transitions').optional().isArray().withMessage('Transitions must be an array'),
+  body('metadata').optional().isObject().withMessage('Metadata must be an object')
 ];
 
 const updateWorkflowValidation = [
   param('id').exists(),
   body('name').optional().trim().isLength({ min: 1 }),
-  body('stages').optional().isArray()
+  body('stages').optional().isArray(),
+  body('transitions').optional().isArray(),
+  body('metadata').optional().isObject(),
+  body('isActive').optional().isBoolean()
 ];
 
 // Workflow management routes
@@ -39,6 +49,60 @@ router.post('/',
 
 router.get('/', authenticate, getWorkflows);
 
+// Definition checks for the builder, on unsaved definitions
+router.post('/validate', 
+  authenticate, 
+  authorize('super_admin', 'admin', 'manager'), 
+  body('stages').isArray().withMessage('Stages must be an array'), 
+  body('transitions').optional().isArray(), 
+  validate, 
+  validateWorkflowDefinition
+);
+
+router.post('/simulate', 
+  authenticate, 
+  authorize('super_admin', 'admin', 'manager'), 
+  body('stages').isArray().withMessage('Stages must be an array'), 
+  body('transitions').optional().isArray(), 
+  body('data').optional().isObject(), 
+  body('metadata').optional().isObject(), 
+  body('actions').optional().isObject(), 
+  validate, 
+  simulateWorkflow
+);
+
+// Task inbox: submissions waiting on the current user
+router.get('/tasks', 
+  authenticate, 
+  query('page').optional().isInt({ min: 1 }), 
+  query('limit').optional().isInt({ min: 1, max: 100 }), 
+  query('minAge').optional().isFloat({ min: 0 }), 
+  query('maxAge').optional().isFloat({ min: 0 }), 
+  validate, 
+  getWorkflowTasks
+);
+
+router.post('/tasks/bulk', 
+  authenticate, 
+  body('submissionIds').isArray({ min: 1, max: 100 }).withMessage('Select between 1 and 100 submissions'), 
+  body('action').isIn(['approve', 'reject']).withMessage('Action must be approve or reject'), 
+  body('comments').optional().isString(), 
+  validate, 
+  bulkWorkflowAction
+);
+
+// Hand an in-flight submission to another user
+router.post('/submissions/:submissionId/reassign', 
+  authenticate, 
+  authorize('super_admin', 'admin'), 
+  param('submissionId').exists(), 
+  body('email').isEmail().withMessage('Email of the new assignee is required'), 
+  body('fromUserId').optional().isString(), 
+  body('comments').optional().isString(), 
+  validate, 
+  reassignSubmission
+);
+
 router.get('/:id', 
   authenticate, 
   param('id').exists(), 
@@ -68,6 +132,7 @@ router.post('/:id/execute',
   param('id').exists(), 
   body('submissionId').exists(), 
   body('action').exists(), 
+  body('returnTo').optional().isString(), 
   validate, 
   executeWorkflow
 );
@@ -0,0 +1,177 @@
+import { jest } from '@jest/globals';
+
+// A mongoose query: chainable, and resolving to value
+const query = (value) => {
+  const chain = {
+    populate: () => chain,
+    select: () => chain,
+    sort: () => chain,
+    then: (resolve, reject) => Promise.resolve(value).then(resolve, reject)
+  };
+  return chain;
+};
+
+const Form = { findOne: jest.fn(), findById: jest.fn(), findByIdAndUpdate: jest.fn() };
+const FormSubmission = jest.fn(function FormSubmission(data) {
+  this.save = async () => ({ _id: 'sub-db-id', ...data });
+});
+FormSubmission.findOne = jest.fn();
+FormSubmission.findOneAndUpdate = jest.fn();
+const FormRevision = jest.fn(function FormRevision(data) {
+  this.save = async () => ({ _id: 'rev-db-id', ...data });
+});
+FormRevision.findOne = jest.fn();
+const File = { find: jest.fn() };
+
+const workflowService = {
+  startWorkflowForSubmission: jest.fn(),
+  resumeWorkflowForSubmission: jest.fn()
+};
+
+jest.unstable_mockModule('../../models/mongodb/index.js', () => ({ Form, FormSubmission, FormRevision, File }));
+jest.unstable_mockModule('../../models/mysql/index.js', () => ({ Form: {}, FormSubmission: {}, FormRevision: {}, File: {} }));
+jest.unstable_mockModule('../workflowService.js', () => workflowService);
+
+const {
+  submitForm,
+  updateFormSubmission,
+  publishForm,
+  rollbackFormToRevision
+} = await import('../formService.js');
+
+const form = {
+  formId: 'form-1',
+  applicationId: 'app-1',
+  publishedRevision: 3,
+  structure: { fields: [{ name: 'amount', label: 'Amount', type: 'number', required: true }] },
+  settings: {}
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  Form.findOne.mockResolvedValue(form);
+  Form.findById.mockReturnValue(query({ _id: 'db-1', ...form }));
+  Form.findByIdAndUpdate.mockImplementation((id, update) => query({ _id: id, ...form, ...update }));
+  FormSubmission.findOneAndUpdate.mockImplementation((filter, update) => query({ ...filter, ...update }));
+  workflowService.startWorkflowForSubmission.mockImplementation(async submission => submission);
+  workflowService.resumeWorkflowForSubmission.mockImplementation(async submission => ({ ...submission, status: 'in_review' }));
+});
+
+describe('publishing and rolling back form revisions', () => {
+  it('snapshots the form as the revision after the latest one', async () => {
+    FormRevision.findOne.mockReturnValue(query({ revision: 3 }));
+
+    const { form: published, revision } = await publishForm('db-1', 'u1', 'Adds receipts');
+
+    expect(FormRevision).toHaveBeenCalledWith(expect.objectContaining({
+      formId: 'form-1',
+      applicationId: 'app-1',
+      revision: 4,
+      version: '4.0',
+      structure: form.structure,
+      notes: 'Adds receipts',
+      publishedBy: 'u1'
+    }));
+    expect(revision.revision).toBe(4);
+    expect(Form.findByIdAndUpdate).toHaveBeenCalledWith('db-1', {
+      status: 'active',
+      version: '4.0',
+      publishedRevision: 4
+    }, { new: true });
+    expect(published.publishedRevision).toBe(4);
+  });
+
+  it('starts a never-published form at revision 1', async () => {
+    FormRevision.findOne.mockReturnValue(query(null));
+
+    const { revision } = await publishForm('db-1', 'u1');
+
+    expect(revision).toEqual(expect.objectContaining({ revision: 1, version: '1.0', notes: '' }));
+  });
+
+  it('copies a revision back into the draft without publishing it', async () => {
+    const revision2 = { formId: 'form-1', revision: 2, name: 'Old expenses', description: '', structure: { fields: [] }, settings: { allowDrafts: true } };
+    FormRevision.findOne.mockReturnValue(query(revision2));
+
+    await rollbackFormToRevision('db-1', 2);
+
+    expect(FormRevision.findOne).toHaveBeenCalledWith({ formId: 'form-1', revision: 2 });
+    expect(Form.findByIdAndUpdate).toHaveBeenCalledWith('db-1', {
+      name: 'Old expenses',
+      description: '',
+      structure: { fields: [] },
+      settings: { allowDrafts: true }
+    }, { new: true });
+  });
+
+  it('validates new submissions against the published revision and records it', async () => {
+    FormRevision.findOne.mockReturnValue(query({ formId: 'form-1', revision: 3, structure: { fields: [] } }));
+
+    const submission = await submitForm({ formId: 'form-1', applicationId: 'app-1', data: {}, status: 'submitted' });
+
+    expect(FormRevision.findOne).toHaveBeenCalledWith({ formId: 'form-1', revision: 3 });
+    expect(submission.formRevision).toBe(3);
+    expect(workflowService.startWorkflowForSubmission).toHaveBeenCalledWith(submission);
+  });
+
+  it('reports unknown forms and revisions as not found', async () => {
+    FormRevision.findOne.mockReturnValue(query(null));
+    await expect(rollbackFormToRevision('db-1', 9)).rejects.toMatchObject({ statusCode: 404, message: 'Revision not found' });
+
+    Form.findById.mockReturnValue(query(null));
+    await expect(publishForm('db-2', 'u1')).rejects.toMatchObject({ statusCode: 404, message: 'Form not found' });
+    expect(Form.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateFormSubmission for a submission sent back for changes', () => {
+  // Made against revision 2, which asked for a reason the live form no longer has
+  const returned = {
+    submissionId: 'sub-1',
+    formId: 'form-1',
+    applicationId: 'app-1',
+    formRevision: 2,
+    status: 'changes_requested',
+    data: { amount: 5 }
+  };
+  const revision2 = {
+    formId: 'form-1',
+    revision: 2,
+    structure: {
+      fields: [
+        { name: 'amount', label: 'Amount', type: 'number', required: true },
+        { name: 'reason', label: 'Reason', type: 'text', required: true }
+      ]
+    }
+  };
+
+  beforeEach(() => {
+    FormSubmission.findOne.mockReturnValue(query(returned));
+    FormRevision.findOne.mockReturnValue(query(revision2));
+  });
+
+  it('lets the submitter save partial changes without resuming the workflow', async () => {
+    const saved = await updateFormSubmission('sub-1', { data: { amount: 7 } });
+
+    expect(FormRevision.findOne).toHaveBeenCalledWith({ formId: 'form-1', revision: 2 });
+    expect(FormSubmission.findOneAndUpdate).toHaveBeenCalledWith({ submissionId: 'sub-1' }, { data: { amount: 7 } }, { new: true });
+    expect(saved.data).toEqual({ amount: 7 });
+    expect(workflowService.resumeWorkflowForSubmission).not.toHaveBeenCalled();
+  });
+
+  it('validates a resubmission in full against its revision, then resumes the workflow', async () => {
+    await expect(updateFormSubmission('sub-1', { status: 'submitted' }))
+      .rejects.toMatchObject({ statusCode: 400, errors: [expect.objectContaining({ field: 'reason' })] });
+    expect(FormSubmission.findOneAndUpdate).not.toHaveBeenCalled();
+
+    const resubmitted = await updateFormSubmission('sub-1', { data: { amount: 7, reason: 'Team lunch' }, status: 'submitted' });
+
+    expect(workflowService.resumeWorkflowForSubmission).toHaveBeenCalledWith(expect.objectContaining({
+      submissionId: 'sub-1',
+      status: 'submitted',
+      data: { amount: 7, reason: 'Team lunch' }
+    }));
+    expect(resubmitted.status).toBe('in_review');
+    expect(workflowService.startWorkflowForSubmission).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { jest } from '@jest/globals';
+import { Aggregator } from 'mingo';
+import 'mingo/init/system';
+
+// A mongoose query: chainable, and resolving to value
+const query = (value) => {
+  const chain = {
+    populate: () => chain,
+    sort: () => chain,
+    skip: () => chain,
+    limit: () => chain,
+    then: (resolve, reject) => Promise.resolve(value).then(resolve, reject)
+  };
+  return chain;
+};
+
+const SUBMISSIONS = [
+  ['s1', 'north', 'approved', 120],
+  ['s2', 'south', 'submitted', 80],
+  ['s3', 'north', 'submitted', 30],
+  ['s4', 'east', 'approved', 45],
+  ['s5', 'north', 'approved', 5]
+].map(([submissionId, region, status, amount], index) => ({
+  _id: `db-${submissionId}`,
+  submissionId,
+  formId: 'form-1',
+  applicationId: 'app-1',
+  status,
+  createdAt: new Date(Date.UTC(2024, 0, index + 1)),
+  data: { region, amount }
+}));
+
+const Report = { findById: jest.fn() };
+const ReportRun = jest.fn(function ReportRun(data) {
+  this.save = async () => ({ _id: 'run-db-id', ...data });
+});
+ReportRun.countDocuments = jest.fn();
+ReportRun.find = jest.fn();
+// Report pipelines run in-process over SUBMISSIONS
+const FormSubmission = {
+  aggregate: jest.fn(pipeline => ({
+    allowDiskUse: async () => new Aggregator(pipeline).run(structuredClone(SUBMISSIONS))
+  })),
+  populate: jest.fn(async rows => rows),
+  find: jest.fn()
+};
+const email = { sendReportNotification: jest.fn() };
+
+jest.unstable_mockModule('../../models/mongodb/index.js', () => ({ Report, ReportRun, FormSubmission }));
+jest.unstable_mockModule('../../models/mysql/index.js', () => ({ Report: {}, ReportRun: {}, FormSubmission: {} }));
+jest.unstable_mockModule('../../utils/email.js', () => email);
+
+const { generateReportData, deliverScheduledReport, getReportRuns } = await import('../reportService.js');
+
+const report = (configuration, extra = {}) => ({
+  id: 'r1',
+  name: 'Weekly sales',
+  sourceForm: 'form-1',
+  applicationId: 'app-1',
+  configuration,
+  ...extra
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('generateReportData groups and pivots', () => {
+  it('returns each group with its keys, size and aggregations', async () => {
+    const result = await generateReportData(report({
+      columns: [{ field: 'amount' }],
+      grouping: { enabled: true, fields: ['region'] },
+      aggregations: [{ field: 'amount', operation: 'sum' }, { field: 'amount', operation: 'max' }]
+    }));
+
+    expect(result.total).toBe(5);
+    expect(result.groupBy).toEqual(['region']);
+    expect(result.groups).toEqual([
+      { keys: { region: 'east' }, count: 1, aggregations: { amount_sum: 45, amount_max: 45 } },
+      { keys: { region: 'north' }, count: 3, aggregations: { amount_sum: 155, amount_max: 120 } },
+      { keys: { region: 'south' }, count: 1, aggregations: { amount_sum: 80, amount_max: 80 } }
+    ]);
+    expect(result.aggregations).toEqual({ amount_sum: 280, amount_max: 120 });
+    // Rows come ordered by group, each with its group keys
+    expect(result.data.map(row => row._groups[0])).toEqual(['east', 'north', 'north', 'north', 'south']);
+  });
+
+  it('lays a pivot out as rows by columns with totals, over every page', async () => {
+    const result = await generateReportData(report({
+      pivot: { enabled: true, rows: ['region'], column: '_status', measure: { field: 'amount', operation: 'sum' } }
+    }), {}, { page: 1, limit: 2 });
+
+    expect(result.data).toHaveLength(2);
+    expect(result.pagination).toEqual({ total: 5, page: 1, limit: 2, pages: 3 });
+    expect(result.pivot).toEqual({
+      rowFields: ['region'],
+      columnField: '_status',
+      measure: { field: 'amount', operation: 'sum' },
+      columns: ['approved', 'submitted'],
+      rows: [
+        { keys: ['east'], values: [45, 0], total: 45 },
+        { keys: ['north'], values: [125, 30], total: 155 },
+        { keys: ['south'], values: [0, 80], total: 80 }
+      ],
+      columnTotals: [170, 110],
+      total: 280
+    });
+  });
+});
+
+describe('scheduled report delivery', () => {
+  const scheduled = (schedule) => report({ columns: [{ field: 'region' }, { field: 'amount' }] }, {
+    schedule: { enabled: true, frequency: 'daily', format: 'csv', recipients: ['a@example.com', 'b@example.com'], ...schedule }
+  });
+
+  it('emails the report as an attachment and records the run with any recipients that failed', async () => {
+    Report.findById.mockReturnValue(query(scheduled()));
+    email.sendReportNotification.mockResolvedValue([
+      { status: 'fulfilled' },
+      { status: 'rejected', reason: new Error('Mailbox full') }
+    ]);
+
+    const run = await deliverScheduledReport('r1');
+
+    const [, reportData, recipients, attachment, chart] = email.sendReportNotification.mock.calls[0];
+    expect(reportData.total).toBe(5);
+    expect(recipients).toEqual(['a@example.com', 'b@example.com']);
+    expect(attachment).toEqual(expect.objectContaining({ contentType: 'text/csv', filename: expect.stringMatching(/^Weekly_sales_.*\.csv$/) }));
+    expect(attachment.content.split('\n')[0]).toBe('region,amount,Status,Created At');
+    expect(chart).toBeNull();
+    expect(run).toEqual(expect.objectContaining({
+      report: 'r1',
+      trigger: 'schedule',
+      status: 'success',
+      total: 5,
+      failedRecipients: ['b@example.com']
+    }));
+  });
+
+  it('records a failed run, without throwing, when nothing could be delivered', async () => {
+    Report.findById.mockReturnValue(query(scheduled({ recipients: ['a@example.com'] })));
+    email.sendReportNotification.mockResolvedValue([{ status: 'rejected', reason: new Error('Mailbox full') }]);
+
+    expect(await deliverScheduledReport('r1')).toEqual(expect.objectContaining({
+      status: 'failed',
+      failedRecipients: ['a@example.com'],
+      error: 'Mailbox full'
+    }));
+
+    email.sendReportNotification.mockRejectedValue(new Error('SMTP down'));
+    expect(await deliverScheduledReport('r1')).toEqual(expect.objectContaining({
+      status: 'failed',
+      failedRecipients: [],
+      error: 'SMTP down'
+    }));
+    expect(ReportRun).toHaveBeenCalledTimes(2);
+  });
+
+  it('only delivers disabled schedules when run by hand', async () => {
+    Report.findById.mockReturnValue(query(scheduled({ enabled: false })));
+    email.sendReportNotification.mockResolvedValue([{ status: 'fulfilled' }, { status: 'fulfilled' }]);
+
+    expect(await deliverScheduledReport('r1')).toBeNull();
+    expect(ReportRun).not.toHaveBeenCalled();
+
+    expect(await deliverScheduledReport('r1', { trigger: 'manual' })).toEqual(expect.objectContaining({
+      trigger: 'manual',
+      status: 'success'
+    }));
+  });
+
+  it('pages the run history newest first', async () => {
+    const runs = [{ runId: 'run-2' }, { runId: 'run-1' }];
+    ReportRun.countDocuments.mockResolvedValue(3);
+    ReportRun.find.mockReturnValue(query(runs));
+
+    expect(await getReportRuns('r1', { page: 1, limit: 2 })).toEqual({
+      runs,
+      pagination: { total: 3, page: 1, limit: 2, pages: 2 }
+    });
+    expect(ReportRun.find).toHaveBeenCalledWith({ report: 'r1' });
+  });
+});
@@ -0,0 +1,495 @@
+import { jest } from '@jest/globals';
+
+const Workflow = { find: jest.fn(), findOne: jest.fn() };
+
+const formService = {
+  getFormByFormId: jest.fn(),
+  getFormSubmissionById: jest.fn(),
+  updateFormSubmission: jest.fn(),
+  getOpenWorkflowSubmissions: jest.fn(),
+  getWorkflowTaskSubmissions: jest.fn(),
+  getReassignedFormIds: jest.fn()
+};
+const userService = { getUserById: jest.fn(), getUsers: jest.fn() };
+const permissionService = { getUserPermissions: jest.fn() };
+const delegationService = { getActiveDelegations: jest.fn() };
+const email = {
+  sendWorkflowAssignmentNotification: jest.fn(),
+  sendWorkflowDeadlineNotification: jest.fn(),
+  sendChangesRequestedNotification: jest.fn()
+};
+
+jest.unstable_mockModule('../../models/mongodb/index.js', () => ({ Workflow }));
+jest.unstable_mockModule('../../models/mysql/index.js', () => ({ Workflow: {} }));
+jest.unstable_mockModule('../formService.js', () => formService);
+jest.unstable_mockModule('../userService.js', () => userService);
+jest.unstable_mockModule('../permissionService.js', () => permissionService);
+jest.unstable_mockModule('../delegationService.js', () => delegationService);
+jest.unstable_mockModule('../../utils/email.js', () => email);
+
+const {
+  getWorkflowTasks,
+  processWorkflowEscalations,
+  executeWorkflowAction,
+  reassignSubmission,
+  resumeWorkflowForSubmission
+} = await import('../workflowService.js');
+
+const user = (id, role, extra = {}) => ({ _id: id, firstName: id, lastName: 'User', role, isActive: true, ...extra });
+
+// getUserById and getUsers over a fixed set of users
+const useDirectory = (users) => {
+  userService.getUserById.mockImplementation(async id => users.find(item => item._id === id.toString()) || null);
+  userService.getUsers.mockImplementation(async ({ role }) => ({
+    users: users.filter(item => item.role === role),
+    pagination: { pages: 1 }
+  }));
+};
+
+const HOUR = 60 * 60 * 1000;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delegationService.getActiveDelegations.mockResolvedValue([]);
+  formService.getReassignedFormIds.mockResolvedValue([]);
+  formService.getWorkflowTaskSubmissions.mockResolvedValue({ submissions: [], total: 0 });
+});
+
+describe('getWorkflowTasks', () => {
+  const workflow = {
+    _id: 'wf-db-1',
+    workflowId: 'wf-1',
+    name: 'Expenses',
+    formId: 'form-1',
+    applicationId: 'app-1',
+    stages: [
+      { id: 'review', name: 'Review', role: 'staff', actions: ['approve'] },
+      { id: 'finance', name: 'Finance', roles: ['finance'], actions: ['approve'] },
+      { id: 'director', name: 'Director', role: 'admin', actions: ['approve'] }
+    ]
+  };
+
+  it('reads role grants once per actor and only scans workflows that can reach them', async () => {
+    userService.getUserById.mockImplementation(async id => ({
+      u1: user('u1', 'staff'),
+      boss: user('boss', 'admin')
+    }[id]));
+    delegationService.getActiveDelegations.mockResolvedValue([{ delegator: 'boss', applicationId: 'app-2' }]);
+    permissionService.getUserPermissions.mockImplementation(async id => (id === 'u1'
+      ? [{ applicationId: 'app-1', role: 'finance' }, { applicationId: 'app-3', role: null }]
+      : []));
+    formService.getReassignedFormIds.mockResolvedValue(['form-9']);
+    Workflow.find.mockResolvedValue([workflow]);
+
+    const result = await getWorkflowTasks('u1');
+
+    expect(permissionService.getUserPermissions.mock.calls).toEqual([['u1'], ['boss']]);
+    expect(formService.getReassignedFormIds).toHaveBeenCalledWith(['u1', 'boss']);
+    expect(Workflow.find).toHaveBeenCalledWith({
+      isActive: { $ne: false },
+      $or: [
+        {
+          $or: [
+            { applicationId: { $in: ['app-1'] } },
+            { 'stages.users': 'u1' },
+            { 'stages.role': { $in: ['user', 'staff'] } },
+            { 'stages.roles': { $in: ['user', 'staff'] } }
+          ]
+        },
+        {
+          applicationId: 'app-2',
+          $or: [
+            { applicationId: { $in: [] } },
+            { 'stages.users': 'boss' },
+            { 'stages.role': { $in: ['user', 'staff', 'manager', 'admin'] } },
+            { 'stages.roles': { $in: ['user', 'staff', 'manager', 'admin'] } }
+          ]
+        },
+        { formId: { $in: ['form-9'] } }
+      ]
+    });
+
+    // The delegation covers another application, so only the user's own stages count
+    const [branches] = formService.getWorkflowTaskSubmissions.mock.calls[0];
+    expect(branches.filter(branch => !branch.reassigned).map(branch => [branch.stage, branch.actorIds])).toEqual([
+      ['review', ['u1']],
+      ['finance', ['u1']]
+    ]);
+    expect(result.pagination).toEqual({ total: 0, page: 1, limit: 20, pages: 0 });
+  });
+
+  it('builds tasks for the page of submissions the database returns', async () => {
+    userService.getUserById.mockResolvedValue(user('u1', 'staff'));
+    permissionService.getUserPermissions.mockResolvedValue([]);
+    Workflow.find.mockResolvedValue([workflow]);
+    formService.getFormByFormId.mockResolvedValue({ name: 'Expense claim' });
+    formService.getWorkflowTaskSubmissions.mockResolvedValue({
+      submissions: [{
+        submissionId: 'sub-1',
+        applicationId: 'app-1',
+        formId: 'form-1',
+        status: 'in_review',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        workflowState: { workflowId: 'wf-1', currentStage: 'review', history: [] }
+      }],
+      total: 21
+    });
+
+    const result = await getWorkflowTasks('u1', {}, { page: 2, limit: 20 });
+
+    expect(formService.getWorkflowTaskSubmissions).toHaveBeenCalledWith(expect.any(Array), {}, { offset: 20, limit: 20 });
+    expect(result.tasks).toEqual([expect.objectContaining({
+      submissionId: 'sub-1',
+      formName: 'Expense claim',
+      stage: { id: 'review', name: 'Review', actions: ['approve'] },
+      onBehalfOf: null
+    })]);
+    expect(result.pagination).toEqual({ total: 21, page: 2, limit: 20, pages: 2 });
+  });
+});
+
+describe('processWorkflowEscalations', () => {
+  const NOW = new Date('2024-03-01T12:00:00Z');
+  const hoursAgo = (hours) => new Date(NOW.getTime() - hours * HOUR);
+
+  const escalating = (settings) => ({
+    workflowId: 'wf-1',
+    name: 'Expenses',
+    formId: 'form-1',
+    applicationId: 'app-1',
+    stages: [{ id: 'review', name: 'Review', role: 'staff', actions: ['approve', 'reject'] }],
+    settings: { enableEscalation: true, escalationTime: 24, reminderTime: 4, ...settings }
+  });
+
+  const waiting = (submissionId, enteredHoursAgo, state = {}) => ({
+    submissionId,
+    formId: 'form-1',
+    status: 'in_review',
+    workflowState: { workflowId: 'wf-1', currentStage: 'review', stageEnteredAt: hoursAgo(enteredHoursAgo), history: [], ...state }
+  });
+
+  beforeEach(() => {
+    useDirectory([
+      user('s1', 'staff', { email: 'staff@example.com' }),
+      user('m1', 'manager', { email: 'manager@example.com' })
+    ]);
+  });
+
+  it('reminds assignees before the deadline and escalates once it has passed', async () => {
+    Workflow.find.mockResolvedValue([escalating({ escalationRole: 'manager' })]);
+    formService.getOpenWorkflowSubmissions.mockResolvedValue([
+      waiting('fresh', 1),
+      waiting('due-soon', 21),
+      waiting('reminded', 22, { reminderSentAt: hoursAgo(1) }),
+      waiting('overdue', 30),
+      waiting('escalated', 50, { escalatedAt: hoursAgo(20) })
+    ]);
+
+    const counts = await processWorkflowEscalations(NOW);
+
+    expect(counts).toEqual({ reminded: 1, escalated: 1, auto_action: 0 });
+    expect(email.sendWorkflowDeadlineNotification.mock.calls.map(call => [call[1].submissionId, call[4], call[5]])).toEqual([
+      ['due-soon', false, ['staff@example.com']],
+      ['overdue', true, ['manager@example.com']]
+    ]);
+    expect(formService.updateFormSubmission).toHaveBeenCalledWith('due-soon', {
+      workflowState: expect.objectContaining({ reminderSentAt: NOW })
+    });
+    const [, { workflowState }] = formService.updateFormSubmission.mock.calls.find(([id]) => id === 'overdue');
+    expect(workflowState.escalatedAt).toBe(NOW);
+    expect(workflowState.history.at(-1)).toEqual(expect.objectContaining({
+      action: 'escalated',
+      comments: `Deadline of ${hoursAgo(6).toISOString()} passed; escalated to manager`
+    }));
+  });
+
+  it('takes an automatic action the stage allows, but never sends back automatically', async () => {
+    Workflow.find.mockResolvedValue([escalating({ escalationAction: 'approve' })]);
+    formService.getOpenWorkflowSubmissions.mockResolvedValue([waiting('overdue', 30)]);
+
+    expect(await processWorkflowEscalations(NOW)).toEqual({ reminded: 0, escalated: 0, auto_action: 1 });
+    const [, update] = formService.updateFormSubmission.mock.calls[0];
+    expect(update.status).toBe('approved');
+    expect(update.workflowState.history.map(entry => entry.action)).toEqual(['escalated', 'approve']);
+
+    jest.clearAllMocks();
+    Workflow.find.mockResolvedValue([escalating({ escalationAction: 'request_changes' })]);
+    formService.getOpenWorkflowSubmissions.mockResolvedValue([waiting('overdue', 30)]);
+
+    expect(await processWorkflowEscalations(NOW)).toEqual({ reminded: 0, escalated: 1, auto_action: 0 });
+    expect(formService.updateFormSubmission.mock.calls[0][1].status).toBeUndefined();
+  });
+});
+
+describe('executeWorkflowAction at a parallel approval stage', () => {
+  // Two of three board members must approve; it rejects once two approvals are out of reach
+  const workflow = {
+    workflowId: 'wf-2',
+    name: 'Purchase',
+    formId: 'form-1',
+    applicationId: 'app-1',
+    stages: [
+      {
+        id: 'board',
+        name: 'Board',
+        users: ['a', 'b', 'c'],
+        actions: ['approve', 'reject'],
+        approval: { mode: 'count', count: 2, rejection: 'quorum' }
+      },
+      { id: 'pay', name: 'Payment', role: 'staff', actions: ['approve'] }
+    ],
+    transitions: [{ from: 'board', to: 'pay', action: 'approve' }]
+  };
+
+  const votedOn = (votes) => ({
+    submissionId: 'sub-1',
+    formId: 'form-1',
+    status: 'in_review',
+    workflowState: {
+      workflowId: 'wf-2',
+      currentStage: 'board',
+      history: [],
+      approval: {
+        stage: 'board',
+        approvers: ['a', 'b', 'c'].map(id => ({ id, name: `${id} User` })),
+        required: 2,
+        votes: votes.map(([voter, vote]) => ({ user: voter, vote }))
+      }
+    }
+  });
+
+  beforeEach(() => {
+    useDirectory(['a', 'b', 'c'].map(id => user(id, 'staff')));
+  });
+
+  it('waits for the quorum of approvals before moving on', async () => {
+    formService.getFormSubmissionById.mockResolvedValue(votedOn([]));
+
+    const pending = await executeWorkflowAction(workflow, 'sub-1', 'approve', 'a');
+
+    expect(pending.currentStage).toBe('board');
+    expect(pending.status).toBe('in_review');
+    expect(pending.approval.votes).toEqual([expect.objectContaining({ user: 'a', vote: 'approve', castBy: null })]);
+
+    formService.getFormSubmissionById.mockResolvedValue(votedOn([['a', 'approve']]));
+
+    const decided = await executeWorkflowAction(workflow, 'sub-1', 'approve', 'b');
+
+    expect(decided.currentStage).toBe('pay');
+    expect(decided.status).toBe('in_review');
+    expect(formService.updateFormSubmission).toHaveBeenLastCalledWith('sub-1', {
+      workflowState: expect.objectContaining({ currentStage: 'pay', approval: null }),
+      status: 'in_review'
+    });
+  });
+
+  it('rejects only once the remaining approvers cannot reach the quorum', async () => {
+    formService.getFormSubmissionById.mockResolvedValue(votedOn([]));
+    expect((await executeWorkflowAction(workflow, 'sub-1', 'reject', 'a')).status).toBe('in_review');
+
+    formService.getFormSubmissionById.mockResolvedValue(votedOn([['a', 'reject']]));
+    const rejected = await executeWorkflowAction(workflow, 'sub-1', 'reject', 'b');
+
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.currentStage).toBe('board');
+  });
+
+  it('lets each approver vote once and only approvers vote', async () => {
+    formService.getFormSubmissionById.mockResolvedValue(votedOn([['a', 'approve']]));
+
+    await expect(executeWorkflowAction(workflow, 'sub-1', 'reject', 'a'))
+      .rejects.toMatchObject({ statusCode: 409, message: 'You have already voted at this stage' });
+
+    useDirectory(['a', 'b', 'c', 'd'].map(id => user(id, 'staff')));
+    await expect(executeWorkflowAction(workflow, 'sub-1', 'approve', 'd'))
+      .rejects.toMatchObject({ statusCode: 403, requirement: 'assignee' });
+    expect(formService.updateFormSubmission).not.toHaveBeenCalled();
+  });
+});
+
+describe('acting for someone else', () => {
+  const workflow = {
+    workflowId: 'wf-3',
+    name: 'Leave',
+    formId: 'form-1',
+    applicationId: 'app-1',
+    stages: [{ id: 'review', name: 'Review', users: ['boss'], actions: ['approve', 'reject'] }]
+  };
+
+  const atReview = (state = {}) => ({
+    submissionId: 'sub-1',
+    formId: 'form-1',
+    status: 'submitted',
+    workflowState: { workflowId: 'wf-3', currentStage: 'review', history: [], ...state }
+  });
+
+  beforeEach(() => {
+    useDirectory([user('boss', 'manager'), user('u1', 'staff'), user('u2', 'staff', { email: 'u2@example.com' })]);
+    email.sendWorkflowAssignmentNotification.mockResolvedValue();
+    formService.updateFormSubmission.mockImplementation(async (id, update) => ({ submissionId: id, ...update }));
+  });
+
+  it('records a delegate acting on behalf of the approver who delegated to them', async () => {
+    formService.getFormSubmissionById.mockResolvedValue(atReview());
+    delegationService.getActiveDelegations.mockResolvedValue([{ delegator: 'boss', applicationId: 'app-1' }]);
+
+    const result = await executeWorkflowAction(workflow, 'sub-1', 'approve', 'u1', 'Covering for boss');
+
+    expect(delegationService.getActiveDelegations).toHaveBeenCalledWith('u1', 'app-1');
+    expect(result.status).toBe('approved');
+    expect(result.history.at(-1)).toEqual(expect.objectContaining({
+      action: 'approve',
+      user: 'u1',
+      onBehalfOf: 'boss'
+    }));
+  });
+
+  it('refuses users who are neither assigned nor delegated to', async () => {
+    formService.getFormSubmissionById.mockResolvedValue(atReview());
+
+    await expect(executeWorkflowAction(workflow, 'sub-1', 'approve', 'u1'))
+      .rejects.toMatchObject({ statusCode: 403, requirement: 'assignee' });
+  });
+
+  it('hands a reassigned stage to the new assignee only', async () => {
+    formService.getFormSubmissionById.mockResolvedValue(atReview());
+    Workflow.findOne.mockResolvedValue(workflow);
+
+    const result = await reassignSubmission('sub-1', 'u2', 'admin-1', { comments: 'Boss is away' });
+
+    expect(result.assignedTo).toEqual({ stage: 'review', id: 'u2', name: 'u2 User' });
+    expect(result.history.at(-1)).toEqual(expect.objectContaining({
+      action: 'reassigned',
+      user: 'admin-1',
+      comments: 'Reassigned to u2 User: Boss is away'
+    }));
+    expect(email.sendWorkflowAssignmentNotification).toHaveBeenCalledWith(
+      workflow, expect.objectContaining({ submissionId: 'sub-1' }), workflow.stages[0], ['u2@example.com']
+    );
+
+    formService.getFormSubmissionById.mockResolvedValue(atReview({ assignedTo: result.assignedTo }));
+    await expect(executeWorkflowAction(workflow, 'sub-1', 'approve', 'boss'))
+      .rejects.toMatchObject({ statusCode: 403, message: 'This submission is assigned to u2 User' });
+    expect((await executeWorkflowAction(workflow, 'sub-1', 'approve', 'u2')).status).toBe('approved');
+  });
+});
+
+describe('sending a submission back for changes', () => {
+  const workflow = {
+    workflowId: 'wf-4',
+    name: 'Grants',
+    formId: 'form-1',
+    applicationId: 'app-1',
+    stages: [
+      { id: 'check', name: 'Check', role: 'staff', actions: ['approve', 'request_changes'] },
+      { id: 'decide', name: 'Decide', role: 'manager', actions: ['approve', 'reject', 'request_changes'] }
+    ],
+    transitions: [{ from: 'check', to: 'decide', action: 'approve' }]
+  };
+
+  const atDecide = (state = {}) => ({
+    submissionId: 'sub-1',
+    formId: 'form-1',
+    status: 'in_review',
+    submittedBy: { _id: 'sam', firstName: 'Sam' },
+    workflowState: {
+      workflowId: 'wf-4',
+      currentStage: 'decide',
+      history: [
+        { stage: 'check', action: 'started', user: 'sam' },
+        { stage: 'check', action: 'approve', user: 'st' }
+      ],
+      ...state
+    }
+  });
+
+  beforeEach(() => {
+    useDirectory([
+      user('sam', 'user', { email: 'sam@example.com' }),
+      user('st', 'staff', { email: 'st@example.com' }),
+      user('mg', 'manager', { email: 'mg@example.com' })
+    ]);
+    permissionService.getUserPermissions.mockResolvedValue([]);
+    formService.updateFormSubmission.mockImplementation(async (id, update) => ({ ...atDecide(), ...update }));
+  });
+
+  it('needs comments and returns the submission to its submitter as a new revision round', async () => {
+    formService.getFormSubmissionById.mockResolvedValue(atDecide());
+
+    await expect(executeWorkflowAction(workflow, 'sub-1', 'request_changes', 'mg', '  '))
+      .rejects.toMatchObject({ statusCode: 400 });
+
+    const result = await executeWorkflowAction(workflow, 'sub-1', 'request_changes', 'mg', 'Attach the budget');
+
+    expect(result.status).toBe('changes_requested');
+    expect(result.currentStage).toBe('decide');
+    expect(result.revision).toEqual(expect.objectContaining({
+      round: 1,
+      stage: 'decide',
+      returnTo: null,
+      requestedBy: 'mg',
+      comments: 'Attach the budget',
+      resubmittedAt: null
+    }));
+    expect(email.sendChangesRequestedNotification).toHaveBeenCalledWith(
+      workflow, expect.anything(), workflow.stages[1], 'Attach the budget', ['sam@example.com']
+    );
+  });
+
+  it('sends a submission back to an earlier stage it passed, then resumes where it was sent from', async () => {
+    formService.getFormSubmissionById.mockResolvedValue(atDecide());
+
+    await expect(executeWorkflowAction(workflow, 'sub-1', 'request_changes', 'mg', 'Recheck', { returnTo: 'decide' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+
+    const sentBack = await executeWorkflowAction(workflow, 'sub-1', 'request_changes', 'mg', 'Recheck', { returnTo: 'check' });
+    expect(sentBack).toEqual(expect.objectContaining({ status: 'in_review', currentStage: 'check' }));
+
+    const [, { workflowState }] = formService.updateFormSubmission.mock.calls.at(-1);
+    formService.getFormSubmissionById.mockResolvedValue(atDecide(workflowState));
+
+    const approved = await executeWorkflowAction(workflow, 'sub-1', 'approve', 'st');
+    expect(approved.currentStage).toBe('decide');
+    const [, resumed] = formService.updateFormSubmission.mock.calls.at(-1);
+    expect(resumed.workflowState.revisions).toEqual([expect.objectContaining({ round: 1, resubmittedAt: expect.any(Date) })]);
+  });
+
+  it('refuses workflow actions while the submitter has it', async () => {
+    formService.getFormSubmissionById.mockResolvedValue({ ...atDecide(), status: 'changes_requested' });
+
+    await expect(executeWorkflowAction(workflow, 'sub-1', 'approve', 'mg'))
+      .rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('resumes a resubmitted submission at the stage that asked for changes', async () => {
+    Workflow.findOne.mockResolvedValue(workflow);
+    const returned = {
+      ...atDecide({ revisions: [{ round: 1, stage: 'decide', returnTo: null, resubmittedAt: null }] }),
+      status: 'submitted'
+    };
+
+    await resumeWorkflowForSubmission(returned);
+
+    expect(Workflow.findOne).toHaveBeenCalledWith({ workflowId: 'wf-4' });
+    const [id, update] = formService.updateFormSubmission.mock.calls[0];
+    expect(id).toBe('sub-1');
+    expect(update.status).toBe('in_review');
+    expect(update.workflowState).toEqual(expect.objectContaining({ currentStage: 'decide', approval: null }));
+    expect(update.workflowState.revisions[0].resubmittedAt).toEqual(expect.any(Date));
+    expect(update.workflowState.history.at(-1)).toEqual(expect.objectContaining({
+      action: 'resubmitted',
+      user: 'sam',
+      comments: 'Revision round 1'
+    }));
+    expect(email.sendWorkflowAssignmentNotification).toHaveBeenCalledWith(
+      workflow, expect.anything(), workflow.stages[1], ['mg@example.com']
+    );
+  });
+
+  it('leaves submissions without an open revision round alone', async () => {
+    const submission = atDecide();
+
+    expect(await resumeWorkflowForSubmission(submission)).toBe(submission);
+    expect(formService.updateFormSubmission).not.toHaveBeenCalled();
+  });
+});
@@ -6,6 +6,8 @@ import { FormSubmission as MongoFormSubmission } from '../models/mongodb/index.j
 import { FormSubmission as MySQLFormSubmission } from '../models/mysql/index.js';
 import { logger } from '../utils/logger.js';
 
+const OBJECT_ID_REGEX = /^[0-9a-f]{24}$/i;
+
 // Determine which model to use based on DB_TYPE
 const getApplicationModel = () => {
   const dbType = process.env.DB_TYPE || 'mongodb';
@@ -148,6 +150,30 @@ export const getApplicationById = async (id) => {
   }
 };
 
+// Get application by either its applicationId or database id; forms store
+// whichever one the client that created them had at hand
+export const getApplicationByReference = async (reference) => {
+  try {
+    const ApplicationModel = getApplicationModel();
+    
+    if (process.env.DB_TYPE === 'mysql') {
+      const { Op } = await import('sequelize');
+      return await ApplicationModel.findOne({
+        where: { [Op.or]: [{ applicationId: reference }, { id: reference }] }
+      });
+    } else {
+      const conditions = [{ applicationId: reference }];
+      if (OBJECT_ID_REGEX.test(reference)) {
+        conditions.push({ _id: reference });
+      }
+      return await ApplicationModel.findOne({ $or: conditions });
+    }
+  } catch (error) {
+    logger.error('Error getting application by reference:', error);
+    throw error;
+  }
+};
+
 // Update application
 export const updateApplication = async (id, updateData) => {
   try {
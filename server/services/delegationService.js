@@ -0,0 +1,150 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Delegation as MongoDelegation } from '../models/mongodb/index.js';
+import { Delegation as MySQLDelegation } from '../models/mysql/index.js';
+import { logger } from '../utils/logger.js';
+
+// Determine which model to use based on DB_TYPE
+const getDelegationModel = () => {
+  const dbType = process.env.DB_TYPE || 'mongodb';
+  return dbType === 'mysql' ? MySQLDelegation : MongoDelegation;
+};
+
+// Create delegation
+export const createDelegation = async (delegationData) => {
+  try {
+    const DelegationModel = getDelegationModel();
+    const data = {
+      ...delegationData,
+      delegationId: uuidv4(),
+      applicationId: delegationData.applicationId || null
+    };
+
+    if (process.env.DB_TYPE === 'mysql') {
+      return await DelegationModel.create(data);
+    } else {
+      const delegation = new DelegationModel(data);
+      return await delegation.save();
+    }
+  } catch (error) {
+    logger.error('Error creating delegation:', error);
+    throw error;
+  }
+};
+
+// Get the delegations a user has given or received, newest first
+export const getDelegations = async (userId, filters = {}) => {
+  try {
+    const DelegationModel = getDelegationModel();
+
+    if (process.env.DB_TYPE === 'mysql') {
+      const { Op } = await import('sequelize');
+      const whereClause = {
+        [Op.or]: [{ delegator: userId }, { delegate: userId }]
+      };
+
+      if (filters.activeOnly) {
+        whereClause.isActive = true;
+        whereClause.endDate = { [Op.gte]: new Date() };
+      }
+
+      return await DelegationModel.findAll({
+        where: whereClause,
+        order: [['startDate', 'DESC']],
+        include: [
+          { association: 'delegatorDetails', attributes: ['firstName', 'lastName', 'email'] },
+          { association: 'delegateDetails', attributes: ['firstName', 'lastName', 'email'] }
+        ]
+      });
+    } else {
+      const query = {
+        $or: [{ delegator: userId }, { delegate: userId }]
+      };
+
+      if (filters.activeOnly) {
+        query.isActive = true;
+        query.endDate = { $gte: new Date() };
+      }
+
+      return await DelegationModel.find(query)
+        .populate('delegator', 'firstName lastName email')
+        .populate('delegate', 'firstName lastName email')
+        .sort({ startDate: -1 });
+    }
+  } catch (error) {
+    logger.error('Error getting delegations:', error);
+    throw error;
+  }
+};
+
+// Get delegation by delegationId
+export const getDelegationById = async (delegationId) => {
+  try {
+    const DelegationModel = getDelegationModel();
+
+    if (process.env.DB_TYPE === 'mysql') {
+      return await DelegationModel.findOne({ where: { delegationId } });
+    } else {
+      return await DelegationModel.findOne({ delegationId });
+    }
+  } catch (error) {
+    logger.error('Error getting delegation by ID:', error);
+    throw error;
+  }
+};
+
+// Revoke a delegation; it is kept, inactive, as a record of who could act for whom
+export const revokeDelegation = async (delegationId) => {
+  try {
+    const DelegationModel = getDelegationModel();
+
+    if (process.env.DB_TYPE === 'mysql') {
+      const [updatedRows] = await DelegationModel.update({ isActive: false }, {
+        where: { delegationId }
+      });
+      return updatedRows > 0;
+    } else {
+      const result = await DelegationModel.findOneAndUpdate({ delegationId }, { isActive: false });
+      return result !== null;
+    }
+  } catch (error) {
+    logger.error('Error revoking delegation:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delegations in force for a delegate at the given time. With an
+ * applicationId, only those covering every application or that one.
+ */
+export const getActiveDelegations = async (delegateId, applicationId = null, at = new Date()) => {
+  try {
+    const DelegationModel = getDelegationModel();
+    let delegations;
+
+    if (process.env.DB_TYPE === 'mysql') {
+      const { Op } = await import('sequelize');
+      delegations = await DelegationModel.findAll({
+        where: {
+          delegate: delegateId,
+          isActive: true,
+          startDate: { [Op.lte]: at },
+          endDate: { [Op.gte]: at }
+        }
+      });
+    } else {
+      delegations = await DelegationModel.find({
+        delegate: delegateId,
+        isActive: true,
+        startDate: { $lte: at },
+        endDate: { $gte: at }
+      });
+    }
+
+    return applicationId
+      ? delegations.filter(delegation => !delegation.applicationId || delegation.applicationId === applicationId)
+      : delegations;
+  } catch (error) {
+    logger.error('Error getting active delegations:', error);
+    throw error;
+  }
+};
@@ -1,8 +1,18 @@
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { Form as MongoForm } from '../models/mongodb/index.js';
 import { Form as MySQLForm } from '../models/mysql/index.js';
 import { FormSubmission as MongoFormSubmission } from '../models/mongodb/index.js';
 import { FormSubmission as MySQLFormSubmission } from '../models/mysql/index.js';
+import { File as MongoFile } from '../models/mongodb/index.js';
+import { File as MySQLFile } from '../models/mysql/index.js';
+import { FormRevision as MongoFormRevision } from '../models/mongodb/index.js';
+import { FormRevision as MySQLFormRevision } from '../models/mysql/index.js';
+import {
+  validateSubmissionData,
+  isFileReference,
+  createSubmissionValidationError
+} from '../utils/submissionValidator.js';
 import { logger } from '../utils/logger.js';
 
 // Determine which model to use based on DB_TYPE
@@ -16,6 +26,16 @@ const getFormSubmissionModel = () => {
   return dbType === 'mysql' ? MySQLFormSubmission : MongoFormSubmission;
 };
 
+const getFileModel = () => {
+  const dbType = process.env.DB_TYPE || 'mongodb';
+  return dbType === 'mysql' ? MySQLFile : MongoFile;
+};
+
+const getFormRevisionModel = () => {
+  const dbType = process.env.DB_TYPE || 'mongodb';
+  return dbType === 'mysql' ? MySQLFormRevision : MongoFormRevision;
+};
+
 // Create form
 export const createForm = async (formData) => {
   try {
@@ -155,6 +175,45 @@ export const getFormById = async (id) => {
   }
 };
 
+// Get form by its formId (the key submissions, workflows and reports refer to)
+export const getFormByFormId = async (formId, applicationId = null) => {
+  try {
+    const FormModel = getFormModel();
+    
+    const query = { formId };
+    if (applicationId) {
+      query.applicationId = applicationId;
+    }
+
+    if (process.env.DB_TYPE === 'mysql') {
+      return await FormModel.findOne({ where: query });
+    } else {
+      return await FormModel.findOne(query);
+    }
+  } catch (error) {
+    logger.error('Error getting form by formId:', error);
+    throw error;
+  }
+};
+
+// Resolve a public form link: the form's slug, or its formId for forms without one
+export const getFormBySlug = async (slug) => {
+  try {
+    const FormModel = getFormModel();
+    
+    if (process.env.DB_TYPE === 'mysql') {
+      return await FormModel.findOne({ where: { slug } }) ||
+        await FormModel.findOne({ where: { formId: slug } });
+    } else {
+      return await FormModel.findOne({ slug }) ||
+        await FormModel.findOne({ formId: slug });
+    }
+  } catch (error) {
+    logger.error('Error getting form by slug:', error);
+    throw error;
+  }
+};
+
 // Update form
 export const updateForm = async (id, updateData) => {
   try {
@@ -195,22 +254,436 @@ export const deleteForm = async (id) => {
   }
 };
 
+// Publish a form: snapshot its current structure as the next immutable revision
+export const publishForm = async (id, publishedBy, notes = '') => {
+  try {
+    const FormRevisionModel = getFormRevisionModel();
+    const form = await getFormById(id);
+
+    if (!form) {
+      const error = new Error('Form not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    const latest = process.env.DB_TYPE === 'mysql'
+      ? await FormRevisionModel.max('revision', { where: { formId: form.formId } })
+      : (await FormRevisionModel.findOne({ formId: form.formId }).sort({ revision: -1 }))?.revision;
+    const revisionNumber = (latest || 0) + 1;
+
+    const revisionData = {
+      revisionId: uuidv4(),
+      formId: form.formId,
+      applicationId: form.applicationId,
+      revision: revisionNumber,
+      version: `${revisionNumber}.0`,
+      name: form.name,
+      description: form.description,
+      structure: form.structure,
+      settings: form.settings,
+      notes,
+      publishedBy
+    };
+
+    let revision;
+    if (process.env.DB_TYPE === 'mysql') {
+      revision = await FormRevisionModel.create(revisionData);
+    } else {
+      revision = await new FormRevisionModel(revisionData).save();
+    }
+
+    const updatedForm = await updateForm(id, {
+      status: 'active',
+      version: revisionData.version,
+      publishedRevision: revisionNumber
+    });
+
+    return { form: updatedForm, revision };
+  } catch (error) {
+    logger.error('Error publishing form:', error);
+    throw error;
+  }
+};
+
+// List the published revisions of a form, newest first, without their structure
+export const getFormRevisions = async (formId) => {
+  try {
+    const FormRevisionModel = getFormRevisionModel();
+
+    if (process.env.DB_TYPE === 'mysql') {
+      return await FormRevisionModel.findAll({
+        where: { formId },
+        attributes: { exclude: ['structure', 'settings'] },
+        order: [['revision', 'DESC']],
+        include: [{
+          association: 'publisher',
+          attributes: ['firstName', 'lastName', 'email']
+        }]
+      });
+    } else {
+      return await FormRevisionModel.find({ formId })
+        .select('-structure -settings')
+        .populate('publishedBy', 'firstName lastName email')
+        .sort({ revision: -1 });
+    }
+  } catch (error) {
+    logger.error('Error getting form revisions:', error);
+    throw error;
+  }
+};
+
+// Get a single revision of a form by its revision number
+export const getFormRevision = async (formId, revision) => {
+  try {
+    const FormRevisionModel = getFormRevisionModel();
+
+    if (process.env.DB_TYPE === 'mysql') {
+      return await FormRevisionModel.findOne({ where: { formId, revision } });
+    } else {
+      return await FormRevisionModel.findOne({ formId, revision });
+    }
+  } catch (error) {
+    logger.error('Error getting form revision:', error);
+    throw error;
+  }
+};
+
+// Replace the working draft of a form with the content of a published revision.
+// The published revision pointer is left alone until the form is published again.
+export const rollbackFormToRevision = async (id, revisionNumber) => {
+  try {
+    const form = await getFormById(id);
+
+    if (!form) {
+      const error = new Error('Form not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    const revision = await getFormRevision(form.formId, revisionNumber);
+
+    if (!revision) {
+      const error = new Error('Revision not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    return await updateForm(id, {
+      name: revision.name,
+      description: revision.description,
+      structure: revision.structure,
+      settings: revision.settings
+    });
+  } catch (error) {
+    logger.error('Error rolling back form:', error);
+    throw error;
+  }
+};
+
+// The schema a submission is validated against: the given revision, else the
+// form's published revision, else the live structure of a never-published form
+const getSubmissionSchema = async (form, revisionNumber = form.publishedRevision) => {
+  if (!revisionNumber) {
+    return form;
+  }
+  return (await getFormRevision(form.formId, revisionNumber)) || form;
+};
+
+// The form as respondents see it: the structure of the revision new
+// submissions are validated against, with the live form's identifiers
+export const getSubmissionView = async (form) => {
+  try {
+    const schema = await getSubmissionSchema(form);
+
+    return {
+      id: form.id || form._id,
+      formId: form.formId,
+      applicationId: form.applicationId,
+      name: schema.name,
+      description: schema.description,
+      status: form.status,
+      revision: schema.revision || null,
+      structure: schema.structure,
+      settings: form.settings
+    };
+  } catch (error) {
+    logger.error('Error getting form submission view:', error);
+    throw error;
+  }
+};
+
+// Check that every referenced file id exists in the File collection
+const findMissingFiles = async (fileReferences) => {
+  if (fileReferences.length === 0) {
+    return [];
+  }
+
+  const FileModel = getFileModel();
+  const ids = [...new Set(fileReferences.map(ref => ref.fileId))];
+
+  let files;
+  if (process.env.DB_TYPE === 'mysql') {
+    files = await FileModel.findAll({ where: { id: ids }, attributes: ['id'] });
+  } else {
+    // UUID references can never match a Mongo ObjectId, so leave them out of the cast
+    const objectIds = ids.filter(id => isFileReference(id) && !id.includes('-'));
+    files = await FileModel.find({ _id: { $in: objectIds } }).select('_id');
+  }
+
+  const found = new Set(files.map(file => (file.id || file._id).toString()));
+  return fileReferences.filter(ref => !found.has(ref.fileId));
+};
+
+// Field names end up in JSON paths, so only plain identifiers are accepted
+const LOOKUP_FIELD_NAME_REGEX = /^[A-Za-z0-9_]+$/;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// LIKE wildcards in a search term match literally (MySQL escapes with a backslash)
+const escapeLike = (value) => value.replace(/[\\%_]/g, '\\$&');
+
+const createLookupError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// options.lookup = { sourceFormId, displayField, valueField, filter: { <field>: <value> } }
+const getLookupConfig = (field) => {
+  const config = field.options?.lookup;
+  if (!config?.sourceFormId || !config.displayField) {
+    throw createLookupError(`Lookup field ${field.name} is not configured`, 400);
+  }
+
+  const filter = config.filter || {};
+  const names = [config.displayField, config.valueField, ...Object.keys(filter)].filter(Boolean);
+  if (!names.every(name => LOOKUP_FIELD_NAME_REGEX.test(name))) {
+    throw createLookupError(`Lookup field ${field.name} has an invalid configuration`, 400);
+  }
+
+  return { ...config, filter };
+};
+
+const getLookupField = (form, fieldId) => {
+  const field = (form.structure?.fields || []).find(f => f.id === fieldId || f.name === fieldId);
+  if (!field || field.type !== 'lookup') {
+    throw createLookupError('Lookup field not found', 404);
+  }
+  return field;
+};
+
+// Build the FormSubmission query shared by option search and reference resolution
+const buildLookupQuery = async (form, config, { search, submissionIds } = {}) => {
+  if (process.env.DB_TYPE === 'mysql') {
+    const { Op, fn, col, where } = await import('sequelize');
+    const jsonValue = (name) => fn('JSON_UNQUOTE', fn('JSON_EXTRACT', col('data'), `$.${name}`));
+
+    const conditions = Object.entries(config.filter).map(([name, value]) =>
+      where(jsonValue(name), String(value))
+    );
+    if (search) {
+      conditions.push(where(jsonValue(config.displayField), { [Op.like]: `%${escapeLike(search)}%` }));
+    }
+
+    return {
+      formId: config.sourceFormId,
+      applicationId: form.applicationId,
+      status: { [Op.ne]: 'draft' },
+      ...(submissionIds && { submissionId: submissionIds }),
+      ...(conditions.length > 0 && { [Op.and]: conditions })
+    };
+  }
+
+  const query = {
+    formId: config.sourceFormId,
+    applicationId: form.applicationId,
+    status: { $ne: 'draft' }
+  };
+
+  Object.entries(config.filter).forEach(([name, value]) => {
+    query[`data.${name}`] = { $in: [value, String(value)] };
+  });
+  if (search) {
+    query[`data.${config.displayField}`] = { $regex: escapeRegex(search), $options: 'i' };
+  }
+  if (submissionIds) {
+    query.submissionId = { $in: submissionIds };
+  }
+
+  return query;
+};
+
+const toLookupOption = (config, submission) => {
+  const data = submission.data || {};
+  return {
+    submissionId: submission.submissionId,
+    value: config.valueField ? data[config.valueField] ?? null : submission.submissionId,
+    label: data[config.displayField] ?? submission.submissionId
+  };
+};
+
+// Search the submissions of a lookup field's source form for selectable options
+export const searchLookupOptions = async (form, fieldId, options = {}) => {
+  try {
+    const FormSubmissionModel = getFormSubmissionModel();
+    const config = getLookupConfig(getLookupField(form, fieldId));
+    const { search, page = 1, limit = 20 } = options;
+    const offset = (page - 1) * limit;
+    const query = await buildLookupQuery(form, config, { search });
+
+    let total;
+    let submissions;
+    if (process.env.DB_TYPE === 'mysql') {
+      const { count, rows } = await FormSubmissionModel.findAndCountAll({
+        where: query,
+        attributes: ['submissionId', 'data'],
+        limit,
+        offset,
+        order: [['createdAt', 'DESC']]
+      });
+      total = count;
+      submissions = rows;
+    } else {
+      total = await FormSubmissionModel.countDocuments(query);
+      submissions = await FormSubmissionModel.find(query)
+        .select('submissionId data')
+        .sort({ createdAt: -1 })
+        .skip(offset)
+        .limit(limit);
+    }
+
+    return {
+      options: submissions.map(submission => toLookupOption(config, submission)),
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  } catch (error) {
+    logger.error('Error searching lookup options:', error);
+    throw error;
+  }
+};
+
+// Resolve lookup references against their source forms, replacing each with
+// { submissionId, value, label } taken from the referenced submission
+const resolveLookupReferences = async (form, lookupReferences) => {
+  const FormSubmissionModel = getFormSubmissionModel();
+  const errors = [];
+
+  for (const ref of lookupReferences) {
+    let config;
+    try {
+      config = getLookupConfig(ref.definition);
+    } catch (error) {
+      errors.push({ field: ref.field, message: error.message, value: ref.submissionId });
+      continue;
+    }
+
+    const query = await buildLookupQuery(form, config, { submissionIds: [ref.submissionId] });
+    const submission = process.env.DB_TYPE === 'mysql'
+      ? await FormSubmissionModel.findOne({ where: query, attributes: ['submissionId', 'data'] })
+      : await FormSubmissionModel.findOne(query).select('submissionId data');
+
+    if (!submission) {
+      errors.push({ field: ref.field, message: `Lookup value not found: ${ref.submissionId}`, value: ref.submissionId });
+      continue;
+    }
+
+    ref.target[ref.definition.name] = toLookupOption(config, submission);
+  }
+
+  return errors;
+};
+
+// Validate submission data against the form it targets and return the sanitized data;
+// drafts (options.partial) may leave required fields empty
+const validateSubmission = async (form, data, options = {}) => {
+  if (form.settings?.enableValidation === false) {
+    return data;
+  }
+
+  const result = validateSubmissionData(form.structure, data, options);
+  const missingFiles = await findMissingFiles(result.fileReferences);
+  const lookupErrors = await resolveLookupReferences(form, result.lookupReferences);
+
+  const errors = [
+    ...result.errors,
+    ...missingFiles.map(ref => ({
+      field: ref.field,
+      message: `File not found: ${ref.fileId}`,
+      value: ref.fileId
+    })),
+    ...lookupErrors
+  ];
+
+  if (errors.length > 0) {
+    throw createSubmissionValidationError(errors);
+  }
+
+  return result.data;
+};
+
+const loadSubmissionForm = async (formId, applicationId) => {
+  const form = await getFormByFormId(formId, applicationId);
+
+  if (!form) {
+    const error = new Error('Form not found');
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return form;
+};
+
+const assertDraftsAllowed = (form) => {
+  if (form.settings?.allowDrafts === false) {
+    const error = new Error('This form does not accept drafts');
+    error.statusCode = 400;
+    throw error;
+  }
+};
+
+// Loaded lazily: workflowService imports this module
+const startSubmissionWorkflow = async (submission) => {
+  const { startWorkflowForSubmission } = await import('./workflowService.js');
+  return await startWorkflowForSubmission(submission);
+};
+
+const resumeSubmissionWorkflow = async (submission) => {
+  const { resumeWorkflowForSubmission } = await import('./workflowService.js');
+  return await resumeWorkflowForSubmission(submission);
+};
+
 // Submit form data
 export const submitForm = async (submissionData) => {
   try {
     const FormSubmissionModel = getFormSubmissionModel();
+    const form = await loadSubmissionForm(submissionData.formId, submissionData.applicationId);
+    const schema = await getSubmissionSchema(form);
+    const isDraft = submissionData.status === 'draft';
+
+    if (isDraft) {
+      assertDraftsAllowed(form);
+    }
     
     const submissionWithId = {
       ...submissionData,
+      data: await validateSubmission(schema, submissionData.data, { partial: isDraft }),
+      formRevision: schema.revision || null,
       submissionId: submissionData.submissionId || uuidv4()
     };
     
+    let submission;
     if (process.env.DB_TYPE === 'mysql') {
-      return await FormSubmissionModel.create(submissionWithId);
+      submission = await FormSubmissionModel.create(submissionWithId);
     } else {
-      const submission = new FormSubmissionModel(submissionWithId);
-      return await submission.save();
+      submission = await new FormSubmissionModel(submissionWithId).save();
     }
+
+    return isDraft ? submission : await startSubmissionWorkflow(submission);
   } catch (error) {
     logger.error('Error submitting form:', error);
     throw error;
@@ -289,6 +762,202 @@ export const getFormSubmissions = async (formId, filters = {}, options = {}) =>
   }
 };
 
+// Submissions of a form that are still moving through its workflow
+export const getOpenWorkflowSubmissions = async (formId) => {
+  try {
+    const FormSubmissionModel = getFormSubmissionModel();
+    const openStatuses = ['submitted', 'in_review'];
+
+    if (process.env.DB_TYPE === 'mysql') {
+      const submissions = await FormSubmissionModel.findAll({
+        where: { formId, status: openStatuses },
+        include: [{
+          association: 'submitter',
+          attributes: ['firstName', 'lastName', 'email']
+        }]
+      });
+      return submissions.filter(submission => submission.workflowState?.currentStage);
+    } else {
+      return await FormSubmissionModel.find({
+        formId,
+        status: { $in: openStatuses },
+        'workflowState.currentStage': { $exists: true, $ne: null }
+      }).populate('submittedBy', 'firstName lastName email');
+    }
+  } catch (error) {
+    logger.error('Error getting open workflow submissions:', error);
+    throw error;
+  }
+};
+
+// Forms with open submissions reassigned to one of the users
+export const getReassignedFormIds = async (userIds) => {
+  try {
+    const FormSubmissionModel = getFormSubmissionModel();
+    const openStatuses = ['submitted', 'in_review'];
+
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    if (process.env.DB_TYPE === 'mysql') {
+      const { Op, fn, col, where } = await import('sequelize');
+      const rows = await FormSubmissionModel.findAll({
+        attributes: [[fn('DISTINCT', col('formId')), 'formId']],
+        where: {
+          status: openStatuses,
+          [Op.and]: [where(
+            fn('JSON_UNQUOTE', fn('JSON_EXTRACT', col('workflowState'), '$.assignedTo.id')),
+            { [Op.in]: userIds }
+          )]
+        },
+        raw: true
+      });
+      return rows.map(row => row.formId);
+    } else {
+      return await FormSubmissionModel.distinct('formId', {
+        status: { $in: openStatuses },
+        'workflowState.assignedTo.id': { $in: userIds }
+      });
+    }
+  } catch (error) {
+    logger.error('Error getting reassigned forms:', error);
+    throw error;
+  }
+};
+
+/**
+ * One page of the open workflow submissions matching any of the task
+ * branches, oldest at its stage first, and their total. A branch is
+ * { formId, workflowId, stage, actorIds, reassigned, parallel }: submissions
+ * of the workflow waiting at the stage and, when reassigned, handed to one of
+ * actorIds there, or else not handed to anyone there. At a parallel stage one
+ * of actorIds must also be an approver who has not voted yet. enteredBefore
+ * and enteredAfter bound when the submission reached its stage.
+ */
+export const getWorkflowTaskSubmissions = async (branches, filters = {}, options = {}) => {
+  try {
+    const FormSubmissionModel = getFormSubmissionModel();
+    const { offset = 0, limit = 20 } = options;
+    const openStatuses = ['submitted', 'in_review'];
+
+    if (branches.length === 0) {
+      return { submissions: [], total: 0 };
+    }
+
+    if (process.env.DB_TYPE === 'mysql') {
+      const { Op, fn, col, where } = await import('sequelize');
+      const extract = (path) => fn('JSON_EXTRACT', col('workflowState'), `$.${path}`);
+      const stateValue = (path) => fn('JSON_UNQUOTE', extract(path));
+      const isUnset = (path) => ({ [Op.or]: [where(extract(path), null), where(fn('JSON_TYPE', extract(path)), 'NULL')] });
+      const listHas = (path, id) => where(fn('JSON_CONTAINS', extract(path), fn('JSON_QUOTE', id)), 1);
+      const listLacks = (path, id) => where(fn('COALESCE', fn('JSON_CONTAINS', extract(path), fn('JSON_QUOTE', id)), 0), 0);
+      const enteredAt = (range) => ({
+        [Op.or]: [
+          where(stateValue('stageEnteredAt'), range(value => value.toISOString())),
+          { [Op.and]: [isUnset('stageEnteredAt'), { createdAt: range(value => value) }] }
+        ]
+      });
+
+      const branchWhere = (branch) => {
+        const conditions = [
+          { formId: branch.formId },
+          { [Op.or]: [where(stateValue('workflowId'), branch.workflowId), isUnset('workflowId')] },
+          where(stateValue('currentStage'), branch.stage),
+          branch.reassigned
+            ? where(stateValue('assignedTo.stage'), branch.stage)
+            : { [Op.or]: [isUnset('assignedTo.stage'), where(stateValue('assignedTo.stage'), { [Op.ne]: branch.stage })] }
+        ];
+        if (branch.reassigned || branch.parallel) {
+          conditions.push({
+            [Op.or]: branch.actorIds.map(id => ({
+              [Op.and]: [
+                ...(branch.reassigned ? [where(stateValue('assignedTo.id'), id)] : []),
+                ...(branch.parallel ? [{
+                  [Op.or]: [
+                    isUnset('approval'),
+                    { [Op.and]: [listHas('approval.approvers[*].id', id), listLacks('approval.votes[*].user', id)] }
+                  ]
+                }] : [])
+              ]
+            }))
+          });
+        }
+        return { [Op.and]: conditions };
+      };
+
+      const conditions = [{ [Op.or]: branches.map(branchWhere) }];
+      if (filters.enteredBefore) {
+        conditions.push(enteredAt(format => ({ [Op.lte]: format(filters.enteredBefore) })));
+      }
+      if (filters.enteredAfter) {
+        conditions.push(enteredAt(format => ({ [Op.gte]: format(filters.enteredAfter) })));
+      }
+
+      const { count, rows } = await FormSubmissionModel.findAndCountAll({
+        where: { status: openStatuses, [Op.and]: conditions },
+        include: [{
+          association: 'submitter',
+          attributes: ['firstName', 'lastName', 'email']
+        }],
+        order: [[stateValue('stageEnteredAt'), 'ASC'], ['createdAt', 'ASC']],
+        offset,
+        limit,
+        distinct: true
+      });
+      return { submissions: rows, total: count };
+    } else {
+      const enteredAt = (range) => ({
+        $or: [
+          { 'workflowState.stageEnteredAt': range },
+          { 'workflowState.stageEnteredAt': null, createdAt: range }
+        ]
+      });
+
+      const branchQuery = (branch) => {
+        const query = {
+          formId: branch.formId,
+          'workflowState.workflowId': { $in: [branch.workflowId, null] },
+          'workflowState.currentStage': branch.stage,
+          'workflowState.assignedTo.stage': branch.reassigned ? branch.stage : { $ne: branch.stage }
+        };
+        if (branch.reassigned || branch.parallel) {
+          query.$or = branch.actorIds.map(id => ({
+            ...(branch.reassigned && { 'workflowState.assignedTo.id': id }),
+            ...(branch.parallel && {
+              $or: [
+                { 'workflowState.approval': null },
+                { 'workflowState.approval.approvers.id': id, 'workflowState.approval.votes.user': { $ne: id } }
+              ]
+            })
+          }));
+        }
+        return query;
+      };
+
+      const conditions = [{ $or: branches.map(branchQuery) }];
+      if (filters.enteredBefore) {
+        conditions.push(enteredAt({ $lte: filters.enteredBefore }));
+      }
+      if (filters.enteredAfter) {
+        conditions.push(enteredAt({ $gte: filters.enteredAfter }));
+      }
+      const query = { status: { $in: openStatuses }, $and: conditions };
+
+      const total = await FormSubmissionModel.countDocuments(query);
+      const submissions = await FormSubmissionModel.find(query)
+        .populate('submittedBy', 'firstName lastName email')
+        .sort({ 'workflowState.stageEnteredAt': 1, createdAt: 1 })
+        .skip(offset)
+        .limit(limit);
+      return { submissions, total };
+    }
+  } catch (error) {
+    logger.error('Error getting workflow task submissions:', error);
+    throw error;
+  }
+};
+
 // Get form submission by ID
 export const getFormSubmissionById = async (submissionId) => {
   try {
@@ -316,12 +985,36 @@ export const getFormSubmissionById = async (submissionId) => {
 export const updateFormSubmission = async (submissionId, updateData) => {
   try {
     const FormSubmissionModel = getFormSubmissionModel();
+
+    // Finalizing a draft, or resubmitting a submission sent back for changes,
+    // re-validates its stored data in full
+    const submission = await getFormSubmissionById(submissionId);
+    const finalizesDraft = submission?.status === 'draft' && updateData.status && updateData.status !== 'draft';
+    const resubmits = submission?.status === 'changes_requested' && updateData.status === 'submitted';
+
+    if (submission && (updateData.data || finalizesDraft || resubmits)) {
+      const status = updateData.status || submission.status;
+      const form = await loadSubmissionForm(submission.formId, submission.applicationId);
+      const schema = await getSubmissionSchema(form, submission.formRevision);
+
+      if (status === 'draft') {
+        assertDraftsAllowed(form);
+      }
+
+      updateData = {
+        ...updateData,
+        data: await validateSubmission(schema, updateData.data || submission.data, {
+          partial: ['draft', 'changes_requested'].includes(status)
+        })
+      };
+    }
     
+    let updatedSubmission;
     if (process.env.DB_TYPE === 'mysql') {
       await FormSubmissionModel.update(updateData, { 
         where: { submissionId } 
       });
-      return await FormSubmissionModel.findOne({
+      updatedSubmission = await FormSubmissionModel.findOne({
         where: { submissionId },
         include: [{
           association: 'submitter',
@@ -329,18 +1022,63 @@ export const updateFormSubmission = async (submissionId, updateData) => {
         }]
       });
     } else {
-      return await FormSubmissionModel.findOneAndUpdate(
+      updatedSubmission = await FormSubmissionModel.findOneAndUpdate(
         { submissionId }, 
         updateData, 
         { new: true }
       ).populate('submittedBy', 'firstName lastName email');
     }
+
+    if (resubmits) {
+      return await resumeSubmissionWorkflow(updatedSubmission);
+    }
+    return finalizesDraft ? await startSubmissionWorkflow(updatedSubmission) : updatedSubmission;
   } catch (error) {
     logger.error('Error updating form submission:', error);
     throw error;
   }
 };
 
+const hashReceiptToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Anonymous submitters get a random token to look their submission up with
+// later; only its hash is stored with the submission
+export const issueReceiptToken = () => {
+  const token = crypto.randomBytes(24).toString('hex');
+  return { token, hash: hashReceiptToken(token) };
+};
+
+// Status of a submission for the holder of its receipt token, or null
+export const getSubmissionReceipt = async (submissionId, token) => {
+  try {
+    const submission = await getFormSubmissionById(submissionId);
+    const storedHash = submission?.metadata?.receiptTokenHash;
+
+    if (!storedHash || typeof token !== 'string') {
+      return null;
+    }
+
+    const expected = Buffer.from(storedHash, 'hex');
+    const actual = Buffer.from(hashReceiptToken(token), 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const form = await getFormByFormId(submission.formId, submission.applicationId);
+
+    return {
+      submissionId: submission.submissionId,
+      formName: form?.name || null,
+      status: submission.status,
+      currentStage: submission.workflowState?.currentStage || null,
+      submittedAt: submission.createdAt
+    };
+  } catch (error) {
+    logger.error('Error getting submission receipt:', error);
+    throw error;
+  }
+};
+
 // Delete form submission
 export const deleteFormSubmission = async (submissionId) => {
   try {
@@ -381,6 +1119,13 @@ export const duplicateForm = async (formId, userId) => {
     delete duplicatedForm.createdAt;
     delete duplicatedForm.updatedAt;
 
+    // The copy starts its own revision history
+    delete duplicatedForm.publishedRevision;
+    duplicatedForm.version = '1.0';
+
+    // Public links stay with the original form
+    delete duplicatedForm.slug;
+
     return await createForm(duplicatedForm);
   } catch (error) {
     logger.error('Error duplicating form:', error);
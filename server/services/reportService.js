@@ -1,8 +1,15 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Report as MongoReport } from '../models/mongodb/index.js';
-import { Report as MySQLReport } from '../models/mysql/index.js';
+import { Report as MongoReport, ReportRun as MongoReportRun } from '../models/mongodb/index.js';
+import { Report as MySQLReport, ReportRun as MySQLReportRun } from '../models/mysql/index.js';
 import { FormSubmission as MongoFormSubmission } from '../models/mongodb/index.js';
 import { FormSubmission as MySQLFormSubmission } from '../models/mysql/index.js';
+import { formatCellValue, getPathValue, toCsv } from '../utils/submissionRows.js';
+import { compileReportQuery, buildMongoReportPipelines, buildMySQLReportQueries } from '../utils/reportQuery.js';
+import { toXlsx, XLSX_CONTENT_TYPE } from '../utils/xlsx.js';
+import { normalizeReportSchedule } from '../utils/reportSchedule.js';
+import { renderReportChartPng } from '../utils/reportChart.js';
+import { buildReportChartData } from '../../shared/reportCharts.js';
+import { sendReportNotification } from '../utils/email.js';
 import { logger } from '../utils/logger.js';
 
 // Determine which model to use based on DB_TYPE
@@ -11,11 +18,63 @@ const getReportModel = () => {
   return dbType === 'mysql' ? MySQLReport : MongoReport;
 };
 
+const getReportRunModel = () => {
+  const dbType = process.env.DB_TYPE || 'mongodb';
+  return dbType === 'mysql' ? MySQLReportRun : MongoReportRun;
+};
+
 const getFormSubmissionModel = () => {
   const dbType = process.env.DB_TYPE || 'mongodb';
   return dbType === 'mysql' ? MySQLFormSubmission : MongoFormSubmission;
 };
 
+const isLookupReference = (value) => Boolean(value && typeof value === 'object' && value.submissionId);
+
+// Load the submissions referenced by lookup fields used in joined columns such
+// as "customer.email", keyed by submissionId
+const loadLookupJoins = async (submissions, columns = []) => {
+  const FormSubmissionModel = getFormSubmissionModel();
+  const joinFields = [...new Set(
+    columns
+      .map(column => column.field)
+      .filter(field => field && field.includes('.'))
+      .map(field => field.split('.')[0])
+  )];
+
+  const ids = [...new Set(submissions.flatMap(submission =>
+    joinFields
+      .map(field => (submission.data || {})[field])
+      .filter(isLookupReference)
+      .map(ref => ref.submissionId)
+  ))];
+
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const referenced = process.env.DB_TYPE === 'mysql'
+    ? await FormSubmissionModel.findAll({ where: { submissionId: ids }, attributes: ['submissionId', 'data'] })
+    : await FormSubmissionModel.find({ submissionId: { $in: ids } }).select('submissionId data');
+
+  return new Map(referenced.map(submission => [submission.submissionId, submission.data || {}]));
+};
+
+const getColumnValue = (data, field, joins) => {
+  const [root, ...path] = field.split('.');
+  const value = data[root];
+
+  if (path.length > 0 && isLookupReference(value)) {
+    return joins.get(value.submissionId)?.[path.join('.')] ?? '';
+  }
+
+  // Dotted columns on repeaters read every row; flattened rows become one cell
+  const resolved = path.length > 0 ? getPathValue(data, field) : value;
+  if (Array.isArray(resolved) || isLookupReference(resolved)) {
+    return formatCellValue(resolved);
+  }
+  return resolved || '';
+};
+
 // Create report
 export const createReport = async (reportData) => {
   try {
@@ -187,6 +246,7 @@ export const deleteReport = async (id) => {
     if (process.env.DB_TYPE === 'mysql') {
       return await ReportModel.destroy({ where: { id } });
     } else {
+      await getReportRunModel().deleteMany({ report: id });
       return await ReportModel.findByIdAndDelete(id);
     }
   } catch (error) {
@@ -195,136 +255,460 @@ export const deleteReport = async (id) => {
   }
 };
 
-// Generate report data
-export const generateReportData = async (report, filters = {}) => {
-  try {
-    const FormSubmissionModel = getFormSubmissionModel();
-    
-    // Build query based on report configuration and filters
-    let query = {
-      formId: report.sourceForm,
-      applicationId: report.applicationId
-    };
+// Rebuild the record a report row stands for. With an exploded repeater the
+// repeater holds the row (rowIndex counts from 1), or {} when there are none.
+const toReportRecord = (submission, repeater, rowIndex, rowData) => {
+  const data = { ...(submission.data || {}) };
+  if (!repeater) {
+    return { submission, data };
+  }
+  if (rowIndex === null || rowIndex === undefined) {
+    return { submission, data: { ...data, [repeater]: {} } };
+  }
+  return { submission, data: { ...data, [repeater]: rowData, _rowIndex: rowIndex } };
+};
 
-    // Apply filters
-    if (filters.status) {
-      query.status = filters.status;
-    }
+// Sums and counts of no values are 0; averages, minimums and maximums null
+const aggregationValue = (operation, value) => {
+  if (operation === 'sum' || operation === 'count' || operation === 'distinct') {
+    return Number(value ?? 0);
+  }
+  return value === null || value === undefined ? null : Number(value);
+};
 
-    if (filters.dateRange) {
-      const { start, end } = filters.dateRange;
-      if (process.env.DB_TYPE === 'mysql') {
-        const { Op } = await import('sequelize');
-        query.createdAt = {
-          [Op.between]: [new Date(start), new Date(end)]
-        };
-      } else {
-        query.createdAt = {
-          $gte: new Date(start),
-          $lte: new Date(end)
-        };
-      }
-    }
+// A grouped query row ({ k0.., count, agg0.. }, see utils/reportQuery.js) as
+// { keys, count, values }, values holding the aggregations in order
+const toGroupRow = (keys, row, aggregations) => ({
+  keys,
+  count: Number(row.count),
+  values: aggregations.map(({ operation }, index) => aggregationValue(operation, row[`agg${index}`]))
+});
 
-    // Get submissions
-    let submissions;
-    if (process.env.DB_TYPE === 'mysql') {
-      submissions = await FormSubmissionModel.findAll({
-        where: query,
-        include: [{
-          association: 'submitter',
-          attributes: ['firstName', 'lastName', 'email']
-        }],
-        order: [['createdAt', 'DESC']]
-      });
-    } else {
-      submissions = await FormSubmissionModel.find(query)
-        .populate('submittedBy', 'firstName lastName email')
-        .sort({ createdAt: -1 });
-    }
+const mongoGroupRows = (rows = [], fieldCount, aggregations) => rows.map(row => toGroupRow(
+  Array.from({ length: fieldCount }, (_, index) => row._id?.[`k${index}`] ?? null),
+  row,
+  aggregations
+));
 
-    // Process data based on report configuration
-    const { columns, aggregations, grouping } = report.configuration;
-    
-    let processedData = submissions.map(submission => {
-      const data = submission.data || {};
-      const result = {};
+const mysqlGroupRows = (rows = [], fieldCount, aggregations) => rows.map(row => toGroupRow(
+  Array.from({ length: fieldCount }, (_, index) => row[`k${index}`] ?? null),
+  row,
+  aggregations
+));
+
+// The aggregations keyed by <field>_<operation>, from their one-group row
+const toAggregations = (spec, [row]) => Object.fromEntries(spec.aggregations.map(({ key, operation }, index) => [
+  key,
+  row ? row.values[index] : aggregationValue(operation, null)
+]));
+
+// Group rows as returned to clients, keys and aggregations by field
+const toGroups = (spec, rows) => rows.map(row => ({
+  keys: Object.fromEntries(spec.groupBy.map((field, index) => [field, row.keys[index]])),
+  count: row.count,
+  aggregations: Object.fromEntries(spec.aggregations.map(({ key }, index) => [key, row.values[index]]))
+}));
+
+// Lay the pivot's grouped rows out as a table: a row per combination of row
+// keys, a column per column key, the measure in each cell and totals of the
+// measure over each row, each column and everything. Cells without rows hold
+// the measure of no values.
+const toPivotTable = (pivot, { cells, rows, columns, total }) => {
+  const empty = aggregationValue(pivot.measure.operation, null);
+  const columnIndex = new Map(columns.map((column, index) => [column.keys[0], index]));
+  const table = rows.map(row => ({
+    keys: row.keys,
+    values: columns.map(() => empty),
+    total: row.values[0]
+  }));
+  const rowIndex = new Map(table.map((row, index) => [JSON.stringify(row.keys), index]));
+
+  cells.forEach(cell => {
+    const row = table[rowIndex.get(JSON.stringify(cell.keys.slice(0, -1)))];
+    row.values[columnIndex.get(cell.keys[cell.keys.length - 1])] = cell.values[0];
+  });
+
+  return {
+    rowFields: pivot.rows,
+    columnField: pivot.column,
+    measure: pivot.measure,
+    columns: columns.map(column => column.keys[0]),
+    rows: table,
+    columnTotals: columns.map(column => column.values[0]),
+    total: total[0] ? total[0].values[0] : empty
+  };
+};
+
+// Grouped rows of a query result, shaped for the report data
+const toSummary = (spec, groupRows) => ({
+  aggregations: toAggregations(spec, groupRows('aggregations', 0, spec.aggregations)),
+  groups: toGroups(spec, groupRows('groups', spec.groupBy.length, spec.aggregations)),
+  pivot: spec.pivot
+    ? toPivotTable(spec.pivot, {
+      cells: groupRows('pivotCells', spec.pivot.rows.length + 1, [spec.pivot.measure]),
+      rows: groupRows('pivotRows', spec.pivot.rows.length, [spec.pivot.measure]),
+      columns: groupRows('pivotColumns', 1, [spec.pivot.measure]),
+      total: groupRows('pivotTotal', 0, [spec.pivot.measure])
+    })
+    : null
+});
+
+const queryMongoReport = async (spec, options) => {
+  const FormSubmissionModel = getFormSubmissionModel();
+  const pipelines = buildMongoReportPipelines(spec, options);
+
+  const [rows, [summary]] = await Promise.all([
+    FormSubmissionModel.aggregate(pipelines.rows).allowDiskUse(true),
+    FormSubmissionModel.aggregate(pipelines.summary).allowDiskUse(true)
+  ]);
+  await FormSubmissionModel.populate(rows, { path: 'submittedBy', select: 'firstName lastName email' });
+
+  return {
+    records: rows.map(row => toReportRecord(
+      row,
+      spec.repeater,
+      row._rowIndex === null || row._rowIndex === undefined ? null : row._rowIndex + 1,
+      spec.repeater ? row.data?.[spec.repeater] : undefined
+    )),
+    total: summary.total[0]?.count || 0,
+    ...toSummary(spec, (name, fieldCount, aggregations) => mongoGroupRows(summary[name], fieldCount, aggregations))
+  };
+};
+
+const queryMySQLReport = async (spec, options) => {
+  const FormSubmissionModel = getFormSubmissionModel();
+  const { sequelize } = FormSubmissionModel;
+  const { QueryTypes } = await import('sequelize');
+  const queries = buildMySQLReportQueries(spec, options, value => sequelize.escape(value));
+  const select = (query) => (query
+    ? sequelize.query(query.sql, { replacements: query.replacements, type: QueryTypes.SELECT })
+    : []);
+
+  const grouped = ['aggregations', 'groups', 'pivotCells', 'pivotRows', 'pivotColumns', 'pivotTotal'];
+  const [rows, [totals], ...groupedRows] = await Promise.all([
+    select(queries.rows),
+    select(queries.total),
+    ...grouped.map(name => select(queries[name]))
+  ]);
+  const groupedResults = Object.fromEntries(grouped.map((name, index) => [name, groupedRows[index]]));
+
+  const submissions = await FormSubmissionModel.findAll({
+    where: { id: [...new Set(rows.map(row => row.id))] },
+    include: [{
+      association: 'submitter',
+      attributes: ['firstName', 'lastName', 'email']
+    }]
+  });
+  const byId = new Map(submissions.map(submission => [submission.id, submission]));
+
+  return {
+    records: rows.map(row => toReportRecord(
+      byId.get(row.id),
+      spec.repeater,
+      row.rowIndex,
+      typeof row.rowData === 'string' ? JSON.parse(row.rowData) : row.rowData
+    )),
+    total: Number(totals.count),
+    ...toSummary(spec, (name, fieldCount, aggregations) => mysqlGroupRows(groupedResults[name], fieldCount, aggregations))
+  };
+};
+
+// Generate report data. Filtering, sorting, counting, grouping and aggregation
+// run in the database; only the requested page of rows ({ page, limit }, or
+// every row without a limit) is loaded and mapped to the report's columns.
+export const generateReportData = async (report, filters = {}, options = {}) => {
+  try {
+    const spec = compileReportQuery(report, filters);
+    const result = process.env.DB_TYPE === 'mysql'
+      ? await queryMySQLReport(spec, options)
+      : await queryMongoReport(spec, options);
+
+    const { columns } = report.configuration || {};
+    const joins = await loadLookupJoins(result.records.map(record => record.submission), columns);
+
+    const processedData = result.records.map(({ submission, data }) => {
+      const record = {};
       
       // Include specified columns
       if (columns && columns.length > 0) {
         columns.forEach(column => {
-          result[column.field] = data[column.field] || '';
+          record[column.field] = getColumnValue(data, column.field, joins);
         });
       } else {
         // Include all data if no columns specified
-        Object.assign(result, data);
+        Object.assign(record, data);
       }
       
       // Add metadata
-      result._id = submission.id || submission._id;
-      result._status = submission.status;
-      result._createdAt = submission.createdAt;
-      result._submittedBy = submission.submittedBy || submission.submitter;
+      record._id = submission.id || submission._id;
+      record._status = submission.status;
+      record._createdAt = submission.createdAt;
+      record._submittedBy = submission.submittedBy || submission.submitter;
+      if (data._rowIndex !== undefined) {
+        record._rowIndex = data._rowIndex;
+      }
+      if (spec.groupBy.length > 0) {
+        record._groups = spec.groupBy.map(field => getColumnValue(data, field, joins));
+      }
       
-      return result;
+      return record;
     });
 
-    // Apply grouping if specified
-    if (grouping && grouping.field) {
-      const grouped = {};
-      processedData.forEach(item => {
-        const groupKey = item[grouping.field] || 'Unknown';
-        if (!grouped[groupKey]) {
-          grouped[groupKey] = [];
-        }
-        grouped[groupKey].push(item);
+    const reportData = {
+      data: processedData,
+      total: result.total
+    };
+
+    if (options.limit) {
+      const { page = 1, limit } = options;
+      reportData.pagination = {
+        total: result.total,
+        page,
+        limit,
+        pages: Math.ceil(result.total / limit)
+      };
+    }
+
+    if (spec.aggregations.length > 0) {
+      reportData.aggregations = result.aggregations;
+    }
+
+    // Rows come ordered by group; groups lists every group with its keys by
+    // field (null for rows without a value), size and aggregations
+    if (spec.groupBy.length > 0) {
+      reportData.groupBy = spec.groupBy;
+      reportData.groups = result.groups;
+    }
+
+    // Pivots cover every matching row, whatever page of rows was asked for
+    if (spec.pivot) {
+      reportData.pivot = result.pivot;
+    }
+
+    return reportData;
+  } catch (error) {
+    logger.error('Error generating report data:', error);
+    throw error;
+  }
+};
+
+// Flatten generated report data into a header row and value rows. Grouped
+// data gets leading columns with each row's groups; pivoted data is the
+// pivot table, with a closing row of column totals.
+export const buildReportTable = (report, reportData) => {
+  const { columns = [] } = report.configuration || {};
+  const records = reportData.data || [];
+  const groupBy = reportData.groupBy || [];
+  const labelOf = (field) => columns.find(column => column.field === field)?.label || field;
+
+  if (reportData.pivot) {
+    const { pivot } = reportData;
+    return {
+      headers: [
+        ...pivot.rowFields.map(labelOf),
+        ...pivot.columns.map(key => key ?? '(empty)'),
+        'Total'
+      ],
+      rows: [
+        ...pivot.rows.map(row => [
+          ...row.keys.map(formatCellValue),
+          ...row.values.map(formatCellValue),
+          formatCellValue(row.total)
+        ]),
+        [
+          ...pivot.rowFields.map((_, index) => (index === 0 ? 'Total' : '')),
+          ...pivot.columnTotals.map(formatCellValue),
+          formatCellValue(pivot.total)
+        ]
+      ]
+    };
+  }
+
+  const fields = columns.length > 0
+    ? columns.map(column => ({ field: column.field, header: column.label || column.field }))
+    : [...new Set(records.flatMap(record => Object.keys(record)))]
+      .filter(field => !field.startsWith('_'))
+      .map(field => ({ field, header: field }));
+
+  return {
+    headers: [
+      ...groupBy.map(labelOf),
+      ...fields.map(column => column.header),
+      'Status',
+      'Created At'
+    ],
+    rows: records.map(record => [
+      ...groupBy.map((_, index) => formatCellValue(record._groups?.[index])),
+      ...fields.map(column => formatCellValue(record[column.field])),
+      record._status ?? '',
+      formatCellValue(record._createdAt)
+    ])
+  };
+};
+
+// Render generated report data as a downloadable CSV or XLSX file
+export const exportReportData = (report, reportData, format = 'csv') => {
+  const { headers, rows } = buildReportTable(report, reportData);
+  const baseName = `${(report.name || 'report').replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '') || 'report'}_${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'xlsx') {
+    return {
+      filename: `${baseName}.xlsx`,
+      content: toXlsx(headers, rows, report.name),
+      contentType: XLSX_CONTENT_TYPE
+    };
+  }
+
+  return {
+    filename: `${baseName}.csv`,
+    content: toCsv(headers, rows),
+    contentType: 'text/csv'
+  };
+};
+
+// The report's chart as an inline PNG attachment for its delivery email, or
+// null without a chart. Deliveries go out without a chart that fails to render.
+const renderDeliveryChart = async (report, reportData) => {
+  const chart = buildReportChartData(report.configuration?.chart, reportData);
+  if (!chart) {
+    return null;
+  }
+
+  try {
+    return {
+      filename: 'chart.png',
+      content: await renderReportChartPng(chart),
+      contentType: 'image/png',
+      cid: 'report-chart'
+    };
+  } catch (error) {
+    logger.warn(`Could not render the chart of report ${report.id}: ${error.message}`);
+    return null;
+  }
+};
+
+// Reports with delivery switched on, for registering their jobs
+export const getScheduledReports = async () => {
+  try {
+    const ReportModel = getReportModel();
+
+    if (process.env.DB_TYPE === 'mysql') {
+      const reports = await ReportModel.findAll();
+      return reports.filter(report => report.schedule?.enabled);
+    } else {
+      return await ReportModel.find({ 'schedule.enabled': true });
+    }
+  } catch (error) {
+    logger.error('Error getting scheduled reports:', error);
+    throw error;
+  }
+};
+
+// Record one execution of a report delivery
+const recordReportRun = async (runData) => {
+  const ReportRunModel = getReportRunModel();
+  const run = { ...runData, runId: uuidv4(), finishedAt: new Date() };
+
+  if (process.env.DB_TYPE === 'mysql') {
+    return await ReportRunModel.create(run);
+  } else {
+    return await new ReportRunModel(run).save();
+  }
+};
+
+// Generate a report and email it to its schedule's recipients, keeping a run
+// record of the outcome. Returns null when there is nothing to deliver.
+export const deliverScheduledReport = async (id, { trigger = 'schedule' } = {}) => {
+  try {
+    const report = await getReportById(id);
+    if (!report) {
+      return null;
+    }
+
+    const schedule = normalizeReportSchedule(report.schedule || {});
+    if ((trigger === 'schedule' && !schedule.enabled) || schedule.recipients.length === 0) {
+      return null;
+    }
+
+    const run = {
+      report: report.id,
+      trigger,
+      format: schedule.format,
+      recipients: schedule.recipients,
+      startedAt: new Date()
+    };
+
+    try {
+      const reportData = await generateReportData(report);
+      const attachment = exportReportData(report, reportData, schedule.format);
+      const chart = await renderDeliveryChart(report, reportData);
+      const results = await sendReportNotification(report, reportData, schedule.recipients, attachment, chart);
+
+      const failures = results
+        .map((result, index) => ({ result, recipient: schedule.recipients[index] }))
+        .filter(({ result }) => result.status === 'rejected');
+      const delivered = failures.length < schedule.recipients.length;
+
+      return await recordReportRun({
+        ...run,
+        status: delivered ? 'success' : 'failed',
+        total: reportData.total,
+        failedRecipients: failures.map(({ recipient }) => recipient),
+        error: delivered ? undefined : failures[0]?.result.reason?.message
       });
-      processedData = grouped;
+    } catch (error) {
+      logger.error(`Error delivering report ${id}:`, error);
+      return await recordReportRun({ ...run, status: 'failed', failedRecipients: [], error: error.message });
     }
+  } catch (error) {
+    logger.error('Error running report delivery:', error);
+    throw error;
+  }
+};
 
-    // Apply aggregations if specified
-    if (aggregations && aggregations.length > 0) {
-      const aggregatedData = {};
-      
-      aggregations.forEach(agg => {
-        const { field, operation } = agg;
-        const values = processedData
-          .map(item => parseFloat(item[field]) || 0)
-          .filter(val => !isNaN(val));
-        
-        switch (operation) {
-          case 'sum':
-            aggregatedData[`${field}_sum`] = values.reduce((a, b) => a + b, 0);
-            break;
-          case 'avg':
-            aggregatedData[`${field}_avg`] = values.length > 0 ? 
-              values.reduce((a, b) => a + b, 0) / values.length : 0;
-            break;
-          case 'count':
-            aggregatedData[`${field}_count`] = values.length;
-            break;
-          case 'min':
-            aggregatedData[`${field}_min`] = values.length > 0 ? Math.min(...values) : 0;
-            break;
-          case 'max':
-            aggregatedData[`${field}_max`] = values.length > 0 ? Math.max(...values) : 0;
-            break;
-        }
+// Delivery history of a report, newest first
+export const getReportRuns = async (id, options = {}) => {
+  try {
+    const ReportRunModel = getReportRunModel();
+    const { page = 1, limit = 20 } = options;
+    const offset = (page - 1) * limit;
+
+    if (process.env.DB_TYPE === 'mysql') {
+      const { count, rows } = await ReportRunModel.findAndCountAll({
+        where: { report: id },
+        limit,
+        offset,
+        order: [['startedAt', 'DESC']]
       });
-      
+
       return {
-        data: processedData,
-        aggregations: aggregatedData,
-        total: submissions.length
+        runs: rows,
+        pagination: {
+          total: count,
+          page,
+          limit,
+          pages: Math.ceil(count / limit)
+        }
       };
-    }
+    } else {
+      const total = await ReportRunModel.countDocuments({ report: id });
+      const runs = await ReportRunModel.find({ report: id })
+        .sort({ startedAt: -1 })
+        .skip(offset)
+        .limit(limit);
 
-    return {
-      data: processedData,
-      total: submissions.length
-    };
+      return {
+        runs,
+        pagination: {
+          total,
+          page,
+          limit,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    }
   } catch (error) {
-    logger.error('Error generating report data:', error);
+    logger.error('Error getting report runs:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
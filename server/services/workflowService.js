@@ -1,9 +1,27 @@
 import { v4 as uuidv4 } from 'uuid';
 import { Workflow as MongoWorkflow } from '../models/mongodb/index.js';
 import { Workflow as MySQLWorkflow } from '../models/mysql/index.js';
-import { updateFormSubmission } from './formService.js';
+import {
+  getFormByFormId,
+  updateFormSubmission,
+  getOpenWorkflowSubmissions,
+  getWorkflowTaskSubmissions,
+  getReassignedFormIds
+} from './formService.js';
+import { getUserById, getUsers } from './userService.js';
+import { getUserPermissions } from './permissionService.js';
+import { getActiveDelegations } from './delegationService.js';
+import { buildConditionValues, selectTransition, isStageRequired } from '../../shared/workflowConditions.js';
+import {
+  sendWorkflowAssignmentNotification,
+  sendWorkflowDeadlineNotification,
+  sendChangesRequestedNotification
+} from '../utils/email.js';
 import { logger } from '../utils/logger.js';
 
+// Lowest to highest; a role satisfies a stage requirement for any role below it
+const ROLE_HIERARCHY = ['user', 'staff', 'manager', 'admin', 'super_admin'];
+
 // Determine which model to use based on DB_TYPE
 const getWorkflowModel = () => {
   const dbType = process.env.DB_TYPE || 'mongodb';
@@ -189,8 +207,100 @@ export const deleteWorkflow = async (id) => {
   }
 };
 
-// Execute workflow action
-export const executeWorkflowAction = async (workflow, submissionId, action, userId, comments = '') => {
+// Get the active workflow attached to a form
+export const getActiveWorkflowForForm = async (formId) => {
+  try {
+    const WorkflowModel = getWorkflowModel();
+    
+    if (process.env.DB_TYPE === 'mysql') {
+      const { Op } = await import('sequelize');
+      return await WorkflowModel.findOne({
+        where: { formId, isActive: { [Op.not]: false } },
+        order: [['createdAt', 'DESC']]
+      });
+    } else {
+      return await WorkflowModel.findOne({ formId, isActive: { $ne: false } })
+        .sort({ createdAt: -1 });
+    }
+  } catch (error) {
+    logger.error('Error getting active workflow for form:', error);
+    throw error;
+  }
+};
+
+/**
+ * Put a newly submitted submission into the entry stage of its form's
+ * workflow. With settings.autoProgress, stages whose conditions do not match
+ * are passed through as approved; a workflow passed through entirely
+ * approves the submission. The assignees of the stage it ends up in are
+ * notified.
+ */
+export const startWorkflowForSubmission = async (submission) => {
+  try {
+    if (submission.status === 'draft' || submission.workflowState?.currentStage) {
+      return submission;
+    }
+
+    const workflow = await getActiveWorkflowForForm(submission.formId);
+    if (!workflow || !workflow.stages?.length) {
+      return submission;
+    }
+
+    const conditionValues = await getConditionValues(submission);
+    const submitterId = submission.submittedBy?._id || submission.submittedBy || null;
+    let stage = workflow.stages[0];
+    const history = [{
+      stage: stage.id,
+      action: 'started',
+      user: submitterId,
+      timestamp: new Date(),
+      comments: ''
+    }];
+
+    if (workflow.settings?.autoProgress) {
+      const passed = new Set();
+      while (stage && !passed.has(stage.id) && !isStageRequired(stage, conditionValues)) {
+        passed.add(stage.id);
+        history.push({
+          stage: stage.id,
+          action: 'skipped',
+          user: null,
+          timestamp: new Date(),
+          comments: 'Stage conditions not met'
+        });
+        const nextStage = findNextStage(workflow, stage.id, 'approve', conditionValues);
+        stage = nextStage ? workflow.stages.find(item => item.id === nextStage) : null;
+      }
+    }
+
+    const workflowState = {
+      workflowId: workflow.workflowId,
+      currentStage: stage ? stage.id : history[history.length - 1].stage,
+      stageEnteredAt: new Date(),
+      approval: stage ? await createApproval(stage) : null,
+      history
+    };
+
+    const updatedSubmission = await updateFormSubmission(submission.submissionId, {
+      workflowState,
+      status: stage ? submission.status : 'approved'
+    });
+
+    if (stage) {
+      await notifyStageAssignees(workflow, updatedSubmission, stage);
+    }
+
+    logger.info(`Workflow ${workflow.workflowId} started for submission ${submission.submissionId}`);
+
+    return updatedSubmission;
+  } catch (error) {
+    logger.error('Error starting workflow for submission:', error);
+    throw error;
+  }
+};
+
+// Execute workflow action; options.returnTo is the earlier stage request_changes sends the submission back to
+export const executeWorkflowAction = async (workflow, submissionId, action, userId, comments = '', options = {}) => {
   try {
     const { getFormSubmissionById } = await import('./formService.js');
     const submission = await getFormSubmissionById(submissionId);
@@ -199,6 +309,22 @@ export const executeWorkflowAction = async (workflow, submissionId, action, user
       throw new Error('Submission not found');
     }
 
+    // Only submissions of the workflow's form, and not run by another workflow, are acted on here
+    if (submission.formId !== workflow.formId) {
+      throw createWorkflowStateError('Submission not found in this workflow', 404);
+    }
+    const runningWorkflowId = submission.workflowState?.workflowId;
+    if (runningWorkflowId && runningWorkflowId !== workflow.workflowId) {
+      throw createWorkflowStateError('Submission is in another workflow', 409);
+    }
+
+    if (submission.status === 'changes_requested') {
+      throw createWorkflowStateError('Submission is waiting for changes from its submitter', 409);
+    }
+    if (['approved', 'rejected'].includes(submission.status)) {
+      throw createWorkflowStateError(`Submission has already been ${submission.status}`, 409);
+    }
+
     const currentStage = submission.workflowState?.currentStage || workflow.stages[0]?.id;
     const currentStageConfig = workflow.stages.find(stage => stage.id === currentStage);
 
@@ -206,105 +332,1079 @@ export const executeWorkflowAction = async (workflow, submissionId, action, user
       throw new Error('Invalid workflow stage');
     }
 
-    // Check if user has permission to perform this action
-    const canPerformAction = checkWorkflowPermission(currentStageConfig, userId, action);
-    if (!canPerformAction) {
-      throw new Error('User does not have permission to perform this action');
+    // Check if user has permission to perform this action, themselves or for a delegator
+    const onBehalfOf = await checkWorkflowPermission(
+      workflow, currentStageConfig, userId, action, toPlain(submission).workflowState
+    );
+
+    if (action === 'request_changes') {
+      return await requestSubmissionChanges(
+        workflow, submission, currentStageConfig, userId, comments, onBehalfOf, options.returnTo
+      );
     }
 
-    // Find next stage based on action and transitions
-    const nextStage = findNextStage(workflow, currentStage, action);
-    
-    // Update workflow state
-    const workflowState = submission.workflowState || {
-      currentStage: workflow.stages[0]?.id,
-      history: []
-    };
+    if (isParallelStage(currentStageConfig) && ['approve', 'reject'].includes(action)) {
+      return await recordApprovalVote(workflow, submission, currentStageConfig, action, userId, comments, onBehalfOf);
+    }
+
+    return await applyWorkflowAction(workflow, submission, currentStage, action, userId, comments, onBehalfOf);
+  } catch (error) {
+    logger.error('Error executing workflow action:', error);
+    throw error;
+  }
+};
 
-    // Add to history
-    workflowState.history.push({
-      stage: currentStage,
-      action,
+// Take an action at the submission's current stage and follow its transition
+async function applyWorkflowAction(workflow, submission, currentStage, action, userId, comments, onBehalfOf = null) {
+  // Update workflow state
+  const workflowState = submission.workflowState || {
+    currentStage: workflow.stages[0]?.id,
+    history: []
+  };
+
+  // Find next stage based on action and transitions; approving at the stage a submission
+  // was sent back to returns it to the stage that sent it
+  const revision = getOpenRevision(workflowState);
+  const resumes = action === 'approve' && revision?.returnTo === currentStage;
+  const conditionValues = await getConditionValues(submission);
+  const nextStage = resumes ? revision.stage : findNextStage(workflow, currentStage, action, conditionValues);
+  if (resumes) {
+    workflowState.revisions = workflowState.revisions.map(item =>
+      item.round === revision.round ? { ...item, resubmittedAt: new Date() } : item
+    );
+  }
+
+  // Add to history
+  workflowState.history.push({
+    stage: currentStage,
+    action,
+    user: userId,
+    onBehalfOf,
+    timestamp: new Date(),
+    comments
+  });
+
+  // Update current stage if there's a transition; its SLA, votes and reassignment start over
+  const nextStageConfig = nextStage ? workflow.stages.find(stage => stage.id === nextStage) : null;
+  if (nextStage) {
+    workflowState.currentStage = nextStage;
+    workflowState.stageEnteredAt = new Date();
+    workflowState.reminderSentAt = null;
+    workflowState.escalatedAt = null;
+    workflowState.assignedTo = null;
+    workflowState.approval = nextStageConfig ? await createApproval(nextStageConfig) : null;
+  }
+
+  // Update submission status based on workflow stage
+  let newStatus = submission.status;
+  if (action === 'approve') {
+    newStatus = nextStage ? 'in_review' : 'approved';
+  } else if (action === 'reject') {
+    newStatus = 'rejected';
+  } else if (action === 'submit') {
+    newStatus = 'submitted';
+  }
+
+  // Update the form submission
+  const updatedSubmission = await updateFormSubmission(submission.submissionId, {
+    workflowState,
+    status: newStatus
+  });
+
+  if (nextStageConfig && nextStage !== currentStage && ['submitted', 'in_review'].includes(newStatus)) {
+    await notifyStageAssignees(workflow, updatedSubmission, nextStageConfig);
+  }
+
+  return {
+    currentStage: workflowState.currentStage,
+    status: newStatus,
+    history: workflowState.history
+  };
+}
+
+// The send-back round still waiting for a resubmission, if any
+const getOpenRevision = (workflowState) => {
+  const revisions = workflowState?.revisions || [];
+  const latest = revisions[revisions.length - 1];
+  return latest && !latest.resubmittedAt ? latest : null;
+};
+
+/**
+ * Send a submission back for changes. Without returnTo it goes to its
+ * submitter, who may then edit its data and resubmit it; with returnTo, an
+ * earlier stage of its history, it goes back there. Either way the workflow
+ * resumes at the sending stage afterwards. Each send-back is a revision round.
+ */
+async function requestSubmissionChanges(workflow, submission, stageConfig, userId, comments, onBehalfOf = null, returnTo = null) {
+  if (!comments || !comments.trim()) {
+    throw createWorkflowStateError('Comments are required when requesting changes', 400);
+  }
+
+  const workflowState = toPlain(submission).workflowState || { history: [] };
+  const history = workflowState.history || [];
+  const returnStage = returnTo ? workflow.stages.find(stage => stage.id === returnTo) : null;
+
+  if (returnTo && (
+    !returnStage ||
+    returnTo === stageConfig.id ||
+    !history.some(entry => entry.stage === returnTo && entry.action !== 'skipped')
+  )) {
+    throw createWorkflowStateError('Changes can only be sent back to an earlier stage of this submission', 400);
+  }
+
+  const now = new Date();
+  const revisions = workflowState.revisions || [];
+  const revision = {
+    round: revisions.length + 1,
+    stage: stageConfig.id,
+    returnTo: returnStage ? returnStage.id : null,
+    requestedBy: userId.toString(),
+    onBehalfOf,
+    requestedAt: now,
+    comments,
+    resubmittedAt: null
+  };
+
+  const nextState = {
+    ...workflowState,
+    revisions: [...revisions, revision],
+    history: [...history, {
+      stage: stageConfig.id,
+      action: 'request_changes',
       user: userId,
-      timestamp: new Date(),
+      onBehalfOf,
+      timestamp: now,
       comments
+    }],
+    reminderSentAt: null,
+    escalatedAt: null,
+    assignedTo: null,
+    approval: null
+  };
+
+  if (returnStage) {
+    nextState.currentStage = returnStage.id;
+    nextState.stageEnteredAt = now;
+    nextState.approval = await createApproval(returnStage);
+  }
+
+  const status = returnStage ? 'in_review' : 'changes_requested';
+  const updatedSubmission = await updateFormSubmission(submission.submissionId, {
+    workflowState: nextState,
+    status
+  });
+
+  if (returnStage) {
+    await notifyStageAssignees(workflow, updatedSubmission, returnStage);
+  } else {
+    await notifySubmitterOfChanges(workflow, updatedSubmission, stageConfig, comments);
+  }
+
+  return {
+    currentStage: nextState.currentStage,
+    status,
+    history: nextState.history,
+    revision
+  };
+}
+
+/**
+ * Put a submission its submitter revised back into its workflow, at the
+ * stage that requested the changes, for a fresh review. Called when the
+ * submitter resubmits it.
+ */
+export const resumeWorkflowForSubmission = async (submission) => {
+  try {
+    const workflowState = toPlain(submission).workflowState;
+    const revision = getOpenRevision(workflowState);
+    if (!revision) {
+      return submission;
+    }
+
+    const workflow = await getSubmissionWorkflow(submission);
+    const stageConfig = workflow?.stages.find(stage => stage.id === revision.stage);
+    if (!stageConfig) {
+      return submission;
+    }
+
+    const now = new Date();
+    const submitterId = submission.submittedBy?._id || submission.submittedBy || null;
+    const updatedSubmission = await updateFormSubmission(submission.submissionId, {
+      workflowState: {
+        ...workflowState,
+        currentStage: stageConfig.id,
+        stageEnteredAt: now,
+        reminderSentAt: null,
+        escalatedAt: null,
+        approval: await createApproval(stageConfig),
+        revisions: workflowState.revisions.map(item =>
+          item.round === revision.round ? { ...item, resubmittedAt: now } : item
+        ),
+        history: [...(workflowState.history || []), {
+          stage: stageConfig.id,
+          action: 'resubmitted',
+          user: submitterId,
+          timestamp: now,
+          comments: `Revision round ${revision.round}`
+        }]
+      },
+      status: 'in_review'
     });
 
-    // Update current stage if there's a transition
-    if (nextStage) {
-      workflowState.currentStage = nextStage;
+    await notifyStageAssignees(workflow, updatedSubmission, stageConfig);
+
+    logger.info(`Workflow resumed at stage ${stageConfig.id} for submission ${submission.submissionId}`);
+
+    return updatedSubmission;
+  } catch (error) {
+    logger.error('Error resuming workflow for submission:', error);
+    throw error;
+  }
+};
+
+const isParallelStage = (stageConfig) => ['all', 'any', 'count'].includes(stageConfig?.approval?.mode);
+
+// The approvers a parallel stage waits on, fixed when the stage is entered
+async function createApproval(stageConfig) {
+  if (!isParallelStage(stageConfig)) {
+    return null;
+  }
+
+  const assignees = await getStageAssignees(stageConfig);
+  const approvers = assignees.map(user => ({
+    id: (user.id || user._id).toString(),
+    name: `${user.firstName} ${user.lastName}`
+  }));
+  const { mode, count } = stageConfig.approval;
+
+  let required = 1;
+  if (mode === 'all') {
+    required = Math.max(approvers.length, 1);
+  } else if (mode === 'count') {
+    const wanted = Math.max(parseInt(count) || 1, 1);
+    required = approvers.length > 0 ? Math.min(wanted, approvers.length) : wanted;
+  }
+
+  return { stage: stageConfig.id, approvers, required, votes: [] };
+}
+
+// 'approve' or 'reject' once the votes decide the stage, otherwise null
+const getApprovalOutcome = (stageConfig, approval) => {
+  const approvals = approval.votes.filter(vote => vote.vote === 'approve').length;
+  const rejections = approval.votes.filter(vote => vote.vote === 'reject').length;
+
+  if (approvals >= approval.required) {
+    return 'approve';
+  }
+
+  // 'quorum' rejects only once the remaining approvers can no longer reach it
+  if (stageConfig.approval.rejection === 'quorum') {
+    const total = approval.approvers.length;
+    return total > 0 && total - rejections < approval.required ? 'reject' : null;
+  }
+
+  return rejections > 0 ? 'reject' : null;
+};
+
+// Record one approver's vote at a parallel stage; the stage moves on once the votes decide it.
+// A delegate votes for an approver who delegated to them and has not voted yet.
+async function recordApprovalVote(workflow, submission, stageConfig, action, userId, comments, onBehalfOf = null) {
+  const workflowState = toPlain(submission).workflowState || { history: [] };
+  const approval = workflowState.approval?.stage === stageConfig.id
+    ? workflowState.approval
+    : await createApproval(stageConfig);
+  const stage = { id: stageConfig.id, name: stageConfig.name };
+  const canVote = (id) => (
+    (approval.approvers.length === 0 || approval.approvers.some(approver => approver.id === id)) &&
+    !approval.votes.some(vote => vote.user === id)
+  );
+
+  let voterId = (onBehalfOf || userId).toString();
+  if (!canVote(voterId)) {
+    const delegations = await getActiveDelegations(userId, workflow.applicationId);
+    const delegatorId = delegations.map(delegation => delegation.delegator.toString()).find(canVote);
+    if (delegatorId) voterId = delegatorId;
+  }
+  const votingFor = voterId === userId.toString() ? null : voterId;
+
+  if (approval.approvers.length > 0 && !approval.approvers.some(approver => approver.id === voterId)) {
+    throw createWorkflowPermissionError(
+      `You are not one of the approvers of stage "${stageConfig.name}"`,
+      'approver',
+      { stage, action, approvers: approval.approvers }
+    );
+  }
+
+  if (approval.votes.some(vote => vote.user === voterId)) {
+    const error = new Error('You have already voted at this stage');
+    error.statusCode = 409;
+    throw error;
+  }
+
+  const voter = await getUserById(voterId);
+  approval.votes.push({
+    user: voterId,
+    name: voter ? `${voter.firstName} ${voter.lastName}` : voterId,
+    vote: action,
+    timestamp: new Date(),
+    comments,
+    castBy: votingFor ? userId.toString() : null
+  });
+
+  const outcome = getApprovalOutcome(stageConfig, approval);
+  if (outcome) {
+    if (submission.workflowState) {
+      submission.workflowState.approval = approval;
     }
+    return await applyWorkflowAction(workflow, submission, stageConfig.id, outcome, userId, comments, votingFor);
+  }
+
+  const history = [...(workflowState.history || []), {
+    stage: stageConfig.id,
+    action,
+    user: userId,
+    onBehalfOf: votingFor,
+    timestamp: new Date(),
+    comments
+  }];
+
+  await updateFormSubmission(submission.submissionId, {
+    workflowState: { ...workflowState, approval, history },
+    status: 'in_review'
+  });
 
-    // Update submission status based on workflow stage
-    let newStatus = submission.status;
-    if (action === 'approve') {
-      newStatus = nextStage ? 'in_review' : 'approved';
-    } else if (action === 'reject') {
-      newStatus = 'rejected';
-    } else if (action === 'submit') {
-      newStatus = 'submitted';
+  return {
+    currentStage: stageConfig.id,
+    status: 'in_review',
+    history,
+    approval
+  };
+}
+
+// When the current stage of a submission is due, from its escalation settings
+const getStageDeadline = (workflow, submission) => {
+  const hours = Number(workflow.settings?.escalationTime) || 24;
+  const history = submission.workflowState?.history || [];
+  const enteredAt = submission.workflowState?.stageEnteredAt ||
+    history[history.length - 1]?.timestamp ||
+    submission.createdAt;
+
+  return new Date(new Date(enteredAt).getTime() + hours * 60 * 60 * 1000);
+};
+
+// Remind or escalate one submission; returns what was done, if anything
+async function checkSubmissionDeadline(workflow, submission, now) {
+  const workflowState = toPlain(submission).workflowState;
+  const stageConfig = workflow.stages.find(stage => stage.id === workflowState.currentStage);
+
+  if (!stageConfig || workflowState.escalatedAt) {
+    return null;
+  }
+
+  const settings = workflow.settings || {};
+  const deadline = getStageDeadline(workflow, submission);
+  const reminderTime = Number(settings.reminderTime) || 0;
+
+  if (now < deadline) {
+    const remindAt = new Date(deadline.getTime() - reminderTime * 60 * 60 * 1000);
+    if (reminderTime <= 0 || workflowState.reminderSentAt || now < remindAt) {
+      return null;
     }
 
-    // Update the form submission
-    await updateFormSubmission(submissionId, {
-      workflowState,
-      status: newStatus
+    const assignees = await getStageAssignees(stageConfig);
+    await sendDeadlineNotification(workflow, submission, stageConfig, deadline, false, assignees);
+    await updateFormSubmission(submission.submissionId, {
+      workflowState: { ...workflowState, reminderSentAt: now }
     });
+    return 'reminded';
+  }
+
+  const escalationAction = settings.escalationAction || 'notify';
+  // Sending a submission back needs a reviewer's comments, so it is never automatic
+  const isAutomatic = !['notify', 'request_changes'].includes(escalationAction);
+
+  // Overdue: take the configured action for the submission...
+  if (isAutomatic && (stageConfig.actions || []).includes(escalationAction)) {
+    submission.workflowState.history.push({
+      stage: stageConfig.id,
+      action: 'escalated',
+      user: null,
+      timestamp: now,
+      comments: `Deadline of ${deadline.toISOString()} passed; "${escalationAction}" taken automatically`
+    });
+    await applyWorkflowAction(workflow, submission, stageConfig.id, escalationAction, null,
+      'Taken automatically after the stage deadline');
+    return 'auto_action';
+  }
+
+  // ...or hand it to the escalation role/users
+  const recipients = [
+    ...await getStageAssignees({ users: settings.escalationUsers || [] }),
+    ...await getStageAssignees({ role: settings.escalationRole })
+  ];
+  await sendDeadlineNotification(workflow, submission, stageConfig, deadline, true, recipients);
+
+  const escalatedTo = [
+    settings.escalationRole,
+    ...(settings.escalationUsers || [])
+  ].filter(Boolean).join(', ') || 'nobody';
+  await updateFormSubmission(submission.submissionId, {
+    workflowState: {
+      ...workflowState,
+      escalatedAt: now,
+      history: [...workflowState.history, {
+        stage: stageConfig.id,
+        action: 'escalated',
+        user: null,
+        timestamp: now,
+        comments: `Deadline of ${deadline.toISOString()} passed; escalated to ${escalatedTo}`
+      }]
+    }
+  });
+  return 'escalated';
+}
+
+/**
+ * Open submissions waiting at a stage the user is assigned to, by its users
+ * list or its roles, or reassigned to them, oldest first. Stages of users
+ * who delegated to the user are included, marked with onBehalfOf. At a
+ * parallel approval stage only approvers who have not voted yet see the
+ * submission. Filters are applicationId, formId and minAge / maxAge, the
+ * hours a submission has been waiting at its stage. The submissions are
+ * filtered and paged by the database, so only one page of tasks is built.
+ */
+export const getWorkflowTasks = async (userId, filters = {}, options = {}) => {
+  try {
+    const { page = 1, limit = 20 } = options;
+    const user = await getUserById(userId);
+    const offset = (page - 1) * limit;
+    const workflows = [];
+    const branches = [];
+
+    if (user && user.isActive) {
+      const actors = await getDelegationActors(user);
+      // Role grants are read once per actor rather than for every stage checked
+      for (const actor of actors) {
+        actor.grants = await getUserPermissions(actor.id);
+      }
+      const reassignedFormIds = await getReassignedFormIds(actors.map(actor => actor.id));
+
+      // Where each workflow can put a submission in the user's way: the
+      // stages they are assigned to, and any stage reassigned to them
+      for (const workflow of await getActiveWorkflows(filters, actors, reassignedFormIds)) {
+        const workflowActors = actors.filter(actor =>
+          !actor.applicationId || actor.applicationId === workflow.applicationId
+        );
+        const stageActors = new Map();
+        for (const stageConfig of workflow.stages || []) {
+          const assigned = [];
+          for (const actor of workflowActors) {
+            if (await isStageAssignee(workflow, stageConfig, actor.user, actor.grants)) assigned.push(actor);
+          }
+          stageActors.set(stageConfig.id, assigned);
+
+          const branch = {
+            formId: workflow.formId,
+            workflowId: workflow.workflowId,
+            stage: stageConfig.id,
+            parallel: isParallelStage(stageConfig)
+          };
+          if (assigned.length > 0) {
+            branches.push({ ...branch, reassigned: false, actorIds: assigned.map(actor => actor.id) });
+          }
+          branches.push({ ...branch, reassigned: true, actorIds: workflowActors.map(actor => actor.id) });
+        }
+        workflows.push({ workflow, workflowActors, stageActors });
+      }
+    }
+
+    const now = Date.now();
+    const hoursAgo = (hours) => new Date(now - hours * 60 * 60 * 1000);
+    const { submissions, total } = await getWorkflowTaskSubmissions(branches, {
+      enteredBefore: filters.minAge !== undefined ? hoursAgo(filters.minAge) : undefined,
+      enteredAfter: filters.maxAge !== undefined ? hoursAgo(filters.maxAge) : undefined
+    }, { offset, limit });
+
+    const forms = new Map();
+    const tasks = [];
+    for (const submission of submissions) {
+      const plain = toPlain(submission);
+      const workflowState = plain.workflowState;
+      const entry = workflows.find(({ workflow }) =>
+        workflow.formId === plain.formId &&
+        (!workflowState.workflowId || workflowState.workflowId === workflow.workflowId)
+      );
+      const stageConfig = entry?.workflow.stages.find(stage => stage.id === workflowState.currentStage);
+      if (!stageConfig) continue;
+      const { workflow, workflowActors, stageActors } = entry;
+
+      // Who the user acts as here: a reassigned stage is only its assignee's task
+      const assignedTo = workflowState.assignedTo?.stage === stageConfig.id ? workflowState.assignedTo : null;
+      let candidates = assignedTo
+        ? workflowActors.filter(actor => actor.id === assignedTo.id)
+        : stageActors.get(stageConfig.id);
+
+      const approval = workflowState.approval;
+      if (isParallelStage(stageConfig) && approval) {
+        candidates = candidates.filter(actor =>
+          approval.approvers.some(approver => approver.id === actor.id) &&
+          !approval.votes.some(vote => vote.user === actor.id)
+        );
+      }
+      const actor = candidates.find(candidate => !candidate.delegated) || candidates[0];
+      if (!actor) continue;
+
+      if (!forms.has(workflow.formId)) {
+        forms.set(workflow.formId, await getFormByFormId(workflow.formId));
+      }
+      const form = forms.get(workflow.formId);
+
+      // Earlier stages the submission went through, which changes can be sent back to
+      const returnStages = [...new Set((workflowState.history || [])
+        .filter(entry => entry.action !== 'skipped')
+        .map(entry => entry.stage))]
+        .filter(stageId => stageId !== stageConfig.id)
+        .map(stageId => workflow.stages.find(stage => stage.id === stageId))
+        .filter(Boolean)
+        .map(stage => ({ id: stage.id, name: stage.name }));
+
+      tasks.push({
+        submissionId: plain.submissionId,
+        applicationId: plain.applicationId,
+        formId: plain.formId,
+        formName: form?.name || null,
+        workflow: {
+          id: (workflow.id || workflow._id).toString(),
+          workflowId: workflow.workflowId,
+          name: workflow.name
+        },
+        stage: {
+          id: stageConfig.id,
+          name: stageConfig.name,
+          actions: stageConfig.actions || []
+        },
+        status: plain.status,
+        submittedBy: plain.submitter || (typeof plain.submittedBy === 'object' ? plain.submittedBy : null),
+        submittedAt: plain.submittedAt || plain.createdAt,
+        waitingSince: new Date(workflowState.stageEnteredAt || plain.createdAt),
+        deadline: workflow.settings?.enableEscalation ? getStageDeadline(workflow, plain) : null,
+        onBehalfOf: actor.delegated ? { id: actor.id, name: actor.name } : null,
+        assignedTo,
+        approval: approval || null,
+        returnStages,
+        revisionRound: (workflowState.revisions || []).length
+      });
+    }
+
+    return {
+      tasks,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  } catch (error) {
+    logger.error('Error getting workflow tasks:', error);
+    throw error;
+  }
+};
+
+/**
+ * Take the same action on several submissions, each at its own workflow's
+ * current stage. A submission that fails does not stop the others; every
+ * submission gets a result.
+ */
+export const executeBulkWorkflowAction = async (submissionIds, action, userId, comments = '') => {
+  const { getFormSubmissionById } = await import('./formService.js');
+  const results = [];
+
+  for (const submissionId of submissionIds) {
+    try {
+      const submission = await getFormSubmissionById(submissionId);
+      const workflow = submission ? await getSubmissionWorkflow(submission) : null;
+
+      if (!workflow) {
+        results.push({ submissionId, success: false, message: 'Submission not found or not in a workflow' });
+        continue;
+      }
+
+      const result = await executeWorkflowAction(workflow, submissionId, action, userId, comments);
+      results.push({ submissionId, success: true, currentStage: result.currentStage, status: result.status });
+    } catch (error) {
+      results.push({ submissionId, success: false, message: error.message });
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Hand the current stage of an in-flight submission to another user; until
+ * the stage changes only they, or their delegates, can act on it. At a
+ * parallel approval stage the new user instead takes the place of an
+ * approver who has not voted yet (fromUserId).
+ */
+export const reassignSubmission = async (submissionId, assigneeId, adminId, { fromUserId = null, comments = '' } = {}) => {
+  try {
+    const { getFormSubmissionById } = await import('./formService.js');
+    const submission = await getFormSubmissionById(submissionId);
+    const workflowState = submission ? toPlain(submission).workflowState : null;
+
+    if (!workflowState?.currentStage || !['submitted', 'in_review'].includes(submission.status)) {
+      throw createWorkflowStateError('Submission is not waiting at a workflow stage', 400);
+    }
+
+    const workflow = await getSubmissionWorkflow(submission);
+    const stageConfig = workflow?.stages.find(stage => stage.id === workflowState.currentStage);
+    if (!stageConfig) {
+      throw createWorkflowStateError('Invalid workflow stage', 400);
+    }
+
+    const assignee = await getUserById(assigneeId);
+    if (!assignee || !assignee.isActive) {
+      throw createWorkflowStateError('User not found or inactive', 400);
+    }
+    const assigneeRef = {
+      id: (assignee.id || assignee._id).toString(),
+      name: `${assignee.firstName} ${assignee.lastName}`
+    };
+
+    let description = `Reassigned to ${assigneeRef.name}`;
+    const approval = workflowState.approval;
+
+    if (isParallelStage(stageConfig) && approval) {
+      const replaced = approval.approvers.find(approver => approver.id === fromUserId);
+      if (!replaced || approval.votes.some(vote => vote.user === fromUserId)) {
+        throw createWorkflowStateError('Choose an approver who has not voted yet to replace', 400);
+      }
+      if (approval.approvers.some(approver => approver.id === assigneeRef.id)) {
+        throw createWorkflowStateError(`${assigneeRef.name} is already an approver at this stage`, 409);
+      }
+      approval.approvers = approval.approvers.map(approver => approver.id === fromUserId ? assigneeRef : approver);
+      description = `Approver ${replaced.name} replaced by ${assigneeRef.name}`;
+    } else {
+      workflowState.assignedTo = { stage: stageConfig.id, ...assigneeRef };
+    }
+
+    workflowState.history = [...(workflowState.history || []), {
+      stage: stageConfig.id,
+      action: 'reassigned',
+      user: adminId,
+      timestamp: new Date(),
+      comments: comments ? `${description}: ${comments}` : description
+    }];
+
+    const updatedSubmission = await updateFormSubmission(submissionId, { workflowState });
+
+    if (assignee.email) {
+      await sendWorkflowAssignmentNotification(workflow, updatedSubmission, stageConfig, [assignee.email])
+        .catch(error => logger.error('Error notifying reassigned user:', error));
+    }
 
     return {
       currentStage: workflowState.currentStage,
-      status: newStatus,
-      history: workflowState.history
+      status: submission.status,
+      history: workflowState.history,
+      assignedTo: workflowState.assignedTo || null,
+      approval: approval || null
     };
   } catch (error) {
-    logger.error('Error executing workflow action:', error);
+    logger.error('Error reassigning submission:', error);
     throw error;
   }
 };
 
-// Helper function to check workflow permissions
-function checkWorkflowPermission(stageConfig, userId, action) {
+// A request the submission's current workflow state does not allow
+const createWorkflowStateError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// The user, followed by the active users who delegated their authority to
+// them, each limited to the application of the delegation, if any
+async function getDelegationActors(user) {
+  const userId = (user.id || user._id).toString();
+  const actors = [{
+    id: userId,
+    name: `${user.firstName} ${user.lastName}`,
+    user,
+    applicationId: null,
+    delegated: false
+  }];
+
+  const delegations = await getActiveDelegations(userId);
+  for (const delegation of delegations) {
+    const delegator = await getUserById(delegation.delegator).catch(() => null);
+    if (delegator && delegator.isActive) {
+      actors.push({
+        id: (delegator.id || delegator._id).toString(),
+        name: `${delegator.firstName} ${delegator.lastName}`,
+        user: delegator,
+        applicationId: delegation.applicationId || null,
+        delegated: true
+      });
+    }
+  }
+
+  return actors;
+}
+
+// Stage roles a user's role satisfies
+const satisfiedRoles = (role) => {
+  const rank = ROLE_HIERARCHY.indexOf(role);
+  return rank === -1 ? [role] : ROLE_HIERARCHY.slice(0, rank + 1);
+};
+
+// Active workflows, optionally of one application or form. Given inbox
+// actors (see getWorkflowTasks), only workflows that can put a task in their
+// way: those of applications an actor holds a role grant in, those with a
+// stage listing an actor or a role an actor's own role satisfies, and those
+// of the forms in reassignedFormIds. Delegated actors only reach workflows
+// of their delegation's application.
+async function getActiveWorkflows(filters = {}, actors = null, reassignedFormIds = []) {
+  const WorkflowModel = getWorkflowModel();
+  const where = {};
+
+  if (filters.applicationId) {
+    where.applicationId = filters.applicationId;
+  }
+  if (filters.formId) {
+    where.formId = filters.formId;
+  }
+
+  const reaches = (actors || []).map(actor => ({
+    applicationId: actor.applicationId,
+    grantedApplicationIds: [...new Set(actor.grants
+      .filter(grant => grant.role && grant.applicationId)
+      .map(grant => grant.applicationId))],
+    userId: actor.id,
+    roles: satisfiedRoles(actor.user.role)
+  }));
+
+  if (process.env.DB_TYPE === 'mysql') {
+    const { Op, fn, col, where: sqlWhere } = await import('sequelize');
+    const listHas = (path, value) => sqlWhere(fn('JSON_CONTAINS', fn('JSON_EXTRACT', col('stages'), path), fn('JSON_QUOTE', value)), 1);
+    const reachWhere = (reach) => ({
+      ...(reach.applicationId && { applicationId: reach.applicationId }),
+      [Op.or]: [
+        { applicationId: reach.grantedApplicationIds },
+        listHas('$[*].users[*]', reach.userId),
+        ...reach.roles.flatMap(role => [listHas('$[*].role', role), listHas('$[*].roles[*]', role)])
+      ]
+    });
+
+    return await WorkflowModel.findAll({
+      where: {
+        ...where,
+        isActive: { [Op.not]: false },
+        ...(actors && { [Op.or]: [...reaches.map(reachWhere), { formId: reassignedFormIds }] })
+      }
+    });
+  } else {
+    const reachQuery = (reach) => ({
+      ...(reach.applicationId && { applicationId: reach.applicationId }),
+      $or: [
+        { applicationId: { $in: reach.grantedApplicationIds } },
+        { 'stages.users': reach.userId },
+        { 'stages.role': { $in: reach.roles } },
+        { 'stages.roles': { $in: reach.roles } }
+      ]
+    });
+
+    return await WorkflowModel.find({
+      ...where,
+      isActive: { $ne: false },
+      ...(actors && { $or: [...reaches.map(reachQuery), { formId: { $in: reassignedFormIds } }] })
+    });
+  }
+}
+
+// The workflow a submission was started in, or else its form's active workflow
+async function getSubmissionWorkflow(submission) {
+  const workflowId = submission.workflowState?.workflowId;
+
+  if (workflowId) {
+    const WorkflowModel = getWorkflowModel();
+    const workflow = process.env.DB_TYPE === 'mysql'
+      ? await WorkflowModel.findOne({ where: { workflowId } })
+      : await WorkflowModel.findOne({ workflowId });
+    if (workflow) return workflow;
+  }
+
+  return await getActiveWorkflowForForm(submission.formId);
+}
+
+/**
+ * Check every open submission of workflows with escalation enabled against
+ * its stage deadline: remind the stage assignees shortly before it, and once
+ * it has passed escalate or take the configured action. Run by the
+ * workflow-escalation job.
+ */
+export const processWorkflowEscalations = async (now = new Date()) => {
+  try {
+    const workflows = await getEscalatingWorkflows();
+    const counts = { reminded: 0, escalated: 0, auto_action: 0 };
+
+    for (const workflow of workflows) {
+      const submissions = await getOpenWorkflowSubmissions(workflow.formId);
+
+      for (const submission of submissions) {
+        try {
+          const result = await checkSubmissionDeadline(workflow, submission, now);
+          if (result) counts[result]++;
+        } catch (error) {
+          logger.error(`Error escalating submission ${submission.submissionId}:`, error);
+        }
+      }
+    }
+
+    return counts;
+  } catch (error) {
+    logger.error('Error processing workflow escalations:', error);
+    throw error;
+  }
+};
+
+// Active workflows with escalation enabled
+async function getEscalatingWorkflows() {
+  const WorkflowModel = getWorkflowModel();
+
+  if (process.env.DB_TYPE === 'mysql') {
+    const { Op } = await import('sequelize');
+    const workflows = await WorkflowModel.findAll({
+      where: { isActive: { [Op.not]: false } }
+    });
+    return workflows.filter(workflow => workflow.settings?.enableEscalation);
+  } else {
+    return await WorkflowModel.find({
+      isActive: { $ne: false },
+      'settings.enableEscalation': true
+    });
+  }
+}
+
+// Mongoose documents to plain objects, so their parts can be spread into updates
+const toPlain = (value) => (value?.toObject ? value.toObject() : value);
+
+// Helper function to email a deadline reminder or overdue notice; failures are only logged
+async function sendDeadlineNotification(workflow, submission, stageConfig, deadline, overdue, users) {
+  try {
+    const recipients = [...new Set(users.map(user => user.email).filter(Boolean))];
+    if (recipients.length > 0) {
+      await sendWorkflowDeadlineNotification(workflow, submission, stageConfig, deadline, overdue, recipients);
+    }
+  } catch (error) {
+    logger.error('Error sending workflow deadline notification:', error);
+  }
+}
+
+// Error for an action the user may not take, carrying the requirement that failed
+const createWorkflowPermissionError = (message, requirement, details = {}) => {
+  const error = new Error(message);
+  error.name = 'WorkflowPermissionError';
+  error.statusCode = 403;
+  error.requirement = requirement;
+  error.details = details;
+  return error;
+};
+
+// Roles a stage accepts: its roles list, or its single role
+const getStageRoles = (stageConfig) => {
+  if (Array.isArray(stageConfig.roles) && stageConfig.roles.length > 0) {
+    return stageConfig.roles;
+  }
+  return stageConfig.role ? [stageConfig.role] : [];
+};
+
+// Roles outside the hierarchy only match themselves
+const roleSatisfies = (userRole, requiredRole) => {
+  const requiredRank = ROLE_HIERARCHY.indexOf(requiredRole);
+  if (requiredRank === -1) {
+    return userRole === requiredRole;
+  }
+  return ROLE_HIERARCHY.indexOf(userRole) >= requiredRank;
+};
+
+// Helper function to check workflow permissions; throws a WorkflowPermissionError.
+// Returns the id of the delegator the user acts for, or null when they act for themselves
+async function checkWorkflowPermission(workflow, stageConfig, userId, action, workflowState = {}) {
+  const stage = { id: stageConfig.id, name: stageConfig.name };
+
   // Check if action is allowed in this stage
-  if (!stageConfig.actions.includes(action)) {
-    return false;
+  if (!(stageConfig.actions || []).includes(action)) {
+    throw createWorkflowPermissionError(
+      `Action "${action}" is not available at stage "${stageConfig.name}"`,
+      'action',
+      { stage, action, allowedActions: stageConfig.actions || [] }
+    );
   }
 
-  // Check if user has the required role
-  if (stageConfig.role && !checkUserRole(userId, stageConfig.role)) {
-    return false;
+  const user = await getUserById(userId);
+  if (!user || !user.isActive) {
+    throw createWorkflowPermissionError('User not found or inactive', 'user', { stage, action });
+  }
+
+  const denial = await getStageDenial(workflow, stageConfig, user, workflowState);
+  if (!denial) {
+    return null;
+  }
+
+  // Someone who delegated their authority to the user may be allowed instead
+  const delegations = await getActiveDelegations(userId, workflow.applicationId);
+  for (const delegation of delegations) {
+    const delegator = await getUserById(delegation.delegator).catch(() => null);
+    if (delegator && delegator.isActive && !await getStageDenial(workflow, stageConfig, delegator, workflowState)) {
+      return (delegator.id || delegator._id).toString();
+    }
+  }
+
+  throw createWorkflowPermissionError(denial.message, denial.requirement, { stage, action, ...denial.details });
+}
+
+// Helper function to find why a user may not act at a stage, or null when they may.
+// A submission reassigned at this stage may only be handled by its assignee.
+async function getStageDenial(workflow, stageConfig, user, workflowState = {}) {
+  const userId = (user.id || user._id).toString();
+  const assignedTo = workflowState?.assignedTo;
+
+  if (assignedTo && assignedTo.stage === stageConfig.id) {
+    return assignedTo.id === userId ? null : {
+      message: `This submission is assigned to ${assignedTo.name}`,
+      requirement: 'assignee',
+      details: { assignedTo }
+    };
+  }
+
+  // Check if user has one of the required roles
+  const requiredRoles = getStageRoles(stageConfig);
+  if (requiredRoles.length > 0 && !await checkUserRole(user, requiredRoles, workflow.applicationId)) {
+    return {
+      message: `Stage "${stageConfig.name}" requires one of the roles: ${requiredRoles.join(', ')}`,
+      requirement: 'role',
+      details: { requiredRoles, userRole: user.role }
+    };
   }
 
   // Check if user is in the allowed users list
+  if (stageConfig.users && stageConfig.users.length > 0 && !stageConfig.users.includes(userId)) {
+    return {
+      message: `Stage "${stageConfig.name}" is assigned to specific users`,
+      requirement: 'assignee',
+      details: {}
+    };
+  }
+
+  return null;
+}
+
+// Whether a stage is assigned to the user: stages with a users list must name
+// them, stages with roles need one of them; a stage with neither is nobody's task
+async function isStageAssignee(workflow, stageConfig, user, grants = null) {
+  const hasUsers = Array.isArray(stageConfig.users) && stageConfig.users.length > 0;
+  const requiredRoles = getStageRoles(stageConfig);
+
+  if (!hasUsers && requiredRoles.length === 0) {
+    return false;
+  }
+  if (hasUsers && !stageConfig.users.includes((user.id || user._id).toString())) {
+    return false;
+  }
+  return requiredRoles.length === 0 || await checkUserRole(user, requiredRoles, workflow.applicationId, grants);
+}
+
+// Helper function to find who can act at a stage: its listed users, or else
+// the active users holding one of its roles
+async function getStageAssignees(stageConfig) {
   if (stageConfig.users && stageConfig.users.length > 0) {
-    return stageConfig.users.includes(userId.toString());
+    // Entries that are not valid user ids are skipped
+    const users = await Promise.all(stageConfig.users.map(userId => getUserById(userId).catch(() => null)));
+    return users.filter(user => user && user.isActive);
   }
 
-  return true;
+  const results = await Promise.all(getStageRoles(stageConfig).map(role =>
+    getAllUsers({ role, isActive: true })
+  ));
+  return results.flat();
 }
 
-// Helper function to find next stage
-function findNextStage(workflow, currentStage, action) {
-  const transition = workflow.transitions.find(t => 
-    t.from === currentStage && 
-    (t.action === action || !t.action)
-  );
+// Helper function to read every user matching filters, a page at a time
+async function getAllUsers(filters) {
+  const users = [];
+  for (let page = 1; ; page++) {
+    const result = await getUsers(filters, { page, limit: 100 });
+    users.push(...result.users);
+    if (page >= result.pagination.pages) {
+      return users;
+    }
+  }
+}
 
-  if (transition) {
-    // Check transition conditions if any
-    if (transition.condition) {
-      // For now, we'll assume conditions are met
-      // In a real implementation, you'd evaluate the condition
-      return transition.to;
+// Helper function to email the assignees of a stage; failures are only logged
+async function notifyStageAssignees(workflow, submission, stageConfig) {
+  try {
+    const assignees = await getStageAssignees(stageConfig);
+    const recipients = [...new Set(assignees.map(user => user.email).filter(Boolean))];
+
+    if (recipients.length > 0) {
+      await sendWorkflowAssignmentNotification(workflow, submission, stageConfig, recipients);
     }
-    return transition.to;
+  } catch (error) {
+    logger.error('Error notifying stage assignees:', error);
   }
+}
 
-  return null;
+// Helper function to email a submitter that their submission was sent back; failures are only logged
+async function notifySubmitterOfChanges(workflow, submission, stageConfig, comments) {
+  try {
+    const submitterId = submission.submittedBy?._id || submission.submittedBy;
+    const submitter = submitterId ? await getUserById(submitterId) : null;
+
+    if (submitter?.email) {
+      await sendChangesRequestedNotification(workflow, submission, stageConfig, comments, [submitter.email]);
+    }
+  } catch (error) {
+    logger.error('Error notifying submitter of requested changes:', error);
+  }
 }
 
-// Helper function to check user role (simplified)
-function checkUserRole(userId, requiredRole) {
-  // In a real implementation, you'd fetch the user and check their role
-  // For now, we'll assume the check passes
-  return true;
+// Helper function to build the values transition conditions are evaluated against
+async function getConditionValues(submission) {
+  const submitterId = submission.submittedBy?._id || submission.submittedBy;
+  const submitter = submitterId ? await getUserById(submitterId) : null;
+
+  return buildConditionValues({
+    data: submission.data,
+    metadata: submission.metadata,
+    submitter: submitter && {
+      id: (submitter.id || submitter._id).toString(),
+      role: submitter.role
+    },
+    status: submission.status
+  });
+}
+
+// Helper function to find next stage
+function findNextStage(workflow, currentStage, action, conditionValues) {
+  const transition = selectTransition(workflow.transitions || [], currentStage, action, conditionValues);
+  return transition ? transition.to : null;
+}
+
+// Helper function to check user role, including roles granted for the application.
+// grants, the user's permission grants in every application, saves reading them again.
+async function checkUserRole(user, requiredRoles, applicationId, grants = null) {
+  const roles = [user.role];
+
+  if (applicationId) {
+    const applicationGrants = grants
+      ? grants.filter(grant => grant.applicationId === applicationId)
+      : await getUserPermissions(user.id || user._id, applicationId);
+    applicationGrants.forEach(grant => {
+      if (grant.role) roles.push(grant.role);
+    });
+  }
+
+  return requiredRoles.some(required => roles.some(role => roleSatisfies(role, required)));
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { diffFormSnapshots } from '../formDiff.js';
+
+const snapshot = (fields, extra = {}) => ({ name: 'Expenses', structure: { fields }, settings: {}, ...extra });
+
+const amount = { id: 'f1', name: 'amount', label: 'Amount', type: 'number', required: true };
+const reason = { id: 'f2', name: 'reason', label: 'Reason', type: 'text' };
+const receipt = { id: 'f3', name: 'receipt', label: 'Receipt', type: 'file' };
+
+describe('diffFormSnapshots', () => {
+  it('reports no changes for the same snapshot, whatever the key order or Mongo ids', () => {
+    const stored = snapshot([{ _id: 'x1', type: 'number', id: 'f1', required: true, label: 'Amount', name: 'amount' }, reason]);
+
+    expect(diffFormSnapshots(stored, snapshot([amount, reason]))).toEqual({
+      fields: { added: [], removed: [], changed: [] },
+      reordered: false,
+      properties: [],
+      hasChanges: false
+    });
+  });
+
+  it('matches fields by id to find added, removed and changed fields', () => {
+    const diff = diffFormSnapshots(
+      snapshot([amount, reason]),
+      snapshot([{ ...amount, name: 'total', required: false }, receipt])
+    );
+
+    expect(diff.fields.added).toEqual([{ id: 'f3', name: 'receipt', label: 'Receipt', type: 'file' }]);
+    expect(diff.fields.removed).toEqual([{ id: 'f2', name: 'reason', label: 'Reason', type: 'text' }]);
+    expect(diff.fields.changed).toEqual([{
+      id: 'f1',
+      name: 'total',
+      label: 'Amount',
+      type: 'number',
+      changes: [
+        { property: 'name', from: 'amount', to: 'total' },
+        { property: 'required', from: true, to: false }
+      ]
+    }]);
+    expect(diff.reordered).toBe(false);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('reports reordered fields and changed form properties', () => {
+    const diff = diffFormSnapshots(
+      snapshot([amount, reason]),
+      snapshot([reason, amount], { name: 'Expense claim', settings: { allowDrafts: false } })
+    );
+
+    expect(diff.fields).toEqual({ added: [], removed: [], changed: [] });
+    expect(diff.reordered).toBe(true);
+    expect(diff.properties).toEqual([
+      { property: 'name', from: 'Expenses', to: 'Expense claim' },
+      { property: 'settings', from: {}, to: { allowDrafts: false } }
+    ]);
+  });
+});
@@ -0,0 +1,292 @@
+import { Aggregator, Context } from 'mingo';
+import 'mingo/init/system';
+import { $push } from 'mingo/operators/accumulator';
+import mysql from 'mysql2';
+import { compileReportQuery, buildMongoReportPipelines, buildMySQLReportQueries } from '../reportQuery.js';
+import { runMySQLQuery } from './support/mysqlReportEngine.js';
+
+// Runs the same reports over the same submissions through the MongoDB
+// pipelines and the MySQL queries and expects the same rows, totals, pages
+// and grouped results from both. Always run in-process: mingo evaluates the
+// pipelines and support/mysqlReportEngine.js the SQL. See README.md for
+// running them against real databases too.
+
+const { TEST_MONGODB_URI, TEST_MYSQL_URI } = process.env;
+
+const FORM = 'form-1';
+const APPLICATION = 'app-1';
+
+const submission = (submissionId, createdAt, status, data, formId = FORM) => ({
+  submissionId,
+  formId,
+  applicationId: APPLICATION,
+  status,
+  createdAt: new Date(createdAt),
+  data
+});
+
+// Numbers stored as numbers and as text, text that is not a number, booleans,
+// empty and missing values, lists, repeater rows and a created-at tie
+const SUBMISSIONS = [
+  submission('s1', '2024-01-01T09:00:00Z', 'approved', {
+    amount: 120, region: 'north', tags: ['urgent', 'web'], note: 'Call back, 50% off',
+    items: [{ sku: 'a', qty: 2 }, { sku: 'b', qty: '1' }]
+  }),
+  submission('s2', '2024-01-02T09:00:00Z', 'submitted', { amount: '80', region: 'south', note: 'no_reply', items: [] }),
+  submission('s3', '2024-01-03T09:00:00Z', 'approved', { amount: '1,000', region: 'north', tags: [], items: [{ sku: 'c', qty: 5 }] }),
+  submission('s4', '2024-01-03T09:00:00Z', 'rejected', { amount: 45.5, region: '', note: 'call me' }),
+  submission('s5', '2024-01-05T09:00:00Z', 'submitted', { region: 'east', items: [{ sku: 'a', qty: '3' }, { sku: 'd' }] }),
+  submission('s6', '2024-01-06T09:00:00Z', 'approved', { amount: true, region: 'south', tags: ['web'] }),
+  submission('s7', '2024-01-07T09:00:00Z', 'in_review', { amount: 300, region: 'north', note: '100%' }),
+  submission('s8', '2024-01-08T09:00:00Z', 'approved', { amount: 999, region: 'north' }, 'form-2')
+];
+
+const report = (configuration) => ({ sourceForm: FORM, applicationId: APPLICATION, configuration });
+
+const CASES = [
+  {
+    name: 'numeric ranges over mixed values, sorted descending',
+    expected: ['s2', 's7', 's1'],
+    report: report({
+      filters: [{ field: 'amount', operator: 'greater_than', value: '50' }],
+      sorting: { field: 'amount', direction: 'desc' }
+    })
+  },
+  {
+    name: 'equality, lists, text and emptiness',
+    expected: ['s5', 's7', 's3'],
+    report: report({
+      filters: [
+        { field: 'amount', operator: 'not_equals', value: '80' },
+        { field: 'region', operator: 'in', value: 'north, east, ' },
+        { field: 'tags', operator: 'is_empty' }
+      ],
+      sorting: { field: 'region', direction: 'asc' }
+    })
+  },
+  {
+    name: 'contains with LIKE wildcards in the search text',
+    expected: ['s7', 's1'],
+    report: report({ filters: [{ field: 'note', operator: 'contains', value: '0%' }] })
+  },
+  {
+    name: 'list elements, run-time status and date range',
+    expected: ['s6', 's1'],
+    report: report({ filters: [{ field: 'tags', operator: 'equals', value: 'web' }] }),
+    filters: {
+      status: 'approved',
+      dateRange: { start: '2024-01-01T00:00:00Z', end: '2024-01-06T23:59:59Z' }
+    }
+  },
+  {
+    name: 'groups with every aggregation',
+    expected: ['s4', 's5', 's1', 's3', 's7', 's6', 's2'],
+    report: report({
+      grouping: { enabled: true, fields: ['region', '_status'] },
+      sorting: { field: '_createdAt', direction: 'asc' },
+      aggregations: ['sum', 'avg', 'count', 'min', 'max', 'distinct']
+        .map(operation => ({ field: operation === 'distinct' ? 'region' : 'amount', operation }))
+    })
+  },
+  {
+    name: 'exploded repeater rows filtered and sorted by sub-field',
+    expected: ['s5#1', 's1#1', 's1#2'],
+    report: report({
+      repeater: { field: 'items', mode: 'explode' },
+      filters: [{ field: 'items.qty', type: 'number', operator: 'between', value: [1, 4] }],
+      sorting: [{ field: 'items.sku', direction: 'asc' }],
+      aggregations: [{ field: 'items.qty', operation: 'sum' }, { field: 'items.sku', operation: 'distinct' }]
+    })
+  },
+  {
+    name: 'exploded repeater keeping submissions without rows',
+    expected: ['s7', 's6', 's5#1', 's5#2', 's3#1', 's4', 's2', 's1#1', 's1#2'],
+    report: report({ repeater: { field: 'items', mode: 'explode' } })
+  },
+  {
+    name: 'pivot of amounts by region and status',
+    expected: ['s7', 's6', 's5', 's3', 's4', 's2', 's1'],
+    report: report({
+      pivot: { enabled: true, rows: ['region'], column: '_status', measure: { field: 'amount', operation: 'avg' } }
+    })
+  }
+];
+
+const GROUPED = ['aggregations', 'groups', 'pivotCells', 'pivotRows', 'pivotColumns', 'pivotTotal'];
+
+// As services/reportService.js reads them: sums and counts of no values are
+// 0, other aggregations of no values null. Averages may differ in the last
+// bits between the databases.
+const aggregationValue = (operation, value) => {
+  if (['sum', 'count', 'distinct'].includes(operation)) return Number(value ?? 0);
+  return value === null || value === undefined ? null : Number(Number(value).toFixed(9));
+};
+
+const groupRow = (keys, row, aggregations) => ({
+  keys,
+  count: Number(row.count),
+  values: aggregations.map(({ operation }, index) => aggregationValue(operation, row[`agg${index}`]))
+});
+
+const groupAggregations = (spec, name) => (name.startsWith('pivot') ? [spec.pivot.measure] : spec.aggregations);
+
+const keyCount = (spec, name) => ({
+  aggregations: 0,
+  groups: spec.groupBy.length,
+  pivotCells: (spec.pivot?.rows.length ?? 0) + 1,
+  pivotRows: spec.pivot?.rows.length ?? 0,
+  pivotColumns: 1,
+  pivotTotal: 0
+}[name]);
+
+const keys = (count, key) => Array.from({ length: count }, (_, index) => key(`k${index}`) ?? null);
+
+const runMongo = async (collection, spec, options) => {
+  const pipelines = buildMongoReportPipelines(spec, options);
+  const [rows, [summary]] = await Promise.all([
+    collection.aggregate(pipelines.rows).toArray(),
+    collection.aggregate(pipelines.summary).toArray()
+  ]);
+
+  return {
+    rows: rows.map(row => [row.submissionId, spec.repeater && row._rowIndex !== null ? row._rowIndex + 1 : null]),
+    total: summary.total[0]?.count || 0,
+    ...Object.fromEntries(GROUPED.filter(name => summary[name]).map(name => [
+      name,
+      summary[name].map(row => groupRow(keys(keyCount(spec, name), key => row._id?.[key]), row, groupAggregations(spec, name)))
+    ]))
+  };
+};
+
+const runMySQL = async (connection, spec, options) => {
+  const queries = buildMySQLReportQueries(spec, options, value => connection.escape(value));
+  const select = async ({ sql, replacements }) => (await connection.query(sql, replacements))[0];
+  const [rows, [totals]] = await Promise.all([select(queries.rows), select(queries.total)]);
+
+  const grouped = {};
+  for (const name of GROUPED.filter(name => queries[name])) {
+    grouped[name] = (await select(queries[name]))
+      .map(row => groupRow(keys(keyCount(spec, name), key => row[key]), row, groupAggregations(spec, name)));
+  }
+
+  return {
+    rows: rows.map(row => [row.id, row.rowIndex ?? null]),
+    total: Number(totals.count),
+    ...grouped
+  };
+};
+
+// mingo averages no numbers to 0 where MongoDB gives null
+const mongoContext = Context.init().addAccumulatorOps({
+  $avg: (collection, expr, options) => {
+    const numbers = $push(collection, expr, options).filter(value => typeof value === 'number');
+    return numbers.length === 0 ? null : numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+  }
+});
+
+// Stand-ins for a MongoDB collection and a mysql2 connection
+const memoryCollection = (documents) => ({
+  aggregate: pipeline => ({
+    toArray: async () => new Aggregator(pipeline, { context: mongoContext }).run(structuredClone(documents))
+  })
+});
+
+const memoryConnection = (rows) => ({
+  escape: value => mysql.escape(value),
+  query: async (sql, replacements) => [runMySQLQuery(rows, { sql, replacements })]
+});
+
+const expectSameResults = async (collection, connection, { report: caseReport, filters }) => {
+  const spec = compileReportQuery(caseReport, filters);
+
+  const mongo = await runMongo(collection, spec, {});
+  const mysqlResult = await runMySQL(connection, spec, {});
+  expect(mongo.total).toBeGreaterThan(0);
+  expect(mongo.total).toBe(mongo.rows.length);
+  expect(mysqlResult).toEqual(mongo);
+
+  // Every page holds its slice of the full result, with the same total
+  for (const page of [1, 2, 3]) {
+    const window = { page, limit: 2 };
+    const mongoPage = await runMongo(collection, spec, window);
+    const mysqlPage = await runMySQL(connection, spec, window);
+    expect(mongoPage.rows).toEqual(mongo.rows.slice((page - 1) * 2, page * 2));
+    expect(mysqlPage).toEqual(mongoPage);
+    expect(mysqlPage.total).toBe(mongo.total);
+  }
+
+  return mongo;
+};
+
+describe('report page window', () => {
+  it('pages the same way in both databases', () => {
+    const spec = compileReportQuery(report({}));
+
+    expect(buildMongoReportPipelines(spec, { page: 3, limit: 10 }).rows.slice(-2)).toEqual([{ $skip: 20 }, { $limit: 10 }]);
+    expect(buildMySQLReportQueries(spec, { page: 3, limit: 10 }, JSON.stringify).rows.sql).toMatch(/ LIMIT 10 OFFSET 20$/);
+
+    expect(buildMongoReportPipelines(spec).rows.at(-1)).toHaveProperty('$sort');
+    expect(buildMySQLReportQueries(spec, {}, JSON.stringify).rows.sql).not.toContain('LIMIT');
+  });
+});
+
+describe('report queries evaluated in-process', () => {
+  const collection = memoryCollection(SUBMISSIONS);
+  const connection = memoryConnection(SUBMISSIONS.map(item => ({ id: item.submissionId, ...item })));
+
+  it.each(CASES)('$name', async (reportCase) => {
+    const mongo = await expectSameResults(collection, connection, reportCase);
+    expect(mongo.rows.map(([id, rowIndex]) => (rowIndex ? `${id}#${rowIndex}` : id))).toEqual(reportCase.expected);
+  });
+});
+
+const describeWithDatabases = TEST_MONGODB_URI && TEST_MYSQL_URI ? describe : describe.skip;
+
+describeWithDatabases('report queries in MongoDB and MySQL', () => {
+  let mongoClient;
+  let collection;
+  let connection;
+
+  beforeAll(async () => {
+    const { MongoClient } = await import('mongodb');
+    const mysqlPromise = await import('mysql2/promise');
+
+    mongoClient = await new MongoClient(TEST_MONGODB_URI).connect();
+    collection = mongoClient.db().collection('report_query_fixture');
+    await collection.deleteMany({});
+    await collection.insertMany(SUBMISSIONS.map(item => ({ ...item })));
+
+    connection = await mysqlPromise.createConnection({ uri: TEST_MYSQL_URI, timezone: 'Z' });
+    await connection.query(`CREATE TEMPORARY TABLE form_submissions (
+      id VARCHAR(36) PRIMARY KEY,
+      submissionId VARCHAR(64) NOT NULL,
+      formId VARCHAR(64) NOT NULL,
+      applicationId VARCHAR(64) NOT NULL,
+      status VARCHAR(32),
+      data JSON,
+      createdAt DATETIME(3)
+    )`);
+    await connection.query(
+      'INSERT INTO form_submissions (id, submissionId, formId, applicationId, status, data, createdAt) VALUES ?',
+      [SUBMISSIONS.map(item => [
+        item.submissionId,
+        item.submissionId,
+        item.formId,
+        item.applicationId,
+        item.status,
+        JSON.stringify(item.data),
+        item.createdAt
+      ])]
+    );
+  });
+
+  afterAll(async () => {
+    await collection?.drop();
+    await mongoClient?.close();
+    await connection?.end();
+  });
+
+  it.each(CASES)('$name', async (reportCase) => {
+    await expectSameResults(collection, connection, reportCase);
+  });
+});
@@ -0,0 +1,74 @@
+import { buildSubmissionTable, explodeRepeaterRows, getPathValue, toCsv } from '../submissionRows.js';
+
+const structure = {
+  fields: [
+    { name: 'title', type: 'text' },
+    { name: 'intro', type: 'heading' },
+    {
+      name: 'items',
+      type: 'repeater',
+      fields: [{ name: 'sku', type: 'text' }, { name: 'note', type: 'html' }, { name: 'qty', type: 'number' }]
+    },
+    { name: 'contacts', type: 'repeater', fields: [{ name: 'email', type: 'email' }] }
+  ]
+};
+
+const submissions = [
+  {
+    data: {
+      title: 'First',
+      items: [{ sku: 'a', qty: 2 }, { sku: 'b', qty: 1 }],
+      contacts: [{ email: 'x@example.com' }]
+    }
+  },
+  { data: { title: 'Second', items: [], contacts: [{ email: 'y@example.com' }, { email: 'z@example.com' }] } }
+];
+
+describe('buildSubmissionTable', () => {
+  it('flattens repeaters into numbered columns for their longest row list', () => {
+    expect(buildSubmissionTable(structure, submissions)).toEqual({
+      headers: [
+        'title',
+        'items[1].sku', 'items[1].qty', 'items[2].sku', 'items[2].qty',
+        'contacts[1].email', 'contacts[2].email'
+      ],
+      rows: [
+        ['First', 'a', 2, 'b', 1, 'x@example.com', ''],
+        ['Second', '', '', '', '', 'y@example.com', 'z@example.com']
+      ]
+    });
+  });
+
+  it('explodes the chosen repeater into a line per row and flattens the others', () => {
+    const table = buildSubmissionTable(structure, submissions, { mode: 'explode', repeater: 'items' });
+
+    expect(table.headers).toEqual(['title', 'items.#', 'items.sku', 'items.qty', 'contacts[1].email', 'contacts[2].email']);
+    expect(table.rows).toEqual([
+      ['First', 1, 'a', 2, 'x@example.com', ''],
+      ['First', 2, 'b', 1, 'x@example.com', ''],
+      ['Second', '', '', '', 'y@example.com', 'z@example.com']
+    ]);
+  });
+
+  it('explodes the first repeater when none is named', () => {
+    expect(buildSubmissionTable(structure, submissions, { mode: 'explode' }).headers).toContain('items.#');
+  });
+});
+
+describe('submission row helpers', () => {
+  it('keeps a submission without rows as one record', () => {
+    expect(explodeRepeaterRows({ title: 'Second', items: [] }, 'items')).toEqual([{ title: 'Second', items: {} }]);
+    expect(explodeRepeaterRows({ items: [{ sku: 'a' }] }, 'items')).toEqual([{ items: { sku: 'a' }, _rowIndex: 1 }]);
+  });
+
+  it('reads dotted paths through repeater rows as lists', () => {
+    expect(getPathValue(submissions[0].data, 'items.sku')).toEqual(['a', 'b']);
+    expect(getPathValue(submissions[0].data, 'title')).toBe('First');
+    expect(getPathValue(submissions[0].data, 'missing.value')).toBeUndefined();
+  });
+
+  it('quotes CSV cells holding commas, quotes or line breaks', () => {
+    expect(toCsv(['a', 'b'], [['x, y', 'say "hi"'], ['line\nbreak', null]]))
+      .toBe('a,b\n"x, y","say ""hi"""\n"line\nbreak",');
+  });
+});
@@ -0,0 +1,123 @@
+import { validateSubmissionData, validateFieldValue } from '../submissionValidator.js';
+
+const structure = (fields) => ({ fields });
+
+const errorFields = (result) => result.errors.map(error => error.field);
+
+describe('validateSubmissionData', () => {
+  it('reports missing required fields and accepts them when filled', () => {
+    const form = structure([
+      { name: 'name', label: 'Name', type: 'text', required: true },
+      { name: 'notes', type: 'textarea' }
+    ]);
+
+    const missing = validateSubmissionData(form, { notes: 'hello' });
+    expect(missing.errors).toEqual([{ field: 'name', message: 'Name is required', value: undefined }]);
+
+    const blank = validateSubmissionData(form, { name: '   ' });
+    expect(errorFields(blank)).toEqual(['name']);
+
+    const filled = validateSubmissionData(form, { name: 'Ada' });
+    expect(filled.errors).toEqual([]);
+    expect(filled.data).toEqual({ name: 'Ada' });
+  });
+
+  it('lets drafts leave required fields empty but still checks present values', () => {
+    const form = structure([
+      { name: 'name', type: 'text', required: true },
+      { name: 'email', type: 'email' }
+    ]);
+
+    expect(validateSubmissionData(form, {}, { partial: true }).errors).toEqual([]);
+    expect(errorFields(validateSubmissionData(form, { email: 'nope' }, { partial: true }))).toEqual(['email']);
+  });
+
+  it('requires a field only while its require rule matches', () => {
+    const form = structure([
+      { name: 'contact', type: 'select', options: { choices: ['email', 'phone'] } },
+      {
+        name: 'phone',
+        type: 'tel',
+        conditionalLogic: {
+          rules: [{ action: 'require', when: { conditions: [{ field: 'contact', operator: 'equals', value: 'phone' }] } }]
+        }
+      }
+    ]);
+
+    expect(errorFields(validateSubmissionData(form, { contact: 'phone' }))).toEqual(['phone']);
+    expect(validateSubmissionData(form, { contact: 'email' }).errors).toEqual([]);
+  });
+
+  it('skips and strips fields hidden by conditional logic, even when required', () => {
+    const form = structure([
+      { name: 'hasCar', type: 'checkbox' },
+      {
+        name: 'plate',
+        type: 'text',
+        required: true,
+        conditionalLogic: {
+          rules: [{ action: 'show', when: { conditions: [{ field: 'hasCar', operator: 'equals', value: true }] } }]
+        }
+      }
+    ]);
+
+    const hidden = validateSubmissionData(form, { hasCar: false, plate: 'AB-123' });
+    expect(hidden.errors).toEqual([]);
+    expect(hidden.data).toEqual({ hasCar: false });
+
+    expect(errorFields(validateSubmissionData(form, { hasCar: true }))).toEqual(['plate']);
+  });
+
+  it('rejects fields the form does not define', () => {
+    const result = validateSubmissionData(structure([{ name: 'a', type: 'text' }]), { a: 'x', b: 'y' });
+    expect(result.errors).toEqual([{ field: 'b', message: 'Unknown field: b', value: 'y' }]);
+  });
+
+  it('recomputes formulas instead of trusting submitted values', () => {
+    const form = structure([
+      { name: 'qty', type: 'number' },
+      { name: 'price', type: 'number' },
+      { name: 'total', type: 'formula', options: { expression: '{qty} * {price}' } }
+    ]);
+
+    const result = validateSubmissionData(form, { qty: '3', price: 2.5, total: 1000 });
+    expect(result.errors).toEqual([]);
+    expect(result.data).toEqual({ qty: 3, price: 2.5, total: 7.5 });
+  });
+
+  it('validates repeater rows against their sub-fields with row paths', () => {
+    const form = structure([{
+      name: 'items',
+      type: 'repeater',
+      validation: { minRows: 2 },
+      fields: [
+        { name: 'sku', type: 'text', required: true },
+        { name: 'qty', type: 'number', validation: { min: 1 } }
+      ]
+    }]);
+
+    const result = validateSubmissionData(form, { items: [{ sku: 'A', qty: 2 }, { qty: 0 }] });
+    expect(errorFields(result)).toEqual(['items[1].sku', 'items[1].qty']);
+
+    const short = validateSubmissionData(form, { items: [{ sku: 'A' }] });
+    expect(short.errors.map(error => error.message)).toEqual(['items requires at least 2 rows']);
+    expect(validateSubmissionData(form, { items: [{ sku: 'A' }] }, { partial: true }).errors).toEqual([]);
+  });
+});
+
+describe('validateFieldValue', () => {
+  it('normalizes emails and numbers', () => {
+    expect(validateFieldValue({ name: 'e', type: 'email' }, 'Ada@Example.COM ')).toEqual({ error: 'e must be a valid email address' });
+    expect(validateFieldValue({ name: 'e', type: 'email' }, 'Ada@Example.COM')).toEqual({ value: 'ada@example.com' });
+    expect(validateFieldValue({ name: 'n', type: 'number' }, ' 42 ')).toEqual({ value: 42 });
+  });
+
+  it('enforces number, choice and date bounds', () => {
+    expect(validateFieldValue({ name: 'n', type: 'number', validation: { max: 5 } }, 6).error).toBe('n must be at most 5');
+    expect(validateFieldValue({ name: 'n', type: 'number', validation: { integer: true } }, 1.5).error).toBe('n must be a whole number');
+    expect(validateFieldValue({ name: 's', type: 'select', options: { choices: [{ value: 'a' }] } }, 'b').error)
+      .toBe('s contains an invalid option: b');
+    expect(validateFieldValue({ name: 'd', type: 'date', validation: { minDate: '2024-01-01' } }, '2023-12-31').error)
+      .toBe('d must be on or after 2024-01-01');
+  });
+});
@@ -0,0 +1,646 @@
+// Runs the SELECT statements buildMySQLReportQueries emits over in-memory
+// form_submissions rows, so report queries can be checked without a MySQL
+// server. Only that SQL is understood, with the MySQL 8 behaviour the
+// builder relies on:
+//
+// - SQL NULL is apart from JSON null, which only JSON_TYPE reports
+// - JSON_TYPE tells INTEGER from DOUBLE; JSON_OVERLAPS compares typed
+//   values and matches array elements
+// - JSON_UNQUOTE of a non-string is its JSON text; such text compares
+//   binary, as JSON strings do
+// - JSON values sort by type (null, numbers, strings, objects, arrays,
+//   booleans), then by value, and SQL NULL before everything
+// - LEFT JOIN JSON_TABLE keeps a submission without array elements as one
+//   row of NULLs
+
+class Json {
+  constructor(value) {
+    this.value = value;
+  }
+}
+
+// Tokens
+
+const PUNCTUATION = ['<>', '>=', '<=', '!=', '(', ')', ',', '*', '=', '<', '>'];
+const STRING_ESCAPES = { 0: '\0', n: '\n', r: '\r', t: '\t', b: '\b', Z: '\x1a' };
+
+const tokenize = (sql) => {
+  const tokens = [];
+  let params = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    if (/\s/.test(char)) {
+      i += 1;
+    } else if (char === "'") {
+      let value = '';
+      i += 1;
+      while (sql[i] !== "'" || sql[i + 1] === "'") {
+        if (i >= sql.length) throw new Error('Unterminated string literal');
+        if (sql[i] === "'") {
+          value += "'";
+          i += 2;
+        } else if (sql[i] === '\\') {
+          const next = sql[i + 1];
+          // Like MySQL, \% and \_ keep their backslash for LIKE
+          value += next === '%' || next === '_' ? `\\${next}` : STRING_ESCAPES[next] ?? next;
+          i += 2;
+        } else {
+          value += sql[i];
+          i += 1;
+        }
+      }
+      tokens.push({ type: 'string', value });
+      i += 1;
+    } else if (/[0-9]/.test(char)) {
+      const [number] = sql.slice(i).match(/^[0-9]+(\.[0-9]+)?/);
+      tokens.push({ type: 'number', value: Number(number) });
+      i += number.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [word] = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/);
+      tokens.push({ type: 'word', value: word, upper: word.toUpperCase() });
+      i += word.length;
+    } else if (char === '?') {
+      tokens.push({ type: 'param', index: params });
+      params += 1;
+      i += 1;
+    } else {
+      const symbol = PUNCTUATION.find(candidate => sql.startsWith(candidate, i));
+      if (!symbol) throw new Error(`Unexpected character "${char}"`);
+      tokens.push({ type: 'symbol', value: symbol });
+      i += symbol.length;
+    }
+  }
+
+  return tokens;
+};
+
+// Syntax
+
+const COMPARISONS = ['=', '<>', '!=', '<', '>', '<=', '>='];
+const AGGREGATES = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
+
+const parse = (sql) => {
+  const tokens = tokenize(sql);
+  let position = 0;
+
+  const peek = (offset = 0) => tokens[position + offset];
+  const isWord = (word, offset = 0) => peek(offset)?.type === 'word' && peek(offset).upper === word;
+  const isSymbol = (symbol) => peek()?.type === 'symbol' && peek().value === symbol;
+  const next = () => tokens[position++];
+  const fail = () => {
+    throw new Error(`Unexpected ${peek() ? JSON.stringify(peek().value ?? '?') : 'end of statement'} in: ${sql}`);
+  };
+  const word = (expected) => {
+    if (!isWord(expected)) fail();
+    return next();
+  };
+  const symbol = (expected) => {
+    if (!isSymbol(expected)) fail();
+    return next();
+  };
+  const name = () => {
+    if (peek()?.type !== 'word') fail();
+    return next().value;
+  };
+  const string = () => {
+    if (peek()?.type !== 'string') fail();
+    return next().value;
+  };
+  const list = (item) => {
+    const items = [item()];
+    while (isSymbol(',')) {
+      next();
+      items.push(item());
+    }
+    return items;
+  };
+
+  let expression;
+
+  const primary = () => {
+    const token = peek();
+    if (!token) fail();
+
+    if (isSymbol('(')) {
+      next();
+      const inner = expression();
+      symbol(')');
+      return inner;
+    }
+    if (token.type === 'string' || token.type === 'number') {
+      next();
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'param') {
+      next();
+      return { kind: 'param', index: token.index };
+    }
+    if (token.type !== 'word') fail();
+
+    if (token.upper === 'NULL' || token.upper === 'TRUE') {
+      next();
+      return { kind: 'literal', value: token.upper === 'TRUE' ? true : null };
+    }
+    if (token.upper === 'CASE') {
+      next();
+      const branches = [];
+      while (isWord('WHEN')) {
+        next();
+        const when = expression();
+        word('THEN');
+        branches.push({ when, then: expression() });
+      }
+      let otherwise = { kind: 'literal', value: null };
+      if (isWord('ELSE')) {
+        next();
+        otherwise = expression();
+      }
+      word('END');
+      return { kind: 'case', branches, otherwise };
+    }
+    if (token.upper === 'CAST') {
+      next();
+      symbol('(');
+      const input = expression();
+      word('AS');
+      const type = name().toUpperCase();
+      symbol(')');
+      return { kind: 'cast', input, type };
+    }
+
+    next();
+    if (!isSymbol('(')) {
+      return { kind: 'column', name: token.value };
+    }
+    next();
+    const fn = token.upper;
+    if (fn === 'COUNT' && isSymbol('*')) {
+      next();
+      symbol(')');
+      return { kind: 'aggregate', fn, star: true };
+    }
+    const distinct = fn === 'COUNT' && isWord('DISTINCT') && Boolean(next());
+    const args = list(expression);
+    symbol(')');
+    return AGGREGATES.includes(fn)
+      ? { kind: 'aggregate', fn, distinct, arg: args[0] }
+      : { kind: 'call', fn, args };
+  };
+
+  const predicate = () => {
+    let left = primary();
+    for (;;) {
+      if (isWord('IS')) {
+        next();
+        const negated = isWord('NOT') && Boolean(next());
+        word('NULL');
+        left = { kind: 'isNull', input: left, negated };
+      } else if (isWord('IN') || (isWord('NOT') && (isWord('IN', 1) || isWord('LIKE', 1)))) {
+        const negated = isWord('NOT') && Boolean(next());
+        if (isWord('LIKE')) {
+          next();
+          left = { kind: 'like', input: left, pattern: primary(), negated };
+        } else {
+          next();
+          symbol('(');
+          left = { kind: 'in', input: left, values: list(expression), negated };
+          symbol(')');
+        }
+      } else if (isWord('LIKE')) {
+        next();
+        left = { kind: 'like', input: left, pattern: primary(), negated: false };
+      } else if (isWord('REGEXP')) {
+        next();
+        left = { kind: 'regexp', input: left, pattern: primary() };
+      } else if (peek()?.type === 'symbol' && COMPARISONS.includes(peek().value)) {
+        const op = next().value;
+        left = { kind: 'compare', op: op === '!=' ? '<>' : op, left, right: primary() };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const negation = () => {
+    if (isWord('NOT')) {
+      next();
+      return { kind: 'not', input: negation() };
+    }
+    return predicate();
+  };
+
+  const conjunction = () => {
+    let left = negation();
+    while (isWord('AND')) {
+      next();
+      left = { kind: 'and', left, right: negation() };
+    }
+    return left;
+  };
+
+  expression = () => {
+    let left = conjunction();
+    while (isWord('OR')) {
+      next();
+      left = { kind: 'or', left, right: conjunction() };
+    }
+    return left;
+  };
+
+  word('SELECT');
+  const select = list(() => {
+    const input = expression();
+    word('AS');
+    return { input, alias: name() };
+  });
+
+  word('FROM');
+  if (name() !== 'form_submissions') fail();
+  const alias = name();
+
+  let join = null;
+  if (isWord('LEFT')) {
+    next();
+    word('JOIN');
+    word('JSON_TABLE');
+    symbol('(');
+    const input = expression();
+    symbol(',');
+    const path = string();
+    word('COLUMNS');
+    symbol('(');
+    const ordinality = name();
+    word('FOR');
+    word('ORDINALITY');
+    symbol(',');
+    const element = name();
+    word('JSON');
+    word('PATH');
+    if (string() !== '$') fail();
+    symbol(')');
+    symbol(')');
+    join = { input, path, alias: name(), ordinality, element };
+    word('ON');
+    word('TRUE');
+  }
+
+  word('WHERE');
+  const where = expression();
+
+  let groupBy = [];
+  if (isWord('GROUP')) {
+    next();
+    word('BY');
+    groupBy = list(name);
+  }
+
+  let orderBy = [];
+  if (isWord('ORDER')) {
+    next();
+    word('BY');
+    orderBy = list(() => {
+      const input = expression();
+      const descending = isWord('DESC');
+      if (isWord('ASC') || isWord('DESC')) next();
+      return { input, descending };
+    });
+  }
+
+  let limit = null;
+  let offset = 0;
+  if (isWord('LIMIT')) {
+    next();
+    limit = next().value;
+    word('OFFSET');
+    offset = next().value;
+  }
+
+  if (peek()) fail();
+  return { select, alias, join, where, groupBy, orderBy, limit, offset };
+};
+
+// JSON values
+
+const parsePath = (path) => {
+  if (path[0] !== '$') throw new Error(`Unsupported JSON path ${path}`);
+  const legs = [];
+  let i = 1;
+  while (i < path.length) {
+    if (path.startsWith('[*]', i)) {
+      legs.push({ any: true });
+      i += 3;
+    } else if (path.startsWith('."', i)) {
+      let key = '';
+      i += 2;
+      while (path[i] !== '"') {
+        if (path[i] === '\\') i += 1;
+        key += path[i];
+        i += 1;
+      }
+      legs.push({ key });
+      i += 1;
+    } else {
+      throw new Error(`Unsupported JSON path ${path}`);
+    }
+  }
+  return legs;
+};
+
+const isObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const extract = (document, path) => {
+  let value = document;
+  for (const leg of parsePath(path)) {
+    if (leg.any || !isObject(value) || !Object.prototype.hasOwnProperty.call(value, leg.key)) {
+      if (leg.any) throw new Error('Wildcards are only supported in JSON_TABLE');
+      return undefined;
+    }
+    value = value[leg.key];
+  }
+  return value;
+};
+
+const jsonType = (value) => {
+  if (value === null) return 'NULL';
+  if (Array.isArray(value)) return 'ARRAY';
+  if (typeof value === 'object') return 'OBJECT';
+  if (typeof value === 'string') return 'STRING';
+  if (typeof value === 'boolean') return 'BOOLEAN';
+  return Number.isInteger(value) ? 'INTEGER' : 'DOUBLE';
+};
+
+// MySQL's JSON text puts a space after commas and colons
+const jsonText = (value) => {
+  if (Array.isArray(value)) return `[${value.map(jsonText).join(', ')}]`;
+  if (isObject(value)) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}: ${jsonText(value[key])}`).join(', ')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const TYPE_ORDER = { NULL: 0, INTEGER: 1, DOUBLE: 1, STRING: 2, OBJECT: 3, ARRAY: 4, BOOLEAN: 5 };
+
+const compareText = (a, b) => (a < b ? -1 : a > b ? 1 : 0);
+
+const compareJson = (a, b) => {
+  const rank = TYPE_ORDER[jsonType(a)] - TYPE_ORDER[jsonType(b)];
+  if (rank !== 0) return Math.sign(rank);
+
+  if (Array.isArray(a)) {
+    for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+      const order = compareJson(a[index], b[index]);
+      if (order !== 0) return order;
+    }
+    return Math.sign(a.length - b.length);
+  }
+  if (isObject(a)) return compareText(jsonText(a), jsonText(b));
+  if (typeof a === 'string') return compareText(a, b);
+  return Math.sign(Number(a) - Number(b));
+};
+
+// SQL values
+
+const toComparable = (value) => (value instanceof Date ? value.getTime() : value);
+
+const compare = (a, b) => {
+  if (a === null || b === null) return null;
+  if (a instanceof Json || b instanceof Json) {
+    return compareJson(a instanceof Json ? a.value : a, b instanceof Json ? b.value : b);
+  }
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (typeof left === 'string' && typeof right === 'string') return compareText(left, right);
+  return Math.sign(Number(left) - Number(right));
+};
+
+const isTrue = (value) => value !== null && value !== false && value !== 0;
+
+const not = (value) => (value === null ? null : !isTrue(value));
+
+const likeRegExp = (pattern) => new RegExp(`^${pattern.replace(/\\(.)|([%_])|([^\\%_]+)/gs, (match, escaped, wildcard, text) => {
+  if (escaped !== undefined) return escaped.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (wildcard) return wildcard === '%' ? '.*' : '.';
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+})}$`, 's');
+
+const overlaps = (a, b) => {
+  const items = (value) => (Array.isArray(value) ? value : [value]);
+  return items(a).some(left => items(b).some(right => compareJson(left, right) === 0));
+};
+
+const FUNCTIONS = {
+  JSON_EXTRACT: (document, path) => {
+    if (document === null) return null;
+    const value = extract(document.value, path);
+    return value === undefined ? null : new Json(value);
+  },
+  JSON_UNQUOTE: (value) => {
+    if (!(value instanceof Json)) return value;
+    return typeof value.value === 'string' ? value.value : jsonText(value.value);
+  },
+  JSON_TYPE: (value) => (value === null ? null : jsonType(value.value)),
+  JSON_LENGTH: (value) => {
+    if (value === null) return null;
+    if (Array.isArray(value.value)) return value.value.length;
+    return isObject(value.value) ? Object.keys(value.value).length : 1;
+  },
+  JSON_OVERLAPS: (a, b) => (a === null || b === null ? null : overlaps(a.value, b.value)),
+  LOWER: (value) => (value === null ? null : String(value).toLowerCase()),
+  NULLIF: (a, b) => (compare(a, b) === 0 ? null : a)
+};
+
+const evaluate = (node, context) => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'param':
+      return context.params[node.index];
+    case 'column':
+      return context.column(node.name);
+    case 'call':
+      return FUNCTIONS[node.fn](...node.args.map(arg => evaluate(arg, context)));
+    case 'cast': {
+      const value = evaluate(node.input, context);
+      if (value === null) return null;
+      if (node.type === 'JSON') return value instanceof Json ? value : new Json(JSON.parse(value));
+      return parseFloat(value instanceof Json ? jsonText(value.value) : value);
+    }
+    case 'case': {
+      const branch = node.branches.find(({ when }) => isTrue(evaluate(when, context)));
+      return evaluate(branch ? branch.then : node.otherwise, context);
+    }
+    case 'not':
+      return not(evaluate(node.input, context));
+    case 'and': {
+      const left = evaluate(node.left, context);
+      if (left !== null && !isTrue(left)) return false;
+      const right = evaluate(node.right, context);
+      if (right !== null && !isTrue(right)) return false;
+      return left === null || right === null ? null : true;
+    }
+    case 'or': {
+      const left = evaluate(node.left, context);
+      if (isTrue(left)) return true;
+      const right = evaluate(node.right, context);
+      if (isTrue(right)) return true;
+      return left === null || right === null ? null : false;
+    }
+    case 'isNull': {
+      const isNull = evaluate(node.input, context) === null;
+      return node.negated ? !isNull : isNull;
+    }
+    case 'in': {
+      const value = evaluate(node.input, context);
+      const orders = node.values.map(item => compare(value, evaluate(item, context)));
+      const found = orders.includes(0) ? true : orders.includes(null) ? null : false;
+      return node.negated ? not(found) : found;
+    }
+    case 'like': {
+      const value = evaluate(node.input, context);
+      const pattern = evaluate(node.pattern, context);
+      if (value === null || pattern === null) return null;
+      const matches = likeRegExp(String(pattern)).test(String(value));
+      return node.negated ? !matches : matches;
+    }
+    case 'regexp': {
+      const value = evaluate(node.input, context);
+      const pattern = evaluate(node.pattern, context);
+      return value === null || pattern === null ? null : new RegExp(pattern).test(String(value));
+    }
+    case 'compare': {
+      const order = compare(evaluate(node.left, context), evaluate(node.right, context));
+      if (order === null) return null;
+      return {
+        '=': order === 0,
+        '<>': order !== 0,
+        '<': order < 0,
+        '>': order > 0,
+        '<=': order <= 0,
+        '>=': order >= 0
+      }[node.op];
+    }
+    case 'aggregate':
+      return aggregate(node, context);
+    default:
+      throw new Error(`Unsupported expression ${node.kind}`);
+  }
+};
+
+const distinctKey = (value) => JSON.stringify([value instanceof Json ? 'json' : typeof value, value instanceof Json ? value.value : value]);
+
+function aggregate(node, context) {
+  if (!context.group) throw new Error(`${node.fn} outside a grouped query`);
+  if (node.star) return context.group.length;
+
+  const values = context.group
+    .map(row => evaluate(node.arg, { ...context, column: row.column }))
+    .filter(value => value !== null);
+
+  switch (node.fn) {
+    case 'COUNT':
+      return node.distinct ? new Set(values.map(distinctKey)).size : values.length;
+    case 'SUM':
+      return values.length === 0 ? null : values.reduce((sum, value) => sum + Number(value), 0);
+    case 'AVG':
+      return values.length === 0 ? null : values.reduce((sum, value) => sum + Number(value), 0) / values.length;
+    case 'MIN':
+    case 'MAX':
+      return values.length === 0 ? null : values.reduce((best, value) => {
+        const order = compare(value, best);
+        return (node.fn === 'MIN' ? order < 0 : order > 0) ? value : best;
+      });
+    default:
+      throw new Error(`Unsupported aggregate ${node.fn}`);
+  }
+}
+
+const hasAggregate = (node) => node && typeof node === 'object' && (node.kind === 'aggregate' ||
+  Object.values(node).some(value => (Array.isArray(value) ? value.some(hasAggregate) : hasAggregate(value))));
+
+// SQL NULL sorts first ascending and last descending
+const compareForOrder = (a, b) => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? -1 : 1;
+  return compare(a, b);
+};
+
+// What mysql2 hands back: JSON columns parsed, dates as dates
+const toResult = (value) => (value instanceof Json ? value.value : value);
+
+/**
+ * Run one statement with its replacements over form_submissions rows
+ * ({ id, submissionId, formId, applicationId, status, data, createdAt }) and
+ * return the result rows keyed by their select aliases.
+ */
+export const runMySQLQuery = (submissions, { sql, replacements = [] }) => {
+  const statement = parse(sql);
+  const params = replacements;
+
+  const columnOf = (submission, joined) => (columnName) => {
+    const [table, column] = columnName.split('.');
+    if (table === statement.alias) {
+      const value = submission[column];
+      if (value === undefined) throw new Error(`Unknown column ${columnName}`);
+      return column === 'data' ? (value === null ? null : new Json(value)) : value;
+    }
+    if (statement.join && table === statement.join.alias) {
+      if (column === statement.join.ordinality) return joined ? joined.index : null;
+      if (column === statement.join.element) return joined ? new Json(joined.value) : null;
+    }
+    throw new Error(`Unknown column ${columnName}`);
+  };
+
+  // Source rows: submissions, joined with their array elements
+  const rows = submissions.flatMap(submission => {
+    if (!statement.join) return [{ column: columnOf(submission, null) }];
+
+    const path = statement.join.path;
+    if (!path.endsWith('[*]')) throw new Error(`Unsupported JSON_TABLE path ${path}`);
+    const document = evaluate(statement.join.input, { params, column: columnOf(submission, null) });
+    const array = document === null ? undefined : extract(document.value, path.slice(0, -3));
+    if (!Array.isArray(array) || array.length === 0) return [{ column: columnOf(submission, null) }];
+    return array.map((value, index) => ({ column: columnOf(submission, { index: index + 1, value }) }));
+  }).filter(row => isTrue(evaluate(statement.where, { params, column: row.column })));
+
+  const grouped = statement.groupBy.length > 0 || statement.select.some(item => hasAggregate(item.input));
+  const outputOf = (context) => Object.fromEntries(statement.select.map(item => [item.alias, evaluate(item.input, context)]));
+
+  let results;
+  if (grouped) {
+    const groups = new Map();
+    if (statement.groupBy.length === 0) groups.set('', rows);
+    rows.forEach(row => {
+      if (statement.groupBy.length === 0) return;
+      const keys = outputOf({ params, column: row.column, group: [row] });
+      const key = JSON.stringify(statement.groupBy.map(alias => distinctKey(keys[alias])));
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push(row);
+    });
+    results = [...groups.values()].map(group => {
+      const first = group[0]?.column || (() => null);
+      return { context: { params, column: first, group }, output: outputOf({ params, column: first, group }) };
+    });
+  } else {
+    results = rows.map(row => ({ context: { params, column: row.column }, output: outputOf({ params, column: row.column }) }));
+  }
+
+  // ORDER BY may name select aliases as well as columns
+  const orderValue = ({ context, output }, input) => (input.kind === 'column' && input.name in output
+    ? output[input.name]
+    : evaluate(input, context));
+
+  results.sort((a, b) => {
+    for (const { input, descending } of statement.orderBy) {
+      const order = compareForOrder(orderValue(a, input), orderValue(b, input));
+      if (order !== 0) return descending ? -order : order;
+    }
+    return 0;
+  });
+
+  const page = statement.limit === null
+    ? results.slice(statement.offset)
+    : results.slice(statement.offset, statement.offset + statement.limit);
+
+  return page.map(({ output }) => Object.fromEntries(Object.entries(output).map(([key, value]) => [key, toResult(value)])));
+};
@@ -1,6 +1,11 @@
 import nodemailer from 'nodemailer';
 import { logger } from './logger.js';
 
+const HTML_ENTITIES = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// Escape text users typed before putting it in an email body
+const escapeHtml = (text) => String(text ?? '').replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+
 // Create email transporter
 const createTransporter = () => {
   const config = {
@@ -16,11 +21,11 @@ const createTransporter = () => {
     };
   }
 
-  return nodemailer.createTransporter(config);
+  return nodemailer.createTransport(config);
 };
 
 // Send email
-export const sendEmail = async ({ to, subject, text, html }) => {
+export const sendEmail = async ({ to, subject, text, html, attachments }) => {
   try {
     const transporter = createTransporter();
 
@@ -30,6 +35,7 @@ export const sendEmail = async ({ to, subject, text, html }) => {
       subject,
       text,
       html,
+      attachments,
     };
 
     const result = await transporter.sendMail(mailOptions);
@@ -165,8 +171,110 @@ export const sendWorkflowNotification = async (workflow, submission, action, use
   return await Promise.allSettled(emailPromises);
 };
 
+// Send notification that a submission is waiting at a workflow stage
+export const sendWorkflowAssignmentNotification = async (workflow, submission, stage, recipients) => {
+  const subject = `Action Required: ${workflow.name} - ${stage.name}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb;">Workflow Action Required</h2>
+      <p>A submission is waiting for your action: <strong>${submission.submissionId}</strong></p>
+      <div style="background-color: #f3f4f6; padding: 20px; border-radius: 6px; margin: 20px 0;">
+        <p><strong>Workflow:</strong> ${workflow.name}</p>
+        <p><strong>Stage:</strong> ${stage.name}</p>
+        <p><strong>Available Actions:</strong> ${(stage.actions || []).join(', ')}</p>
+      </div>
+      <div style="margin: 30px 0;">
+        <a href="${process.env.CLIENT_URL}/applications/${workflow.applicationId}/forms/${workflow.formId}/submissions" 
+           style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          View Submission
+        </a>
+      </div>
+      <p>Best regards,<br>The No-Code System</p>
+    </div>
+  `;
+
+  const emailPromises = recipients.map(recipient => 
+    sendEmail({
+      to: recipient,
+      subject,
+      html,
+    })
+  );
+
+  return await Promise.allSettled(emailPromises);
+};
+
+// Send a reminder that a workflow stage deadline is near, or notice that it has passed
+export const sendWorkflowDeadlineNotification = async (workflow, submission, stage, deadline, overdue, recipients) => {
+  const subject = overdue
+    ? `Overdue: ${workflow.name} - ${stage.name}`
+    : `Reminder: ${workflow.name} - ${stage.name}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: ${overdue ? '#dc2626' : '#2563eb'};">${overdue ? 'Workflow Stage Overdue' : 'Workflow Deadline Approaching'}</h2>
+      <p>Submission <strong>${submission.submissionId}</strong> ${overdue ? 'has passed' : 'is approaching'} its deadline at stage <strong>${stage.name}</strong>.</p>
+      <div style="background-color: #f3f4f6; padding: 20px; border-radius: 6px; margin: 20px 0;">
+        <p><strong>Workflow:</strong> ${workflow.name}</p>
+        <p><strong>Stage:</strong> ${stage.name}</p>
+        <p><strong>Deadline:</strong> ${deadline.toLocaleString()}</p>
+      </div>
+      <div style="margin: 30px 0;">
+        <a href="${process.env.CLIENT_URL}/applications/${workflow.applicationId}/forms/${workflow.formId}/submissions" 
+           style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          View Submission
+        </a>
+      </div>
+      <p>Best regards,<br>The No-Code System</p>
+    </div>
+  `;
+
+  const emailPromises = recipients.map(recipient => 
+    sendEmail({
+      to: recipient,
+      subject,
+      html,
+    })
+  );
+
+  return await Promise.allSettled(emailPromises);
+};
+
+// Send notification to a submitter that a reviewer sent their submission back for changes
+export const sendChangesRequestedNotification = async (workflow, submission, stage, comments, recipients) => {
+  const subject = `Changes Requested: ${workflow.name}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #d97706;">Changes Requested</h2>
+      <p>Your submission <strong>${submission.submissionId}</strong> was sent back for changes at stage <strong>${stage.name}</strong>.</p>
+      <div style="background-color: #f3f4f6; padding: 20px; border-radius: 6px; margin: 20px 0;">
+        <p><strong>Workflow:</strong> ${workflow.name}</p>
+        <p><strong>Comments:</strong> ${escapeHtml(comments)}</p>
+      </div>
+      <div style="margin: 30px 0;">
+        <a href="${process.env.CLIENT_URL}/applications/${workflow.applicationId}/forms/${workflow.formId}/fill?submission=${submission.submissionId}" 
+           style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Revise Submission
+        </a>
+      </div>
+      <p>Best regards,<br>The No-Code System</p>
+    </div>
+  `;
+
+  const emailPromises = recipients.map(recipient => 
+    sendEmail({
+      to: recipient,
+      subject,
+      html,
+    })
+  );
+
+  return await Promise.allSettled(emailPromises);
+};
+
 // Send report notification
-export const sendReportNotification = async (report, reportData, recipients) => {
+// attachment = { filename, content, contentType } of the rendered report
+// chart, when given, is an image attachment with a cid shown inline in the email
+export const sendReportNotification = async (report, reportData, recipients, attachment, chart) => {
   const subject = `Scheduled Report: ${report.name}`;
   const html = `
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -176,7 +284,9 @@ export const sendReportNotification = async (report, reportData, recipients) =>
         <h3>Report Summary:</h3>
         <p><strong>Total Records:</strong> ${reportData.total}</p>
         <p><strong>Generated At:</strong> ${new Date().toLocaleString()}</p>
+        ${attachment ? `<p><strong>Attached:</strong> ${attachment.filename}</p>` : ''}
       </div>
+      ${chart ? `<img src="cid:${chart.cid}" alt="${report.name} chart" style="max-width: 100%; border: 1px solid #e5e7eb; border-radius: 6px;" />` : ''}
       <div style="margin: 30px 0;">
         <a href="${process.env.CLIENT_URL}/applications/${report.applicationId}/reports/${report.reportId}" 
            style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
@@ -192,6 +302,7 @@ export const sendReportNotification = async (report, reportData, recipients) =>
       to: recipient,
       subject,
       html,
+      attachments: attachment || chart ? [attachment, chart].filter(Boolean) : undefined,
     })
   );
 
@@ -0,0 +1,86 @@
+// Field properties compared when a field exists on both sides of a diff
+const FIELD_PROPERTIES = [
+  'type',
+  'name',
+  'label',
+  'required',
+  'validation',
+  'options',
+  'permissions',
+  'conditionalLogic',
+  'fields',
+  'layout'
+];
+
+// Key order differs between Mongo documents and JSON columns, so compare sorted
+const stableStringify = (value) => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => key !== '_id' && value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const isEqual = (a, b) => stableStringify(a) === stableStringify(b);
+
+const toPlain = (value) => (value ? JSON.parse(JSON.stringify(value)) : value);
+
+const summarizeField = (field) => ({
+  id: field.id,
+  name: field.name,
+  label: field.label,
+  type: field.type
+});
+
+/**
+ * Compare two form snapshots ({ name, description, structure, settings }),
+ * matching fields by id. Either side can be a published revision or the
+ * current draft of the form.
+ */
+export function diffFormSnapshots(from, to) {
+  const fromFields = toPlain(from?.structure?.fields) || [];
+  const toFields = toPlain(to?.structure?.fields) || [];
+  const fromById = new Map(fromFields.map(field => [field.id, field]));
+  const toById = new Map(toFields.map(field => [field.id, field]));
+
+  const added = toFields.filter(field => !fromById.has(field.id)).map(summarizeField);
+  const removed = fromFields.filter(field => !toById.has(field.id)).map(summarizeField);
+
+  const changed = toFields
+    .filter(field => fromById.has(field.id))
+    .map(field => {
+      const previous = fromById.get(field.id);
+      const changes = FIELD_PROPERTIES
+        .filter(property => !isEqual(previous[property], field[property]))
+        .map(property => ({ property, from: previous[property] ?? null, to: field[property] ?? null }));
+      return { ...summarizeField(field), changes };
+    })
+    .filter(field => field.changes.length > 0);
+
+  const keptOrder = (fields, other) => fields.filter(field => other.has(field.id)).map(field => field.id);
+  const reordered = !isEqual(keptOrder(fromFields, toById), keptOrder(toFields, fromById));
+
+  const properties = [
+    ['name', from?.name, to?.name],
+    ['description', from?.description, to?.description],
+    ['layout', from?.structure?.layout, to?.structure?.layout],
+    ['sections', from?.structure?.sections, to?.structure?.sections],
+    ['multiPage', from?.structure?.multiPage, to?.structure?.multiPage],
+    ['settings', from?.settings, to?.settings]
+  ]
+    .filter(([, before, after]) => !isEqual(toPlain(before), toPlain(after)))
+    .map(([property, before, after]) => ({ property, from: toPlain(before) ?? null, to: toPlain(after) ?? null }));
+
+  return {
+    fields: { added, removed, changed },
+    reordered,
+    properties,
+    hasChanges: added.length > 0 || removed.length > 0 || changed.length > 0 || reordered || properties.length > 0
+  };
+}
@@ -0,0 +1,189 @@
+// Report charts drawn on the server: SVG for downloads and PNG for delivery
+// emails, since most mail clients do not show SVG. Charts take the data
+// buildReportChartData (shared/reportCharts.js) makes of a report, the same
+// data the client draws with recharts.
+
+import { REPORT_CHART_COLORS } from '../../shared/reportCharts.js';
+
+const FONT = 'Arial, Helvetica, sans-serif';
+const TEXT_COLOR = '#374151';
+const MUTED_COLOR = '#6b7280';
+const GRID_COLOR = '#e5e7eb';
+
+const XML_ENTITIES = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+const escapeXml = (text) => String(text).replace(/[&<>"']/g, char => XML_ENTITIES[char]);
+
+const truncate = (text, length) => (text.length > length ? `${text.slice(0, Math.max(length - 1, 1))}…` : text);
+
+const formatNumber = (value) => (Number.isFinite(value)
+  ? value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+  : '-');
+
+// Coordinates to two decimals keep the markup short
+const px = (value) => Math.round(value * 100) / 100;
+
+const colorOf = (index) => REPORT_CHART_COLORS[index % REPORT_CHART_COLORS.length];
+
+const text = (x, y, content, attributes = '') => `<text x="${x}" y="${y}" ${attributes}>${escapeXml(content)}</text>`;
+
+// Evenly spaced round values from the lowest value (or 0) up to the highest (or 0)
+const axisTicks = (values) => {
+  const numbers = values.filter(Number.isFinite);
+  const min = Math.min(0, ...numbers);
+  const max = Math.max(0, ...numbers);
+  const rough = (max - min || 1) / 5;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map(multiple => multiple * magnitude).find(candidate => candidate >= rough);
+  const first = Math.floor(min / step) * step;
+  const count = Math.max(1, Math.ceil((max - first) / step));
+  return Array.from({ length: count + 1 }, (_, index) => Number((first + index * step).toPrecision(12)));
+};
+
+const renderLegend = (names, box) => {
+  const width = Math.floor(box.width / Math.max(names.length, 1));
+  return names.map((name, index) => {
+    const x = box.x + index * width;
+    return `<rect x="${x}" y="${box.y - 9}" width="10" height="10" fill="${colorOf(index)}"/>` +
+      text(x + 14, box.y, truncate(name, Math.floor((width - 18) / 6)), `font-size="11" fill="${TEXT_COLOR}"`);
+  }).join('');
+};
+
+// Bars, lines or areas over a category axis, with a value axis on the left
+const renderCartesian = (chart, box) => {
+  const { type, categories, series } = chart;
+  const plot = { x: box.x + 48, y: box.y + 8, width: box.width - 48, height: box.height - 32 };
+  const ticks = axisTicks(series.flatMap(item => item.values));
+  const low = ticks[0];
+  const high = ticks[ticks.length - 1];
+  const y = (value) => px(plot.y + plot.height - ((value - low) / (high - low)) * plot.height);
+  const band = plot.width / Math.max(categories.length, 1);
+  const center = (index) => px(plot.x + band * (index + 0.5));
+  const parts = [];
+
+  ticks.forEach(tick => {
+    parts.push(`<line x1="${plot.x}" x2="${plot.x + plot.width}" y1="${y(tick)}" y2="${y(tick)}" stroke="${GRID_COLOR}"/>`);
+    parts.push(text(plot.x - 6, y(tick) + 4, formatNumber(tick), `font-size="11" fill="${MUTED_COLOR}" text-anchor="end"`));
+  });
+
+  categories.forEach((category, index) => {
+    parts.push(text(center(index), plot.y + plot.height + 16, truncate(category, Math.max(Math.floor(band / 7), 3)),
+      `font-size="11" fill="${MUTED_COLOR}" text-anchor="middle"`));
+  });
+
+  if (type === 'bar') {
+    const barWidth = px((band * 0.8) / Math.max(series.length, 1));
+    series.forEach((item, seriesIndex) => {
+      item.values.forEach((value, index) => {
+        if (!Number.isFinite(value)) return;
+        const x = px(plot.x + band * index + band * 0.1 + barWidth * seriesIndex);
+        const top = y(Math.max(value, 0));
+        parts.push(`<rect x="${x}" y="${top}" width="${barWidth}" height="${px(Math.abs(y(value) - y(0)))}" fill="${colorOf(seriesIndex)}"/>`);
+      });
+    });
+  } else {
+    series.forEach((item, seriesIndex) => {
+      // Categories without a value leave a gap in the line
+      const points = item.values
+        .map((value, index) => (Number.isFinite(value) ? [center(index), y(value)] : null))
+        .filter(Boolean);
+      if (points.length === 0) return;
+
+      const path = points.map(([x, pointY]) => `${x},${pointY}`).join(' ');
+      if (type === 'area') {
+        const baseline = y(Math.max(low, 0));
+        parts.push(`<polygon points="${points[0][0]},${baseline} ${path} ${points[points.length - 1][0]},${baseline}" fill="${colorOf(seriesIndex)}" fill-opacity="0.3"/>`);
+      }
+      parts.push(`<polyline points="${path}" fill="none" stroke="${colorOf(seriesIndex)}" stroke-width="2"/>`);
+      points.forEach(([x, pointY]) => {
+        parts.push(`<circle cx="${x}" cy="${pointY}" r="3" fill="${colorOf(seriesIndex)}"/>`);
+      });
+    });
+  }
+
+  parts.push(`<line x1="${plot.x}" x2="${plot.x + plot.width}" y1="${y(0)}" y2="${y(0)}" stroke="${MUTED_COLOR}"/>`);
+  return parts.join('');
+};
+
+// Slices of the first series, with a legend of categories and shares on the right
+const renderPie = (chart, box) => {
+  const values = (chart.series[0]?.values || []).map(value => (Number.isFinite(value) && value > 0 ? value : 0));
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (total === 0) {
+    return text(box.x + box.width / 2, box.y + box.height / 2, 'No data', `font-size="14" fill="${MUTED_COLOR}" text-anchor="middle"`);
+  }
+
+  const radius = Math.min(box.height, box.width * 0.5) / 2;
+  const cx = box.x + radius;
+  const cy = box.y + box.height / 2;
+  const parts = [];
+  let angle = -Math.PI / 2;
+
+  values.forEach((value, index) => {
+    if (value === 0) return;
+    if (value === total) {
+      parts.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${colorOf(index)}"/>`);
+      return;
+    }
+    const end = angle + (value / total) * Math.PI * 2;
+    const large = end - angle > Math.PI ? 1 : 0;
+    parts.push(`<path d="M${cx},${cy} L${px(cx + radius * Math.cos(angle))},${px(cy + radius * Math.sin(angle))} ` +
+      `A${radius},${radius} 0 ${large} 1 ${px(cx + radius * Math.cos(end))},${px(cy + radius * Math.sin(end))} Z" ` +
+      `fill="${colorOf(index)}" stroke="#ffffff"/>`);
+    angle = end;
+  });
+
+  const legendX = cx + radius + 24;
+  const rows = Math.max(Math.floor(box.height / 18), 1);
+  const shown = chart.categories.length > rows ? rows - 1 : rows;
+  chart.categories.slice(0, shown).forEach((category, index) => {
+    const rowY = box.y + 14 + index * 18;
+    const share = `${Math.round((values[index] / total) * 100)}%`;
+    parts.push(`<rect x="${legendX}" y="${rowY - 9}" width="10" height="10" fill="${colorOf(index)}"/>`);
+    parts.push(text(legendX + 14, rowY, `${truncate(category, Math.floor((box.x + box.width - legendX - 60) / 6))} ${share}`,
+      `font-size="11" fill="${TEXT_COLOR}"`));
+  });
+  if (chart.categories.length > shown) {
+    parts.push(text(legendX, box.y + 14 + shown * 18, `and ${chart.categories.length - shown} more`, `font-size="11" fill="${MUTED_COLOR}"`));
+  }
+
+  return parts.join('');
+};
+
+const renderKpi = (chart, box) => [
+  text(box.x + box.width / 2, box.y + box.height / 2, formatNumber(chart.value),
+    `font-size="48" font-weight="bold" fill="${TEXT_COLOR}" text-anchor="middle"`),
+  text(box.x + box.width / 2, box.y + box.height / 2 + 28, chart.label, `font-size="14" fill="${MUTED_COLOR}" text-anchor="middle"`)
+].join('');
+
+// A chart as a standalone SVG document
+export const renderReportChartSvg = (chart, { width = 640, height = 360 } = {}) => {
+  const parts = [`<rect width="${width}" height="${height}" fill="#ffffff"/>`];
+  const top = chart.title ? 44 : 16;
+  if (chart.title) {
+    parts.push(text(16, 28, chart.title, `font-size="16" font-weight="bold" fill="${TEXT_COLOR}"`));
+  }
+
+  const legend = chart.type !== 'pie' && chart.type !== 'kpi' && chart.series.length > 1;
+  const box = { x: 16, y: top, width: width - 32, height: height - top - (legend ? 40 : 16) };
+
+  if (chart.type === 'kpi') {
+    parts.push(renderKpi(chart, box));
+  } else if (chart.type === 'pie') {
+    parts.push(renderPie(chart, box));
+  } else {
+    parts.push(renderCartesian(chart, box));
+  }
+  if (legend) {
+    parts.push(renderLegend(chart.series.map(item => item.name), { x: box.x + 48, y: height - 14, width: box.width - 48 }));
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">${parts.join('')}</svg>`;
+};
+
+// A chart as a PNG image. sharp is loaded on first use, so servers without
+// its native binary can still draw SVG.
+export const renderReportChartPng = async (chart, options) => {
+  const { default: sharp } = await import('sharp');
+  return sharp(Buffer.from(renderReportChartSvg(chart, options))).png().toBuffer();
+};
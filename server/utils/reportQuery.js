@@ -0,0 +1,480 @@
+// Report configurations compiled to database queries. compileReportQuery
+// reduces a report and its run-time filters to a backend-neutral spec, which
+// buildMongoReportPipelines and buildMySQLReportQueries turn into queries that
+// select, count, group, pivot and aggregate the same rows. Values are coerced the
+// same way on both sides: numbers are numeric JSON values or strings that
+// look like plain decimals, and anything else is left out of numeric work.
+// Group keys are values as text, with empty and missing values in one null
+// group.
+//
+// Every grouped query, from the report-wide aggregations to the pivot cells,
+// returns one row per group with its keys (k0, k1, ... in group order), count
+// and aggregations (agg0, agg1, ... in configured order).
+//
+// Filtering, sorting and grouping on a repeater's sub-fields need the
+// repeater in explode mode; dotted lookup columns are resolved per page.
+
+import {
+  REPORT_AGGREGATIONS,
+  isCompleteFilter,
+  filterOperands,
+  filterListValues,
+  filterBetweenValues,
+  isNumericValue,
+  normalizeSorting,
+  normalizeGrouping,
+  normalizePivot
+} from '../../shared/reportFilters.js';
+
+// Submission columns reports may refer to beside form data
+const META_FIELDS = {
+  _status: 'status',
+  _createdAt: 'createdAt'
+};
+
+const NUMERIC_PATTERN = '^-?[0-9]+([.][0-9]+)?$';
+const MONGO_NUMBER_TYPES = ['double', 'int', 'long', 'decimal'];
+const MYSQL_NUMBER_TYPES = "('INTEGER', 'UNSIGNED INTEGER', 'DOUBLE', 'DECIMAL')";
+
+const RANGE_OPERATORS = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' };
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const escapeLike = (text) => text.replace(/[\\%_]/g, '\\$&');
+
+// Stored values an equals filter matches: the text, and the number or
+// boolean it spells
+const equalityValues = (value) => {
+  const text = String(value ?? '');
+  const values = [text];
+  if (isNumericValue(text)) values.push(Number(text));
+  if (text === 'true' || text === 'false') values.push(text === 'true');
+  return values;
+};
+
+// Comparison bounds of a range filter as [operator, value] pairs
+const rangeBounds = ({ operator, value }) => {
+  if (operator === 'greater_than') return [['$gt', value]];
+  if (operator === 'less_than') return [['$lt', value]];
+
+  const [min, max] = filterBetweenValues(value);
+  return [['$gte', min], ['$lte', max]]
+    .filter(([, bound]) => bound !== undefined && bound !== null && bound !== '');
+};
+
+// Number fields compare numerically and other typed fields as text; untyped
+// filters compare numerically when every bound is a number
+const comparesNumerically = (condition) => (condition.type
+  ? condition.type === 'number'
+  : filterOperands(condition).every(isNumericValue));
+
+const metaValue = (field, value) => (field === '_createdAt' ? new Date(value) : value);
+
+const fieldRoot = (field) => field.split('.')[0];
+
+/**
+ * Reduce a report's configuration and run-time filters to the query spec
+ * both database builders take. Run-time filters are { status, dateRange,
+ * conditions }, where conditions are further filters (see
+ * shared/reportFilters.js) applied together with the saved ones.
+ */
+export const compileReportQuery = (report, filters = {}) => {
+  const {
+    filters: configFilters = [],
+    sorting,
+    grouping,
+    aggregations = [],
+    pivot,
+    repeater
+  } = report.configuration || {};
+
+  const conditions = [...configFilters, ...(Array.isArray(filters.conditions) ? filters.conditions : [])]
+    .filter(isCompleteFilter)
+    .map(({ field, type, operator, value }) => ({ field, type, operator, value }));
+
+  if (filters.status) {
+    conditions.push({ field: '_status', operator: 'equals', value: filters.status });
+  }
+  if (filters.dateRange) {
+    conditions.push({ field: '_createdAt', operator: 'between', value: [filters.dateRange.start, filters.dateRange.end] });
+  }
+
+  return {
+    formId: report.sourceForm,
+    applicationId: report.applicationId,
+    repeater: repeater?.mode === 'explode' && repeater.field ? repeater.field : null,
+    conditions,
+    sort: normalizeSorting(sorting),
+    // Reports saved before grouping could be switched off group when a field is set
+    groupBy: grouping?.enabled === false ? [] : normalizeGrouping(grouping),
+    aggregations: aggregations
+      .filter(aggregation => aggregation?.field && REPORT_AGGREGATIONS.includes(aggregation.operation))
+      .map(({ field, operation }) => ({ field, operation, key: `${field}_${operation}` })),
+    pivot: normalizePivot(pivot)
+  };
+};
+
+// MongoDB
+
+const mongoPath = (field) => META_FIELDS[field] || `data.${field}`;
+
+const mongoNumber = (path) => ({
+  $let: {
+    vars: { value: `$${path}` },
+    in: {
+      $switch: {
+        branches: [
+          { case: { $in: [{ $type: '$$value' }, MONGO_NUMBER_TYPES] }, then: { $toDouble: '$$value' } },
+          {
+            case: {
+              $and: [
+                { $eq: [{ $type: '$$value' }, 'string'] },
+                { $regexMatch: { input: '$$value', regex: NUMERIC_PATTERN } }
+              ]
+            },
+            then: { $toDouble: '$$value' }
+          }
+        ],
+        default: null
+      }
+    }
+  }
+});
+
+// Group keys are compared as text; empty and missing values share the null group
+const mongoGroupKey = (path) => ({
+  $let: {
+    vars: { key: { $convert: { input: `$${path}`, to: 'string', onError: null, onNull: null } } },
+    in: { $cond: [{ $eq: ['$$key', ''] }, null, '$$key'] }
+  }
+});
+
+// Missing, null, empty text or an empty list
+const mongoEmpty = (path) => ({
+  $or: [{ [path]: null }, { [path]: '' }, { [path]: { $size: 0 } }]
+});
+
+const mongoCondition = (condition) => {
+  const { field, operator, value } = condition;
+  const path = mongoPath(field);
+  const meta = Boolean(META_FIELDS[field]);
+
+  switch (operator) {
+    case 'equals':
+      return { [path]: { $in: meta ? [metaValue(field, value)] : equalityValues(value) } };
+    case 'not_equals':
+      return { [path]: { $nin: meta ? [metaValue(field, value)] : equalityValues(value) } };
+    case 'in':
+      return {
+        [path]: {
+          $in: meta
+            ? filterListValues(value).map(item => metaValue(field, item))
+            : filterListValues(value).flatMap(equalityValues)
+        }
+      };
+    case 'contains':
+      return { [path]: { $regex: escapeRegExp(String(value ?? '')), $options: 'i' } };
+    case 'is_empty':
+      return mongoEmpty(path);
+    case 'is_not_empty':
+      return { $nor: mongoEmpty(path).$or };
+    default:
+      break;
+  }
+
+  const bounds = rangeBounds(condition);
+  if (meta) {
+    return { [path]: Object.fromEntries(bounds.map(([op, bound]) => [op, metaValue(field, bound)])) };
+  }
+  if (comparesNumerically(condition)) {
+    const number = mongoNumber(path);
+    return {
+      $expr: {
+        $and: [
+          { $ne: [number, null] },
+          ...bounds.map(([op, bound]) => ({ [op]: [number, Number(bound)] }))
+        ]
+      }
+    };
+  }
+  // Text bounds (such as ISO dates) compare against text values only
+  return { [path]: Object.fromEntries(bounds.map(([op, bound]) => [op, String(bound)])) };
+};
+
+const mongoAccumulator = ({ field, operation }) => {
+  const path = mongoPath(field);
+  if (operation === 'count') {
+    return { $sum: { $cond: [{ $in: [{ $ifNull: [`$${path}`, null] }, [null, '']] }, 0, 1] } };
+  }
+  // Collects the distinct keys; mongoGrouped counts them
+  if (operation === 'distinct') {
+    return { $addToSet: mongoGroupKey(path) };
+  }
+  return { [`$${operation}`]: mongoNumber(path) };
+};
+
+// Stages grouping the rows by fields, or into one group without fields, with
+// the count and aggregations of each group
+const mongoGrouped = (fields, aggregations) => {
+  const distinct = aggregations
+    .map((aggregation, index) => (aggregation.operation === 'distinct' ? `agg${index}` : null))
+    .filter(Boolean);
+
+  return [
+    {
+      $group: {
+        _id: fields.length > 0
+          ? Object.fromEntries(fields.map((field, index) => [`k${index}`, mongoGroupKey(mongoPath(field))]))
+          : null,
+        count: { $sum: 1 },
+        ...Object.fromEntries(aggregations.map((aggregation, index) => [`agg${index}`, mongoAccumulator(aggregation)]))
+      }
+    },
+    ...(distinct.length > 0
+      ? [{ $set: Object.fromEntries(distinct.map(key => [key, { $size: { $setDifference: [`$${key}`, [null]] } }])) }]
+      : []),
+    ...(fields.length > 0
+      ? [{ $sort: Object.fromEntries(fields.map((_, index) => [`_id.k${index}`, 1])) }]
+      : [])
+  ];
+};
+
+/**
+ * Aggregation pipelines for the page of detail rows (submissions, unwound
+ * when a repeater is exploded; every row without a limit) and for a summary
+ * document faceted into total ([{ count }]) and, when configured, the
+ * grouped rows of aggregations (one group), groups (by the group-by fields)
+ * and the pivot: pivotCells (by row fields and column), pivotRows (by row
+ * fields), pivotColumns (by column) and pivotTotal (one group).
+ */
+export const buildMongoReportPipelines = (spec, { page = 1, limit } = {}) => {
+  const touchesRepeater = (field) => spec.repeater && fieldRoot(field) === spec.repeater;
+  const before = spec.conditions.filter(condition => !touchesRepeater(condition.field)).map(mongoCondition);
+  const after = spec.conditions.filter(condition => touchesRepeater(condition.field)).map(mongoCondition);
+
+  const pipeline = [{
+    $match: {
+      formId: spec.formId,
+      applicationId: spec.applicationId,
+      ...(before.length > 0 ? { $and: before } : {})
+    }
+  }];
+
+  if (spec.repeater) {
+    pipeline.push({
+      $unwind: { path: `$data.${spec.repeater}`, includeArrayIndex: '_rowIndex', preserveNullAndEmptyArrays: true }
+    });
+    if (after.length > 0) {
+      pipeline.push({ $match: { $and: after } });
+    }
+  }
+
+  // Groups stay together, then the configured order, then newest first
+  const sort = {};
+  spec.groupBy.forEach(field => {
+    sort[mongoPath(field)] = 1;
+  });
+  spec.sort.forEach(key => {
+    sort[mongoPath(key.field)] ??= key.direction === 'asc' ? 1 : -1;
+  });
+  sort.createdAt ??= -1;
+  sort.submissionId = 1;
+  if (spec.repeater) sort._rowIndex = 1;
+
+  const facets = {
+    total: [{ $count: 'count' }]
+  };
+
+  if (spec.aggregations.length > 0) {
+    facets.aggregations = mongoGrouped([], spec.aggregations);
+  }
+
+  if (spec.groupBy.length > 0) {
+    facets.groups = mongoGrouped(spec.groupBy, spec.aggregations);
+  }
+
+  if (spec.pivot) {
+    const { rows, column, measure } = spec.pivot;
+    facets.pivotCells = mongoGrouped([...rows, column], [measure]);
+    facets.pivotRows = mongoGrouped(rows, [measure]);
+    facets.pivotColumns = mongoGrouped([column], [measure]);
+    facets.pivotTotal = mongoGrouped([], [measure]);
+  }
+
+  return {
+    rows: [
+      ...pipeline,
+      { $sort: sort },
+      ...(limit ? [{ $skip: (page - 1) * limit }, { $limit: limit }] : [])
+    ],
+    summary: [...pipeline, { $facet: facets }]
+  };
+};
+
+// MySQL
+
+const jsonPath = (parts) => `$${parts.map(part => `."${part.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join('')}`;
+
+/**
+ * SELECT statements for the page of detail rows (id, rowIndex, rowData), the
+ * total (count), and when configured the grouped rows of aggregations,
+ * groups, pivotCells, pivotRows, pivotColumns and pivotTotal, as for
+ * buildMongoReportPipelines. `escape` quotes a string literal as
+ * sequelize.escape does; JSON paths are inlined because JSON_TABLE does not
+ * take parameters.
+ */
+export const buildMySQLReportQueries = (spec, { page = 1, limit } = {}, escape) => {
+  const replacements = [];
+  const param = (value) => {
+    replacements.push(value);
+    return '?';
+  };
+
+  const ref = (field) => {
+    if (META_FIELDS[field]) {
+      return { column: `s.${META_FIELDS[field]}` };
+    }
+    const [root, ...rest] = field.split('.');
+    return spec.repeater && root === spec.repeater
+      ? { json: 'r.rowData', path: escape(jsonPath(rest)) }
+      : { json: 's.data', path: escape(jsonPath([root, ...rest])) };
+  };
+  const value = (r) => r.column || `JSON_EXTRACT(${r.json}, ${r.path})`;
+  const text = (r) => r.column || `JSON_UNQUOTE(${value(r)})`;
+  const type = (r) => `JSON_TYPE(${value(r)})`;
+  const number = (r) => r.column || `(CASE WHEN ${type(r)} IN ${MYSQL_NUMBER_TYPES} OR (${type(r)} = 'STRING' AND ${text(r)} REGEXP '${NUMERIC_PATTERN}') THEN CAST(${text(r)} AS DOUBLE) END)`;
+  const present = (r) => (r.column
+    ? `(${r.column} IS NOT NULL AND ${r.column} <> '')`
+    : `(${value(r)} IS NOT NULL AND ${type(r)} <> 'NULL' AND ${text(r)} <> '')`);
+  const groupKey = (r) => (r.column
+    ? `NULLIF(${r.column}, '')`
+    : `NULLIF(CASE WHEN ${type(r)} IN ('OBJECT', 'ARRAY', 'NULL') THEN NULL ELSE ${text(r)} END, '')`);
+
+  const empty = (r) => (r.column
+    ? `(${r.column} IS NULL OR ${r.column} = '')`
+    : `(${value(r)} IS NULL OR ${type(r)} = 'NULL' OR (${type(r)} = 'STRING' AND ${text(r)} = '') OR (${type(r)} = 'ARRAY' AND JSON_LENGTH(${value(r)}) = 0))`);
+  // Like Mongo's $in, matches the value itself or any element of an array
+  const overlaps = (r, values) => `JSON_OVERLAPS(${value(r)}, CAST(${param(JSON.stringify(values))} AS JSON))`;
+
+  const condition = (c) => {
+    const r = ref(c.field);
+
+    switch (c.operator) {
+      case 'equals':
+        return r.column ? `${r.column} = ${param(metaValue(c.field, c.value))}` : overlaps(r, equalityValues(c.value));
+      case 'not_equals':
+        return r.column
+          ? `${r.column} <> ${param(metaValue(c.field, c.value))}`
+          : `(${value(r)} IS NULL OR NOT ${overlaps(r, equalityValues(c.value))})`;
+      case 'in':
+        return r.column
+          ? `${r.column} IN (${filterListValues(c.value).map(item => param(metaValue(c.field, item))).join(', ')})`
+          : overlaps(r, filterListValues(c.value).flatMap(equalityValues));
+      case 'contains': {
+        const like = param(`%${escapeLike(String(c.value ?? '').toLowerCase())}%`);
+        return r.column
+          ? `LOWER(${r.column}) LIKE ${like}`
+          : `(${type(r)} = 'STRING' AND LOWER(${text(r)}) LIKE ${like})`;
+      }
+      case 'is_empty':
+        return empty(r);
+      case 'is_not_empty':
+        return `NOT ${empty(r)}`;
+      default:
+        break;
+    }
+
+    const bounds = rangeBounds(c);
+    if (r.column) {
+      return bounds.map(([op, bound]) => `${r.column} ${RANGE_OPERATORS[op]} ${param(metaValue(c.field, bound))}`).join(' AND ');
+    }
+    if (comparesNumerically(c)) {
+      return `(${bounds.map(([op, bound]) => `${number(r)} ${RANGE_OPERATORS[op]} ${param(Number(bound))}`).join(' AND ')})`;
+    }
+    return `(${type(r)} = 'STRING' AND ${bounds.map(([op, bound]) => `${text(r)} ${RANGE_OPERATORS[op]} ${param(String(bound))}`).join(' AND ')})`;
+  };
+
+  const from = [
+    'FROM form_submissions s',
+    spec.repeater
+      ? `LEFT JOIN JSON_TABLE(s.data, ${escape(`${jsonPath([spec.repeater])}[*]`)} COLUMNS (rowIndex FOR ORDINALITY, rowData JSON PATH '$')) r ON TRUE`
+      : ''
+  ].filter(Boolean).join(' ');
+
+  const where = `WHERE ${[
+    `s.formId = ${param(spec.formId)}`,
+    `s.applicationId = ${param(spec.applicationId)}`,
+    ...spec.conditions.map(condition)
+  ].join(' AND ')}`;
+
+  const order = [];
+  spec.groupBy.forEach(field => {
+    order.push(`${value(ref(field))} ASC`);
+  });
+  spec.sort.forEach(key => {
+    order.push(`${value(ref(key.field))} ${key.direction === 'asc' ? 'ASC' : 'DESC'}`);
+  });
+  if (!spec.sort.some(key => key.field === '_createdAt')) order.push('s.createdAt DESC');
+  order.push('s.submissionId ASC');
+  if (spec.repeater) order.push('r.rowIndex ASC');
+
+  const queries = {
+    rows: {
+      sql: [
+        `SELECT s.id AS id, ${spec.repeater ? 'r.rowIndex AS rowIndex, r.rowData AS rowData' : 'NULL AS rowIndex, NULL AS rowData'}`,
+        from,
+        where,
+        `ORDER BY ${order.join(', ')}`,
+        limit ? `LIMIT ${Number(limit)} OFFSET ${(Number(page) - 1) * Number(limit)}` : ''
+      ].filter(Boolean).join(' '),
+      replacements
+    },
+    total: {
+      sql: `SELECT COUNT(*) AS count ${from} ${where}`,
+      replacements
+    }
+  };
+
+  const aggregate = ({ field, operation }) => {
+    const r = ref(field);
+    if (operation === 'count') return `SUM(CASE WHEN ${present(r)} THEN 1 ELSE 0 END)`;
+    if (operation === 'distinct') return `COUNT(DISTINCT ${groupKey(r)})`;
+    return `${operation.toUpperCase()}(${number(r)})`;
+  };
+
+  // The select lists take no parameters, so every grouped query shares the
+  // WHERE clause's replacements
+  const grouped = (fields, aggregations) => {
+    const keys = fields.map((_, index) => `k${index}`).join(', ');
+    return {
+      sql: [
+        `SELECT ${[
+          ...fields.map((field, index) => `${groupKey(ref(field))} AS k${index}`),
+          'COUNT(*) AS count',
+          ...aggregations.map((aggregation, index) => `${aggregate(aggregation)} AS agg${index}`)
+        ].join(', ')}`,
+        from,
+        where,
+        fields.length > 0 ? `GROUP BY ${keys} ORDER BY ${keys}` : ''
+      ].filter(Boolean).join(' '),
+      replacements
+    };
+  };
+
+  if (spec.aggregations.length > 0) {
+    queries.aggregations = grouped([], spec.aggregations);
+  }
+
+  if (spec.groupBy.length > 0) {
+    queries.groups = grouped(spec.groupBy, spec.aggregations);
+  }
+
+  if (spec.pivot) {
+    const { rows, column, measure } = spec.pivot;
+    queries.pivotCells = grouped([...rows, column], [measure]);
+    queries.pivotRows = grouped(rows, [measure]);
+    queries.pivotColumns = grouped([column], [measure]);
+    queries.pivotTotal = grouped([], [measure]);
+  }
+
+  return queries;
+};
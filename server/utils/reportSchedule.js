@@ -0,0 +1,112 @@
+import cronParser from 'cron-parser';
+
+export const REPORT_FREQUENCIES = ['daily', 'weekly', 'monthly', 'cron'];
+export const REPORT_FORMATS = ['csv', 'xlsx'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isValidTimezone = (timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Keep only the schedule settings a report stores, with their defaults
+export const normalizeReportSchedule = (schedule = {}) => ({
+  enabled: Boolean(schedule.enabled),
+  frequency: schedule.frequency || 'daily',
+  cron: schedule.frequency === 'cron' ? String(schedule.cron || '').trim() : undefined,
+  time: schedule.time || '08:00',
+  dayOfWeek: schedule.frequency === 'weekly' ? Number(schedule.dayOfWeek ?? 1) : undefined,
+  dayOfMonth: schedule.frequency === 'monthly' ? Number(schedule.dayOfMonth ?? 1) : undefined,
+  timezone: schedule.timezone || 'UTC',
+  format: schedule.format || 'csv',
+  recipients: [...new Set((schedule.recipients || []).map(email => String(email).trim()).filter(Boolean))]
+});
+
+// Cron expression a normalized schedule runs on
+export const scheduleToCron = (schedule) => {
+  if (schedule.frequency === 'cron') {
+    return schedule.cron;
+  }
+
+  const [hour, minute] = schedule.time.split(':').map(Number);
+  switch (schedule.frequency) {
+    case 'weekly':
+      return `${minute} ${hour} * * ${schedule.dayOfWeek}`;
+    case 'monthly':
+      return `${minute} ${hour} ${schedule.dayOfMonth} * *`;
+    default:
+      return `${minute} ${hour} * * *`;
+  }
+};
+
+// Problems with a normalized schedule; disabled schedules are not checked
+export const validateReportSchedule = (schedule) => {
+  const errors = [];
+  if (!schedule.enabled) {
+    return errors;
+  }
+
+  if (!REPORT_FREQUENCIES.includes(schedule.frequency)) {
+    errors.push(`Frequency must be one of ${REPORT_FREQUENCIES.join(', ')}`);
+  }
+  if (!REPORT_FORMATS.includes(schedule.format)) {
+    errors.push(`Format must be one of ${REPORT_FORMATS.join(', ')}`);
+  }
+  if (!isValidTimezone(schedule.timezone)) {
+    errors.push(`Unknown timezone "${schedule.timezone}"`);
+  }
+
+  if (schedule.frequency === 'cron') {
+    if (!schedule.cron) {
+      errors.push('A cron expression is required');
+    } else {
+      try {
+        cronParser.parseExpression(schedule.cron);
+      } catch (error) {
+        errors.push(`Invalid cron expression: ${error.message}`);
+      }
+    }
+  } else if (!TIME_PATTERN.test(schedule.time)) {
+    errors.push('Time must be in HH:mm format');
+  }
+
+  if (schedule.frequency === 'weekly' && !(Number.isInteger(schedule.dayOfWeek) && schedule.dayOfWeek >= 0 && schedule.dayOfWeek <= 6)) {
+    errors.push('Day of week must be between 0 (Sunday) and 6 (Saturday)');
+  }
+  // Days after the 28th would skip shorter months
+  if (schedule.frequency === 'monthly' && !(Number.isInteger(schedule.dayOfMonth) && schedule.dayOfMonth >= 1 && schedule.dayOfMonth <= 28)) {
+    errors.push('Day of month must be between 1 and 28');
+  }
+
+  if (schedule.recipients.length === 0) {
+    errors.push('At least one recipient is required');
+  }
+  const invalid = schedule.recipients.filter(email => !EMAIL_PATTERN.test(email));
+  if (invalid.length > 0) {
+    errors.push(`Invalid recipient email: ${invalid.join(', ')}`);
+  }
+
+  return errors;
+};
+
+// Next delivery time of a valid, enabled schedule, or null
+export const getNextRunAt = (schedule, from = new Date()) => {
+  if (!schedule?.enabled) {
+    return null;
+  }
+
+  try {
+    return cronParser.parseExpression(scheduleToCron(schedule), {
+      currentDate: from,
+      tz: schedule.timezone
+    }).next().toDate();
+  } catch {
+    return null;
+  }
+};
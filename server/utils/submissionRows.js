@@ -0,0 +1,109 @@
+import { LAYOUT_FIELD_TYPES, getRepeaterFields } from './submissionValidator.js';
+
+// Repeater rows can be exported two ways:
+//   flatten - one line per submission, rows spread over items[1].qty, items[2].qty, ...
+//   explode - one line per repeater row, with the submission's other values repeated
+export const REPEATER_MODES = ['flatten', 'explode'];
+
+const isLookupReference = (value) => Boolean(value && typeof value === 'object' && value.submissionId);
+
+// Render a stored value as a single cell
+export const formatCellValue = (value) => {
+  if (value === undefined || value === null) return '';
+  if (isLookupReference(value)) return value.label ?? value.submissionId;
+  if (Array.isArray(value)) return value.map(formatCellValue).join('; ');
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+};
+
+// Read a dotted path; arrays along the way (repeater rows) yield a list of values
+export const getPathValue = (data, path) => path.split('.').reduce((value, key) => {
+  if (Array.isArray(value)) {
+    return value.map(item => (item && typeof item === 'object' ? item[key] : undefined));
+  }
+  return value && typeof value === 'object' ? value[key] : undefined;
+}, data);
+
+// One copy of data per row of the given repeater, with the repeater value
+// replaced by that row; submissions without rows still produce one record
+export const explodeRepeaterRows = (data = {}, repeaterName) => {
+  const rows = Array.isArray(data[repeaterName]) ? data[repeaterName] : [];
+  if (rows.length === 0) {
+    return [{ ...data, [repeaterName]: {} }];
+  }
+  return rows.map((row, index) => ({ ...data, [repeaterName]: row, _rowIndex: index + 1 }));
+};
+
+const getValueFields = (fields = []) => fields.filter(field => !LAYOUT_FIELD_TYPES.includes(field.type));
+
+/**
+ * Build export headers and rows for submissions of a form. In explode mode
+ * the repeater named by `repeater` (or the first repeater) produces one line
+ * per row; every other repeater is flattened.
+ */
+export function buildSubmissionTable(structure, submissions, options = {}) {
+  const fields = getValueFields(structure?.fields);
+  const mode = REPEATER_MODES.includes(options.mode) ? options.mode : 'flatten';
+  const repeaters = fields.filter(field => field.type === 'repeater');
+  const exploded = mode === 'explode'
+    ? repeaters.find(field => field.name === options.repeater) || repeaters[0]
+    : null;
+
+  // Flattened repeaters need as many column groups as the longest row list
+  const maxRows = Object.fromEntries(repeaters.map(field => [
+    field.name,
+    Math.max(0, ...submissions.map(submission => {
+      const rows = (submission.data || {})[field.name];
+      return Array.isArray(rows) ? rows.length : 0;
+    }))
+  ]));
+
+  const columns = [];
+  fields.forEach(field => {
+    const subFields = getValueFields(getRepeaterFields(field));
+
+    if (exploded && field.name === exploded.name) {
+      columns.push({ header: `${field.name}.#`, read: data => data._rowIndex ?? '' });
+      subFields.forEach(sub => {
+        columns.push({ header: `${field.name}.${sub.name}`, read: data => data[field.name]?.[sub.name] });
+      });
+      return;
+    }
+
+    if (field.type === 'repeater') {
+      for (let index = 0; index < maxRows[field.name]; index++) {
+        subFields.forEach(sub => {
+          columns.push({
+            header: `${field.name}[${index + 1}].${sub.name}`,
+            read: data => data[field.name]?.[index]?.[sub.name]
+          });
+        });
+      }
+      return;
+    }
+
+    columns.push({ header: field.name, read: data => data[field.name] });
+  });
+
+  const rows = submissions.flatMap(submission => {
+    const data = submission.data || {};
+    const records = exploded ? explodeRepeaterRows(data, exploded.name) : [data];
+    return records.map(record => columns.map(column => formatCellValue(column.read(record))));
+  });
+
+  return {
+    headers: columns.map(column => column.header),
+    rows
+  };
+}
+
+const escapeCsvValue = (value) => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers, rows) => [
+  headers.map(escapeCsvValue).join(','),
+  ...rows.map(row => row.map(escapeCsvValue).join(','))
+].join('\n');
@@ -0,0 +1,434 @@
+import { getFieldStates } from '../../shared/conditionalLogic.js';
+import { computeFormulaValues } from '../../shared/formula.js';
+import { getSkippedFieldNames } from '../../shared/formPages.js';
+
+// Field types that only affect presentation and never carry a value
+export const LAYOUT_FIELD_TYPES = ['heading', 'divider', 'section', 'html'];
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TEL_REGEX = /^\+?[0-9\s\-().]{6,20}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const OBJECT_ID_REGEX = /^[0-9a-f]{24}$/i;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATA_IMAGE_REGEX = /^data:image\/(png|jpeg|svg\+xml);base64,/;
+
+export const isEmptyValue = (value) => (
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0)
+);
+
+// Sub-field definitions of a repeater, without layout-only fields
+export const getRepeaterFields = (field) => (
+  Array.isArray(field.fields) ? field.fields.filter(sub => !LAYOUT_FIELD_TYPES.includes(sub.type)) : []
+);
+
+export const isFileReference = (value) => (
+  typeof value === 'string' && (OBJECT_ID_REGEX.test(value) || UUID_REGEX.test(value))
+);
+
+const getFieldLabel = (field) => field.label || field.name;
+
+const getChoiceValues = (field) => {
+  const choices = field.options?.choices;
+  if (!Array.isArray(choices)) {
+    return null;
+  }
+  return choices.map(choice => (choice && typeof choice === 'object' ? choice.value : choice));
+};
+
+const parseDate = (value) => {
+  if (typeof value !== 'string' && !(value instanceof Date)) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Length and pattern rules shared by every string-valued field type
+function checkStringRules(field, value) {
+  const rules = field.validation || {};
+  const label = getFieldLabel(field);
+
+  if (typeof value !== 'string') {
+    return `${label} must be a string`;
+  }
+
+  if (rules.minLength !== undefined && value.length < rules.minLength) {
+    return `${label} must be at least ${rules.minLength} characters`;
+  }
+
+  if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+    return `${label} must be at most ${rules.maxLength} characters`;
+  }
+
+  if (rules.pattern) {
+    let regex;
+    try {
+      regex = new RegExp(rules.pattern);
+    } catch (error) {
+      return `${label} has an invalid validation pattern`;
+    }
+    if (!regex.test(value)) {
+      return rules.patternMessage || `${label} has an invalid format`;
+    }
+  }
+
+  return null;
+}
+
+function checkDateBounds(field, date) {
+  const rules = field.validation || {};
+  const label = getFieldLabel(field);
+  const minDate = rules.minDate ? parseDate(rules.minDate) : null;
+  const maxDate = rules.maxDate ? parseDate(rules.maxDate) : null;
+
+  if (minDate && date < minDate) {
+    return `${label} must be on or after ${rules.minDate}`;
+  }
+
+  if (maxDate && date > maxDate) {
+    return `${label} must be on or before ${rules.maxDate}`;
+  }
+
+  return null;
+}
+
+function checkChoices(field, values) {
+  const allowed = getChoiceValues(field);
+  if (!allowed) {
+    return null;
+  }
+
+  const invalid = values.filter(value => !allowed.includes(value));
+  if (invalid.length > 0) {
+    return `${getFieldLabel(field)} contains an invalid option: ${invalid.join(', ')}`;
+  }
+
+  return null;
+}
+
+// Validate and normalize a single non-empty value; returns { error } or { value }
+export function validateFieldValue(field, value) {
+  const rules = field.validation || {};
+  const label = getFieldLabel(field);
+
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+    case 'password': {
+      const error = checkStringRules(field, value);
+      return error ? { error } : { value };
+    }
+
+    case 'email': {
+      const error = checkStringRules(field, value);
+      if (error) return { error };
+      if (!EMAIL_REGEX.test(value)) {
+        return { error: `${label} must be a valid email address` };
+      }
+      return { value: value.trim().toLowerCase() };
+    }
+
+    case 'url': {
+      const error = checkStringRules(field, value);
+      if (error) return { error };
+      try {
+        const url = new URL(value);
+        if (!['http:', 'https:'].includes(url.protocol)) {
+          return { error: `${label} must be an http or https URL` };
+        }
+      } catch (err) {
+        return { error: `${label} must be a valid URL` };
+      }
+      return { value };
+    }
+
+    case 'tel': {
+      const error = checkStringRules(field, value);
+      if (error) return { error };
+      if (!TEL_REGEX.test(value)) {
+        return { error: `${label} must be a valid phone number` };
+      }
+      return { value };
+    }
+
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        return { error: `${label} must be a number` };
+      }
+      if (rules.integer && !Number.isInteger(number)) {
+        return { error: `${label} must be a whole number` };
+      }
+      if (rules.min !== undefined && number < rules.min) {
+        return { error: `${label} must be at least ${rules.min}` };
+      }
+      if (rules.max !== undefined && number > rules.max) {
+        return { error: `${label} must be at most ${rules.max}` };
+      }
+      return { value: number };
+    }
+
+    case 'select':
+    case 'radio': {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return { error: `${label} must be a single option` };
+      }
+      const error = checkChoices(field, [value]);
+      return error ? { error } : { value };
+    }
+
+    case 'multiselect':
+    case 'checkbox': {
+      // A checkbox without choices is a single boolean toggle
+      if (field.type === 'checkbox' && !getChoiceValues(field)) {
+        if (typeof value === 'boolean') return { value };
+        if (value === 'true' || value === 'false') return { value: value === 'true' };
+        return { error: `${label} must be true or false` };
+      }
+
+      const values = Array.isArray(value) ? value : [value];
+      const error = checkChoices(field, values);
+      if (error) return { error };
+      if (rules.minSelections !== undefined && values.length < rules.minSelections) {
+        return { error: `${label} requires at least ${rules.minSelections} selections` };
+      }
+      if (rules.maxSelections !== undefined && values.length > rules.maxSelections) {
+        return { error: `${label} allows at most ${rules.maxSelections} selections` };
+      }
+      return { value: values };
+    }
+
+    case 'date':
+    case 'datetime': {
+      const date = parseDate(value);
+      if (!date) {
+        return { error: `${label} must be a valid ${field.type === 'date' ? 'date' : 'date and time'}` };
+      }
+      const error = checkDateBounds(field, date);
+      return error ? { error } : { value };
+    }
+
+    case 'time': {
+      if (typeof value !== 'string' || !TIME_REGEX.test(value)) {
+        return { error: `${label} must be a valid time (HH:MM)` };
+      }
+      return { value };
+    }
+
+    case 'daterange': {
+      const start = parseDate(value?.start);
+      const end = parseDate(value?.end);
+      if (!start || !end) {
+        return { error: `${label} must have a valid start and end date` };
+      }
+      if (start > end) {
+        return { error: `${label} start date must be before the end date` };
+      }
+      const error = checkDateBounds(field, start) || checkDateBounds(field, end);
+      return error ? { error } : { value: { start: value.start, end: value.end } };
+    }
+
+    case 'file':
+    case 'image': {
+      const files = Array.isArray(value) ? value : [value];
+      if (!files.every(isFileReference)) {
+        return { error: `${label} must reference uploaded files` };
+      }
+      const maxFiles = rules.maxFiles || (rules.multiple ? undefined : 1);
+      if (maxFiles !== undefined && files.length > maxFiles) {
+        return { error: `${label} allows at most ${maxFiles} file(s)` };
+      }
+      return { value: Array.isArray(value) ? files : value };
+    }
+
+    case 'signature': {
+      if (isFileReference(value) || (typeof value === 'string' && DATA_IMAGE_REGEX.test(value))) {
+        return { value };
+      }
+      return { error: `${label} must be a signature image` };
+    }
+
+    case 'location': {
+      if (typeof value === 'string') {
+        return { value };
+      }
+      const lat = Number(value?.lat);
+      const lng = Number(value?.lng);
+      if (!Number.isFinite(lat) || !Number.isFinite(lng) ||
+          Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return { error: `${label} must be a valid location` };
+      }
+      return { value: { ...value, lat, lng } };
+    }
+
+    case 'lookup': {
+      // Stored as a reference to the source submission; value and label are
+      // filled in from that submission once the reference is resolved
+      const submissionId = typeof value === 'string' ? value : value?.submissionId;
+      if (typeof submissionId !== 'string' || submissionId.trim() === '') {
+        return { error: `${label} must reference a submission` };
+      }
+      return { value: { submissionId } };
+    }
+
+    case 'repeater': {
+      if (!Array.isArray(value)) {
+        return { error: `${label} must be a list of rows` };
+      }
+      if (rules.minRows !== undefined && value.length < rules.minRows) {
+        return { error: `${label} requires at least ${rules.minRows} rows` };
+      }
+      if (rules.maxRows !== undefined && value.length > rules.maxRows) {
+        return { error: `${label} allows at most ${rules.maxRows} rows` };
+      }
+      return { value };
+    }
+
+    default:
+      return { value };
+  }
+}
+
+// Drafts may be incomplete, so completeness rules are only checked on submit
+const withoutCompletenessRules = (field) => (
+  field.type === 'repeater' && field.validation?.minRows !== undefined
+    ? { ...field, validation: { ...field.validation, minRows: undefined } }
+    : field
+);
+
+// Validate a list of fields against one data object. Repeater rows recurse
+// into this with their sub-fields, so each row gets its own conditional
+// logic and formula scope; prefix turns field names into paths like items[0].qty
+function validateFields(fields, data, prefix = '', options = {}) {
+  const { partial = false, skipped = new Set() } = options;
+  const fieldNames = new Set(fields.map(field => field.name));
+  const errors = [];
+  const sanitized = {};
+  const fileReferences = [];
+  const lookupReferences = [];
+  const pathOf = (name) => `${prefix}${name}`;
+
+  Object.keys(data).forEach(key => {
+    if (!fieldNames.has(key)) {
+      errors.push({ field: pathOf(key), message: `Unknown field: ${key}`, value: data[key] });
+    }
+  });
+
+  const states = getFieldStates(fields, computeFormulaValues(fields, data));
+
+  fields.forEach(field => {
+    const value = data[field.name];
+    const state = states[field.name];
+    const path = pathOf(field.name);
+
+    if (!state.visible || skipped.has(field.name) || field.type === 'formula') {
+      return;
+    }
+
+    if (isEmptyValue(value)) {
+      if (state.required && !partial) {
+        errors.push({ field: path, message: `${getFieldLabel(field)} is required`, value });
+      }
+      return;
+    }
+
+    const result = validateFieldValue(partial ? withoutCompletenessRules(field) : field, value);
+    if (result.error) {
+      errors.push({ field: path, message: result.error, value });
+      return;
+    }
+
+    if (field.type === 'repeater') {
+      const subFields = getRepeaterFields(field);
+      sanitized[field.name] = result.value.map((row, index) => {
+        const rowPath = `${path}[${index}]`;
+        if (!row || typeof row !== 'object' || Array.isArray(row)) {
+          errors.push({ field: rowPath, message: `${getFieldLabel(field)} row ${index + 1} must be an object`, value: row });
+          return {};
+        }
+        const rowResult = validateFields(subFields, row, `${rowPath}.`, { partial });
+        errors.push(...rowResult.errors);
+        fileReferences.push(...rowResult.fileReferences);
+        lookupReferences.push(...rowResult.lookupReferences);
+        return rowResult.data;
+      });
+      return;
+    }
+
+    sanitized[field.name] = result.value;
+
+    if (['file', 'image', 'signature'].includes(field.type)) {
+      [].concat(result.value).filter(isFileReference).forEach(fileId => {
+        fileReferences.push({ field: path, fileId });
+      });
+    }
+
+    // target is the sanitized object the resolved reference is written back into
+    if (field.type === 'lookup') {
+      lookupReferences.push({
+        field: path,
+        submissionId: result.value.submissionId,
+        definition: field,
+        target: sanitized
+      });
+    }
+  });
+
+  const computed = computeFormulaValues(fields, sanitized);
+  fields
+    .filter(field => field.type === 'formula' && states[field.name].visible && !skipped.has(field.name))
+    .forEach(field => {
+      if (computed[field.name] !== null && computed[field.name] !== undefined) {
+        sanitized[field.name] = computed[field.name];
+      }
+    });
+
+  return {
+    errors,
+    data: sanitized,
+    fileReferences,
+    lookupReferences
+  };
+}
+
+/**
+ * Validate submission data against a form structure.
+ * Fields hidden by conditional logic are skipped and stripped from the
+ * stored data, and rule-driven requiredness replaces the static flag.
+ * Formula values sent by the client are ignored and recomputed from the
+ * sanitized data. Repeater rows are validated against the repeater's
+ * sub-fields.
+ * Returns errors in the same { field, message, value } shape as the
+ * express-validator middleware, the sanitized data and any file ids
+ * that the caller still has to resolve against the File collection, plus
+ * the lookup references it has to resolve against their source forms.
+ * Fields on pages skipped by a multi-page form are dropped the same way as
+ * hidden fields. With options.partial (drafts) required fields may be left
+ * empty, but any value that is present must still be valid.
+ */
+export function validateSubmissionData(structure, data = {}, options = {}) {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return {
+      errors: [{ field: 'data', message: 'Form data must be an object', value: data }],
+      data: {},
+      fileReferences: [],
+      lookupReferences: []
+    };
+  }
+
+  const fields = (structure?.fields || []).filter(field => !LAYOUT_FIELD_TYPES.includes(field.type));
+  const skipped = new Set(getSkippedFieldNames(structure, computeFormulaValues(fields, data)));
+  const pageData = Object.fromEntries(Object.entries(data).filter(([key]) => !skipped.has(key)));
+  return validateFields(fields, pageData, '', { partial: Boolean(options.partial), skipped });
+}
+
+export const createSubmissionValidationError = (errors) => {
+  const error = new Error('Validation failed');
+  error.name = 'SubmissionValidationError';
+  error.statusCode = 400;
+  error.errors = errors;
+  return error;
+};
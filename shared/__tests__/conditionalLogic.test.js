@@ -0,0 +1,161 @@
+import {
+  evaluateCondition,
+  evaluateGroup,
+  getFieldStates,
+  validateConditionalLogic,
+  filterVisibleValues
+} from '../conditionalLogic.js';
+
+const when = (field, operator, value) => ({ field, operator, value });
+
+describe('evaluateCondition', () => {
+  it('compares equality loosely across strings and numbers', () => {
+    expect(evaluateCondition(when('age', 'equals', '30'), { age: 30 })).toBe(true);
+    expect(evaluateCondition(when('age', 'not_equals', 30), { age: 31 })).toBe(true);
+    expect(evaluateCondition(when('age', 'equals', 30), {})).toBe(false);
+    expect(evaluateCondition(when('tags', 'equals', 'b'), { tags: ['a', 'b'] })).toBe(true);
+    expect(evaluateCondition(when('tags', 'not_equals', 'b'), { tags: ['a', 'b'] })).toBe(false);
+  });
+
+  it('matches contains case-insensitively in text and by item in lists', () => {
+    expect(evaluateCondition(when('note', 'contains', 'URGENT'), { note: 'this is urgent' })).toBe(true);
+    expect(evaluateCondition(when('note', 'not_contains', 'later'), { note: 'this is urgent' })).toBe(true);
+    expect(evaluateCondition(when('tags', 'contains', 2), { tags: ['1', '2'] })).toBe(true);
+    expect(evaluateCondition(when('count', 'contains', 1), { count: 10 })).toBe(false);
+  });
+
+  it('orders numbers numerically and ISO dates chronologically', () => {
+    expect(evaluateCondition(when('n', 'gt', '9'), { n: '10' })).toBe(true);
+    expect(evaluateCondition(when('n', 'gte', 10), { n: 10 })).toBe(true);
+    expect(evaluateCondition(when('n', 'lt', 10), { n: 10 })).toBe(false);
+    expect(evaluateCondition(when('n', 'lte', 10), { n: 10 })).toBe(true);
+    expect(evaluateCondition(when('d', 'gt', '2024-01-31'), { d: '2024-02-01' })).toBe(true);
+    expect(evaluateCondition(when('d', 'lt', '2024-01-31'), { d: '2024-02-01' })).toBe(false);
+  });
+
+  it('never orders empty values or values of different kinds', () => {
+    expect(evaluateCondition(when('n', 'gt', 0), { n: '' })).toBe(false);
+    expect(evaluateCondition(when('n', 'lt', 0), {})).toBe(false);
+    expect(evaluateCondition(when('n', 'gt', 5), { n: 'abc' })).toBe(false);
+  });
+
+  it('checks membership against lists and comma separated text', () => {
+    expect(evaluateCondition(when('c', 'in', 'red, green'), { c: 'green' })).toBe(true);
+    expect(evaluateCondition(when('c', 'in', ['red']), { c: ['blue', 'red'] })).toBe(true);
+    expect(evaluateCondition(when('c', 'not_in', ['red', 'green']), { c: 'blue' })).toBe(true);
+    expect(evaluateCondition(when('c', 'in', ['red']), {})).toBe(false);
+  });
+
+  it('treats blank text and empty lists as empty', () => {
+    expect(evaluateCondition(when('a', 'empty'), { a: '  ' })).toBe(true);
+    expect(evaluateCondition(when('a', 'empty'), { a: [] })).toBe(true);
+    expect(evaluateCondition(when('a', 'empty'), { a: 0 })).toBe(false);
+    expect(evaluateCondition(when('a', 'not_empty'), { a: false })).toBe(true);
+  });
+
+  it('fails unknown operators and conditions without a field', () => {
+    expect(evaluateCondition(when('a', 'like', 'x'), { a: 'x' })).toBe(false);
+    expect(evaluateCondition({ operator: 'empty' }, {})).toBe(false);
+  });
+});
+
+describe('evaluateGroup', () => {
+  const values = { a: 1, b: 2 };
+
+  it('ands conditions by default and ors them with match any', () => {
+    const conditions = [when('a', 'equals', 1), when('b', 'equals', 3)];
+    expect(evaluateGroup({ conditions }, values)).toBe(false);
+    expect(evaluateGroup({ match: 'any', conditions }, values)).toBe(true);
+  });
+
+  it('evaluates nested groups and matches empty groups', () => {
+    const group = {
+      match: 'all',
+      conditions: [
+        when('a', 'equals', 1),
+        { match: 'any', conditions: [when('b', 'equals', 3), when('b', 'gt', 1)] }
+      ]
+    };
+    expect(evaluateGroup(group, values)).toBe(true);
+    expect(evaluateGroup({ conditions: [] }, values)).toBe(true);
+    expect(evaluateGroup(undefined, values)).toBe(true);
+  });
+});
+
+describe('getFieldStates', () => {
+  const rule = (action, ...conditions) => ({ action, when: { conditions } });
+
+  it('resolves visibility, requirement and disabling from rules', () => {
+    const fields = [
+      { name: 'type', type: 'select' },
+      { name: 'company', type: 'text', required: true, conditionalLogic: { rules: [rule('show', when('type', 'equals', 'business'))] } },
+      { name: 'vat', type: 'text', conditionalLogic: { rules: [rule('require', when('type', 'equals', 'business'))] } },
+      { name: 'locked', type: 'text', required: true, conditionalLogic: { rules: [rule('disable', when('type', 'not_empty'))] } }
+    ];
+
+    expect(getFieldStates(fields, { type: 'personal' })).toEqual({
+      type: { visible: true, required: false, disabled: false },
+      company: { visible: false, required: false, disabled: false },
+      vat: { visible: true, required: false, disabled: false },
+      locked: { visible: true, required: false, disabled: true }
+    });
+    expect(getFieldStates(fields, { type: 'business' }).company).toEqual({ visible: true, required: true, disabled: false });
+    expect(getFieldStates(fields, { type: 'business' }).vat.required).toBe(true);
+  });
+
+  it('lets hide win over show', () => {
+    const fields = [
+      { name: 'a', type: 'text' },
+      { name: 'b', type: 'text', conditionalLogic: { rules: [rule('show', when('a', 'not_empty')), rule('hide', when('a', 'equals', 'x'))] } }
+    ];
+    expect(getFieldStates(fields, { a: 'y' }).b.visible).toBe(true);
+    expect(getFieldStates(fields, { a: 'x' }).b.visible).toBe(false);
+  });
+
+  it('hides fields whose rules depend on a hidden field', () => {
+    const fields = [
+      { name: 'a', type: 'checkbox' },
+      { name: 'b', type: 'text', conditionalLogic: { rules: [rule('show', when('a', 'equals', true))] } },
+      { name: 'c', type: 'text', conditionalLogic: { rules: [rule('show', when('b', 'not_empty'))] } }
+    ];
+
+    const states = getFieldStates(fields, { a: false, b: 'stale' });
+    expect(states.b.visible).toBe(false);
+    expect(states.c.visible).toBe(false);
+    expect(filterVisibleValues({ a: false, b: 'stale', c: 'x' }, states)).toEqual({ a: false });
+  });
+});
+
+describe('validateConditionalLogic', () => {
+  it('accepts well-formed rules', () => {
+    const fields = [
+      { name: 'a', type: 'text' },
+      { name: 'b', type: 'text', conditionalLogic: { rules: [{ action: 'show', when: { match: 'any', conditions: [when('a', 'empty')] } }] } }
+    ];
+    expect(validateConditionalLogic(fields)).toEqual([]);
+  });
+
+  it('reports bad actions, matches, operators and field references', () => {
+    const fields = [
+      { name: 'a', type: 'text' },
+      {
+        name: 'b',
+        type: 'text',
+        conditionalLogic: {
+          rules: [
+            { action: 'explode', when: { conditions: [when('a', 'equals', 1)] } },
+            { action: 'show', when: { match: 'some', conditions: [when('missing', 'equals', 1), { conditions: [when('b', 'like', 1)] }] } }
+          ]
+        }
+      }
+    ];
+
+    expect(validateConditionalLogic(fields)).toEqual([
+      'b: rules[0] has invalid action "explode"',
+      'b: rules[1].when has invalid match "some"',
+      'b: rules[1].when.conditions[0] references unknown field "missing"',
+      'b: rules[1].when.conditions[1].conditions[0] cannot reference the field itself',
+      'b: rules[1].when.conditions[1].conditions[0] has invalid operator "like"'
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  parseFormula,
+  evaluateFormula,
+  getFormulaDependencies,
+  computeFormulaValues,
+  validateFormulas
+} from '../formula.js';
+
+const formula = (name, expression, options = {}) => ({ name, type: 'formula', options: { expression, ...options } });
+
+describe('evaluateFormula', () => {
+  it('follows operator precedence', () => {
+    expect(evaluateFormula('1 + 2 * 3')).toBe(7);
+    expect(evaluateFormula('(1 + 2) * 3')).toBe(9);
+    expect(evaluateFormula('-2 ^ 2')).toBe(-4);
+    expect(evaluateFormula('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateFormula('1 < 2 AND NOT (3 = 4)')).toBe(true);
+  });
+
+  it('reads plain, braced and repeater references', () => {
+    const values = { price: '4', 'unit count': 3, items: [{ amount: 2 }, { amount: '5' }, {}] };
+    expect(evaluateFormula('price * {unit count}', values)).toBe(12);
+    expect(evaluateFormula('SUM(items.amount)', values)).toBe(7);
+    expect(evaluateFormula('COUNT(items.amount)', values)).toBe(2);
+    expect(evaluateFormula('missing', values)).toBeNull();
+  });
+
+  it('returns null rather than infinity for division by zero', () => {
+    expect(evaluateFormula('1 / 0')).toBeNull();
+    expect(evaluateFormula('5 % 0')).toBeNull();
+    expect(evaluateFormula('COALESCE(a / b, 0)', { a: 1, b: 0 })).toBe(0);
+  });
+
+  it('only evaluates the branch IF takes', () => {
+    expect(evaluateFormula('IF(x > 0, "pos", NOPE())', { x: 1 })).toBe('pos');
+    expect(() => evaluateFormula('IF(x > 0, "pos", NOPE())', { x: -1 })).toThrow('Unknown function "NOPE"');
+  });
+
+  it('concatenates text and rounds numbers', () => {
+    expect(evaluateFormula('first & " " & UPPER(last)', { first: 'Ada', last: 'Lovelace' })).toBe('Ada LOVELACE');
+    expect(evaluateFormula('"n" + 1')).toBe('n1');
+    expect(evaluateFormula('ROUND(2.345, 2)')).toBe(2.35);
+  });
+});
+
+describe('DATEDIFF', () => {
+  const start = '2024-01-31T12:00:00Z';
+
+  it('counts whole days by default', () => {
+    expect(evaluateFormula('DATEDIFF(end, start)', { start, end: '2024-02-03T11:00:00Z' })).toBe(2);
+    expect(evaluateFormula('DATEDIFF(end, start)', { start, end: '2024-01-28T12:00:00Z' })).toBe(-3);
+  });
+
+  it('supports minute, hour and week units in any case', () => {
+    const end = '2024-02-14T18:30:00Z';
+    expect(evaluateFormula('DATEDIFF(end, start, "minutes")', { start, end })).toBe(14 * 24 * 60 + 6 * 60 + 30);
+    expect(evaluateFormula('DATEDIFF(end, start, "Hours")', { start, end })).toBe(14 * 24 + 6);
+    expect(evaluateFormula('DATEDIFF(end, start, "WEEKS")', { start, end })).toBe(2);
+  });
+
+  it('counts calendar months and years, not elapsed 30-day periods', () => {
+    expect(evaluateFormula('DATEDIFF(end, start, "months")', { start, end: '2024-02-29T12:00:00Z' })).toBe(0);
+    expect(evaluateFormula('DATEDIFF(end, start, "months")', { start, end: '2024-03-31T12:00:00Z' })).toBe(2);
+    expect(evaluateFormula('DATEDIFF(end, start, "years")', { start, end: '2026-01-30T12:00:00Z' })).toBe(1);
+    expect(evaluateFormula('DATEDIFF(end, start, "years")', { start, end: '2026-01-31T12:00:00Z' })).toBe(2);
+  });
+
+  it('yields null for missing dates and rejects unknown units', () => {
+    expect(evaluateFormula('DATEDIFF(end, start)', { start })).toBeNull();
+    expect(evaluateFormula('DATEDIFF(end, start)', { start, end: 'not a date' })).toBeNull();
+    expect(() => evaluateFormula('DATEDIFF(end, start, "fortnights")', { start, end: start }))
+      .toThrow('Unknown DATEDIFF unit "fortnights"');
+  });
+});
+
+describe('parseFormula', () => {
+  it('rejects malformed expressions', () => {
+    expect(() => parseFormula('')).toThrow('Formula expression is empty');
+    expect(() => parseFormula('1 +')).toThrow('Unexpected end of expression');
+    expect(() => parseFormula('"open')).toThrow('Unterminated string literal');
+    expect(() => parseFormula('{open')).toThrow('Unterminated field reference');
+    expect(() => parseFormula('1 2')).toThrow('Unexpected token "2"');
+    expect(() => parseFormula('a $ b')).toThrow('Unexpected character "$" at position 2');
+    expect(() => parseFormula('('.repeat(60) + '1' + ')'.repeat(60))).toThrow('Expression is nested too deeply');
+  });
+
+  it('lists the root fields an expression reads', () => {
+    expect(getFormulaDependencies('IF(a > b, items.amount, {c d})').sort()).toEqual(['a', 'b', 'c d', 'items']);
+  });
+});
+
+describe('computeFormulaValues', () => {
+  it('computes formulas after the formulas they read and applies decimals', () => {
+    const fields = [
+      formula('total', 'subtotal * 1.2', { decimals: 2 }),
+      formula('subtotal', 'qty * price'),
+      { name: 'qty', type: 'number' },
+      { name: 'price', type: 'number' }
+    ];
+    expect(computeFormulaValues(fields, { qty: 3, price: 1.111, total: 99 })).toEqual({
+      qty: 3,
+      price: 1.111,
+      subtotal: 3.333,
+      total: 4
+    });
+  });
+
+  it('sets formulas that fail to null', () => {
+    const fields = [formula('bad', 'DATEDIFF(a, b, "eons")'), formula('broken', '1 +')];
+    expect(computeFormulaValues(fields, { a: '2024-01-01', b: '2024-01-02' })).toMatchObject({ bad: null, broken: null });
+  });
+});
+
+describe('validateFormulas', () => {
+  it('accepts formulas over known fields', () => {
+    expect(validateFormulas([{ name: 'a', type: 'number' }, formula('b', 'a * 2'), formula('c', 'b + a')])).toEqual([]);
+  });
+
+  it('reports syntax errors and unknown references', () => {
+    expect(validateFormulas([formula('a', 'ghost + 1'), formula('b', '1 +')])).toEqual([
+      'a: formula references unknown field "ghost"',
+      'b: Unexpected end of expression'
+    ]);
+  });
+
+  it('detects dependency cycles, including self references', () => {
+    const fields = [
+      formula('a', 'b + 1'),
+      formula('b', 'c * 2'),
+      formula('c', 'a - 1'),
+      formula('d', 'd + 1'),
+      formula('e', 'a + b')
+    ];
+    expect(validateFormulas(fields)).toEqual([
+      'a: formula dependency cycle a -> b -> c -> a',
+      'd: formula dependency cycle d -> d'
+    ]);
+  });
+});
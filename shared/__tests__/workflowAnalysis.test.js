@@ -0,0 +1,132 @@
+import { analyzeWorkflow, simulateWorkflow } from '../workflowAnalysis.js';
+
+const stage = (id, actions = ['approve', 'reject'], extra = {}) => ({ id, name: id.toUpperCase(), actions, ...extra });
+const approveTo = (from, to, extra = {}) => ({ from, to, action: 'approve', ...extra });
+const bigAmount = { match: 'all', conditions: [{ field: 'amount', operator: 'gt', value: 1000 }] };
+
+describe('analyzeWorkflow', () => {
+  it('accepts a workflow every submission can leave', () => {
+    const workflow = {
+      stages: [stage('review'), stage('director')],
+      transitions: [approveTo('review', 'director', { condition: bigAmount })]
+    };
+    expect(analyzeWorkflow(workflow, ['amount'])).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports loops that submissions can never leave', () => {
+    const workflow = {
+      stages: [stage('a', ['approve']), stage('b', ['approve']), stage('c', ['approve'])],
+      transitions: [approveTo('a', 'b'), approveTo('b', 'a'), approveTo('c', 'c')]
+    };
+    expect(analyzeWorkflow(workflow).errors).toEqual([
+      'Stages "A", "B" form a loop that submissions can never leave',
+      'Stages "C" form a loop that submissions can never leave'
+    ]);
+  });
+
+  it('does not report a loop with a way out', () => {
+    const workflow = {
+      stages: [stage('a', ['approve']), stage('b', ['approve', 'reject'])],
+      transitions: [approveTo('a', 'b'), approveTo('b', 'a')]
+    };
+    expect(analyzeWorkflow(workflow).errors).toEqual([]);
+  });
+
+  it('reports stages without actions and stages that only lead into them', () => {
+    const workflow = {
+      stages: [stage('intake', ['approve']), stage('limbo', []), stage('notes', ['comment'])],
+      transitions: [approveTo('intake', 'limbo'), { from: 'notes', to: 'intake', action: 'comment' }]
+    };
+    expect(analyzeWorkflow(workflow).errors).toEqual([
+      'Stage "INTAKE" has no exit: no path from it rejects or completes the submission',
+      'Stage "LIMBO" has no actions, so submissions there can never move on',
+      'Stage "NOTES" has no exit: no path from it rejects or completes the submission'
+    ]);
+  });
+
+  it('treats a conditional approve transition as a possible exit, also for stages leading back', () => {
+    const workflow = {
+      stages: [stage('a', ['approve']), stage('b', ['approve'])],
+      transitions: [approveTo('a', 'b', { condition: bigAmount }), approveTo('b', 'a', { isDefault: true })]
+    };
+    expect(analyzeWorkflow(workflow, ['amount']).errors).toEqual([]);
+
+    workflow.transitions.push(approveTo('a', 'b', { isDefault: true }));
+    expect(analyzeWorkflow(workflow, ['amount']).errors).toEqual([
+      'Stages "A", "B" form a loop that submissions can never leave'
+    ]);
+  });
+
+  it('warns about unreachable stages and rejects duplicate ids', () => {
+    const workflow = {
+      stages: [stage('a'), stage('orphan'), { ...stage('a'), name: 'Copy' }],
+      transitions: []
+    };
+    const { errors, warnings } = analyzeWorkflow(workflow);
+    expect(errors).toEqual(['Stage "Copy": id "a" is used by more than one stage']);
+    expect(warnings).toEqual(['Stage "ORPHAN" cannot be reached from the entry stage "A"']);
+  });
+
+  it('includes transition and stage condition errors', () => {
+    const workflow = {
+      stages: [stage('a', ['approve', 'reject'], { conditions: { conditions: [{ field: 'ghost', operator: 'equals', value: 1 }] } })],
+      transitions: [approveTo('a', 'z')]
+    };
+    expect(analyzeWorkflow(workflow, ['amount']).errors).toEqual([
+      'Transition 1 (a -> z): unknown stage "z"',
+      'Stage "A": conditions.conditions[0] references unknown field "ghost"'
+    ]);
+  });
+});
+
+describe('simulateWorkflow', () => {
+  const workflow = {
+    stages: [stage('review', ['approve', 'reject', 'request_changes']), stage('director'), stage('finance')],
+    transitions: [
+      approveTo('review', 'director', { condition: bigAmount }),
+      approveTo('review', 'finance', { isDefault: true })
+    ]
+  };
+
+  it('follows the transitions the submission data selects', () => {
+    const small = simulateWorkflow(workflow, { data: { amount: 10 } });
+    expect(small.outcome).toBe('approved');
+    expect(small.endStage).toBe('finance');
+    expect(small.steps.map(step => [step.stage, step.to, step.isDefault])).toEqual([
+      ['review', 'finance', true],
+      ['finance', null, false]
+    ]);
+
+    expect(simulateWorkflow(workflow, { data: { amount: 5000 } }).endStage).toBe('director');
+  });
+
+  it('stops where the chosen action rejects or returns the submission', () => {
+    expect(simulateWorkflow(workflow, { data: { amount: 5000 } }, { director: 'reject' }))
+      .toMatchObject({ outcome: 'rejected', endStage: 'director' });
+    expect(simulateWorkflow(workflow, {}, { review: 'request_changes' }))
+      .toMatchObject({ outcome: 'returned', endStage: 'review' });
+  });
+
+  it('reports loops and stages without actions', () => {
+    const loop = {
+      stages: [stage('a', ['approve']), stage('b', ['approve'])],
+      transitions: [approveTo('a', 'b'), approveTo('b', 'a')]
+    };
+    // The first visit to a is as a new submission, so the loop shows on returning to b
+    const result = simulateWorkflow(loop);
+    expect(result).toMatchObject({ outcome: 'loop', endStage: 'b' });
+    expect(result.steps.map(step => step.stage)).toEqual(['a', 'b', 'a']);
+    expect(simulateWorkflow({ stages: [stage('a', [])] })).toMatchObject({ outcome: 'stuck', endStage: 'a' });
+  });
+
+  it('skips stages whose conditions do not match with autoProgress', () => {
+    const skipping = {
+      stages: [stage('legal', ['approve'], { conditions: bigAmount }), stage('final')],
+      transitions: [approveTo('legal', 'final')],
+      settings: { autoProgress: true }
+    };
+    const result = simulateWorkflow(skipping, { data: { amount: 10 } });
+    expect(result.steps.map(step => [step.stage, step.skipped])).toEqual([['legal', true], ['final', false]]);
+    expect(simulateWorkflow(skipping, { data: { amount: 5000 } }).steps[0].skipped).toBe(false);
+  });
+});
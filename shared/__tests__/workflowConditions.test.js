@@ -0,0 +1,149 @@
+import {
+  buildConditionValues,
+  selectTransition,
+  isStageRequired,
+  validateWorkflowTransitions,
+  validateStageConditions
+} from '../workflowConditions.js';
+
+const condition = (field, operator, value) => ({ match: 'all', conditions: [{ field, operator, value }] });
+
+describe('buildConditionValues', () => {
+  it('flattens data, metadata, submitter and status', () => {
+    expect(buildConditionValues({
+      data: { amount: 10 },
+      metadata: { source: 'web' },
+      submitter: { id: 'u1', role: 'user' },
+      status: 'submitted'
+    })).toEqual({
+      amount: 10,
+      'metadata.source': 'web',
+      'submitter.id': 'u1',
+      'submitter.role': 'user',
+      'submission.status': 'submitted'
+    });
+    expect(buildConditionValues()).toEqual({ 'submitter.id': null, 'submitter.role': null, 'submission.status': null });
+  });
+});
+
+describe('selectTransition', () => {
+  const transitions = [
+    { from: 'review', to: 'rejected', action: 'reject' },
+    { from: 'review', to: 'director', action: 'approve', condition: condition('amount', 'gt', 1000) },
+    { from: 'review', to: 'done', action: 'approve', isDefault: true },
+    { from: 'review', to: 'finance', action: 'approve', condition: condition('submitter.role', 'equals', 'manager') }
+  ];
+
+  it('takes the first transition whose condition matches, in order', () => {
+    const values = buildConditionValues({ data: { amount: 5000 }, submitter: { role: 'manager' } });
+    expect(selectTransition(transitions, 'review', 'approve', values).to).toBe('director');
+  });
+
+  it('falls back to the default transition wherever it is listed', () => {
+    expect(selectTransition(transitions, 'review', 'approve', { amount: 10 }).to).toBe('done');
+    expect(selectTransition(transitions, 'review', 'approve', { amount: 10, 'submitter.role': 'manager' }).to).toBe('finance');
+  });
+
+  it('only follows transitions for the action taken, or for any action', () => {
+    expect(selectTransition(transitions, 'review', 'reject', {}).to).toBe('rejected');
+    expect(selectTransition(transitions, 'review', 'request_changes', {})).toBeNull();
+    expect(selectTransition([{ from: 'a', to: 'b' }], 'a', 'approve', {}).to).toBe('b');
+  });
+});
+
+describe('isStageRequired', () => {
+  it('requires stages without conditions and those whose conditions match', () => {
+    expect(isStageRequired({ id: 's' }, {})).toBe(true);
+    expect(isStageRequired({ id: 's', conditions: condition('amount', 'gte', 100) }, { amount: 100 })).toBe(true);
+    expect(isStageRequired({ id: 's', conditions: condition('amount', 'gte', 100) }, { amount: 99 })).toBe(false);
+  });
+});
+
+describe('validateWorkflowTransitions', () => {
+  const stages = [
+    { id: 'review', name: 'Review', actions: ['approve', 'reject'] },
+    { id: 'done', name: 'Done', actions: [] }
+  ];
+
+  it('accepts known stages, actions and fields', () => {
+    const workflow = {
+      stages,
+      transitions: [
+        { from: 'review', to: 'done', action: 'approve', condition: condition('metadata.channel', 'equals', 'web') },
+        { from: 'review', to: 'done', action: 'approve', isDefault: true }
+      ]
+    };
+    expect(validateWorkflowTransitions(workflow, ['amount'])).toEqual([]);
+  });
+
+  it('reports unknown stages and actions a stage does not offer', () => {
+    const workflow = {
+      stages,
+      transitions: [
+        { from: 'review', to: 'archive', action: 'approve' },
+        { from: 'review', to: 'done', action: 'escalate' }
+      ]
+    };
+    expect(validateWorkflowTransitions(workflow)).toEqual([
+      'Transition 1 (review -> archive): unknown stage "archive"',
+      'Transition 2 (review -> done): action "escalate" is not available on stage "Review"'
+    ]);
+  });
+
+  it('allows one unconditional default per stage and action', () => {
+    const workflow = {
+      stages,
+      transitions: [
+        { from: 'review', to: 'done', action: 'approve', isDefault: true, condition: condition('amount', 'gt', 1) },
+        { from: 'review', to: 'done', action: 'approve', isDefault: true }
+      ]
+    };
+    expect(validateWorkflowTransitions(workflow, ['amount'])).toEqual([
+      'Transition 1 (review -> done): a default transition cannot have a condition',
+      'Transition 2 (review -> done): only one default transition is allowed per stage and action'
+    ]);
+  });
+
+  it('checks condition fields, operators and values', () => {
+    const workflow = {
+      stages,
+      transitions: [{
+        from: 'review',
+        to: 'done',
+        condition: {
+          match: 'either',
+          conditions: [
+            { field: 'ghost', operator: 'equals', value: 1 },
+            { field: 'amount', operator: 'gt', value: '' },
+            { field: 'amount', operator: 'between', value: 1 },
+            { field: 'amount', operator: 'empty' }
+          ]
+        }
+      }]
+    };
+    expect(validateWorkflowTransitions(workflow, ['amount'])).toEqual([
+      'Transition 1 (review -> done): condition has invalid match "either"',
+      'Transition 1 (review -> done): condition.conditions[0] references unknown field "ghost"',
+      'Transition 1 (review -> done): condition.conditions[1] needs a value to compare with',
+      'Transition 1 (review -> done): condition.conditions[2] has invalid operator "between"'
+    ]);
+    expect(validateWorkflowTransitions(workflow)).not.toContain(
+      'Transition 1 (review -> done): condition.conditions[0] references unknown field "ghost"'
+    );
+  });
+});
+
+describe('validateStageConditions', () => {
+  it('checks stage conditions with the transition rules', () => {
+    const workflow = {
+      stages: [
+        { id: 'a', name: 'Legal', conditions: condition('amount', 'gt', 10) },
+        { id: 'b', name: 'Finance', conditions: { conditions: 'amount > 10' } },
+        { id: 'c', conditions: condition('submitter.role', 'in', ['admin']) }
+      ]
+    };
+    expect(validateStageConditions(workflow, ['amount'])).toEqual([
+      'Stage "Finance": conditions must contain a conditions array'
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+export type ConditionAction = 'show' | 'hide' | 'require' | 'disable';
+
+export type ConditionOperator =
+  | 'equals' | 'not_equals'
+  | 'contains' | 'not_contains'
+  | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'in' | 'not_in'
+  | 'empty' | 'not_empty';
+
+export interface Condition {
+  field: string;
+  operator: ConditionOperator;
+  value?: any;
+}
+
+export interface ConditionGroup {
+  match?: 'all' | 'any';
+  conditions: Array<Condition | ConditionGroup>;
+}
+
+export interface ConditionalRule {
+  action: ConditionAction;
+  when: ConditionGroup;
+}
+
+export interface ConditionalLogic {
+  rules?: ConditionalRule[];
+}
+
+export interface FieldState {
+  visible: boolean;
+  required: boolean;
+  disabled: boolean;
+}
+
+export interface ConditionalField {
+  name: string;
+  required?: boolean;
+  conditionalLogic?: ConditionalLogic | Record<string, never>;
+}
+
+export const CONDITION_ACTIONS: ConditionAction[];
+export const CONDITION_OPERATORS: ConditionOperator[];
+export const UNARY_OPERATORS: ConditionOperator[];
+
+export function evaluateCondition(condition: Condition, values?: Record<string, any>): boolean;
+export function evaluateGroup(group: ConditionGroup | undefined, values?: Record<string, any>): boolean;
+export function getFieldRules(field: ConditionalField): ConditionalRule[];
+export function filterVisibleValues(
+  values?: Record<string, any>,
+  states?: Record<string, FieldState>
+): Record<string, any>;
+export function getFieldStates(
+  fields?: ConditionalField[],
+  values?: Record<string, any>
+): Record<string, FieldState>;
+export function validateConditionalLogic(fields?: ConditionalField[]): string[];
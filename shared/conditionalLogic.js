@@ -0,0 +1,232 @@
+// shared/conditionalLogic.js
+// Conditional logic evaluator shared by the form builder preview and
+// server-side submission validation, so both agree on which fields apply.
+//
+// field.conditionalLogic = {
+//   rules: [{
+//     action: 'show' | 'hide' | 'require' | 'disable',
+//     when: { match: 'all' | 'any', conditions: [Condition | Group] }
+//   }]
+// }
+//
+// Condition = { field: <field name>, operator: <operator>, value?: any }
+// Group     = { match: 'all' | 'any', conditions: [Condition | Group] }
+
+export const CONDITION_ACTIONS = ['show', 'hide', 'require', 'disable'];
+
+export const CONDITION_OPERATORS = [
+  'equals', 'not_equals',
+  'contains', 'not_contains',
+  'gt', 'gte', 'lt', 'lte',
+  'in', 'not_in',
+  'empty', 'not_empty'
+];
+
+// Operators that compare against nothing but the field value itself
+export const UNARY_OPERATORS = ['empty', 'not_empty'];
+
+const isEmpty = (value) => (
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0)
+);
+
+const isGroup = (item) => item && Array.isArray(item.conditions);
+
+const looseEquals = (a, b) => {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) return false;
+  if (typeof a === 'object' || typeof b === 'object') return false;
+  return String(a) === String(b);
+};
+
+// Numbers compare numerically, ISO dates chronologically, anything else as text
+const toComparable = (value) => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const time = new Date(value).getTime();
+    if (!isNaN(time)) return time;
+  }
+  return value === undefined || value === null ? value : String(value);
+};
+
+const compare = (actual, expected, predicate) => {
+  if (isEmpty(actual) || isEmpty(expected)) return false;
+  const a = toComparable(actual);
+  const b = toComparable(expected);
+  if (typeof a !== typeof b) return false;
+  return predicate(a, b);
+};
+
+const toList = (value) => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split(',').map(item => item.trim());
+  return value === undefined || value === null ? [] : [value];
+};
+
+const contains = (actual, expected) => {
+  if (Array.isArray(actual)) {
+    return actual.some(item => looseEquals(item, expected));
+  }
+  if (typeof actual === 'string' && expected !== undefined && expected !== null) {
+    return actual.toLowerCase().includes(String(expected).toLowerCase());
+  }
+  return false;
+};
+
+const isIn = (actual, expected) => {
+  const list = toList(expected);
+  const values = Array.isArray(actual) ? actual : [actual];
+  return values.some(value => list.some(item => looseEquals(value, item)));
+};
+
+export function evaluateCondition(condition, values = {}) {
+  if (!condition || !condition.field) {
+    return false;
+  }
+
+  const actual = values[condition.field];
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return Array.isArray(actual) ? contains(actual, expected) : looseEquals(actual, expected);
+    case 'not_equals':
+      return Array.isArray(actual) ? !contains(actual, expected) : !looseEquals(actual, expected);
+    case 'contains':
+      return contains(actual, expected);
+    case 'not_contains':
+      return !contains(actual, expected);
+    case 'gt':
+      return compare(actual, expected, (a, b) => a > b);
+    case 'gte':
+      return compare(actual, expected, (a, b) => a >= b);
+    case 'lt':
+      return compare(actual, expected, (a, b) => a < b);
+    case 'lte':
+      return compare(actual, expected, (a, b) => a <= b);
+    case 'in':
+      return isIn(actual, expected);
+    case 'not_in':
+      return !isIn(actual, expected);
+    case 'empty':
+      return isEmpty(actual);
+    case 'not_empty':
+      return !isEmpty(actual);
+    default:
+      return false;
+  }
+}
+
+// An empty group always matches; 'any' is OR, anything else is AND
+export function evaluateGroup(group, values = {}) {
+  if (!group) return true;
+
+  const conditions = Array.isArray(group.conditions) ? group.conditions : [];
+  if (conditions.length === 0) return true;
+
+  const test = (item) => (isGroup(item) ? evaluateGroup(item, values) : evaluateCondition(item, values));
+  return group.match === 'any' ? conditions.some(test) : conditions.every(test);
+}
+
+export const getFieldRules = (field) => (
+  Array.isArray(field?.conditionalLogic?.rules) ? field.conditionalLogic.rules : []
+);
+
+// Drop the values of fields that are currently hidden
+export function filterVisibleValues(values = {}, states = {}) {
+  return Object.keys(values).reduce((result, key) => {
+    if (states[key]?.visible !== false) {
+      result[key] = values[key];
+    }
+    return result;
+  }, {});
+}
+
+/**
+ * Resolve { visible, required, disabled } for every field. Hidden fields
+ * are treated as empty when evaluating the rules of other fields, so the
+ * evaluation repeats until visibility stops changing.
+ */
+export function getFieldStates(fields = [], values = {}) {
+  let states = {};
+  let effectiveValues = values;
+
+  for (let pass = 0; pass <= fields.length; pass++) {
+    const nextStates = {};
+    let changed = false;
+
+    fields.forEach(field => {
+      const rules = getFieldRules(field);
+      const results = (action) => rules
+        .filter(rule => rule.action === action)
+        .map(rule => evaluateGroup(rule.when, effectiveValues));
+
+      const showResults = results('show');
+      const visible = (showResults.length === 0 || showResults.some(Boolean)) &&
+        !results('hide').some(Boolean);
+      const disabled = results('disable').some(Boolean);
+      const required = visible && !disabled &&
+        (Boolean(field.required) || results('require').some(Boolean));
+
+      nextStates[field.name] = { visible, required, disabled };
+
+      if (states[field.name]?.visible !== visible) {
+        changed = true;
+      }
+    });
+
+    states = nextStates;
+    if (!changed) break;
+    effectiveValues = filterVisibleValues(values, states);
+  }
+
+  return states;
+}
+
+// Static checks used when a form structure is saved or validated
+export function validateConditionalLogic(fields = []) {
+  const errors = [];
+  const fieldNames = new Set(fields.map(field => field.name));
+
+  const checkGroup = (field, group, path) => {
+    if (!group) return;
+    if (!isGroup(group)) {
+      errors.push(`${field.name}: ${path} must contain a conditions array`);
+      return;
+    }
+    if (group.match && !['all', 'any'].includes(group.match)) {
+      errors.push(`${field.name}: ${path} has invalid match "${group.match}"`);
+    }
+    group.conditions.forEach((item, index) => {
+      const itemPath = `${path}.conditions[${index}]`;
+      if (isGroup(item)) {
+        checkGroup(field, item, itemPath);
+        return;
+      }
+      if (!item?.field || !fieldNames.has(item.field)) {
+        errors.push(`${field.name}: ${itemPath} references unknown field "${item?.field}"`);
+      } else if (item.field === field.name) {
+        errors.push(`${field.name}: ${itemPath} cannot reference the field itself`);
+      }
+      if (!CONDITION_OPERATORS.includes(item?.operator)) {
+        errors.push(`${field.name}: ${itemPath} has invalid operator "${item?.operator}"`);
+      }
+    });
+  };
+
+  fields.forEach(field => {
+    getFieldRules(field).forEach((rule, index) => {
+      if (!CONDITION_ACTIONS.includes(rule.action)) {
+        errors.push(`${field.name}: rules[${index}] has invalid action "${rule.action}"`);
+      }
+      checkGroup(field, rule.when, `rules[${index}].when`);
+    });
+  });
+
+  return errors;
+}
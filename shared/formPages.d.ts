@@ -0,0 +1,47 @@
+import type { ConditionalLogic } from './conditionalLogic';
+
+export type PageAction = 'show' | 'hide';
+
+export interface PageField {
+  id: string;
+  name: string;
+  [key: string]: any;
+}
+
+export interface PageSection {
+  id: string;
+  title?: string;
+  description?: string;
+  fieldIds?: string[];
+  conditionalLogic?: ConditionalLogic | Record<string, never>;
+}
+
+export interface PagedStructure<F extends PageField = PageField> {
+  fields?: F[];
+  sections?: PageSection[];
+  multiPage?: boolean;
+}
+
+export interface FormPage<F extends PageField = PageField> {
+  id: string;
+  title: string;
+  description: string;
+  conditionalLogic: ConditionalLogic | Record<string, never>;
+  fields: F[];
+}
+
+export interface PageState {
+  visible: boolean;
+}
+
+export const PAGE_ACTIONS: PageAction[];
+export const LEADING_PAGE_ID: string;
+
+export function isMultiPage(structure: PagedStructure | undefined): boolean;
+export function getFormPages<F extends PageField>(structure: PagedStructure<F> | undefined): FormPage<F>[];
+export function getPageStates(
+  pages?: FormPage[],
+  values?: Record<string, any>
+): Record<string, PageState>;
+export function getSkippedFieldNames(structure: PagedStructure | undefined, values?: Record<string, any>): string[];
+export function validatePageLogic(structure: PagedStructure | undefined): string[];
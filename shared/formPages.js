@@ -0,0 +1,159 @@
+// shared/formPages.js
+// Multi-page (wizard) forms, shared by the form renderer and server-side
+// submission validation so both agree on which pages a submission skipped.
+//
+// structure.multiPage = true turns every entry of structure.sections into a
+// page:
+//
+//   { id, title, description?, fieldIds: [...], conditionalLogic? }
+//
+// Fields outside every section form a leading untitled page. A page's
+// conditionalLogic uses the field rule grammar, limited to the 'show' and
+// 'hide' actions, and may only reference fields on earlier pages. Fields on
+// a skipped page are treated like fields hidden by their own rules.
+
+import { CONDITION_OPERATORS, evaluateGroup, getFieldRules } from './conditionalLogic.js';
+
+export const PAGE_ACTIONS = ['show', 'hide'];
+
+// Id of the page holding fields that are not placed in any section
+export const LEADING_PAGE_ID = '_start';
+
+export const isMultiPage = (structure) => (
+  Boolean(structure?.multiPage) &&
+  Array.isArray(structure?.sections) &&
+  structure.sections.length > 0
+);
+
+/**
+ * Split a structure into pages of field definitions. Forms that are not
+ * multi-page come back as a single page holding every field.
+ */
+export function getFormPages(structure) {
+  const fields = Array.isArray(structure?.fields) ? structure.fields : [];
+  const leadingPage = (pageFields) => ({
+    id: LEADING_PAGE_ID,
+    title: '',
+    description: '',
+    conditionalLogic: {},
+    fields: pageFields
+  });
+
+  if (!isMultiPage(structure)) {
+    return [leadingPage(fields)];
+  }
+
+  const byId = new Map(fields.map(field => [field.id, field]));
+  const placed = new Set();
+  const pages = structure.sections.map(section => {
+    const pageFields = [];
+    (section.fieldIds || []).forEach(id => {
+      if (byId.has(id) && !placed.has(id)) {
+        placed.add(id);
+        pageFields.push(byId.get(id));
+      }
+    });
+    return {
+      id: section.id,
+      title: section.title || '',
+      description: section.description || '',
+      conditionalLogic: section.conditionalLogic || {},
+      fields: pageFields
+    };
+  });
+
+  const unplaced = fields.filter(field => !placed.has(field.id));
+  return unplaced.length > 0 ? [leadingPage(unplaced), ...pages] : pages;
+}
+
+const isPageVisible = (page, values) => {
+  const rules = getFieldRules(page);
+  const results = (action) => rules
+    .filter(rule => rule.action === action)
+    .map(rule => evaluateGroup(rule.when, values));
+
+  const showResults = results('show');
+  return (showResults.length === 0 || showResults.some(Boolean)) && !results('hide').some(Boolean);
+};
+
+/**
+ * Resolve { visible } for every page, in order. Values entered on a skipped
+ * page are ignored by the rules of the pages after it.
+ */
+export function getPageStates(pages = [], values = {}) {
+  const states = {};
+  const effectiveValues = { ...values };
+
+  pages.forEach(page => {
+    const visible = isPageVisible(page, effectiveValues);
+    states[page.id] = { visible };
+    if (!visible) {
+      page.fields.forEach(field => {
+        delete effectiveValues[field.name];
+      });
+    }
+  });
+
+  return states;
+}
+
+// Names of the fields on pages that the given values skip
+export function getSkippedFieldNames(structure, values = {}) {
+  if (!isMultiPage(structure)) {
+    return [];
+  }
+
+  const pages = getFormPages(structure);
+  const states = getPageStates(pages, values);
+  return pages
+    .filter(page => !states[page.id].visible)
+    .flatMap(page => page.fields.map(field => field.name));
+}
+
+// Static checks used when a form structure is saved or validated
+export function validatePageLogic(structure) {
+  if (!isMultiPage(structure)) {
+    return [];
+  }
+
+  const errors = [];
+  const allNames = new Set((structure.fields || []).map(field => field.name));
+  const earlierNames = new Set();
+
+  getFormPages(structure).forEach((page, pageIndex) => {
+    const label = page.title ? `Page "${page.title}"` : `Page ${pageIndex + 1}`;
+
+    const checkGroup = (group, path) => {
+      if (!group || !Array.isArray(group.conditions)) {
+        errors.push(`${label}: ${path} must contain a conditions array`);
+        return;
+      }
+      group.conditions.forEach((item, index) => {
+        const itemPath = `${path}.conditions[${index}]`;
+        if (item && Array.isArray(item.conditions)) {
+          checkGroup(item, itemPath);
+          return;
+        }
+        if (!item?.field || !allNames.has(item.field)) {
+          errors.push(`${label}: ${itemPath} references unknown field "${item?.field}"`);
+        } else if (!earlierNames.has(item.field)) {
+          errors.push(`${label}: ${itemPath} must reference a field on an earlier page`);
+        }
+        if (!CONDITION_OPERATORS.includes(item?.operator)) {
+          errors.push(`${label}: ${itemPath} has invalid operator "${item?.operator}"`);
+        }
+      });
+    };
+
+    getFieldRules(page).forEach((rule, index) => {
+      if (!PAGE_ACTIONS.includes(rule.action)) {
+        errors.push(`${label}: rules[${index}] has invalid action "${rule.action}"`);
+      }
+      checkGroup(rule.when, `rules[${index}].when`);
+    });
+
+    page.fields.forEach(field => earlierNames.add(field.name));
+  });
+
+  return errors;
+}
@@ -0,0 +1,29 @@
+export type FormulaNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'reference'; name: string }
+  | { type: 'member'; object: FormulaNode; property: string }
+  | { type: 'unary'; operator: string; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+export interface FormulaField {
+  name: string;
+  type: string;
+  options?: {
+    expression?: string;
+    decimals?: number | string;
+    [key: string]: any;
+  };
+}
+
+export const FORMULA_FUNCTIONS: string[];
+
+export function parseFormula(expression: string): FormulaNode;
+export function evaluateFormula(expression: string | FormulaNode, values?: Record<string, any>): any;
+export function getFormulaDependencies(expression: string | FormulaNode): string[];
+export function getFormulaExpression(field: FormulaField | undefined): string;
+export function computeFormulaValues(
+  fields?: FormulaField[],
+  values?: Record<string, any>
+): Record<string, any>;
+export function validateFormulas(fields?: FormulaField[]): string[];
@@ -0,0 +1,551 @@
+// shared/formula.js
+// Expression language for formula fields. Expressions are tokenized and
+// parsed into a small AST and evaluated by walking it, so nothing is ever
+// handed to eval/Function and only submission data is reachable.
+//
+// field.options = { expression: 'price * quantity', decimals: 2 }
+//
+// References:  field names (price) or braced names ({unit price}); rows of a
+//              repeater are reached with dot access (items.amount -> list)
+// Operators:   + - * / % ^  & (concat)  = != <> < <= > >=  AND OR NOT && || !
+// Functions:   IF, AND, OR, NOT, SUM, AVG, MIN, MAX, COUNT, ROUND, FLOOR, CEIL,
+//              ABS, CONCAT, UPPER, LOWER, TRIM, LEN, COALESCE, TODAY, NOW, DATEDIFF
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const KEYWORDS = {
+  AND: { type: 'operator', value: '&&' },
+  OR: { type: 'operator', value: '||' },
+  NOT: { type: 'operator', value: '!' },
+  TRUE: { type: 'literal', value: true },
+  FALSE: { type: 'literal', value: false },
+  NULL: { type: 'literal', value: null }
+};
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '&&', '||', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>', '!'];
+
+const formulaError = (message) => {
+  const error = new Error(message);
+  error.name = 'FormulaError';
+  return error;
+};
+
+function tokenize(expression) {
+  const tokens = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(expression[i + 1] || ''))) {
+      const match = expression.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      tokens.push({ type: 'literal', value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\' && i + 1 < expression.length) {
+          i++;
+        }
+        value += expression[i];
+        i++;
+      }
+      if (expression[i] !== char) {
+        throw formulaError('Unterminated string literal');
+      }
+      tokens.push({ type: 'literal', value });
+      i++;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = expression.indexOf('}', i);
+      if (end === -1) {
+        throw formulaError('Unterminated field reference');
+      }
+      tokens.push({ type: 'identifier', value: expression.slice(i + 1, end).trim() });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = expression.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+      const keyword = KEYWORDS[match[0].toUpperCase()];
+      tokens.push(keyword ? { ...keyword } : { type: 'identifier', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if ('(),.'.includes(char)) {
+      tokens.push({ type: char });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => expression.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    throw formulaError(`Unexpected character "${char}" at position ${i}`);
+  }
+
+  return tokens;
+}
+
+// Recursive descent parser; each level handles one precedence tier
+function parseTokens(tokens) {
+  let position = 0;
+  let depth = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const isOperator = (...values) => peek()?.type === 'operator' && values.includes(peek().value);
+  const expect = (type) => {
+    const token = next();
+    if (!token || token.type !== type) {
+      throw formulaError(`Expected "${type}"`);
+    }
+    return token;
+  };
+
+  const binary = (parseOperand, operators) => () => {
+    let left = parseOperand();
+    while (isOperator(...operators)) {
+      const operator = next().value;
+      left = { type: 'binary', operator, left, right: parseOperand() };
+    }
+    return left;
+  };
+
+  function parseExpression() {
+    if (++depth > MAX_DEPTH) {
+      throw formulaError('Expression is nested too deeply');
+    }
+    const node = parseOr();
+    depth--;
+    return node;
+  }
+
+  function parseUnary() {
+    if (isOperator('-', '+', '!')) {
+      const operator = next().value;
+      if (++depth > MAX_DEPTH) {
+        throw formulaError('Expression is nested too deeply');
+      }
+      const operand = parseUnary();
+      depth--;
+      return { type: 'unary', operator, operand };
+    }
+    return parsePower();
+  }
+
+  function parsePower() {
+    const base = parsePostfix();
+    if (isOperator('^')) {
+      next();
+      return { type: 'binary', operator: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  }
+
+  function parsePostfix() {
+    let node = parsePrimary();
+    while (peek()?.type === '.') {
+      next();
+      node = { type: 'member', object: node, property: expect('identifier').value };
+    }
+    return node;
+  }
+
+  function parsePrimary() {
+    const token = next();
+
+    if (!token) {
+      throw formulaError('Unexpected end of expression');
+    }
+
+    if (token.type === 'literal') {
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      if (peek()?.type === '(') {
+        next();
+        const args = [];
+        if (peek()?.type !== ')') {
+          args.push(parseExpression());
+          while (peek()?.type === ',') {
+            next();
+            args.push(parseExpression());
+          }
+        }
+        expect(')');
+        return { type: 'call', name: token.value.toUpperCase(), args };
+      }
+      return { type: 'reference', name: token.value };
+    }
+
+    if (token.type === '(') {
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+
+    throw formulaError(`Unexpected token "${token.value ?? token.type}"`);
+  }
+
+  const parseMultiplicative = binary(parseUnary, ['*', '/', '%']);
+  const parseAdditive = binary(parseMultiplicative, ['+', '-', '&']);
+  const parseComparison = binary(parseAdditive, ['=', '==', '!=', '<>', '<', '<=', '>', '>=']);
+  const parseAnd = binary(parseComparison, ['&&']);
+  const parseOr = binary(parseAnd, ['||']);
+
+  const ast = parseExpression();
+  if (position < tokens.length) {
+    throw formulaError(`Unexpected token "${peek().value ?? peek().type}"`);
+  }
+  return ast;
+}
+
+export function parseFormula(expression) {
+  if (typeof expression !== 'string' || expression.trim() === '') {
+    throw formulaError('Formula expression is empty');
+  }
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw formulaError(`Formula expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  return parseTokens(tokenize(expression));
+}
+
+const isBlank = (value) => value === undefined || value === null || value === '';
+
+const flatten = (values) => values.reduce(
+  (result, value) => result.concat(Array.isArray(value) ? flatten(value) : [value]),
+  []
+);
+
+const toNumber = (value) => {
+  if (isBlank(value)) return 0;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+const numbersOf = (args) => flatten(args)
+  .filter(value => !isBlank(value))
+  .map(toNumber)
+  .filter(value => !isNaN(value));
+
+const toText = (value) => (isBlank(value) ? '' : String(value));
+
+const toDate = (value) => {
+  if (isBlank(value)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const isNumeric = (value) => typeof value === 'number' ||
+  (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+
+const looseEquals = (a, b) => {
+  if (isNumeric(a) && isNumeric(b)) return Number(a) === Number(b);
+  return toText(a) === toText(b);
+};
+
+const compareValues = (a, b) => {
+  if (isNumeric(a) && isNumeric(b)) return Number(a) - Number(b);
+  return toText(a).localeCompare(toText(b));
+};
+
+const MONTH_UNITS = { months: 1, years: 12 };
+const TIME_UNITS = { minutes: 60 * 1000, hours: 60 * 60 * 1000, days: DAY_MS, weeks: 7 * DAY_MS };
+
+function dateDiff(end, start, unit = 'days') {
+  const endDate = toDate(end);
+  const startDate = toDate(start);
+  if (!endDate || !startDate) return null;
+
+  const normalized = String(unit).toLowerCase();
+  if (MONTH_UNITS[normalized]) {
+    let months = (endDate.getFullYear() - startDate.getFullYear()) * 12 +
+      (endDate.getMonth() - startDate.getMonth());
+    if (endDate.getDate() < startDate.getDate()) months--;
+    return Math.trunc(months / MONTH_UNITS[normalized]);
+  }
+  if (TIME_UNITS[normalized]) {
+    return Math.trunc((endDate - startDate) / TIME_UNITS[normalized]);
+  }
+  throw formulaError(`Unknown DATEDIFF unit "${unit}"`);
+}
+
+// Functions receive already-evaluated arguments, except the lazy ones below
+const FUNCTIONS = {
+  AND: (...args) => args.every(Boolean),
+  OR: (...args) => args.some(Boolean),
+  NOT: (value) => !value,
+  SUM: (...args) => numbersOf(args).reduce((a, b) => a + b, 0),
+  AVG: (...args) => {
+    const numbers = numbersOf(args);
+    return numbers.length > 0 ? numbers.reduce((a, b) => a + b, 0) / numbers.length : null;
+  },
+  MIN: (...args) => {
+    const numbers = numbersOf(args);
+    return numbers.length > 0 ? Math.min(...numbers) : null;
+  },
+  MAX: (...args) => {
+    const numbers = numbersOf(args);
+    return numbers.length > 0 ? Math.max(...numbers) : null;
+  },
+  COUNT: (...args) => flatten(args).filter(value => !isBlank(value)).length,
+  ROUND: (value, decimals = 0) => {
+    const factor = Math.pow(10, toNumber(decimals));
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  FLOOR: (value) => Math.floor(toNumber(value)),
+  CEIL: (value) => Math.ceil(toNumber(value)),
+  ABS: (value) => Math.abs(toNumber(value)),
+  CONCAT: (...args) => flatten(args).map(toText).join(''),
+  UPPER: (value) => toText(value).toUpperCase(),
+  LOWER: (value) => toText(value).toLowerCase(),
+  TRIM: (value) => toText(value).trim(),
+  LEN: (value) => (Array.isArray(value) ? value.length : toText(value).length),
+  COALESCE: (...args) => {
+    const found = args.find(value => !isBlank(value));
+    return found === undefined ? null : found;
+  },
+  TODAY: () => new Date().toISOString().slice(0, 10),
+  NOW: () => new Date().toISOString(),
+  DATEDIFF: dateDiff
+};
+
+export const FORMULA_FUNCTIONS = ['IF', ...Object.keys(FUNCTIONS)];
+
+const readProperty = (object, property) => {
+  if (Array.isArray(object)) {
+    return object.map(row => readProperty(row, property));
+  }
+  if (object && typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, property)) {
+    return object[property];
+  }
+  return undefined;
+};
+
+function evaluateNode(node, values) {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'reference':
+      return readProperty(values, node.name);
+
+    case 'member':
+      return readProperty(evaluateNode(node.object, values), node.property);
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, values);
+      if (node.operator === '!') return !operand;
+      if (node.operator === '-') return -toNumber(operand);
+      return toNumber(operand);
+    }
+
+    case 'binary': {
+      if (node.operator === '&&') {
+        return Boolean(evaluateNode(node.left, values)) && Boolean(evaluateNode(node.right, values));
+      }
+      if (node.operator === '||') {
+        return Boolean(evaluateNode(node.left, values)) || Boolean(evaluateNode(node.right, values));
+      }
+
+      const left = evaluateNode(node.left, values);
+      const right = evaluateNode(node.right, values);
+
+      switch (node.operator) {
+        case '+':
+          if ((typeof left === 'string' && !isNumeric(left)) || (typeof right === 'string' && !isNumeric(right))) {
+            return toText(left) + toText(right);
+          }
+          return toNumber(left) + toNumber(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case '/': return toNumber(right) === 0 ? null : toNumber(left) / toNumber(right);
+        case '%': return toNumber(right) === 0 ? null : toNumber(left) % toNumber(right);
+        case '^': return Math.pow(toNumber(left), toNumber(right));
+        case '&': return toText(left) + toText(right);
+        case '=':
+        case '==': return looseEquals(left, right);
+        case '!=':
+        case '<>': return !looseEquals(left, right);
+        case '<': return compareValues(left, right) < 0;
+        case '<=': return compareValues(left, right) <= 0;
+        case '>': return compareValues(left, right) > 0;
+        case '>=': return compareValues(left, right) >= 0;
+        default:
+          throw formulaError(`Unknown operator "${node.operator}"`);
+      }
+    }
+
+    case 'call': {
+      if (node.name === 'IF') {
+        const [condition, whenTrue, whenFalse] = node.args;
+        if (!condition) throw formulaError('IF requires a condition');
+        if (evaluateNode(condition, values)) {
+          return whenTrue ? evaluateNode(whenTrue, values) : null;
+        }
+        return whenFalse ? evaluateNode(whenFalse, values) : null;
+      }
+      const fn = FUNCTIONS[node.name];
+      if (!fn) {
+        throw formulaError(`Unknown function "${node.name}"`);
+      }
+      return fn(...node.args.map(arg => evaluateNode(arg, values)));
+    }
+
+    default:
+      throw formulaError(`Unknown expression node "${node.type}"`);
+  }
+}
+
+export function evaluateFormula(expression, values = {}) {
+  const ast = typeof expression === 'string' ? parseFormula(expression) : expression;
+  const result = evaluateNode(ast, values);
+  if (typeof result === 'number' && !Number.isFinite(result)) {
+    return null;
+  }
+  return result === undefined ? null : result;
+}
+
+// Root field names an expression reads (member access only adds its object)
+export function getFormulaDependencies(expression) {
+  const ast = typeof expression === 'string' ? parseFormula(expression) : expression;
+  const dependencies = new Set();
+
+  const visit = (node) => {
+    switch (node.type) {
+      case 'reference':
+        dependencies.add(node.name);
+        break;
+      case 'member':
+        visit(node.object);
+        break;
+      case 'unary':
+        visit(node.operand);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'call':
+        node.args.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(ast);
+  return [...dependencies];
+}
+
+export const getFormulaExpression = (field) => field?.options?.expression || '';
+
+const isFormulaField = (field) => field.type === 'formula';
+
+// Formula fields ordered so that every formula comes after the formulas it reads
+function orderFormulaFields(fields) {
+  const formulas = fields.filter(isFormulaField);
+  const byName = new Map(formulas.map(field => [field.name, field]));
+  const ordered = [];
+  const state = new Map();
+  const cycles = [];
+
+  const visit = (field, path) => {
+    if (state.get(field.name) === 'done') return;
+    if (state.get(field.name) === 'visiting') {
+      cycles.push([...path.slice(path.indexOf(field.name)), field.name]);
+      return;
+    }
+
+    state.set(field.name, 'visiting');
+    let dependencies = [];
+    try {
+      dependencies = getFormulaDependencies(getFormulaExpression(field));
+    } catch (error) {
+      dependencies = [];
+    }
+    dependencies
+      .filter(name => byName.has(name))
+      .forEach(name => visit(byName.get(name), [...path, field.name]));
+    state.set(field.name, 'done');
+    ordered.push(field);
+  };
+
+  formulas.forEach(field => visit(field, []));
+  return { ordered, cycles };
+}
+
+const roundResult = (field, value) => {
+  const decimals = field.options?.decimals;
+  if (typeof value === 'number' && decimals !== undefined && decimals !== null && decimals !== '') {
+    const factor = Math.pow(10, Number(decimals));
+    return Math.round(value * factor) / factor;
+  }
+  return value;
+};
+
+/**
+ * Return a copy of values with every formula field recomputed, in
+ * dependency order. Formulas that fail to parse or evaluate yield null.
+ */
+export function computeFormulaValues(fields = [], values = {}) {
+  const { ordered } = orderFormulaFields(fields);
+  const result = { ...values };
+
+  ordered.forEach(field => {
+    try {
+      result[field.name] = roundResult(field, evaluateFormula(getFormulaExpression(field), result));
+    } catch (error) {
+      result[field.name] = null;
+    }
+  });
+
+  return result;
+}
+
+// Static checks for /validate-structure: syntax, unknown references and cycles
+export function validateFormulas(fields = []) {
+  const errors = [];
+  const fieldNames = new Set(fields.map(field => field.name));
+
+  fields.filter(isFormulaField).forEach(field => {
+    const expression = getFormulaExpression(field);
+    try {
+      getFormulaDependencies(expression).forEach(name => {
+        if (!fieldNames.has(name)) {
+          errors.push(`${field.name}: formula references unknown field "${name}"`);
+        }
+      });
+    } catch (error) {
+      errors.push(`${field.name}: ${error.message}`);
+    }
+  });
+
+  orderFormulaFields(fields).cycles.forEach(cycle => {
+    errors.push(`${cycle[0]}: formula dependency cycle ${cycle.join(' -> ')}`);
+  });
+
+  return errors;
+}
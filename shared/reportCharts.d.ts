@@ -0,0 +1,38 @@
+export type ReportChartType = 'bar' | 'line' | 'area' | 'pie' | 'kpi';
+export type ReportChartSource = 'groups' | 'pivot';
+
+export interface ReportChart {
+  enabled: boolean;
+  type: ReportChartType;
+  title?: string;
+  source?: ReportChartSource;
+  measure?: string;
+}
+
+export interface ReportChartSeries {
+  name: string;
+  values: (number | null)[];
+}
+
+export type ReportChartData =
+  | {
+    type: Exclude<ReportChartType, 'kpi'>;
+    title: string;
+    categories: string[];
+    series: ReportChartSeries[];
+  }
+  | {
+    type: 'kpi';
+    title: string;
+    label: string;
+    value: number | null;
+  };
+
+export const REPORT_CHART_TYPES: ReportChartType[];
+export const REPORT_CHART_TYPE_LABELS: Record<ReportChartType, string>;
+export const REPORT_CHART_SOURCES: ReportChartSource[];
+export const REPORT_CHART_COLORS: string[];
+
+export function normalizeReportChart(chart?: Partial<ReportChart> | null): Required<Omit<ReportChart, 'enabled'>> | null;
+export function reportMeasureLabel(measure?: string): string;
+export function buildReportChartData(chart: Partial<ReportChart> | null | undefined, reportData: any): ReportChartData | null;
@@ -0,0 +1,109 @@
+// shared/reportCharts.js
+// Report charts, drawn with recharts by the report builder and reports list
+// and as SVG or PNG by the server for emailed reports
+// (server/utils/reportChart.js). Both draw what buildReportChartData makes of
+// the generated report data, so a chart looks the same everywhere.
+//
+// chart = { enabled, type, title, source, measure }
+//   type     bar | line | area | pie | kpi
+//   source   groups: a category per group of a grouped report, or pivot: a
+//            category per pivot row and a series per pivot column (pies show
+//            the row totals); kpi charts ignore it
+//   measure  count, or the <field>_<operation> key of one of the report's
+//            aggregations. Groups charts plot it per group and kpi charts
+//            show its report-wide value, count being the number of rows.
+//            Pivot charts plot the pivot's own measure.
+
+import { REPORT_AGGREGATION_LABELS } from './reportFilters.js';
+
+export const REPORT_CHART_TYPES = ['bar', 'line', 'area', 'pie', 'kpi'];
+
+export const REPORT_CHART_TYPE_LABELS = {
+  bar: 'Bar',
+  line: 'Line',
+  area: 'Area',
+  pie: 'Pie',
+  kpi: 'KPI number'
+};
+
+export const REPORT_CHART_SOURCES = ['groups', 'pivot'];
+
+export const REPORT_CHART_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#dc2626', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+// Chart settings of a saved report, or null when it has no chart
+export const normalizeReportChart = (chart) => {
+  if (!chart?.enabled || !REPORT_CHART_TYPES.includes(chart.type)) {
+    return null;
+  }
+  return {
+    type: chart.type,
+    title: chart.title || '',
+    source: REPORT_CHART_SOURCES.includes(chart.source) ? chart.source : 'groups',
+    measure: chart.measure || 'count'
+  };
+};
+
+// Label of a measure, such as "Sum of amount" for amount_sum
+export const reportMeasureLabel = (measure) => {
+  if (!measure || measure === 'count') {
+    return 'Rows';
+  }
+  const split = measure.lastIndexOf('_');
+  const operation = measure.slice(split + 1);
+  return REPORT_AGGREGATION_LABELS[operation]
+    ? `${REPORT_AGGREGATION_LABELS[operation]} of ${measure.slice(0, split)}`
+    : measure;
+};
+
+const categoryLabel = (keys) => keys.map(key => key ?? '(empty)').join(' / ');
+
+/**
+ * What a report's chart shows of its generated data: { type, title,
+ * categories, series: [{ name, values }] }, or { type, title, label, value }
+ * for kpi charts. Null when the report has no chart or the data lacks the
+ * groups, pivot or aggregation the chart is bound to.
+ */
+export const buildReportChartData = (chart, reportData) => {
+  const settings = normalizeReportChart(chart);
+  if (!settings || !reportData) {
+    return null;
+  }
+  const { type, title, source, measure } = settings;
+
+  if (type === 'kpi') {
+    const value = measure === 'count' ? reportData.total : reportData.aggregations?.[measure];
+    return value === undefined ? null : { type, title, label: reportMeasureLabel(measure), value };
+  }
+
+  if (source === 'pivot') {
+    const { pivot } = reportData;
+    if (!pivot) {
+      return null;
+    }
+    return {
+      type,
+      title,
+      categories: pivot.rows.map(row => categoryLabel(row.keys)),
+      series: type === 'pie'
+        ? [{ name: 'Total', values: pivot.rows.map(row => row.total) }]
+        : pivot.columns.map((column, index) => ({
+          name: categoryLabel([column]),
+          values: pivot.rows.map(row => row.values[index])
+        }))
+    };
+  }
+
+  const { groups, groupBy = [] } = reportData;
+  if (!groups || (measure !== 'count' && !(measure in (reportData.aggregations || {})))) {
+    return null;
+  }
+  return {
+    type,
+    title,
+    categories: groups.map(group => categoryLabel(groupBy.map(field => group.keys[field]))),
+    series: [{
+      name: reportMeasureLabel(measure),
+      values: groups.map(group => (measure === 'count' ? group.count : group.aggregations[measure]))
+    }]
+  };
+};
@@ -0,0 +1,61 @@
+export type ReportFilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'in'
+  | 'greater_than'
+  | 'less_than'
+  | 'between'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export type ReportFieldType = 'text' | 'number' | 'date' | 'boolean';
+
+export interface ReportFilter {
+  field: string;
+  type?: ReportFieldType;
+  operator: ReportFilterOperator;
+  value?: any;
+  label?: string;
+}
+
+export interface ReportSortKey {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export type ReportAggregationOperation = 'sum' | 'avg' | 'count' | 'min' | 'max' | 'distinct';
+
+export interface ReportGrouping {
+  enabled: boolean;
+  fields: string[];
+}
+
+export interface ReportPivot {
+  enabled?: boolean;
+  rows: string[];
+  column: string;
+  measure: {
+    field: string;
+    operation: ReportAggregationOperation;
+  };
+}
+
+export const REPORT_FILTER_OPERATORS: ReportFilterOperator[];
+export const REPORT_FILTER_OPERATOR_LABELS: Record<ReportFilterOperator, string>;
+export const REPORT_FIELD_OPERATORS: Record<ReportFieldType, ReportFilterOperator[]>;
+export const REPORT_AGGREGATIONS: ReportAggregationOperation[];
+export const REPORT_AGGREGATION_LABELS: Record<ReportAggregationOperation, string>;
+export const NUMERIC_AGGREGATIONS: ReportAggregationOperation[];
+export const VALUELESS_OPERATORS: ReportFilterOperator[];
+export const RANGE_OPERATORS: ReportFilterOperator[];
+
+export function getFilterOperators(type?: string): ReportFilterOperator[];
+export function isNumericValue(value: unknown): boolean;
+export function filterListValues(value: unknown): any[];
+export function filterBetweenValues(value: unknown): [any, any];
+export function filterOperands(filter: ReportFilter): any[];
+export function isCompleteFilter(filter?: Partial<ReportFilter> | null): boolean;
+export function normalizeSorting(sorting?: ReportSortKey | ReportSortKey[] | null): ReportSortKey[];
+export function normalizeGrouping(grouping?: { field?: string; fields?: string[] } | null): string[];
+export function normalizePivot(pivot?: Partial<ReportPivot> | null): ReportPivot | null;
@@ -0,0 +1,139 @@
+// shared/reportFilters.js
+// Report filters, sort keys, grouping and pivots, shared by the report builder
+// and the server, which compiles them to database queries
+// (server/utils/reportQuery.js).
+//
+// filter = { field, type?, operator, value }
+//   type   text | number | date | boolean; decides the operators offered and
+//          how values compare: numbers numerically, everything else as text
+//          (dates as ISO text). Filters without a type guess from the value.
+//   value  one value; [min, max] for between, where either end may be
+//          empty; a list or comma-separated text for in; nothing for
+//          is_empty and is_not_empty
+//
+// sorting = [{ field, direction: 'asc' | 'desc' }], applied in order. Reports
+// saved with a single { field, direction } have that as their only key.
+//
+// grouping = { enabled, fields }, outermost group first. Reports saved with a
+// single { field } group by that field alone.
+//
+// pivot = { enabled, rows, column, measure: { field, operation } }: one table
+// row per combination of the rows fields, one column per value of column, and
+// in each cell the measure over the matching rows.
+//
+// Fields are form field names, with dotted paths for lookup and repeater
+// sub-fields, or _status and _createdAt for the submission itself.
+
+export const REPORT_FILTER_OPERATORS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'in',
+  'greater_than',
+  'less_than',
+  'between',
+  'is_empty',
+  'is_not_empty'
+];
+
+export const REPORT_FILTER_OPERATOR_LABELS = {
+  equals: 'Equals',
+  not_equals: 'Does not equal',
+  contains: 'Contains',
+  in: 'Is one of',
+  greater_than: 'Greater than',
+  less_than: 'Less than',
+  between: 'Between',
+  is_empty: 'Is empty',
+  is_not_empty: 'Is not empty'
+};
+
+export const REPORT_FIELD_OPERATORS = {
+  text: ['equals', 'not_equals', 'contains', 'in', 'is_empty', 'is_not_empty'],
+  number: ['equals', 'not_equals', 'in', 'greater_than', 'less_than', 'between', 'is_empty', 'is_not_empty'],
+  date: ['equals', 'not_equals', 'greater_than', 'less_than', 'between', 'is_empty', 'is_not_empty'],
+  boolean: ['equals', 'is_empty', 'is_not_empty']
+};
+
+export const REPORT_AGGREGATIONS = ['sum', 'avg', 'count', 'min', 'max', 'distinct'];
+
+export const REPORT_AGGREGATION_LABELS = {
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  min: 'Minimum',
+  max: 'Maximum',
+  distinct: 'Distinct count'
+};
+
+// Aggregations that only make sense over numbers; count and distinct take any field
+export const NUMERIC_AGGREGATIONS = ['sum', 'avg', 'min', 'max'];
+
+export const VALUELESS_OPERATORS = ['is_empty', 'is_not_empty'];
+export const RANGE_OPERATORS = ['greater_than', 'less_than', 'between'];
+
+// Operators a field of the given type can be filtered with
+export const getFilterOperators = (type) => REPORT_FIELD_OPERATORS[type] || REPORT_FILTER_OPERATORS;
+
+const hasValue = (value) => value !== undefined && value !== null && value !== '';
+
+export const isNumericValue = (value) => (typeof value === 'number'
+  ? Number.isFinite(value)
+  : /^-?[0-9]+([.][0-9]+)?$/.test(String(value ?? '').trim()));
+
+// The values an in filter lists
+export const filterListValues = (value) => (Array.isArray(value) ? value : String(value ?? '').split(','))
+  .map(item => (typeof item === 'string' ? item.trim() : item))
+  .filter(hasValue);
+
+// [min, max] of a between filter
+export const filterBetweenValues = (value) => (Array.isArray(value)
+  ? [value[0], value[1]]
+  : [value?.start ?? value?.min, value?.end ?? value?.max]);
+
+// The values a filter compares against, [] for valueless operators
+export const filterOperands = (filter) => {
+  if (VALUELESS_OPERATORS.includes(filter.operator)) return [];
+  if (filter.operator === 'in') return filterListValues(filter.value);
+  if (filter.operator === 'between') return filterBetweenValues(filter.value).filter(hasValue);
+  return hasValue(filter.value) ? [filter.value] : [];
+};
+
+// Whether a filter has a field, an operator its type allows and the values
+// that operator needs; incomplete filters are not applied
+export const isCompleteFilter = (filter) => {
+  if (!filter?.field || !getFilterOperators(filter.type).includes(filter.operator)) {
+    return false;
+  }
+  if (VALUELESS_OPERATORS.includes(filter.operator)) {
+    return true;
+  }
+
+  const operands = filterOperands(filter);
+  if (operands.length === 0) {
+    return false;
+  }
+  return !(filter.type === 'number' && RANGE_OPERATORS.includes(filter.operator) && !operands.every(isNumericValue));
+};
+
+// Sort keys of a saved report, in order
+export const normalizeSorting = (sorting) => (Array.isArray(sorting) ? sorting : sorting ? [sorting] : [])
+  .filter(key => key?.field)
+  .map(key => ({ field: key.field, direction: key.direction === 'asc' ? 'asc' : 'desc' }));
+
+// Group-by fields of a saved report, outermost first, whether or not grouping
+// is switched on
+export const normalizeGrouping = (grouping) => [...new Set(
+  (Array.isArray(grouping?.fields) ? grouping.fields : [grouping?.field]).filter(Boolean)
+)];
+
+// Pivot settings of a saved report, or null when pivoting is off or lacks a
+// row field, the column field or the measure
+export const normalizePivot = (pivot) => {
+  const rows = [...new Set((Array.isArray(pivot?.rows) ? pivot.rows : []).filter(Boolean))];
+  const { field, operation } = pivot?.measure || {};
+  if (!pivot?.enabled || rows.length === 0 || !pivot.column || !field || !REPORT_AGGREGATIONS.includes(operation)) {
+    return null;
+  }
+  return { rows, column: pivot.column, measure: { field, operation } };
+};
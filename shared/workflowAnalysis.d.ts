@@ -0,0 +1,36 @@
+import type { WorkflowStageRef, WorkflowTransition, ConditionSubject } from './workflowConditions.js';
+
+export interface WorkflowDefinition {
+  stages?: WorkflowStageRef[];
+  transitions?: WorkflowTransition[];
+  settings?: { autoProgress?: boolean } & Record<string, any>;
+}
+
+export interface WorkflowAnalysis {
+  errors: string[];
+  warnings: string[];
+}
+
+export interface SimulationStep {
+  stage: string;
+  name?: string;
+  action: string | null;
+  skipped: boolean;
+  to: string | null;
+  isDefault?: boolean;
+}
+
+export type SimulationOutcome = 'approved' | 'rejected' | 'returned' | 'waiting' | 'stuck' | 'loop';
+
+export interface WorkflowSimulation {
+  steps: SimulationStep[];
+  outcome: SimulationOutcome;
+  endStage: string | null;
+}
+
+export function analyzeWorkflow(workflow?: WorkflowDefinition, fieldNames?: string[] | null): WorkflowAnalysis;
+export function simulateWorkflow(
+  workflow?: WorkflowDefinition,
+  subject?: Omit<ConditionSubject, 'status'>,
+  actions?: Record<string, string>
+): WorkflowSimulation;
@@ -0,0 +1,207 @@
+// shared/workflowAnalysis.js
+// Static analysis of a workflow definition, and a dry run of the path a
+// submission would take through it.
+//
+// A submission leaves the workflow when it is rejected, or approved at a
+// stage where no transition takes the approve action; every other action
+// without a transition leaves it waiting where it is. The first stage is
+// the entry stage. Requesting changes sends a submission back to its
+// submitter and does not follow transitions.
+
+import {
+  buildConditionValues,
+  getOutgoingTransitions,
+  hasCondition,
+  isStageRequired,
+  selectTransition,
+  validateStageConditions,
+  validateWorkflowTransitions
+} from './workflowConditions.js';
+
+// Stages a submission is sent through before the simulation gives up
+const MAX_SIMULATION_STEPS = 100;
+
+const stageLabel = (stage) => `Stage "${stage.name || stage.id}"`;
+
+// Whether a submission can leave the workflow at a stage
+const mayEndAt = (stage, transitions) => {
+  const actions = stage.actions || [];
+  if (actions.includes('reject')) {
+    return true;
+  }
+  // Approving ends the workflow unless a transition is always taken
+  return actions.includes('approve') &&
+    !getOutgoingTransitions(transitions, stage.id, 'approve')
+      .some(transition => transition.isDefault || !hasCondition(transition));
+};
+
+// Stage ids reachable from a start stage, following every transition
+const reachableFrom = (startId, edges) => {
+  const reached = new Set([startId]);
+  const queue = [startId];
+  while (queue.length > 0) {
+    (edges.get(queue.shift()) || []).forEach(next => {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  return reached;
+};
+
+/**
+ * Full static analysis of a workflow. Errors make the workflow unusable:
+ * transitions to unknown stages or with actions their stage does not offer,
+ * invalid conditions, stages without actions, and stages or loops a
+ * submission can never leave. Warnings point at stages no submission can
+ * reach.
+ */
+export function analyzeWorkflow(workflow = {}, fieldNames = null) {
+  const stages = Array.isArray(workflow.stages) ? workflow.stages : [];
+  const transitions = Array.isArray(workflow.transitions) ? workflow.transitions : [];
+  const errors = [
+    ...validateWorkflowTransitions(workflow, fieldNames),
+    ...validateStageConditions(workflow, fieldNames)
+  ];
+  const warnings = [];
+
+  if (stages.length === 0) {
+    return { errors, warnings };
+  }
+
+  const stagesById = new Map();
+  stages.forEach(stage => {
+    if (stagesById.has(stage.id)) {
+      errors.push(`${stageLabel(stage)}: id "${stage.id}" is used by more than one stage`);
+    }
+    stagesById.set(stage.id, stage);
+  });
+
+  // Edges between known stages, forwards and backwards
+  const edges = new Map();
+  const reverseEdges = new Map();
+  transitions
+    .filter(transition => stagesById.has(transition.from) && stagesById.has(transition.to))
+    .forEach(({ from, to }) => {
+      edges.set(from, [...(edges.get(from) || []), to]);
+      reverseEdges.set(to, [...(reverseEdges.get(to) || []), from]);
+    });
+
+  const entry = stages[0];
+  const reachable = reachableFrom(entry.id, edges);
+  stages
+    .filter(stage => !reachable.has(stage.id))
+    .forEach(stage => warnings.push(`${stageLabel(stage)} cannot be reached from the entry stage "${entry.name || entry.id}"`));
+
+  // Stages from which a submission can get out of the workflow
+  const canFinish = new Set();
+  stages
+    .filter(stage => mayEndAt(stage, transitions))
+    .forEach(stage => reachableFrom(stage.id, reverseEdges).forEach(id => canFinish.add(id)));
+
+  const trapped = stages.filter(stage => !canFinish.has(stage.id));
+  const trappedIds = new Set(trapped.map(stage => stage.id));
+  const trappedEdges = new Map([...edges].map(([from, to]) => [from, to.filter(id => trappedIds.has(id))]));
+  const reported = new Set();
+
+  trapped.forEach(stage => {
+    if (reported.has(stage.id)) return;
+
+    if (!(stage.actions || []).length) {
+      errors.push(`${stageLabel(stage)} has no actions, so submissions there can never move on`);
+      reported.add(stage.id);
+      return;
+    }
+
+    // Trapped stages that lead back to this one form a loop with no way out
+    const returning = [...reachableFrom(stage.id, trappedEdges)]
+      .filter(id => id !== stage.id && reachableFrom(id, trappedEdges).has(stage.id));
+    const selfLoop = (trappedEdges.get(stage.id) || []).includes(stage.id);
+    const loop = returning.length > 0 || selfLoop ? [stage.id, ...returning] : [];
+
+    if (loop.length > 0) {
+      const names = loop.map(id => `"${stagesById.get(id).name || id}"`).join(', ');
+      errors.push(`Stages ${names} form a loop that submissions can never leave`);
+      loop.forEach(id => reported.add(id));
+    } else {
+      errors.push(`${stageLabel(stage)} has no exit: no path from it rejects or completes the submission`);
+      reported.add(stage.id);
+    }
+  });
+
+  return { errors, warnings };
+}
+
+/**
+ * Dry run of a submission through a workflow. subject is what conditions are
+ * evaluated against (data, metadata, submitter); actions maps stage ids to
+ * the action taken there, by default approve. With settings.autoProgress,
+ * stages whose conditions do not match are skipped as at the real start.
+ */
+export function simulateWorkflow(workflow = {}, subject = {}, actions = {}) {
+  const stages = Array.isArray(workflow.stages) ? workflow.stages : [];
+  const transitions = Array.isArray(workflow.transitions) ? workflow.transitions : [];
+  const autoProgress = Boolean(workflow.settings?.autoProgress);
+  const steps = [];
+  const visited = new Set();
+  let status = 'submitted';
+  let stage = stages[0];
+
+  if (!stage) {
+    return { steps, outcome: 'approved', endStage: null };
+  }
+
+  while (steps.length < MAX_SIMULATION_STEPS) {
+    // Conditions see the status the submission would have on reaching the stage
+    const values = buildConditionValues({ ...subject, status });
+    const key = `${stage.id}:${status}`;
+    if (visited.has(key)) {
+      return { steps, outcome: 'loop', endStage: stage.id };
+    }
+    visited.add(key);
+
+    const skipped = autoProgress && !isStageRequired(stage, values);
+    const available = stage.actions || [];
+    const action = skipped
+      ? 'approve'
+      : available.includes(actions[stage.id]) ? actions[stage.id]
+        : available.includes('approve') ? 'approve' : available[0];
+
+    if (!action) {
+      steps.push({ stage: stage.id, name: stage.name, action: null, skipped, to: null });
+      return { steps, outcome: 'stuck', endStage: stage.id };
+    }
+
+    // Requesting changes sends the submission back to its submitter, not along a transition
+    if (action === 'request_changes') {
+      steps.push({ stage: stage.id, name: stage.name, action, skipped, to: null });
+      return { steps, outcome: 'returned', endStage: stage.id };
+    }
+
+    const transition = selectTransition(transitions, stage.id, action, values);
+    const next = transition ? stages.find(item => item.id === transition.to) : null;
+    steps.push({
+      stage: stage.id,
+      name: stage.name,
+      action,
+      skipped,
+      to: next ? next.id : null,
+      isDefault: Boolean(transition?.isDefault)
+    });
+
+    if (action === 'reject') {
+      return { steps, outcome: 'rejected', endStage: next ? next.id : stage.id };
+    }
+    if (!next) {
+      return action === 'approve'
+        ? { steps, outcome: 'approved', endStage: stage.id }
+        : { steps, outcome: 'waiting', endStage: stage.id };
+    }
+
+    if (action === 'approve') status = 'in_review';
+    stage = next;
+  }
+
+  return { steps, outcome: 'loop', endStage: stage.id };
+}
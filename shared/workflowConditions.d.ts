@@ -0,0 +1,49 @@
+import type { ConditionGroup } from './conditionalLogic.js';
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  action?: string;
+  condition?: ConditionGroup | Record<string, never>;
+  isDefault?: boolean;
+}
+
+export interface WorkflowStageRef {
+  id: string;
+  name?: string;
+  actions?: string[];
+  conditions?: ConditionGroup | Record<string, never>;
+}
+
+export interface ConditionSubject {
+  data?: Record<string, any>;
+  metadata?: Record<string, any>;
+  submitter?: { id?: string | null; role?: string | null } | null;
+  status?: string;
+}
+
+export const CONTEXT_FIELDS: string[];
+export const METADATA_PREFIX: string;
+
+export function hasCondition(transition?: WorkflowTransition | null): boolean;
+export function buildConditionValues(subject?: ConditionSubject): Record<string, any>;
+export function getOutgoingTransitions<T extends WorkflowTransition>(
+  transitions: T[] | undefined,
+  from: string,
+  action: string
+): T[];
+export function selectTransition<T extends WorkflowTransition>(
+  transitions: T[] | undefined,
+  from: string,
+  action: string,
+  values?: Record<string, any>
+): T | null;
+export function isStageRequired(stage: WorkflowStageRef, values?: Record<string, any>): boolean;
+export function validateWorkflowTransitions(
+  workflow?: { stages?: WorkflowStageRef[]; transitions?: WorkflowTransition[] },
+  fieldNames?: string[] | null
+): string[];
+export function validateStageConditions(
+  workflow?: { stages?: WorkflowStageRef[] },
+  fieldNames?: string[] | null
+): string[];
@@ -0,0 +1,178 @@
+// shared/workflowConditions.js
+// Workflow transition conditions. They use the condition grammar of
+// conditionalLogic.js, evaluated against a submission instead of form values:
+//
+// transition = {
+//   from, to, action?,
+//   condition?: { match: 'all' | 'any', conditions: [Condition | Group] },
+//   isDefault?: true
+// }
+//
+// A condition's field is one of:
+//   <field name>        a value of the submission data, e.g. amount
+//   metadata.<key>      a value of the submission metadata
+//   submitter.id        the id of the user who submitted
+//   submitter.role      their role
+//   submission.status   the submission status
+//
+// Transitions leaving a stage for an action are tried in order; the first
+// one without a condition or whose condition matches is taken. A transition
+// marked isDefault is the else branch, taken only when no other one matches.
+//
+// A stage's conditions use the same grammar. When the workflow settings
+// enable autoProgress, a stage whose conditions do not match is not needed
+// and is passed through as if it had been approved.
+
+import { CONDITION_OPERATORS, UNARY_OPERATORS, evaluateGroup } from './conditionalLogic.js';
+
+export const CONTEXT_FIELDS = ['submitter.id', 'submitter.role', 'submission.status'];
+
+export const METADATA_PREFIX = 'metadata.';
+
+const isGroup = (item) => item && Array.isArray(item.conditions);
+
+// Whether a transition is only taken when its condition matches
+export const hasCondition = (transition) => (
+  isGroup(transition?.condition) && transition.condition.conditions.length > 0
+);
+
+const isSet = (condition) => Boolean(condition) && Object.keys(condition).length > 0;
+
+// Flatten a submission into the values conditions are evaluated against
+export function buildConditionValues({ data = {}, metadata = {}, submitter = null, status } = {}) {
+  const values = { ...(data || {}) };
+
+  Object.entries(metadata || {}).forEach(([key, value]) => {
+    values[`${METADATA_PREFIX}${key}`] = value;
+  });
+  values['submitter.id'] = submitter?.id ?? null;
+  values['submitter.role'] = submitter?.role ?? null;
+  values['submission.status'] = status ?? null;
+
+  return values;
+}
+
+// Transitions that leave a stage for an action, in their configured order
+export const getOutgoingTransitions = (transitions = [], from, action) => (
+  transitions.filter(transition =>
+    transition.from === from && (!transition.action || transition.action === action)
+  )
+);
+
+/**
+ * Pick the transition to follow from a stage, or null when none applies.
+ */
+export function selectTransition(transitions = [], from, action, values = {}) {
+  const outgoing = getOutgoingTransitions(transitions, from, action);
+
+  const matched = outgoing.find(transition =>
+    !transition.isDefault && (!hasCondition(transition) || evaluateGroup(transition.condition, values))
+  );
+
+  return matched || outgoing.find(transition => transition.isDefault) || null;
+}
+
+// Whether a stage applies to a submission; stages without conditions always do
+export const isStageRequired = (stage, values = {}) => (
+  !isGroup(stage?.conditions) || evaluateGroup(stage.conditions, values)
+);
+
+// Checks one condition group, pushing "<label>: <problem>" messages to errors
+const checkConditionGroup = (group, path, label, isKnownField, errors) => {
+  if (!isGroup(group)) {
+    errors.push(`${label}: ${path} must contain a conditions array`);
+    return;
+  }
+  if (group.match && !['all', 'any'].includes(group.match)) {
+    errors.push(`${label}: ${path} has invalid match "${group.match}"`);
+  }
+  group.conditions.forEach((item, itemIndex) => {
+    const itemPath = `${path}.conditions[${itemIndex}]`;
+    if (isGroup(item)) {
+      checkConditionGroup(item, itemPath, label, isKnownField, errors);
+      return;
+    }
+    if (!item?.field || !isKnownField(item.field)) {
+      errors.push(`${label}: ${itemPath} references unknown field "${item?.field}"`);
+    }
+    if (!CONDITION_OPERATORS.includes(item?.operator)) {
+      errors.push(`${label}: ${itemPath} has invalid operator "${item?.operator}"`);
+    } else if (!UNARY_OPERATORS.includes(item.operator) &&
+        (item.value === undefined || item.value === null || item.value === '')) {
+      errors.push(`${label}: ${itemPath} needs a value to compare with`);
+    }
+  });
+};
+
+const fieldChecker = (fieldNames) => {
+  const knownFields = fieldNames ? new Set(fieldNames) : null;
+  return (field) => (
+    CONTEXT_FIELDS.includes(field) ||
+    (field.startsWith(METADATA_PREFIX) && field.length > METADATA_PREFIX.length) ||
+    !knownFields ||
+    knownFields.has(field)
+  );
+};
+
+/**
+ * Static checks used when a workflow is saved. fieldNames are the fields of
+ * the workflow's form; when they are not known, field references are not
+ * checked.
+ */
+export function validateWorkflowTransitions(workflow = {}, fieldNames = null) {
+  const errors = [];
+  const stages = Array.isArray(workflow.stages) ? workflow.stages : [];
+  const transitions = Array.isArray(workflow.transitions) ? workflow.transitions : [];
+  const stagesById = new Map(stages.map(stage => [stage.id, stage]));
+  const isKnownField = fieldChecker(fieldNames);
+  const defaults = new Set();
+
+  transitions.forEach((transition, index) => {
+    const label = `Transition ${index + 1} (${transition?.from} -> ${transition?.to})`;
+
+    if (!stagesById.has(transition?.from)) {
+      errors.push(`${label}: unknown stage "${transition?.from}"`);
+    }
+    if (!stagesById.has(transition?.to)) {
+      errors.push(`${label}: unknown stage "${transition?.to}"`);
+    }
+
+    const fromStage = stagesById.get(transition?.from);
+    if (fromStage && transition.action && !(fromStage.actions || []).includes(transition.action)) {
+      errors.push(`${label}: action "${transition.action}" is not available on stage "${fromStage.name || fromStage.id}"`);
+    }
+
+    if (transition?.isDefault) {
+      if (hasCondition(transition)) {
+        errors.push(`${label}: a default transition cannot have a condition`);
+      }
+      const key = `${transition.from}:${transition.action || ''}`;
+      if (defaults.has(key)) {
+        errors.push(`${label}: only one default transition is allowed per stage and action`);
+      }
+      defaults.add(key);
+      return;
+    }
+
+    if (isSet(transition?.condition)) {
+      checkConditionGroup(transition.condition, 'condition', label, isKnownField, errors);
+    }
+  });
+
+  return errors;
+}
+
+// Static checks of the stages' own conditions, used alongside validateWorkflowTransitions
+export function validateStageConditions(workflow = {}, fieldNames = null) {
+  const errors = [];
+  const stages = Array.isArray(workflow.stages) ? workflow.stages : [];
+  const isKnownField = fieldChecker(fieldNames);
+
+  stages.forEach(stage => {
+    if (isSet(stage?.conditions)) {
+      checkConditionGroup(stage.conditions, 'conditions', `Stage "${stage.name || stage.id}"`, isKnownField, errors);
+    }
+  });
+
+  return errors;
+}